@@ -0,0 +1,60 @@
+-- ============================================
+-- Alerts - Rules Engine & In-app Inbox
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- geo-audit evaluates alert rules after every saved audit
+-- (supabase/functions/_shared/alerts.ts). Rules are configured per client
+-- in clients.settings.notifications:
+--
+--   {
+--     "email_alerts": false,
+--     "sov_threshold": 20,
+--     "alert_on_competitor_gain": true,
+--     "alert_on_model_drop": true,
+--     "alert_on_citation_loss": true,
+--     "notification_email": null,
+--     "webhook_url": null
+--   }
+--
+-- Email needs SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS / SMTP_FROM
+-- set as edge function secrets.
+-- ============================================
+
+-- Step 1: Client columns used by the rules
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS brand_domain TEXT;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS settings JSONB DEFAULT '{}'::jsonb;
+
+-- Step 2: Create alerts table (in-app inbox)
+CREATE TABLE IF NOT EXISTS alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  audit_result_id UUID REFERENCES audit_results(id) ON DELETE CASCADE,
+  prompt_id UUID,
+  rule TEXT NOT NULL CHECK (rule IN ('sov_below_threshold', 'competitor_overtook', 'brand_dropped', 'brand_citation_lost')),
+  severity TEXT DEFAULT 'warning' CHECK (severity IN ('info', 'warning', 'critical')),
+  model TEXT,
+  title TEXT NOT NULL,
+  message TEXT,
+  details JSONB DEFAULT '{}',
+  is_read BOOLEAN DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+ALTER TABLE alerts DISABLE ROW LEVEL SECURITY;
+
+-- Step 3: Indexes
+CREATE INDEX IF NOT EXISTS idx_alerts_client ON alerts(client_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_unread ON alerts(client_id) WHERE is_read = false;
+
+-- Step 4: Grant access (matches disable_rls_and_setup.sql)
+GRANT ALL ON alerts TO anon, authenticated;
+
+-- Example: alert Juleo below 30% SOV and email the team
+-- UPDATE clients
+-- SET settings = jsonb_set(COALESCE(settings, '{}'::jsonb), '{notifications}',
+--   '{"email_alerts": true, "sov_threshold": 30, "notification_email": "team@juleo.club"}'::jsonb)
+-- WHERE slug = 'juleo';
+
+-- Success message
+SELECT 'Alerts table created successfully!' as status;
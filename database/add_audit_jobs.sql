@@ -0,0 +1,39 @@
+-- ============================================
+-- Audit Jobs - Server-side Batch Runs
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- Adds the table written by geo-audit in batch mode ({ mode: "batch" }).
+-- The dashboard polls it for progress, so a run keeps going
+-- (and can be resumed in the UI) after the tab is closed.
+-- ============================================
+
+-- Step 1: Create audit_jobs table
+CREATE TABLE IF NOT EXISTS audit_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  prompt_ids UUID[] DEFAULT '{}',
+  models TEXT[],
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'partial', 'failed')),
+  prompts_total INTEGER DEFAULT 0,
+  prompts_completed INTEGER DEFAULT 0,
+  prompts_failed INTEGER DEFAULT 0,
+  audit_result_ids UUID[] DEFAULT '{}',
+  total_cost DECIMAL(10,6) DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+ALTER TABLE audit_jobs DISABLE ROW LEVEL SECURITY;
+
+-- Step 2: Indexes
+CREATE INDEX IF NOT EXISTS idx_audit_jobs_client ON audit_jobs(client_id, created_at DESC);
+
+-- Step 3: Grant access (matches disable_rls_and_setup.sql)
+GRANT ALL ON audit_jobs TO anon, authenticated;
+
+-- Success message
+SELECT 'Audit jobs table created successfully!' as status;
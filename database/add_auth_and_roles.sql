@@ -0,0 +1,288 @@
+-- ============================================
+-- Auth & Roles - Organizations, Members, Row Level Security
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- Turns the dashboard from "anon key sees everything" into signed-in,
+-- organization-scoped access. Undoes disable_rls_and_setup.sql for the
+-- dashboard tables.
+--
+-- Roles (same rules as supabase/functions/_shared/permissions.ts):
+--   viewer  read clients, prompts and results
+--   member  + run audits, manage prompts, track outreach
+--   admin   + competitors, client settings, clients, members
+--   owner   same as admin
+--
+-- organization_members.client_ids limits a member or viewer to those
+-- clients (agency staff on their accounts); NULL = every client.
+--
+-- Existing clients move into a "Forzeo" organization. After running this:
+--   1. Enable Email sign-in (Authentication > Providers)
+--   2. Sign up in the dashboard, then make yourself its owner:
+--      INSERT INTO organization_members (organization_id, user_id, role, accepted_at)
+--      SELECT o.id, u.id, 'owner', NOW() FROM organizations o, users u
+--      WHERE o.slug = 'forzeo' AND u.email = 'you@example.com';
+--
+-- Edge functions use the service role key and are not affected by RLS;
+-- they check the caller's role themselves (_shared/auth.ts).
+-- ============================================
+
+-- Step 1: Roles, organizations, users, members (schema.sql has them; older setups don't)
+DO $$ BEGIN
+  CREATE TYPE user_role AS ENUM ('owner', 'admin', 'member', 'viewer');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) >= 2 AND char_length(name) <= 100),
+  slug TEXT UNIQUE NOT NULL CHECK (slug ~ '^[a-z0-9-]+$'),
+  max_audits_per_month INTEGER DEFAULT 100,
+  settings JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  full_name TEXT,
+  avatar_url TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  last_login_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role user_role DEFAULT 'member',
+  invited_by UUID REFERENCES users(id),
+  invited_at TIMESTAMPTZ DEFAULT NOW(),
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(organization_id, user_id)
+);
+
+-- Clients a member/viewer may see (NULL = all of the organization's clients)
+ALTER TABLE organization_members ADD COLUMN IF NOT EXISTS client_ids UUID[];
+
+CREATE INDEX IF NOT EXISTS idx_org_members_org ON organization_members(organization_id);
+CREATE INDEX IF NOT EXISTS idx_org_members_user ON organization_members(user_id);
+
+-- Step 2: Every client belongs to an organization
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+INSERT INTO organizations (name, slug) VALUES ('Forzeo', 'forzeo')
+ON CONFLICT (slug) DO NOTHING;
+
+UPDATE clients
+SET organization_id = (SELECT id FROM organizations WHERE slug = 'forzeo')
+WHERE organization_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_clients_org ON clients(organization_id);
+
+-- Step 3: Profile row for every new sign-up
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.users (id, email, full_name)
+  VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'full_name')
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+INSERT INTO users (id, email)
+SELECT id, email FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Step 4: Role lookups used by the policies (SECURITY DEFINER so they can read members under RLS)
+CREATE OR REPLACE FUNCTION org_role(p_organization_id UUID)
+RETURNS user_role AS $$
+  SELECT role FROM organization_members
+  WHERE organization_id = p_organization_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The caller's role for a client, NULL if its membership doesn't cover the client
+CREATE OR REPLACE FUNCTION client_role(p_client_id UUID)
+RETURNS user_role AS $$
+  SELECT om.role
+  FROM clients c
+  JOIN organization_members om ON om.organization_id = c.organization_id AND om.user_id = auth.uid()
+  WHERE c.id = p_client_id
+    AND (om.role IN ('owner', 'admin') OR om.client_ids IS NULL OR c.id = ANY(om.client_ids));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION org_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION client_role(UUID) TO authenticated;
+
+-- Step 5: Creating an organization makes the caller its owner
+CREATE OR REPLACE FUNCTION create_organization(p_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+  v_slug TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN RAISE EXCEPTION 'Sign in required'; END IF;
+  v_slug := trim(both '-' from regexp_replace(lower(p_name), '[^a-z0-9]+', '-', 'g'));
+  IF EXISTS (SELECT 1 FROM organizations WHERE slug = v_slug) THEN
+    v_slug := v_slug || '-' || substr(md5(random()::text), 1, 6);
+  END IF;
+
+  INSERT INTO organizations (name, slug) VALUES (p_name, v_slug) RETURNING id INTO v_id;
+  INSERT INTO organization_members (organization_id, user_id, role, accepted_at)
+  VALUES (v_id, auth.uid(), 'owner', NOW());
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Admins add people who have signed up, by email
+CREATE OR REPLACE FUNCTION add_organization_member(p_organization_id UUID, p_email TEXT, p_role user_role DEFAULT 'member')
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID;
+  v_member_id UUID;
+BEGIN
+  IF org_role(p_organization_id) NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can add members';
+  END IF;
+  IF p_role = 'owner' AND org_role(p_organization_id) <> 'owner' THEN
+    RAISE EXCEPTION 'Only owners can add owners';
+  END IF;
+
+  SELECT id INTO v_user_id FROM users WHERE lower(email) = lower(trim(p_email));
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No account for %: ask them to sign up first', p_email;
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id, role, invited_by, accepted_at)
+  VALUES (p_organization_id, v_user_id, p_role, auth.uid(), NOW())
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING id INTO v_member_id;
+  RETURN v_member_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_organization(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_organization_member(UUID, TEXT, user_role) TO authenticated;
+
+-- Step 6: Row Level Security
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE clients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forzeo_prompts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forzeo_citations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forzeo_api_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE outreach_opportunities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_audits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_audit_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE response_cache ENABLE ROW LEVEL SECURITY;  -- no policies: edge functions only
+
+-- Organizations: members read, owners/admins update
+DROP POLICY IF EXISTS org_read_members ON organizations;
+CREATE POLICY org_read_members ON organizations
+  FOR SELECT USING (org_role(id) IS NOT NULL);
+DROP POLICY IF EXISTS org_update_admins ON organizations;
+CREATE POLICY org_update_admins ON organizations
+  FOR UPDATE USING (org_role(id) IN ('owner', 'admin'));
+
+-- Users: own profile, plus people in the same organizations (member list)
+DROP POLICY IF EXISTS users_read_own ON users;
+CREATE POLICY users_read_own ON users
+  FOR SELECT USING (
+    auth.uid() = id
+    OR id IN (SELECT user_id FROM organization_members WHERE org_role(organization_id) IS NOT NULL)
+  );
+DROP POLICY IF EXISTS users_update_own ON users;
+CREATE POLICY users_update_own ON users
+  FOR UPDATE USING (auth.uid() = id);
+
+-- Members: everyone sees their organization's members, owners/admins manage them
+DROP POLICY IF EXISTS members_read ON organization_members;
+CREATE POLICY members_read ON organization_members
+  FOR SELECT USING (org_role(organization_id) IS NOT NULL);
+DROP POLICY IF EXISTS members_manage_admins ON organization_members;
+CREATE POLICY members_manage_admins ON organization_members
+  FOR UPDATE USING (org_role(organization_id) IN ('owner', 'admin') AND (role <> 'owner' OR org_role(organization_id) = 'owner'));
+DROP POLICY IF EXISTS members_remove_admins ON organization_members;
+CREATE POLICY members_remove_admins ON organization_members
+  FOR DELETE USING (org_role(organization_id) IN ('owner', 'admin') AND (role <> 'owner' OR org_role(organization_id) = 'owner'));
+
+-- Clients: read with access, create/edit/delete as owner/admin
+DROP POLICY IF EXISTS clients_read_members ON clients;
+DROP POLICY IF EXISTS clients_manage_admins ON clients;
+DROP POLICY IF EXISTS clients_insert_admins ON clients;
+DROP POLICY IF EXISTS clients_update_admins ON clients;
+DROP POLICY IF EXISTS clients_delete_admins ON clients;
+CREATE POLICY clients_read_members ON clients
+  FOR SELECT USING (client_role(id) IS NOT NULL);
+CREATE POLICY clients_insert_admins ON clients
+  FOR INSERT WITH CHECK (org_role(organization_id) IN ('owner', 'admin'));
+CREATE POLICY clients_update_admins ON clients
+  FOR UPDATE USING (client_role(id) IN ('owner', 'admin'))
+  WITH CHECK (org_role(organization_id) IN ('owner', 'admin'));  -- can't move a client into another organization
+CREATE POLICY clients_delete_admins ON clients
+  FOR DELETE USING (client_role(id) IN ('owner', 'admin'));
+
+-- Client data: read with access, write as member or above
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['forzeo_prompts', 'audit_results', 'forzeo_citations', 'audit_jobs',
+                           'alerts', 'outreach_opportunities', 'scheduled_audits', 'scheduled_audit_runs']
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_read', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_write', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR SELECT USING (client_role(client_id) IS NOT NULL)', t || '_read', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR ALL USING (client_role(client_id) IN (''owner'', ''admin'', ''member'')) WITH CHECK (client_role(client_id) IN (''owner'', ''admin'', ''member''))', t || '_write', t);
+  END LOOP;
+END $$;
+
+-- Viewers may mark alerts read, and change nothing else (RPC instead of an UPDATE policy)
+DROP POLICY IF EXISTS alerts_mark_read ON alerts;
+CREATE OR REPLACE FUNCTION mark_alerts_read(p_alert_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE alerts SET is_read = true
+  WHERE id = ANY(p_alert_ids) AND client_role(client_id) IS NOT NULL;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION mark_alerts_read(UUID[]) TO authenticated;
+
+-- API usage: read only, written by the edge functions
+DROP POLICY IF EXISTS forzeo_api_usage_read ON forzeo_api_usage;
+CREATE POLICY forzeo_api_usage_read ON forzeo_api_usage
+  FOR SELECT USING (client_role(client_id) IS NOT NULL);
+
+-- Step 7: Functions that bypassed RLS now run as the caller
+ALTER FUNCTION get_client_visibility_trends(UUID, INTEGER, TEXT, UUID) SECURITY INVOKER;
+
+-- Step 8: Nothing for the anon key (signed-in users get the grants above through RLS)
+REVOKE ALL ON clients, forzeo_prompts, audit_results, forzeo_citations, forzeo_api_usage, audit_jobs,
+  alerts, outreach_opportunities, scheduled_audits, scheduled_audit_runs, response_cache FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON organizations, users, organization_members TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_client_visibility_trends(UUID, INTEGER, TEXT, UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION get_monthly_spend(UUID, UUID, DATE) FROM anon;
+REVOKE EXECUTE ON FUNCTION mark_alerts_read(UUID[]) FROM anon;
+
+-- Success message
+SELECT 'Auth, organizations and roles set up successfully!' as status;
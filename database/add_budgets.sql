@@ -0,0 +1,58 @@
+-- ============================================
+-- Budgets - Monthly Spend Caps
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- geo-audit estimates the cost of every request before calling a provider
+-- and rejects or trims it when a monthly budget would be exceeded. Spend is
+-- read from forzeo_api_usage, which now gets one row per provider call
+-- (api_name dataforseo_llm_mentions / dataforseo_live_llm /
+-- dataforseo_ai_overview / dataforseo_serp) with the real cost.
+--
+-- Limits (USD per calendar month, UTC):
+--   clients.settings.budget.monthly_limit_usd    (Settings -> Budget)
+--   organizations.settings.monthly_budget_usd    (+ organizations.max_audits_per_month)
+--   MONTHLY_BUDGET_USD secret                    for clients without an organization
+--
+-- Needs clients.settings from add_alerts.sql.
+-- ============================================
+
+-- Step 1: Indexes for month-to-date queries
+CREATE INDEX IF NOT EXISTS idx_forzeo_api_usage_client_created ON forzeo_api_usage(client_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_forzeo_api_usage_org_created ON forzeo_api_usage(organization_id, created_at DESC);
+
+-- Step 2: Create the function
+-- Month-to-date spend for one client, one organization, or everything (both NULL)
+CREATE OR REPLACE FUNCTION get_monthly_spend(
+  p_client_id UUID DEFAULT NULL,
+  p_organization_id UUID DEFAULT NULL,
+  month_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  total_cost DECIMAL,
+  request_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COALESCE(SUM(au.cost), 0)::DECIMAL,
+    COALESCE(SUM(au.request_count), 0)::BIGINT
+  FROM forzeo_api_usage au
+  WHERE (p_client_id IS NULL OR au.client_id = p_client_id)
+    AND (p_organization_id IS NULL OR au.organization_id = p_organization_id)
+    AND au.created_at >= date_trunc('month', month_date::TIMESTAMPTZ)
+    AND au.created_at < date_trunc('month', month_date::TIMESTAMPTZ) + INTERVAL '1 month';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Step 3: Grant access (matches disable_rls_and_setup.sql)
+GRANT EXECUTE ON FUNCTION get_monthly_spend(UUID, UUID, DATE) TO anon, authenticated;
+
+-- Example: cap Juleo at $25 per month
+-- UPDATE clients
+-- SET settings = jsonb_set(COALESCE(settings, '{}'::jsonb), '{budget}', '{"monthly_limit_usd": 25}'::jsonb)
+-- WHERE slug = 'juleo';
+
+-- Success message
+SELECT 'Budget function created successfully!' as status;
@@ -0,0 +1,51 @@
+-- ============================================
+-- Content Briefs - Briefs From Audit Gaps
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- "Generate brief from gaps" on a prompt collects the competitors that won,
+-- the entities listed ahead of the brand and the cited domains from its
+-- latest audit, asks generate-content for a content_brief and keeps the
+-- validated result here (schema: supabase/functions/_shared/contentBrief.ts).
+-- Briefs stay editable; `gaps` keeps the audit data they were built from.
+--
+-- Requires database/add_auth_and_roles.sql (client_role).
+-- ============================================
+
+-- Step 1: Create content_briefs table
+CREATE TABLE IF NOT EXISTS content_briefs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  prompt_id UUID,                  -- forzeo_prompts.id; the brief outlives the prompt
+  audit_result_id UUID REFERENCES audit_results(id) ON DELETE SET NULL,
+  prompt_text TEXT NOT NULL,
+  title TEXT NOT NULL,             -- brief->>'title', for lists
+  brief JSONB NOT NULL,            -- ContentBrief
+  gaps JSONB,                      -- BriefGaps the brief was generated from
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'published')),
+  generated_by TEXT,               -- "<provider>:<model>"
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 2: Indexes
+CREATE INDEX IF NOT EXISTS idx_content_briefs_client ON content_briefs(client_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_content_briefs_prompt ON content_briefs(prompt_id);
+
+-- Step 3: Everyone with access to the client reads, members and above write
+ALTER TABLE content_briefs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS content_briefs_read ON content_briefs;
+CREATE POLICY content_briefs_read ON content_briefs
+  FOR SELECT USING (client_role(client_id) IS NOT NULL);
+DROP POLICY IF EXISTS content_briefs_write ON content_briefs;
+CREATE POLICY content_briefs_write ON content_briefs
+  FOR ALL USING (client_role(client_id) IN ('owner', 'admin', 'member'))
+  WITH CHECK (client_role(client_id) IN ('owner', 'admin', 'member'));
+
+REVOKE ALL ON content_briefs FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON content_briefs TO authenticated;
+
+-- Success message
+SELECT 'Content briefs table created successfully!' as status;
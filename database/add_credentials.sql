@@ -0,0 +1,99 @@
+-- ============================================
+-- Credentials - Per-Organization Provider Keys (encrypted)
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- Each organization can store its own DataForSEO, OpenAI, Anthropic,
+-- Gemini, Perplexity and Groq keys (supabase/functions/_shared/credentialProviders.ts).
+--
+-- - Keys are encrypted with pgcrypto (pgp_sym_encrypt). The passphrase is the
+--   CREDENTIALS_ENCRYPTION_KEY edge function secret and is never stored in
+--   the database; set it before adding keys:
+--     npx supabase secrets set CREDENTIALS_ENCRYPTION_KEY=$(openssl rand -hex 32)
+-- - Only the service role (edge functions) can encrypt or decrypt.
+-- - Owners and admins can read the metadata (provider, hint, last test),
+--   never the key itself.
+-- - Providers without an organization key keep using the project's secrets.
+--
+-- Requires database/add_auth_and_roles.sql (organizations, org_role).
+-- ============================================
+
+-- Step 1: pgcrypto (enabled on Supabase by default, in the extensions schema)
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Step 2: Keys table
+CREATE TABLE IF NOT EXISTS organization_credentials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('dataforseo', 'openai', 'anthropic', 'gemini', 'perplexity', 'groq')),
+  secret BYTEA NOT NULL,           -- pgp_sym_encrypt(key, CREDENTIALS_ENCRYPTION_KEY)
+  key_hint TEXT,                   -- last characters, for display
+  last_tested_at TIMESTAMPTZ,
+  last_test_ok BOOLEAN,
+  last_test_message TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  rotated_at TIMESTAMPTZ,          -- last time the key was replaced
+  UNIQUE (organization_id, provider)
+);
+
+CREATE INDEX IF NOT EXISTS idx_org_credentials_org ON organization_credentials(organization_id);
+
+-- Step 3: Encrypt / decrypt (service role only)
+-- Saving over an existing key rotates it and clears the last test result
+CREATE OR REPLACE FUNCTION set_organization_credential(
+  p_organization_id UUID,
+  p_provider TEXT,
+  p_secret TEXT,
+  p_key_hint TEXT,
+  p_encryption_key TEXT,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF coalesce(p_encryption_key, '') = '' THEN RAISE EXCEPTION 'Encryption key missing'; END IF;
+
+  INSERT INTO organization_credentials (organization_id, provider, secret, key_hint, created_by)
+  VALUES (p_organization_id, p_provider, pgp_sym_encrypt(p_secret, p_encryption_key), p_key_hint, p_user_id)
+  ON CONFLICT (organization_id, provider) DO UPDATE SET
+    secret = EXCLUDED.secret,
+    key_hint = EXCLUDED.key_hint,
+    rotated_at = NOW(),
+    updated_at = NOW(),
+    last_tested_at = NULL,
+    last_test_ok = NULL,
+    last_test_message = NULL
+  RETURNING id INTO v_id;
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION get_organization_credentials(p_organization_id UUID, p_encryption_key TEXT)
+RETURNS TABLE (provider TEXT, secret TEXT) AS $$
+  SELECT c.provider, pgp_sym_decrypt(c.secret, p_encryption_key)
+  FROM organization_credentials c
+  WHERE c.organization_id = p_organization_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE ALL ON FUNCTION set_organization_credential(UUID, TEXT, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_organization_credentials(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_organization_credential(UUID, TEXT, TEXT, TEXT, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_organization_credentials(UUID, TEXT) TO service_role;
+
+-- Step 4: Owners and admins see which keys exist - every column except the ciphertext
+ALTER TABLE organization_credentials ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS organization_credentials_read_admins ON organization_credentials;
+CREATE POLICY organization_credentials_read_admins ON organization_credentials
+  FOR SELECT USING (org_role(organization_id) IN ('owner', 'admin'));
+
+REVOKE ALL ON organization_credentials FROM anon, authenticated;
+GRANT SELECT (id, organization_id, provider, key_hint, last_tested_at, last_test_ok, last_test_message,
+  created_at, updated_at, rotated_at) ON organization_credentials TO authenticated;
+
+-- Success message
+SELECT 'Organization credentials set up successfully!' as status;
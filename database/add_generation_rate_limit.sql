@@ -0,0 +1,77 @@
+-- ============================================
+-- Generation Rate Limit - Atomic Slot Reservation
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- generate-content limits requests per organization (or client without one)
+-- per minute and per day. Counting forzeo_api_usage and writing the row after
+-- the generation let a burst of concurrent requests all see the same count,
+-- so the slot is now reserved up front: reserve_generation_slot() takes a
+-- per-organization lock, counts the window and inserts the usage row in one
+-- transaction. generate-content fills in cost and provider when it finishes.
+-- ============================================
+
+-- Step 1: Index for the window counts
+CREATE INDEX IF NOT EXISTS idx_forzeo_api_usage_name_created ON forzeo_api_usage(api_name, created_at DESC);
+
+-- Step 2: Create the function
+-- Returns the reserved usage row, or the limit that was hit and seconds until
+-- the oldest request in that window leaves it
+CREATE OR REPLACE FUNCTION reserve_generation_slot(
+  p_organization_id UUID,
+  p_client_id UUID,
+  p_per_minute INTEGER,
+  p_per_day INTEGER,
+  p_prompt_text TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  usage_id UUID,
+  limited_by TEXT,
+  retry_after INTEGER
+) AS $$
+DECLARE
+  v_window INTERVAL;
+  v_limit INTEGER;
+  v_count INTEGER;
+  v_oldest TIMESTAMPTZ;
+  v_usage_id UUID;
+BEGIN
+  -- Concurrent reservations of one organization wait for each other
+  PERFORM pg_advisory_xact_lock(hashtext('generate_content:' || COALESCE(p_organization_id, p_client_id)::TEXT));
+
+  FOR v_window, v_limit, limited_by IN
+    SELECT * FROM (VALUES (INTERVAL '1 minute', p_per_minute, 'minute'), (INTERVAL '1 day', p_per_day, 'day')) AS w
+  LOOP
+    SELECT COUNT(*), MIN(au.created_at) INTO v_count, v_oldest
+    FROM forzeo_api_usage au
+    WHERE au.api_name = 'generate_content'
+      AND CASE WHEN p_organization_id IS NOT NULL
+        THEN au.organization_id = p_organization_id
+        ELSE au.client_id = p_client_id END
+      AND au.created_at >= clock_timestamp() - v_window;
+    IF v_count >= v_limit THEN
+      usage_id := NULL;
+      retry_after := GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_oldest + v_window - clock_timestamp()))))::INTEGER;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  INSERT INTO forzeo_api_usage (organization_id, client_id, api_name, endpoint, request_count, cost, prompt_text, created_at)
+  VALUES (p_organization_id, p_client_id, 'generate_content', 'pending', 1, 0, p_prompt_text, clock_timestamp())
+  RETURNING id INTO v_usage_id;
+
+  usage_id := v_usage_id;
+  limited_by := NULL;
+  retry_after := 0;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Step 3: Only the edge functions (service role) reserve slots
+REVOKE ALL ON FUNCTION reserve_generation_slot(UUID, UUID, INTEGER, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_generation_slot(UUID, UUID, INTEGER, INTEGER, TEXT) TO service_role;
+
+-- Success message
+SELECT 'Generation rate limit function created successfully!' as status;
@@ -0,0 +1,30 @@
+-- ============================================
+-- Languages - Multi-language Prompt Auditing
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- Every client has an audit language (DataForSEO language_code, see
+-- supabase/functions/_shared/languages.ts). A prompt can override it;
+-- NULL means the client's language. Saved audits record the language
+-- they ran in so results can be filtered by it.
+--
+-- Per-language brand and competitor aliases live in
+-- clients.settings.language_aliases:
+--   { "th": { "brand": ["บัมเบิล"], "competitors": { "Tinder": ["ทินเดอร์"] } } }
+--
+-- Existing clients and audits are English.
+-- ============================================
+
+-- Step 1: Client language
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS language TEXT DEFAULT 'en';
+
+-- Step 2: Per-prompt override
+ALTER TABLE forzeo_prompts ADD COLUMN IF NOT EXISTS language TEXT;
+
+-- Step 3: Language of each saved audit
+ALTER TABLE audit_results ADD COLUMN IF NOT EXISTS language TEXT DEFAULT 'en';
+CREATE INDEX IF NOT EXISTS idx_audit_language ON audit_results(client_id, language);
+
+-- Success message
+SELECT 'Language columns added successfully!' as status;
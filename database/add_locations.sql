@@ -0,0 +1,31 @@
+-- ============================================
+-- Locations - City/Region Geo Targeting
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- location_code can now be a country, region or city (DataForSEO location
+-- codes, see supabase/functions/_shared/locations.ts). A client can audit
+-- its prompts at several locations per run, listed in
+-- clients.settings.audit_locations:
+--   { "audit_locations": [1006886, 1006912] }   -- London, Manchester
+--
+-- Saved audits record the location they ran at so results can be compared
+-- across locations. Existing audits get their client's location code.
+-- ============================================
+
+-- Step 1: Location of each saved audit
+ALTER TABLE audit_results ADD COLUMN IF NOT EXISTS location_code INTEGER;
+
+UPDATE audit_results a
+SET location_code = c.location_code
+FROM clients c
+WHERE a.client_id = c.id AND a.location_code IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_audit_location ON audit_results(client_id, location_code);
+
+-- Step 2: Locations a batch job runs each prompt at
+ALTER TABLE audit_jobs ADD COLUMN IF NOT EXISTS location_codes INTEGER[];
+
+-- Success message
+SELECT 'Location columns added successfully!' as status;
@@ -0,0 +1,34 @@
+-- ============================================
+-- Outreach Opportunities - Status Tracking
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- The Sources tab lists domains and URLs that AI answers cite for
+-- competitors but not for the brand (src/lib/outreachOpportunities.ts).
+-- The list itself is computed from audit_results; this table only keeps
+-- the outreach status per client and target. Untracked targets have no row.
+-- ============================================
+
+-- Step 1: Create outreach table
+CREATE TABLE IF NOT EXISTS outreach_opportunities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  target TEXT NOT NULL,
+  target_type TEXT NOT NULL DEFAULT 'domain' CHECK (target_type IN ('domain', 'url')),
+  status TEXT NOT NULL DEFAULT 'to_contact' CHECK (status IN ('to_contact', 'contacted', 'won')),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (client_id, target)
+);
+ALTER TABLE outreach_opportunities DISABLE ROW LEVEL SECURITY;
+
+-- Step 2: Indexes
+CREATE INDEX IF NOT EXISTS idx_outreach_client ON outreach_opportunities(client_id, status);
+
+-- Step 3: Grant access (matches disable_rls_and_setup.sql)
+GRANT ALL ON outreach_opportunities TO anon, authenticated;
+
+-- Success message
+SELECT 'Outreach opportunities table created successfully!' as status;
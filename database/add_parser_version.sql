@@ -0,0 +1,23 @@
+-- ============================================
+-- Parser Version - Reprocessing Stored Responses
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- geo-audit stamps every saved audit with the version of its response
+-- parser. { mode: "reprocess" } re-runs brand, competitor, citation, winner,
+-- sentiment and score parsing over the stored raw responses (no provider
+-- calls) and stamps the rows it rewrote.
+--
+-- Rows saved before this migration have parser_version NULL.
+-- ============================================
+
+-- Step 1: Add columns
+ALTER TABLE audit_results ADD COLUMN IF NOT EXISTS parser_version INTEGER;
+ALTER TABLE audit_results ADD COLUMN IF NOT EXISTS reprocessed_at TIMESTAMPTZ;
+
+-- Step 2: Index for finding stale rows per client
+CREATE INDEX IF NOT EXISTS idx_audit_parser ON audit_results(client_id, parser_version);
+
+-- Success message
+SELECT 'Parser version columns added successfully!' as status;
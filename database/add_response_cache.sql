@@ -0,0 +1,42 @@
+-- ============================================
+-- Response Cache - Shared Provider Responses
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- geo-audit stores raw DataForSEO responses keyed by model + location +
+-- normalized prompt text, so the same prompt audited for several clients
+-- (or re-run the same day) is only paid for once. Brand parsing is never
+-- cached - it runs per client on the cached text.
+--
+-- TTL per model (hours) defaults to llm_mentions 72, chatgpt/claude/gemini 24,
+-- perplexity/google_ai_overview/google_serp 12. Override with the
+-- RESPONSE_CACHE_TTL_HOURS secret, e.g. '{"chatgpt": 6, "google_serp": 0}'.
+-- Send force_refresh: true to geo-audit to bypass the cache.
+-- ============================================
+
+-- Step 1: Create response_cache table
+CREATE TABLE IF NOT EXISTS response_cache (
+  cache_key TEXT PRIMARY KEY,           -- sha256(model|location_code|normalized prompt)
+  model TEXT NOT NULL,
+  location_code INTEGER NOT NULL,
+  prompt_text TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  cost DECIMAL(10,6) DEFAULT 0,         -- what the original call cost
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+ALTER TABLE response_cache DISABLE ROW LEVEL SECURITY;
+
+-- Step 2: Indexes
+CREATE INDEX IF NOT EXISTS idx_response_cache_expires ON response_cache(expires_at);
+CREATE INDEX IF NOT EXISTS idx_response_cache_model ON response_cache(model, created_at DESC);
+
+-- Step 3: Grant access (matches disable_rls_and_setup.sql)
+GRANT ALL ON response_cache TO anon, authenticated;
+
+-- Housekeeping: expired rows are ignored on read, purge them occasionally
+-- DELETE FROM response_cache WHERE expires_at < NOW();
+
+-- Success message
+SELECT 'Response cache table created successfully!' as status;
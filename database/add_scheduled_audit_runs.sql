@@ -0,0 +1,114 @@
+-- ============================================
+-- Scheduled Audits - Run Tracking & Cron Setup
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- Requires add_audit_jobs.sql (runs are executed as geo-audit batch jobs) and
+-- database/add_auth_and_roles.sql (client_role).
+--
+-- Adds the tables read by the run-scheduled-audits edge function:
+-- - scheduled_audits: one row per recurring schedule (per client)
+-- - scheduled_audit_runs: one row per execution with progress/status
+--
+-- Then registers an hourly pg_cron job that calls the function.
+-- ============================================
+
+-- Step 1: Create scheduled_audits table (same shape as schema.sql)
+CREATE TABLE IF NOT EXISTS scheduled_audits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  day_of_week INTEGER CHECK (day_of_week >= 0 AND day_of_week <= 6), -- 0=Sunday
+  day_of_month INTEGER CHECK (day_of_month >= 1 AND day_of_month <= 28),
+  hour_utc INTEGER DEFAULT 9 CHECK (hour_utc >= 0 AND hour_utc <= 23),
+  prompt_filter JSONB DEFAULT '{"categories": [], "active_only": true}'::jsonb,
+  models TEXT[] DEFAULT ARRAY['chatgpt', 'google_ai_overview'],
+  is_active BOOLEAN DEFAULT true,
+  last_run_at TIMESTAMPTZ,
+  next_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+ALTER TABLE scheduled_audits ADD COLUMN IF NOT EXISTS last_run_status TEXT;
+
+-- Step 2: Create scheduled_audit_runs table
+CREATE TABLE IF NOT EXISTS scheduled_audit_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scheduled_audit_id UUID REFERENCES scheduled_audits(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'partial', 'failed')),
+  prompts_total INTEGER DEFAULT 0,
+  prompts_completed INTEGER DEFAULT 0,
+  prompts_failed INTEGER DEFAULT 0,
+  audit_result_ids UUID[] DEFAULT '{}',
+  total_cost DECIMAL(10,6) DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+-- geo-audit batch job doing the work (progress is copied from audit_jobs)
+ALTER TABLE scheduled_audit_runs ADD COLUMN IF NOT EXISTS audit_job_id UUID;
+
+-- Step 3: Indexes
+CREATE INDEX IF NOT EXISTS idx_scheduled_audits_next ON scheduled_audits(next_run_at) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_scheduled_audit_runs_schedule ON scheduled_audit_runs(scheduled_audit_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scheduled_audit_runs_client ON scheduled_audit_runs(client_id, started_at DESC);
+
+-- Step 4: Everyone with access to the client reads, members and above write
+-- (same policies as add_auth_and_roles.sql, so re-running this file keeps them;
+-- the scheduler writes runs with the service role key)
+ALTER TABLE scheduled_audits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_audit_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS scheduled_audits_read ON scheduled_audits;
+CREATE POLICY scheduled_audits_read ON scheduled_audits
+  FOR SELECT USING (client_role(client_id) IS NOT NULL);
+DROP POLICY IF EXISTS scheduled_audits_write ON scheduled_audits;
+CREATE POLICY scheduled_audits_write ON scheduled_audits
+  FOR ALL USING (client_role(client_id) IN ('owner', 'admin', 'member'))
+  WITH CHECK (client_role(client_id) IN ('owner', 'admin', 'member'));
+
+DROP POLICY IF EXISTS scheduled_audit_runs_read ON scheduled_audit_runs;
+CREATE POLICY scheduled_audit_runs_read ON scheduled_audit_runs
+  FOR SELECT USING (client_role(client_id) IS NOT NULL);
+DROP POLICY IF EXISTS scheduled_audit_runs_write ON scheduled_audit_runs;
+CREATE POLICY scheduled_audit_runs_write ON scheduled_audit_runs
+  FOR ALL USING (client_role(client_id) IN ('owner', 'admin', 'member'))
+  WITH CHECK (client_role(client_id) IN ('owner', 'admin', 'member'));
+
+REVOKE ALL ON scheduled_audits, scheduled_audit_runs FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON scheduled_audits, scheduled_audit_runs TO authenticated;
+
+-- Step 5: Call the scheduler every hour (requires pg_cron + pg_net)
+-- The service role key is read from Vault when the job runs, so it never appears
+-- in cron.job. Store it once (SQL Editor, not committed):
+--   SELECT vault.create_secret('<service role key>', 'forzeo_service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'forzeo-run-scheduled-audits',
+  '5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://pqvyyziaczzgaythgpyc.supabase.co/functions/v1/run-scheduled-audits',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'forzeo_service_role_key'
+      )
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- Example: every Monday at 09:00 UTC for Juleo, broad + niche prompts only
+-- INSERT INTO scheduled_audits (client_id, frequency, day_of_week, hour_utc, prompt_filter, models)
+-- SELECT id, 'weekly', 1, 9, '{"categories": ["custom", "niche"], "active_only": true}'::jsonb,
+--        ARRAY['chatgpt', 'gemini', 'google_ai_overview']
+-- FROM clients WHERE slug = 'juleo';
+
+-- Success message
+SELECT 'Scheduled audit tables and cron job created successfully!' as status;
@@ -0,0 +1,30 @@
+-- ============================================
+-- Source Classes - Citation Classification & Authority
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- geo-audit classifies every cited domain (brand, competitor, review,
+-- marketplace, news, forum, wikipedia, gov_edu, other) and gives it an
+-- authority weight (0-1) that feeds the trust index. Rules live in
+-- supabase/functions/_shared/citationRules.ts; per-client overrides in
+-- clients.settings.source_overrides.
+--
+-- Rows saved before this migration have source_class NULL - run
+-- { mode: "reprocess" } to classify the citations stored in model_results.
+-- ============================================
+
+-- Step 1: Add columns
+ALTER TABLE IF EXISTS forzeo_citations ADD COLUMN IF NOT EXISTS source_class TEXT;
+ALTER TABLE IF EXISTS forzeo_citations ADD COLUMN IF NOT EXISTS authority NUMERIC(3,2);
+ALTER TABLE IF EXISTS citations ADD COLUMN IF NOT EXISTS source_class TEXT;
+ALTER TABLE IF EXISTS citations ADD COLUMN IF NOT EXISTS authority NUMERIC(3,2);
+
+-- Step 2: Index for per-class source reports
+CREATE INDEX IF NOT EXISTS idx_forzeo_citations_class ON forzeo_citations(client_id, source_class);
+
+-- Step 3: Per-model trust in the Trends tab now uses source authority
+-- Re-run database/add_visibility_trends.sql to pick up the new formula
+
+-- Success message
+SELECT 'Source class columns added successfully!' as status;
@@ -0,0 +1,90 @@
+-- ============================================
+-- Visibility Trends - Time-bucketed Series
+-- Run this in Supabase SQL Editor:
+-- https://supabase.com/dashboard/project/pqvyyziaczzgaythgpyc/sql/new
+-- ============================================
+--
+-- Adds get_client_visibility_trends, used by the dashboard Trends tab.
+-- Same scores as get_client_visibility_summary, grouped by day/week/month
+-- instead of one average, for the whole client or a single prompt.
+-- ============================================
+
+-- Step 1: Indexes for trend queries
+CREATE INDEX IF NOT EXISTS idx_audit_results_client_created ON audit_results(client_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_results_prompt_created ON audit_results(prompt_id, created_at DESC);
+
+-- Step 2: Create the function
+-- Function to get time-bucketed visibility series (Trends tab)
+-- model = 'all' rows average the audit-level scores, like get_client_visibility_summary;
+-- per-model rows are derived from model_results using the same formulas as geo-audit
+CREATE OR REPLACE FUNCTION get_client_visibility_trends(
+  p_client_id UUID,
+  days INTEGER DEFAULT 30,
+  bucket TEXT DEFAULT 'day',
+  p_prompt_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMPTZ,
+  model TEXT,
+  avg_sov DECIMAL,
+  avg_visibility_score DECIMAL,
+  avg_trust_index DECIMAL,
+  avg_rank DECIMAL,
+  total_audits BIGINT
+) AS $$
+BEGIN
+  IF bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'bucket must be day, week or month (got %)', bucket;
+  END IF;
+
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT ar.created_at, ar.share_of_voice, ar.visibility_score, ar.trust_index, ar.average_rank, ar.model_results
+    FROM audit_results ar
+    WHERE ar.client_id = p_client_id
+      AND ar.created_at > NOW() - (days || ' days')::INTERVAL
+      AND (p_prompt_id IS NULL OR ar.prompt_id = p_prompt_id)
+  )
+  SELECT 
+    date_trunc(bucket, s.created_at),
+    'all'::TEXT,
+    AVG(s.share_of_voice)::DECIMAL,
+    AVG(s.visibility_score)::DECIMAL,
+    AVG(s.trust_index)::DECIMAL,
+    AVG(s.average_rank)::DECIMAL,
+    COUNT(*)::BIGINT
+  FROM scoped s
+  GROUP BY 1
+  UNION ALL
+  SELECT 
+    date_trunc(bucket, s.created_at),
+    mr->>'model',
+    AVG(CASE WHEN (mr->>'brand_mentioned')::BOOLEAN THEN 100 ELSE 0 END)::DECIMAL,
+    AVG(CASE WHEN (mr->>'brand_mentioned')::BOOLEAN THEN
+      (CASE WHEN (mr->>'is_cited')::BOOLEAN THEN 100 ELSE 50 END)
+      + COALESCE(GREATEST(0, 30 - ((mr->>'brand_rank')::NUMERIC - 1) * 10), 0)
+      + LEAST(20, COALESCE((mr->>'brand_mention_count')::INTEGER, 0) * 5)
+    ELSE 0 END)::DECIMAL,
+    AVG(
+      (CASE WHEN (mr->>'is_cited')::BOOLEAN THEN 50 ELSE 0 END)
+      + COALESCE((mr->>'source_authority')::NUMERIC, 0) * 30
+      + (CASE WHEN mr->>'authority_type' = 'authority' THEN 20 ELSE 0 END)
+    )::DECIMAL,
+    AVG((mr->>'brand_rank')::NUMERIC)::DECIMAL,
+    COUNT(*)::BIGINT
+  FROM scoped s
+  CROSS JOIN LATERAL jsonb_array_elements(COALESCE(s.model_results, '[]'::jsonb)) AS mr
+  WHERE COALESCE((mr->>'success')::BOOLEAN, false)
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Step 3: Grant access (matches disable_rls_and_setup.sql)
+GRANT EXECUTE ON FUNCTION get_client_visibility_trends(UUID, INTEGER, TEXT, UUID) TO anon, authenticated;
+
+-- Example: weekly series for the last 90 days
+-- SELECT * FROM get_client_visibility_trends((SELECT id FROM clients WHERE slug = 'juleo'), 90, 'week');
+
+-- Success message
+SELECT 'Visibility trends function created successfully!' as status;
@@ -80,7 +80,8 @@ CREATE TABLE IF NOT EXISTS organizations (
     "default_models": ["chatgpt", "google_ai_overview"],
     "notification_email": null,
     "weekly_reports": false,
-    "timezone": "UTC"
+    "timezone": "UTC",
+    "monthly_budget_usd": null
   }'::jsonb,
   
   -- Timestamps
@@ -121,6 +122,7 @@ CREATE TABLE IF NOT EXISTS organization_members (
   organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   role user_role DEFAULT 'member',
+  client_ids UUID[], -- clients a member/viewer may see, NULL = all (see add_auth_and_roles.sql)
   
   -- Invitation tracking
   invited_by UUID REFERENCES users(id),
@@ -136,6 +138,30 @@ CREATE TABLE IF NOT EXISTS organization_members (
 CREATE INDEX IF NOT EXISTS idx_org_members_org ON organization_members(organization_id);
 CREATE INDEX IF NOT EXISTS idx_org_members_user ON organization_members(user_id);
 
+-- ============================================
+-- ORGANIZATION CREDENTIALS
+-- ============================================
+-- Provider API keys per organization, encrypted with pgcrypto
+-- (passphrase = CREDENTIALS_ENCRYPTION_KEY edge function secret, see add_credentials.sql)
+
+CREATE TABLE IF NOT EXISTS organization_credentials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('dataforseo', 'openai', 'anthropic', 'gemini', 'perplexity', 'groq')),
+  secret BYTEA NOT NULL,           -- pgp_sym_encrypt(key, CREDENTIALS_ENCRYPTION_KEY)
+  key_hint TEXT,                   -- last characters, for display
+  last_tested_at TIMESTAMPTZ,
+  last_test_ok BOOLEAN,
+  last_test_message TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  rotated_at TIMESTAMPTZ,          -- last time the key was replaced
+  UNIQUE (organization_id, provider)
+);
+
+CREATE INDEX IF NOT EXISTS idx_org_credentials_org ON organization_credentials(organization_id);
+
 -- ============================================
 -- CLIENTS (Brands)
 -- ============================================
@@ -155,6 +181,7 @@ CREATE TABLE IF NOT EXISTS clients (
   -- Targeting
   target_region TEXT DEFAULT 'United States',
   location_code INTEGER DEFAULT 2840 CHECK (location_code > 0),
+  language TEXT DEFAULT 'en', -- audit language (see add_languages.sql)
   industry TEXT DEFAULT 'Custom',
   
   -- Competitors to track
@@ -169,7 +196,9 @@ CREATE TABLE IF NOT EXISTS clients (
     "default_models": null,
     "auto_run_on_add": false,
     "notification_email": null,
-    "weekly_report": false
+    "weekly_report": false,
+    "notifications": null,
+    "budget": null
   }'::jsonb,
   
   -- Timestamps
@@ -200,6 +229,7 @@ CREATE TABLE IF NOT EXISTS prompts (
   
   -- Category classification (niche/super-niche support)
   category prompt_category DEFAULT 'custom',
+  language TEXT, -- NULL = client's language
   
   -- Metadata
   is_custom BOOLEAN DEFAULT true,
@@ -237,6 +267,8 @@ CREATE TABLE IF NOT EXISTS audit_results (
   -- Prompt snapshot (in case prompt is deleted)
   prompt_text TEXT NOT NULL,
   prompt_category prompt_category DEFAULT 'custom',
+  language TEXT DEFAULT 'en',
+  location_code INTEGER, -- country, region or city the audit ran at (see add_locations.sql)
   
   -- Brand info snapshot
   brand_name TEXT NOT NULL,
@@ -266,6 +298,10 @@ CREATE TABLE IF NOT EXISTS audit_results (
   top_sources JSONB DEFAULT '[]'::jsonb,
   top_competitors JSONB DEFAULT '[]'::jsonb,
   
+  -- Response parser that produced the metrics (see add_parser_version.sql)
+  parser_version INTEGER,
+  reprocessed_at TIMESTAMPTZ,
+  
   -- Timestamps
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -276,6 +312,9 @@ CREATE INDEX IF NOT EXISTS idx_audit_prompt ON audit_results(prompt_id);
 CREATE INDEX IF NOT EXISTS idx_audit_created ON audit_results(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_audit_category ON audit_results(client_id, prompt_category);
 CREATE INDEX IF NOT EXISTS idx_audit_sov ON audit_results(client_id, share_of_voice DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_parser ON audit_results(client_id, parser_version);
+CREATE INDEX IF NOT EXISTS idx_audit_language ON audit_results(client_id, language);
+CREATE INDEX IF NOT EXISTS idx_audit_location ON audit_results(client_id, location_code);
 
 -- Partial index for recent audits (last 30 days)
 CREATE INDEX IF NOT EXISTS idx_audit_recent ON audit_results(client_id, created_at DESC) 
@@ -301,6 +340,8 @@ CREATE TABLE IF NOT EXISTS citations (
   -- Source info
   model TEXT NOT NULL,
   is_brand_source BOOLEAN DEFAULT false,
+  source_class TEXT,                 -- brand, competitor, review, news, ... (see add_source_classes.sql)
+  authority NUMERIC(3,2),            -- 0-1 weight used by the trust index
   
   -- Timestamps
   created_at TIMESTAMPTZ DEFAULT NOW()
@@ -311,6 +352,7 @@ CREATE INDEX IF NOT EXISTS idx_citations_audit ON citations(audit_result_id);
 CREATE INDEX IF NOT EXISTS idx_citations_client ON citations(client_id);
 CREATE INDEX IF NOT EXISTS idx_citations_domain ON citations(domain);
 CREATE INDEX IF NOT EXISTS idx_citations_brand ON citations(client_id, is_brand_source) WHERE is_brand_source = true;
+CREATE INDEX IF NOT EXISTS idx_citations_class ON citations(client_id, source_class);
 
 -- ============================================
 -- API USAGE TRACKING
@@ -345,6 +387,7 @@ CREATE INDEX IF NOT EXISTS idx_usage_api ON api_usage(api_name);
 
 -- Monthly usage summary index
 CREATE INDEX IF NOT EXISTS idx_usage_monthly ON api_usage(organization_id, date_trunc('month', created_at));
+CREATE INDEX IF NOT EXISTS idx_usage_client_created ON api_usage(client_id, created_at DESC);
 
 -- ============================================
 -- AUDIT LOG
@@ -400,6 +443,7 @@ CREATE TABLE IF NOT EXISTS scheduled_audits (
   -- Status
   is_active BOOLEAN DEFAULT true,
   last_run_at TIMESTAMPTZ,
+  last_run_status TEXT,
   next_run_at TIMESTAMPTZ,
   
   -- Timestamps
@@ -411,6 +455,159 @@ CREATE TABLE IF NOT EXISTS scheduled_audits (
 CREATE INDEX IF NOT EXISTS idx_scheduled_client ON scheduled_audits(client_id) WHERE is_active = true;
 CREATE INDEX IF NOT EXISTS idx_scheduled_next ON scheduled_audits(next_run_at) WHERE is_active = true;
 
+-- Execution history for scheduled audits (written by run-scheduled-audits)
+CREATE TABLE IF NOT EXISTS scheduled_audit_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  scheduled_audit_id UUID NOT NULL REFERENCES scheduled_audits(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  audit_job_id UUID, -- audit_jobs.id of the geo-audit batch job doing the work
+  
+  -- Progress
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'partial', 'failed')),
+  prompts_total INTEGER DEFAULT 0,
+  prompts_completed INTEGER DEFAULT 0,
+  prompts_failed INTEGER DEFAULT 0,
+  audit_result_ids UUID[] DEFAULT '{}',
+  total_cost DECIMAL(10,6) DEFAULT 0,
+  error TEXT,
+  
+  -- Timestamps
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_runs_schedule ON scheduled_audit_runs(scheduled_audit_id, started_at DESC);
+
+-- ============================================
+-- AUDIT JOBS
+-- ============================================
+-- Batch runs started from the dashboard (geo-audit mode: "batch")
+-- Polled by the client for progress, survives the browser tab closing
+
+CREATE TABLE IF NOT EXISTS audit_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  
+  -- Request
+  prompt_ids UUID[] DEFAULT '{}',
+  location_codes INTEGER[], -- each prompt runs once per location
+  models TEXT[],
+  
+  -- Progress
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'partial', 'failed')),
+  prompts_total INTEGER DEFAULT 0,
+  prompts_completed INTEGER DEFAULT 0,
+  prompts_failed INTEGER DEFAULT 0,
+  audit_result_ids UUID[] DEFAULT '{}',
+  total_cost DECIMAL(10,6) DEFAULT 0,
+  error TEXT,
+  
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_jobs_client ON audit_jobs(client_id, created_at DESC);
+
+-- ============================================
+-- ALERTS
+-- ============================================
+-- In-app alert inbox, written by the alert rules in geo-audit
+-- Rules are configured in clients.settings.notifications
+
+CREATE TABLE IF NOT EXISTS alerts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  audit_result_id UUID REFERENCES audit_results(id) ON DELETE CASCADE,
+  prompt_id UUID REFERENCES prompts(id) ON DELETE SET NULL,
+  
+  -- What fired
+  rule TEXT NOT NULL CHECK (rule IN ('sov_below_threshold', 'competitor_overtook', 'brand_dropped', 'brand_citation_lost')),
+  severity TEXT DEFAULT 'warning' CHECK (severity IN ('info', 'warning', 'critical')),
+  model TEXT,
+  title TEXT NOT NULL,
+  message TEXT,
+  details JSONB DEFAULT '{}',
+  
+  -- Inbox state
+  is_read BOOLEAN DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alerts_client ON alerts(client_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_unread ON alerts(client_id) WHERE is_read = false;
+
+-- ============================================
+-- OUTREACH OPPORTUNITIES
+-- ============================================
+-- Outreach status for sources that cite competitors but not the brand
+-- The opportunities are computed from audit_results in the dashboard
+
+CREATE TABLE IF NOT EXISTS outreach_opportunities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  
+  -- Domain or full URL
+  target TEXT NOT NULL,
+  target_type TEXT NOT NULL DEFAULT 'domain' CHECK (target_type IN ('domain', 'url')),
+  
+  -- Progress
+  status TEXT NOT NULL DEFAULT 'to_contact' CHECK (status IN ('to_contact', 'contacted', 'won')),
+  notes TEXT,
+  
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (client_id, target)
+);
+
+CREATE INDEX IF NOT EXISTS idx_outreach_client ON outreach_opportunities(client_id, status);
+
+-- ============================================
+-- CONTENT BRIEFS
+-- ============================================
+-- Briefs generated from a prompt's audit gaps, editable in the Content tab
+-- (schema: supabase/functions/_shared/contentBrief.ts)
+
+CREATE TABLE IF NOT EXISTS content_briefs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  prompt_id UUID,                  -- the brief outlives the prompt
+  audit_result_id UUID REFERENCES audit_results(id) ON DELETE SET NULL,
+  prompt_text TEXT NOT NULL,
+  title TEXT NOT NULL,             -- brief->>'title', for lists
+  brief JSONB NOT NULL,            -- ContentBrief
+  gaps JSONB,                      -- BriefGaps the brief was generated from
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'published')),
+  generated_by TEXT,               -- "<provider>:<model>"
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_briefs_client ON content_briefs(client_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_content_briefs_prompt ON content_briefs(prompt_id);
+
+-- ============================================
+-- RESPONSE CACHE
+-- ============================================
+-- Raw provider responses shared across clients (geo-audit)
+-- Keyed by model + location + normalized prompt; brand parsing is never cached
+
+CREATE TABLE IF NOT EXISTS response_cache (
+  cache_key TEXT PRIMARY KEY,
+  model TEXT NOT NULL,
+  location_code INTEGER NOT NULL,
+  prompt_text TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  cost DECIMAL(10,6) DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_response_cache_expires ON response_cache(expires_at);
+CREATE INDEX IF NOT EXISTS idx_response_cache_model ON response_cache(model, created_at DESC);
+
 -- ============================================
 -- ROW LEVEL SECURITY (RLS)
 -- ============================================
@@ -419,6 +616,7 @@ CREATE INDEX IF NOT EXISTS idx_scheduled_next ON scheduled_audits(next_run_at) W
 ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_credentials ENABLE ROW LEVEL SECURITY;
 ALTER TABLE clients ENABLE ROW LEVEL SECURITY;
 ALTER TABLE prompts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE audit_results ENABLE ROW LEVEL SECURITY;
@@ -426,6 +624,12 @@ ALTER TABLE citations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE api_usage ENABLE ROW LEVEL SECURITY;
 ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
 ALTER TABLE scheduled_audits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_audit_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE outreach_opportunities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE content_briefs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE response_cache ENABLE ROW LEVEL SECURITY;
 
 -- ============================================
 -- RLS POLICIES
@@ -454,51 +658,84 @@ CREATE POLICY org_update_admins ON organizations
     )
   );
 
--- Members can read their organization's clients
+-- Role lookups for the policies below (SECURITY DEFINER so they can read members under RLS)
+CREATE OR REPLACE FUNCTION org_role(p_organization_id UUID)
+RETURNS user_role AS $$
+  SELECT role FROM organization_members
+  WHERE organization_id = p_organization_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The caller's role for a client, NULL if its membership doesn't cover the client
+CREATE OR REPLACE FUNCTION client_role(p_client_id UUID)
+RETURNS user_role AS $$
+  SELECT om.role
+  FROM clients c
+  JOIN organization_members om ON om.organization_id = c.organization_id AND om.user_id = auth.uid()
+  WHERE c.id = p_client_id
+    AND (om.role IN ('owner', 'admin') OR om.client_ids IS NULL OR c.id = ANY(om.client_ids));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Members see their organization's members, owners/admins manage them
+CREATE POLICY members_read ON organization_members
+  FOR SELECT USING (org_role(organization_id) IS NOT NULL);
+CREATE POLICY members_manage_admins ON organization_members
+  FOR UPDATE USING (org_role(organization_id) IN ('owner', 'admin'));
+CREATE POLICY members_remove_admins ON organization_members
+  FOR DELETE USING (org_role(organization_id) IN ('owner', 'admin'));
+
+-- Owners/admins see which keys exist; the ciphertext column is not granted,
+-- only the service role encrypts and decrypts
+CREATE POLICY organization_credentials_read_admins ON organization_credentials
+  FOR SELECT USING (org_role(organization_id) IN ('owner', 'admin'));
+REVOKE ALL ON organization_credentials FROM anon, authenticated;
+GRANT SELECT (id, organization_id, provider, key_hint, last_tested_at, last_test_ok, last_test_message,
+  created_at, updated_at, rotated_at) ON organization_credentials TO authenticated;
+
+-- Members can read the clients their membership covers
 CREATE POLICY clients_read_members ON clients
-  FOR SELECT USING (
-    organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid())
-    AND deleted_at IS NULL
-  );
-
--- Admins can manage clients
-CREATE POLICY clients_manage_admins ON clients
-  FOR ALL USING (
-    organization_id IN (
-      SELECT organization_id FROM organization_members 
-      WHERE user_id = auth.uid() AND role IN ('owner', 'admin', 'member')
-    )
-  );
-
--- Similar policies for other tables...
--- (Prompts, audit_results, citations follow client access)
-
-CREATE POLICY prompts_access ON prompts
-  FOR ALL USING (
-    client_id IN (
-      SELECT c.id FROM clients c
-      JOIN organization_members om ON c.organization_id = om.organization_id
-      WHERE om.user_id = auth.uid() AND c.deleted_at IS NULL
-    )
-  );
-
-CREATE POLICY audit_results_access ON audit_results
-  FOR ALL USING (
-    client_id IN (
-      SELECT c.id FROM clients c
-      JOIN organization_members om ON c.organization_id = om.organization_id
-      WHERE om.user_id = auth.uid() AND c.deleted_at IS NULL
-    )
-  );
-
-CREATE POLICY citations_access ON citations
-  FOR ALL USING (
-    client_id IN (
-      SELECT c.id FROM clients c
-      JOIN organization_members om ON c.organization_id = om.organization_id
-      WHERE om.user_id = auth.uid() AND c.deleted_at IS NULL
-    )
-  );
+  FOR SELECT USING (client_role(id) IS NOT NULL AND deleted_at IS NULL);
+
+-- Owners/admins create, edit and delete clients
+CREATE POLICY clients_insert_admins ON clients
+  FOR INSERT WITH CHECK (org_role(organization_id) IN ('owner', 'admin'));
+CREATE POLICY clients_update_admins ON clients
+  FOR UPDATE USING (client_role(id) IN ('owner', 'admin'))
+  WITH CHECK (org_role(organization_id) IN ('owner', 'admin'));  -- can't move a client into another organization
+CREATE POLICY clients_delete_admins ON clients
+  FOR DELETE USING (client_role(id) IN ('owner', 'admin'));
+
+-- Client data: everyone with access reads, members and above write
+-- (same rules as supabase/functions/_shared/permissions.ts)
+
+CREATE POLICY prompts_read ON prompts
+  FOR SELECT USING (client_role(client_id) IS NOT NULL);
+CREATE POLICY prompts_write ON prompts
+  FOR ALL USING (client_role(client_id) IN ('owner', 'admin', 'member'));
+
+CREATE POLICY audit_results_read ON audit_results
+  FOR SELECT USING (client_role(client_id) IS NOT NULL);
+CREATE POLICY audit_results_write ON audit_results
+  FOR ALL USING (client_role(client_id) IN ('owner', 'admin', 'member'));
+
+CREATE POLICY citations_read ON citations
+  FOR SELECT USING (client_role(client_id) IS NOT NULL);
+CREATE POLICY citations_write ON citations
+  FOR ALL USING (client_role(client_id) IN ('owner', 'admin', 'member'));
+
+CREATE POLICY content_briefs_read ON content_briefs
+  FOR SELECT USING (client_role(client_id) IS NOT NULL);
+CREATE POLICY content_briefs_write ON content_briefs
+  FOR ALL USING (client_role(client_id) IN ('owner', 'admin', 'member'));
+
+CREATE POLICY scheduled_audits_read ON scheduled_audits
+  FOR SELECT USING (client_role(client_id) IS NOT NULL);
+CREATE POLICY scheduled_audits_write ON scheduled_audits
+  FOR ALL USING (client_role(client_id) IN ('owner', 'admin', 'member'));
+
+CREATE POLICY scheduled_audit_runs_read ON scheduled_audit_runs
+  FOR SELECT USING (client_role(client_id) IS NOT NULL);
+CREATE POLICY scheduled_audit_runs_write ON scheduled_audit_runs
+  FOR ALL USING (client_role(client_id) IN ('owner', 'admin', 'member'));
 
 -- ============================================
 -- HELPER FUNCTIONS
@@ -580,6 +817,85 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Function to get month-to-date spend for budget checks (geo-audit)
+-- One client, one organization, or everything when both are NULL
+CREATE OR REPLACE FUNCTION get_monthly_spend(
+  p_client_id UUID DEFAULT NULL,
+  p_organization_id UUID DEFAULT NULL,
+  month_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  total_cost DECIMAL,
+  request_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COALESCE(SUM(au.cost), 0)::DECIMAL,
+    COALESCE(SUM(au.request_count), 0)::BIGINT
+  FROM api_usage au
+  WHERE (p_client_id IS NULL OR au.client_id = p_client_id)
+    AND (p_organization_id IS NULL OR au.organization_id = p_organization_id)
+    AND au.created_at >= date_trunc('month', month_date::TIMESTAMPTZ)
+    AND au.created_at < date_trunc('month', month_date::TIMESTAMPTZ) + INTERVAL '1 month';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to reserve a generate-content rate limit slot (count and insert under one lock)
+-- Returns the reserved usage row, or the limit that was hit and seconds until it frees up
+CREATE OR REPLACE FUNCTION reserve_generation_slot(
+  p_organization_id UUID,
+  p_client_id UUID,
+  p_per_minute INTEGER,
+  p_per_day INTEGER,
+  p_prompt_text TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  usage_id UUID,
+  limited_by TEXT,
+  retry_after INTEGER
+) AS $$
+DECLARE
+  v_window INTERVAL;
+  v_limit INTEGER;
+  v_count INTEGER;
+  v_oldest TIMESTAMPTZ;
+  v_usage_id UUID;
+BEGIN
+  -- Concurrent reservations of one organization wait for each other
+  PERFORM pg_advisory_xact_lock(hashtext('generate_content:' || COALESCE(p_organization_id, p_client_id)::TEXT));
+
+  FOR v_window, v_limit, limited_by IN
+    SELECT * FROM (VALUES (INTERVAL '1 minute', p_per_minute, 'minute'), (INTERVAL '1 day', p_per_day, 'day')) AS w
+  LOOP
+    SELECT COUNT(*), MIN(au.created_at) INTO v_count, v_oldest
+    FROM api_usage au
+    WHERE au.api_name = 'generate_content'
+      AND CASE WHEN p_organization_id IS NOT NULL
+        THEN au.organization_id = p_organization_id
+        ELSE au.client_id = p_client_id END
+      AND au.created_at >= clock_timestamp() - v_window;
+    IF v_count >= v_limit THEN
+      usage_id := NULL;
+      retry_after := GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_oldest + v_window - clock_timestamp()))))::INTEGER;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  INSERT INTO api_usage (organization_id, client_id, api_name, endpoint, request_count, cost, prompt_text, created_at)
+  VALUES (p_organization_id, p_client_id, 'generate_content', 'pending', 1, 0, p_prompt_text, clock_timestamp())
+  RETURNING id INTO v_usage_id;
+
+  usage_id := v_usage_id;
+  limited_by := NULL;
+  retry_after := 0;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+REVOKE ALL ON FUNCTION reserve_generation_slot(UUID, UUID, INTEGER, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_generation_slot(UUID, UUID, INTEGER, INTEGER, TEXT) TO service_role;
+
 -- Function to get client visibility summary
 CREATE OR REPLACE FUNCTION get_client_visibility_summary(p_client_id UUID, days INTEGER DEFAULT 30)
 RETURNS TABLE (
@@ -603,6 +919,115 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Function to get time-bucketed visibility series (Trends tab)
+-- model = 'all' rows average the audit-level scores, like get_client_visibility_summary;
+-- per-model rows are derived from model_results using the same formulas as geo-audit
+CREATE OR REPLACE FUNCTION get_client_visibility_trends(
+  p_client_id UUID,
+  days INTEGER DEFAULT 30,
+  bucket TEXT DEFAULT 'day',
+  p_prompt_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMPTZ,
+  model TEXT,
+  avg_sov DECIMAL,
+  avg_visibility_score DECIMAL,
+  avg_trust_index DECIMAL,
+  avg_rank DECIMAL,
+  total_audits BIGINT
+) AS $$
+BEGIN
+  IF bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'bucket must be day, week or month (got %)', bucket;
+  END IF;
+
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT ar.created_at, ar.share_of_voice, ar.visibility_score, ar.trust_index, ar.average_rank, ar.model_results
+    FROM audit_results ar
+    WHERE ar.client_id = p_client_id
+      AND ar.created_at > NOW() - (days || ' days')::INTERVAL
+      AND (p_prompt_id IS NULL OR ar.prompt_id = p_prompt_id)
+  )
+  SELECT 
+    date_trunc(bucket, s.created_at),
+    'all'::TEXT,
+    AVG(s.share_of_voice)::DECIMAL,
+    AVG(s.visibility_score)::DECIMAL,
+    AVG(s.trust_index)::DECIMAL,
+    AVG(s.average_rank)::DECIMAL,
+    COUNT(*)::BIGINT
+  FROM scoped s
+  GROUP BY 1
+  UNION ALL
+  SELECT 
+    date_trunc(bucket, s.created_at),
+    mr->>'model',
+    AVG(CASE WHEN (mr->>'brand_mentioned')::BOOLEAN THEN 100 ELSE 0 END)::DECIMAL,
+    AVG(CASE WHEN (mr->>'brand_mentioned')::BOOLEAN THEN
+      (CASE WHEN (mr->>'is_cited')::BOOLEAN THEN 100 ELSE 50 END)
+      + COALESCE(GREATEST(0, 30 - ((mr->>'brand_rank')::NUMERIC - 1) * 10), 0)
+      + LEAST(20, COALESCE((mr->>'brand_mention_count')::INTEGER, 0) * 5)
+    ELSE 0 END)::DECIMAL,
+    AVG(
+      (CASE WHEN (mr->>'is_cited')::BOOLEAN THEN 50 ELSE 0 END)
+      + COALESCE((mr->>'source_authority')::NUMERIC, 0) * 30
+      + (CASE WHEN mr->>'authority_type' = 'authority' THEN 20 ELSE 0 END)
+    )::DECIMAL,
+    AVG((mr->>'brand_rank')::NUMERIC)::DECIMAL,
+    COUNT(*)::BIGINT
+  FROM scoped s
+  CROSS JOIN LATERAL jsonb_array_elements(COALESCE(s.model_results, '[]'::jsonb)) AS mr
+  WHERE COALESCE((mr->>'success')::BOOLEAN, false)
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Encrypt and store (or rotate) an organization's provider key - service role only
+CREATE OR REPLACE FUNCTION set_organization_credential(
+  p_organization_id UUID,
+  p_provider TEXT,
+  p_secret TEXT,
+  p_key_hint TEXT,
+  p_encryption_key TEXT,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF coalesce(p_encryption_key, '') = '' THEN RAISE EXCEPTION 'Encryption key missing'; END IF;
+
+  INSERT INTO organization_credentials (organization_id, provider, secret, key_hint, created_by)
+  VALUES (p_organization_id, p_provider, pgp_sym_encrypt(p_secret, p_encryption_key), p_key_hint, p_user_id)
+  ON CONFLICT (organization_id, provider) DO UPDATE SET
+    secret = EXCLUDED.secret,
+    key_hint = EXCLUDED.key_hint,
+    rotated_at = NOW(),
+    updated_at = NOW(),
+    last_tested_at = NULL,
+    last_test_ok = NULL,
+    last_test_message = NULL
+  RETURNING id INTO v_id;
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Decrypted keys of an organization - service role only
+CREATE OR REPLACE FUNCTION get_organization_credentials(p_organization_id UUID, p_encryption_key TEXT)
+RETURNS TABLE (provider TEXT, secret TEXT) AS $$
+  SELECT c.provider, pgp_sym_decrypt(c.secret, p_encryption_key)
+  FROM organization_credentials c
+  WHERE c.organization_id = p_organization_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE ALL ON FUNCTION set_organization_credential(UUID, TEXT, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_organization_credentials(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_organization_credential(UUID, TEXT, TEXT, TEXT, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_organization_credentials(UUID, TEXT) TO service_role;
+
 -- ============================================
 -- VIEWS
 -- ============================================
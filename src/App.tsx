@@ -1,7 +1,22 @@
+import { Loader2 } from 'lucide-react'
 import ClientDashboard from './pages/ClientDashboard'
+import SignIn, { CreateOrganization } from './pages/SignIn'
+import { useAuth } from './hooks/useAuth'
 
 function App() {
-  return <ClientDashboard />
+  const auth = useAuth()
+
+  if (auth.loading) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0f] flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+      </div>
+    )
+  }
+  if (!auth.user) return <SignIn auth={auth} />
+  if (!auth.organization) return <CreateOrganization auth={auth} />
+  // key: remount on org switch so no state from the previous organization lingers
+  return <ClientDashboard key={auth.organization.id} auth={auth} />
 }
 
 export default App
@@ -0,0 +1,143 @@
+/**
+ * Audit Comparison - per-model changes between two runs of a prompt
+ */
+import React, { useState } from "react";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Minus, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { AuditDiff, ModelDiff } from "@/lib/auditDiff";
+
+interface AuditComparisonProps {
+  diff: AuditDiff;
+  modelColors: Record<string, string>;
+}
+
+const Delta: React.FC<{ value: number | null; suffix?: string; lowerIsBetter?: boolean }> = ({ value, suffix = "", lowerIsBetter = false }) => {
+  if (value == null) return <span className="text-gray-500">—</span>;
+  if (value === 0) return <span className="text-gray-400">no change</span>;
+  const improved = lowerIsBetter ? value < 0 : value > 0;
+  const Icon = improved ? ArrowUp : ArrowDown;
+  return (
+    <span className={cn("inline-flex items-center gap-1", improved ? "text-emerald-400" : "text-red-400")}>
+      <Icon className="h-3 w-3" />{value > 0 ? "+" : ""}{value}{suffix}
+    </span>
+  );
+};
+
+const ChangeList: React.FC<{ label: string; added: string[]; removed: string[] }> = ({ label, added, removed }) => {
+  if (added.length === 0 && removed.length === 0) return null;
+  return (
+    <div className="mt-3">
+      <div className="text-xs text-gray-500 mb-2">{label}</div>
+      <div className="flex flex-wrap gap-2">
+        {added.map(v => (
+          <Badge key={`+${v}`} variant="outline" className="text-xs border-emerald-600 text-emerald-400 gap-1"><Plus className="h-3 w-3" />{v}</Badge>
+        ))}
+        {removed.map(v => (
+          <Badge key={`-${v}`} variant="outline" className="text-xs border-red-600 text-red-400 gap-1"><Minus className="h-3 w-3" />{v}</Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ModelDiffCard: React.FC<{ model: ModelDiff; color?: string }> = ({ model, color }) => {
+  const [showText, setShowText] = useState(false);
+  const textChanged = model.response_diff.some(p => p.type !== "same");
+
+  return (
+    <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-[#2a2a3e]">
+        <div className="flex items-center gap-3">
+          <div className="h-3 w-3 rounded-full" style={{ backgroundColor: color }} />
+          <span className="font-medium text-white">{model.model_name}</span>
+          {model.presence !== "both" && (
+            <span className="text-xs text-gray-500">({model.presence === "added" ? "only in newer run" : "only in older run"})</span>
+          )}
+        </div>
+        {model.mention === "gained" && <Badge className="bg-emerald-500 text-white border-0 px-3">Mention gained</Badge>}
+        {model.mention === "lost" && <Badge className="bg-red-500 text-white border-0 px-3">Mention lost</Badge>}
+        {model.mention === "unchanged" && (
+          <Badge variant="outline" className="border-gray-600 text-gray-400 px-3">
+            {model.mention_count.after > 0 ? "Still visible" : "Still not visible"}
+          </Badge>
+        )}
+      </div>
+
+      <div className="p-4">
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <div className="text-xs text-gray-500 mb-1">Mentions</div>
+            <span className="text-white">{model.mention_count.before} → {model.mention_count.after}</span>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 mb-1">Rank</div>
+            <span className="text-white mr-2">
+              {model.rank.before ? `#${model.rank.before}` : "—"} → {model.rank.after ? `#${model.rank.after}` : "—"}
+            </span>
+            <Delta value={model.rank.delta} lowerIsBetter />
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 mb-1">Sentiment</div>
+            <span className={cn(model.sentiment.flipped ? "text-yellow-400" : "text-white")}>
+              {model.sentiment.before || "—"} → {model.sentiment.after || "—"}
+            </span>
+          </div>
+        </div>
+
+        <ChangeList label="Citations (by domain)" added={model.citations_added} removed={model.citations_removed} />
+        <ChangeList label="Competitors mentioned" added={model.competitors_added} removed={model.competitors_removed} />
+
+        <button onClick={() => setShowText(!showText)} className="mt-4 flex items-center gap-1 text-sm text-gray-400 hover:text-white">
+          {showText ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          Response diff {!textChanged && "(identical)"}
+        </button>
+        {showText && (
+          <div className="mt-2 bg-[#0a0a0f] rounded-lg p-4 max-h-80 overflow-auto">
+            <pre className="text-sm whitespace-pre-wrap font-mono leading-relaxed">
+              {model.response_diff.map((part, i) => (
+                <span key={i} className={cn(
+                  "block",
+                  part.type === "added" && "bg-emerald-500/10 text-emerald-300",
+                  part.type === "removed" && "bg-red-500/10 text-red-300 line-through",
+                  part.type === "same" && "text-gray-400"
+                )}>{part.text}</span>
+              ))}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const AuditComparison: React.FC<AuditComparisonProps> = ({ diff, modelColors }) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-3 gap-4">
+      <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-4">
+        <div className="text-xs text-gray-500 mb-1">Share of Voice</div>
+        <div className="text-white text-lg font-semibold">
+          {diff.before.summary.share_of_voice}% → {diff.after.summary.share_of_voice}%
+        </div>
+        <div className="text-sm"><Delta value={diff.sov_delta} suffix="%" /></div>
+      </div>
+      <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-4">
+        <div className="text-xs text-gray-500 mb-1">Average Rank</div>
+        <div className="text-white text-lg font-semibold">
+          {diff.before.summary.average_rank ? `#${diff.before.summary.average_rank}` : "—"} → {diff.after.summary.average_rank ? `#${diff.after.summary.average_rank}` : "—"}
+        </div>
+        <div className="text-sm"><Delta value={diff.rank_delta} lowerIsBetter /></div>
+      </div>
+      <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-4">
+        <div className="text-xs text-gray-500 mb-1">Citations</div>
+        <div className="text-white text-lg font-semibold">
+          {diff.before.summary.total_citations} → {diff.after.summary.total_citations}
+        </div>
+        <div className="text-sm"><Delta value={diff.citations_delta} /></div>
+      </div>
+    </div>
+    {diff.models.map(model => (
+      <ModelDiffCard key={model.model} model={model} color={modelColors[model.model]} />
+    ))}
+  </div>
+);
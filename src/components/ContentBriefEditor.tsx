@@ -0,0 +1,189 @@
+/**
+ * Content Brief Editor - edit a brief generated from a prompt's audit gaps
+ * Saving runs the same schema as generated briefs (validateContentBrief); the gaps it came from stay read-only
+ */
+import React, { useEffect, useState } from "react";
+import { Copy, Plus, Save, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { BriefStatus, ContentBriefRecord } from "@/hooks/useClientDashboard";
+import {
+  BRIEF_CONTENT_TYPES, briefToMarkdown, type BriefContentType, type ContentBrief,
+} from "../../supabase/functions/_shared/contentBrief.ts";
+
+interface ContentBriefEditorProps {
+  record: ContentBriefRecord;
+  readOnly: boolean;
+  onSave: (briefId: string, updates: { brief?: ContentBrief; status?: BriefStatus }) => Promise<string[]>;
+  onDelete: (briefId: string) => void;
+}
+
+const BRIEF_STATUSES: BriefStatus[] = ["draft", "approved", "published"];
+
+const inputClass = "bg-[#0a0a0f] border-[#2a2a3e] text-white placeholder:text-gray-500";
+const selectContent = "bg-[#1a1a2e] border-[#2a2a3e]";
+const selectItem = "text-white hover:bg-[#2a2a3e] capitalize";
+
+export const ContentBriefEditor: React.FC<ContentBriefEditorProps> = ({ record, readOnly, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<ContentBrief>(record.brief);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(record.brief);
+
+  useEffect(() => {
+    setDraft(record.brief);
+    setErrors([]);
+  }, [record.id, record.brief]);
+
+  const update = (changes: Partial<ContentBrief>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateSection = (index: number, changes: Partial<ContentBrief["outline"][number]>) =>
+    update({ outline: draft.outline.map((s, i) => i === index ? { ...s, ...changes } : s) });
+
+  const updateSource = (index: number, changes: Partial<ContentBrief["sources_to_get_listed_on"][number]>) =>
+    update({ sources_to_get_listed_on: draft.sources_to_get_listed_on.map((s, i) => i === index ? { ...s, ...changes } : s) });
+
+  const save = async () => {
+    setSaving(true);
+    setErrors(await onSave(record.id, { brief: draft }));
+    setSaving(false);
+  };
+
+  const gaps = record.gaps;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 min-w-0">
+          <div className="text-xs text-gray-500 truncate">From prompt: {record.prompt_text}</div>
+          {record.generated_by && <div className="text-xs text-gray-600">Generated by {record.generated_by} · {new Date(record.created_at).toLocaleDateString()}</div>}
+        </div>
+        <Select value={record.status} onValueChange={v => onSave(record.id, { status: v as BriefStatus })} disabled={readOnly}>
+          <SelectTrigger className={`w-32 h-8 text-sm ${inputClass}`}><SelectValue /></SelectTrigger>
+          <SelectContent className={selectContent}>
+            {BRIEF_STATUSES.map(s => <SelectItem key={s} value={s} className={selectItem}>{s}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(briefToMarkdown(draft))} className="h-8 text-gray-400 hover:text-white">
+          <Copy className="h-4 w-4 mr-1" /> Markdown
+        </Button>
+        {!readOnly && (
+          <Button variant="ghost" size="icon" onClick={() => confirm(`Delete the brief "${record.title}"?`) && onDelete(record.id)} className="h-8 w-8 text-gray-400 hover:text-red-400">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <fieldset disabled={readOnly} className="space-y-4">
+        <div>
+          <Label className="mb-1 block text-gray-300">Title</Label>
+          <Input value={draft.title} onChange={e => update({ title: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <Label className="mb-1 block text-gray-300">Angle</Label>
+          <Textarea value={draft.angle} onChange={e => update({ angle: e.target.value })} rows={2} className={inputClass} />
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <Label className="mb-1 block text-gray-300">Type</Label>
+            <Select value={draft.content_type} onValueChange={v => update({ content_type: v as BriefContentType })} disabled={readOnly}>
+              <SelectTrigger className={inputClass}><SelectValue /></SelectTrigger>
+              <SelectContent className={selectContent}>
+                {BRIEF_CONTENT_TYPES.map(t => <SelectItem key={t} value={t} className={selectItem}>{t}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-1 block text-gray-300">Words</Label>
+            <Input type="number" min={300} max={5000} step={100} value={draft.word_count}
+              onChange={e => update({ word_count: Number(e.target.value) })} className={inputClass} />
+          </div>
+          <div>
+            <Label className="mb-1 block text-gray-300">Competitors to address</Label>
+            <Input value={draft.competitors_to_address.join(", ")} placeholder="Comma separated"
+              onChange={e => update({ competitors_to_address: e.target.value.split(",").map(c => c.trimStart()) })} className={inputClass} />
+          </div>
+        </div>
+        <div>
+          <Label className="mb-1 block text-gray-300">Target keywords</Label>
+          <Input value={draft.target_keywords.join(", ")} placeholder="Comma separated"
+            onChange={e => update({ target_keywords: e.target.value.split(",").map(k => k.trimStart()) })} className={inputClass} />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-gray-300">Outline</Label>
+            <Button variant="ghost" size="sm" onClick={() => update({ outline: [...draft.outline, { heading: "", points: [] }] })} className="h-7 text-gray-400 hover:text-white">
+              <Plus className="h-3 w-3 mr-1" /> Section
+            </Button>
+          </div>
+          {draft.outline.map((section, i) => (
+            <div key={i} className="bg-[#0a0a0f] border border-[#2a2a3e] rounded-lg p-3 space-y-2">
+              <div className="flex gap-2">
+                <Input value={section.heading} placeholder="Section heading" onChange={e => updateSection(i, { heading: e.target.value })}
+                  className={`h-8 text-sm font-medium ${inputClass}`} />
+                <Button variant="ghost" size="icon" onClick={() => update({ outline: draft.outline.filter((_, j) => j !== i) })} className="h-8 w-8 text-gray-500 hover:text-red-400">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <Textarea value={section.points.join("\n")} placeholder="What to cover, one point per line" rows={Math.max(2, section.points.length)}
+                onChange={e => updateSection(i, { points: e.target.value.split("\n") })} className={`text-sm ${inputClass}`} />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-gray-300">Sources to get listed on</Label>
+            <Button variant="ghost" size="sm" onClick={() => update({ sources_to_get_listed_on: [...draft.sources_to_get_listed_on, { domain: "", reason: "" }] })}
+              className="h-7 text-gray-400 hover:text-white">
+              <Plus className="h-3 w-3 mr-1" /> Source
+            </Button>
+          </div>
+          {draft.sources_to_get_listed_on.map((source, i) => (
+            <div key={i} className="flex gap-2">
+              <Input value={source.domain} placeholder="example.com" onChange={e => updateSource(i, { domain: e.target.value })} className={`w-48 h-8 text-sm ${inputClass}`} />
+              <Input value={source.reason} placeholder="Why it matters" onChange={e => updateSource(i, { reason: e.target.value })} className={`h-8 text-sm ${inputClass}`} />
+              <Button variant="ghost" size="icon" onClick={() => update({ sources_to_get_listed_on: draft.sources_to_get_listed_on.filter((_, j) => j !== i) })}
+                className="h-8 w-8 shrink-0 text-gray-500 hover:text-red-400">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </fieldset>
+
+      {errors.length > 0 && (
+        <div className="p-3 text-sm rounded-lg border border-red-500/30 bg-red-500/10 text-red-400">{errors.join(" · ")}</div>
+      )}
+      {!readOnly && (
+        <div className="flex justify-end gap-2">
+          {dirty && <Button variant="ghost" onClick={() => { setDraft(record.brief); setErrors([]); }} className="text-gray-400 hover:text-white">Discard</Button>}
+          <Button onClick={save} disabled={!dirty || saving} className="bg-purple-600 hover:bg-purple-700">
+            <Save className="h-4 w-4 mr-1" /> Save brief
+          </Button>
+        </div>
+      )}
+
+      {gaps && (
+        <details className="text-xs text-gray-500">
+          <summary className="cursor-pointer hover:text-gray-300">Audit gaps this brief was built from</summary>
+          <div className="mt-2 space-y-1">
+            {gaps.brand_missing_in.length > 0 && <div>Brand missing in: {gaps.brand_missing_in.join(", ")}</div>}
+            {gaps.winners.length > 0 && <div>Won by: {gaps.winners.map(w => `${w.name} (${w.models.length})`).join(", ")}</div>}
+            {gaps.entities_ahead.length > 0 && <div>Listed ahead: {gaps.entities_ahead.map(e => `${e.name} #${e.best_position}`).join(", ")}</div>}
+            {gaps.cited_domains.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                Cited: {gaps.cited_domains.map(d => <Badge key={d.domain} variant="outline" className="border-[#2a2a3e] text-gray-400 text-xs">{d.domain} · {d.citations}</Badge>)}
+              </div>
+            )}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+/**
+ * Content Scorer - GEO score of a draft with line-level suggestions
+ * The draft is pasted or taken from the Content tab's generated content; scoring runs in score-content
+ */
+import React, { useState } from "react";
+import { CheckCircle, ClipboardCheck, Copy, Gauge, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  SCORED_CONTENT_TYPES, isScoredContentType, type GeoScore, type GeoSuggestion, type ScoredContentType,
+} from "../../supabase/functions/_shared/contentScore.ts";
+
+interface ContentScorerProps {
+  generatedContent: string;
+  generatedType: string;
+  onScore: (content: string, type: ScoredContentType) => Promise<GeoScore | null>;
+}
+
+const SEVERITY_STYLES: Record<GeoSuggestion["severity"], string> = {
+  high: "border-red-600 text-red-400",
+  medium: "border-yellow-600 text-yellow-400",
+  low: "border-gray-600 text-gray-400",
+};
+
+const scoreColor = (score: number, max = 100) =>
+  score / max >= 0.75 ? "text-emerald-400" : score / max >= 0.5 ? "text-yellow-400" : "text-red-400";
+
+const barColor = (score: number, max: number) =>
+  score / max >= 0.75 ? "bg-emerald-500" : score / max >= 0.5 ? "bg-yellow-500" : "bg-red-500";
+
+export const ContentScorer: React.FC<ContentScorerProps> = ({ generatedContent, generatedType, onScore }) => {
+  const [draft, setDraft] = useState("");
+  const [type, setType] = useState<ScoredContentType>("article");
+  const [result, setResult] = useState<GeoScore | null>(null);
+  const [scoredDraft, setScoredDraft] = useState("");
+  const [scoring, setScoring] = useState(false);
+
+  const loadGenerated = () => {
+    setDraft(generatedContent);
+    if (isScoredContentType(generatedType)) setType(generatedType);
+  };
+
+  const score = async () => {
+    setScoring(true);
+    try {
+      const scored = await onScore(draft, type);
+      if (scored) { setResult(scored); setScoredDraft(draft); }
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  // Suggestions point at lines of the draft as it was scored
+  const lineText = (line: number | null) => line ? (scoredDraft.split("\n")[line - 1] || "").trim() : "";
+
+  return (
+    <div className="grid grid-cols-2 gap-6">
+      <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <Label className="text-gray-300 flex items-center gap-2"><Gauge className="h-4 w-4 text-blue-400" /> GEO Score a Draft</Label>
+          {generatedContent && (
+            <Button variant="ghost" size="sm" onClick={loadGenerated} className="text-gray-400 hover:text-white">Use generated content</Button>
+          )}
+        </div>
+        <Textarea value={draft} onChange={e => setDraft(e.target.value)} rows={16} placeholder="Paste a Markdown draft to see how likely AI answers are to cite it"
+          className="bg-[#0a0a0f] border-[#2a2a3e] text-white placeholder:text-gray-500 font-mono text-xs" />
+        <div className="flex items-center gap-2">
+          <Select value={type} onValueChange={v => setType(v as ScoredContentType)}>
+            <SelectTrigger className="w-40 bg-[#0a0a0f] border-[#2a2a3e] text-white"><SelectValue /></SelectTrigger>
+            <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+              {SCORED_CONTENT_TYPES.map(t => <SelectItem key={t} value={t} className="text-white hover:bg-[#2a2a3e] capitalize">{t}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button onClick={score} disabled={scoring || !draft.trim()} className="flex-1 bg-blue-600 hover:bg-blue-700">
+            {scoring ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ClipboardCheck className="h-4 w-4 mr-2" />}
+            {scoring ? "Scoring..." : "Score Draft"}
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">Checked against this client's brand, competitors and active prompts. Scoring is free.</p>
+      </div>
+
+      <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-6">
+        {!result ? (
+          <div className="text-center text-gray-500 py-16">The score, rule checks and suggestions will appear here</div>
+        ) : (
+          <div className="space-y-5 max-h-[560px] overflow-auto pr-1">
+            <div className="flex items-end gap-3">
+              <span className={cn("text-4xl font-bold", scoreColor(result.score))}>{result.score}</span>
+              <span className="text-gray-500 mb-1">/ 100</span>
+              <span className="ml-auto text-xs text-gray-500 mb-1">
+                {result.stats.words} words · {result.stats.facts} facts
+                {result.stats.prompts_total > 0 && ` · ${result.stats.prompts_covered}/${result.stats.prompts_total} prompts answered`}
+              </span>
+            </div>
+
+            <div className="space-y-2">
+              {result.factors.map(f => (
+                <div key={f.id}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-300">{f.label}</span>
+                    <span className={scoreColor(f.score, f.max)}>{f.score}/{f.max}</span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-[#0a0a0f] mt-1">
+                    <div className={cn("h-1.5 rounded-full", barColor(f.score, f.max))} style={{ width: `${(f.score / f.max) * 100}%` }} />
+                  </div>
+                  <div className="text-xs text-gray-500 mt-0.5">{f.detail}</div>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <div className="text-xs text-gray-500 mb-2 capitalize">{result.type} rules</div>
+              <div className="space-y-1">
+                {result.rules.map(r => (
+                  <div key={r.id} className="flex items-start gap-2 text-sm">
+                    {r.passed ? <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-emerald-400" /> : <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-400" />}
+                    <span className="text-gray-300">{r.requirement} <span className="text-gray-500">- {r.detail}</span></span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {result.suggestions.length > 0 && (
+              <div>
+                <div className="text-xs text-gray-500 mb-2">Suggestions ({result.suggestions.length})</div>
+                <div className="space-y-2">
+                  {result.suggestions.map((s, i) => (
+                    <div key={i} className="bg-[#0a0a0f] rounded-lg p-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className={cn("text-xs", SEVERITY_STYLES[s.severity])}>{s.line ? `Line ${s.line}` : "Draft"}</Badge>
+                        <span className="text-gray-300">{s.message}</span>
+                      </div>
+                      {lineText(s.line) && <div className="text-xs text-gray-500 font-mono mt-1 truncate">{lineText(s.line)}</div>}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {result.schema.length > 0 && (
+              <div>
+                <div className="text-xs text-gray-500 mb-2">Schema.org markup to publish with</div>
+                <div className="space-y-2">
+                  {result.schema.map(s => (
+                    <details key={s.type} className="bg-[#0a0a0f] rounded-lg p-2 text-sm">
+                      <summary className="cursor-pointer text-gray-300">
+                        {s.type} <span className="text-gray-500">- {s.reason}</span>
+                      </summary>
+                      <div className="flex justify-end">
+                        <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(`<script type="application/ld+json">\n${s.json_ld}\n</script>`)} className="h-7 text-gray-400 hover:text-white">
+                          <Copy className="h-3 w-3 mr-1" /> Copy
+                        </Button>
+                      </div>
+                      <pre className="text-xs text-gray-400 overflow-auto max-h-48">{s.json_ld}</pre>
+                    </details>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+/**
+ * Credentials Manager - an organization's provider keys (owners and admins)
+ * Keys are write-only: after saving, only the hint and the last test result are shown
+ */
+import React, { useState } from "react";
+import { CheckCircle, KeyRound, Loader2, RefreshCw, Trash2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import type { CredentialStatus, CredentialTest } from "@/hooks/useCredentials";
+import { CREDENTIAL_PROVIDERS, type CredentialProvider } from "../../supabase/functions/_shared/credentialProviders.ts";
+
+interface CredentialsManagerProps {
+  credentials: CredentialStatus[];
+  encryption: boolean;
+  loading: boolean;
+  busy: CredentialProvider | null;
+  onSave: (provider: CredentialProvider, secret: string) => Promise<CredentialTest | null>;
+  onTest: (provider: CredentialProvider) => Promise<CredentialTest | null>;
+  onRemove: (provider: CredentialProvider) => Promise<boolean>;
+}
+
+const inputClass = "h-8 bg-[#0a0a0f] border-[#2a2a3e] text-white text-sm placeholder:text-gray-500";
+
+export const CredentialsManager: React.FC<CredentialsManagerProps> = ({ credentials, encryption, loading, busy, onSave, onTest, onRemove }) => {
+  const [editing, setEditing] = useState<CredentialProvider | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [results, setResults] = useState<Partial<Record<CredentialProvider, CredentialTest>>>({});
+
+  const startEditing = (provider: CredentialProvider) => {
+    setEditing(provider);
+    setValues({});
+  };
+
+  // Multi-field providers (DataForSEO login + password) are stored as "a:b"
+  const save = async (provider: CredentialProvider) => {
+    const fields = CREDENTIAL_PROVIDERS[provider].fields;
+    if (fields.some(f => !values[f.name]?.trim())) return;
+    const test = await onSave(provider, fields.map(f => values[f.name].trim()).join(":"));
+    if (!test) return;
+    setResults(prev => ({ ...prev, [provider]: test }));
+    setEditing(null);
+    setValues({});
+  };
+
+  const test = async (provider: CredentialProvider) => {
+    const result = await onTest(provider);
+    if (result) setResults(prev => ({ ...prev, [provider]: result }));
+  };
+
+  const remove = async (provider: CredentialProvider) => {
+    if (!confirm(`Remove the ${CREDENTIAL_PROVIDERS[provider].label} key? Audits fall back to the project key, if there is one.`)) return;
+    if (await onRemove(provider)) setResults(prev => ({ ...prev, [provider]: undefined }));
+  };
+
+  if (loading && credentials.length === 0) {
+    return <div className="flex justify-center py-8"><Loader2 className="h-5 w-5 animate-spin text-gray-400" /></div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {!encryption && (
+        <div className="p-3 text-sm rounded-lg border border-yellow-500/30 bg-yellow-500/10 text-yellow-300">
+          CREDENTIALS_ENCRYPTION_KEY is not set on the edge functions - keys cannot be saved until it is.
+        </div>
+      )}
+
+      <div className="divide-y divide-[#2a2a3e] border border-[#2a2a3e] rounded-lg">
+        {credentials.map(c => {
+          const info = CREDENTIAL_PROVIDERS[c.provider];
+          const result = results[c.provider];
+          const ok = result ? result.ok : c.last_test_ok;
+          const message = result ? result.message : c.last_test_message;
+          const isBusy = busy === c.provider;
+          return (
+            <div key={c.provider} className="p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-sm text-white">
+                    {info.label}
+                    {c.configured ? (
+                      <Badge variant="outline" className="text-xs border-green-500/30 text-green-400">Key {c.key_hint}</Badge>
+                    ) : c.env_fallback ? (
+                      <Badge variant="outline" className="text-xs border-[#2a2a3e] text-gray-400">Project key</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs border-[#2a2a3e] text-gray-500">Not set</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">{info.used_for}</div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => test(c.provider)} disabled={isBusy || (!c.configured && !c.env_fallback)}
+                  className="h-8 text-gray-400 hover:text-white">
+                  {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />} Test
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => startEditing(c.provider)} disabled={isBusy || !encryption}
+                  className="h-8 text-gray-400 hover:text-white">
+                  <KeyRound className="h-4 w-4 mr-1" /> {c.configured ? "Rotate" : "Add"}
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => remove(c.provider)} disabled={isBusy || !c.configured}
+                  className="h-8 w-8 text-gray-400 hover:text-red-400">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {ok != null && message && (
+                <div className={`flex items-center gap-1.5 text-xs ${ok ? "text-green-400" : "text-red-400"}`}>
+                  {ok ? <CheckCircle className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
+                  {message}
+                  {!result && c.last_tested_at && <span className="text-gray-500">· {new Date(c.last_tested_at).toLocaleString()}</span>}
+                </div>
+              )}
+
+              {editing === c.provider && (
+                <div className="flex gap-2">
+                  {info.fields.map(f => (
+                    <Input key={f.name} type={f.secret ? "password" : "text"} autoComplete="off" placeholder={f.label}
+                      value={values[f.name] || ""} onChange={e => setValues(prev => ({ ...prev, [f.name]: e.target.value }))}
+                      onKeyDown={e => e.key === "Enter" && save(c.provider)} className={inputClass} />
+                  ))}
+                  <Button size="sm" onClick={() => save(c.provider)} disabled={isBusy || info.fields.some(f => !values[f.name]?.trim())}
+                    className="h-8 bg-blue-600 hover:bg-blue-700">
+                    {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save & Test"}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setEditing(null)} className="h-8 text-gray-400 hover:text-white">Cancel</Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
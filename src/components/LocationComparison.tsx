@@ -0,0 +1,110 @@
+/**
+ * Location Comparison - visibility of the same prompts across audit locations
+ */
+import React from "react";
+import { MapPin } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { LocationComparison as LocationComparisonData } from "@/lib/locationComparison";
+
+interface LocationComparisonProps {
+  comparison: LocationComparisonData;
+  models: Array<{ id: string; name: string; color: string }>;
+}
+
+function sovColor(sov: number | null): string {
+  if (sov === null) return "text-gray-600";
+  if (sov >= 50) return "text-emerald-400";
+  if (sov >= 20) return "text-yellow-400";
+  return "text-red-400";
+}
+
+export const LocationComparison: React.FC<LocationComparisonProps> = ({ comparison, models }) => {
+  const { locations, prompts } = comparison;
+  const shownModels = models.filter(m => locations.some(l => l.models[m.id] !== undefined));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${Math.min(locations.length, 4)}, minmax(0, 1fr))` }}>
+        {locations.map(l => (
+          <div key={l.location_code} className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-4">
+            <div className="flex items-center gap-2 mb-3">
+              <MapPin className="h-4 w-4 text-blue-400" />
+              <span className="font-medium text-white truncate" title={l.location_name}>{l.location_name}</span>
+            </div>
+            <div className={cn("text-3xl font-bold", sovColor(l.average_sov))}>{l.average_sov}%</div>
+            <div className="text-xs text-gray-500 mb-3">Share of Voice · {l.prompts} prompts</div>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div>
+                <div className="text-xs text-gray-500">Mention rate</div>
+                <div className="text-white">{l.mention_rate}%</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Avg. rank</div>
+                <div className="text-white">{l.average_rank ? `#${l.average_rank}` : "—"}</div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl overflow-hidden">
+        <div className="p-4 border-b border-[#2a2a3e] font-medium text-white">Visibility by Model</div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-xs">
+                <th className="text-left font-normal p-3">Model</th>
+                {locations.map(l => <th key={l.location_code} className="text-right font-normal p-3">{l.location_name.split(",")[0]}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {shownModels.map(m => (
+                <tr key={m.id} className="border-t border-[#2a2a3e]">
+                  <td className="p-3 text-white">
+                    <span className="inline-block h-2 w-2 rounded-full mr-2" style={{ backgroundColor: m.color }} />{m.name}
+                  </td>
+                  {locations.map(l => (
+                    <td key={l.location_code} className={cn("p-3 text-right", sovColor(l.models[m.id] ?? null))}>
+                      {l.models[m.id] !== undefined ? `${l.models[m.id]}%` : "—"}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl overflow-hidden">
+        <div className="p-4 border-b border-[#2a2a3e]">
+          <div className="font-medium text-white">Share of Voice by Prompt</div>
+          <div className="text-xs text-gray-500">Largest gap between locations first</div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-xs">
+                <th className="text-left font-normal p-3">Prompt</th>
+                {locations.map(l => <th key={l.location_code} className="text-right font-normal p-3">{l.location_name.split(",")[0]}</th>)}
+                <th className="text-right font-normal p-3">Gap</th>
+              </tr>
+            </thead>
+            <tbody>
+              {prompts.map(p => (
+                <tr key={p.prompt_id} className="border-t border-[#2a2a3e]">
+                  <td className="p-3 text-white max-w-md truncate" title={p.prompt_text}>{p.prompt_text}</td>
+                  {locations.map(l => (
+                    <td key={l.location_code} className={cn("p-3 text-right", sovColor(p.sov[l.location_code]))}>
+                      {p.sov[l.location_code] !== null ? `${p.sov[l.location_code]}%` : "—"}
+                    </td>
+                  ))}
+                  <td className="p-3 text-right text-gray-400">{p.spread > 0 ? `${p.spread}%` : "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+/**
+ * Location Picker - searchable country / region / city list (_shared/locations.ts)
+ * A numeric query that isn't in the list can be used as a raw DataForSEO location code
+ */
+import React, { useMemo, useState } from "react";
+import { MapPin } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { findLocation, formatLocation, searchLocations } from "../../supabase/functions/_shared/locations.ts";
+
+interface LocationPickerProps {
+  value: number | null;
+  onSelect: (code: number) => void;
+  placeholder?: string;
+  exclude?: number[];  // codes already chosen (multi-location lists)
+  className?: string;
+}
+
+export const LocationPicker: React.FC<LocationPickerProps> = ({ value, onSelect, placeholder = "Search country, region or city...", exclude = [], className }) => {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+
+  const matches = useMemo(
+    () => searchLocations(query).filter(l => !exclude.includes(l.code)),
+    [query, exclude]
+  );
+  const customCode = /^\d{4,7}$/.test(query.trim()) && !findLocation(Number(query.trim())) ? Number(query.trim()) : null;
+
+  const choose = (code: number) => {
+    onSelect(code);
+    setQuery("");
+    setOpen(false);
+  };
+
+  return (
+    <div className={cn("relative", className)}>
+      <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500" />
+      <Input
+        value={open ? query : value ? formatLocation(value) : ""}
+        placeholder={placeholder}
+        onFocus={() => { setQuery(""); setOpen(true); }}
+        onBlur={() => setOpen(false)}
+        onChange={e => setQuery(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === "Enter" && (customCode || matches[0])) choose(customCode ?? matches[0].code);
+          if (e.key === "Escape") setOpen(false);
+        }}
+        className="pl-9 bg-[#0a0a0f] border-[#2a2a3e] text-white"
+      />
+      {open && (
+        <div className="absolute z-50 mt-1 w-full max-h-64 overflow-auto rounded-md border border-[#2a2a3e] bg-[#1a1a2e] shadow-lg">
+          {customCode && (
+            // onMouseDown so the choice lands before the input's blur closes the list
+            <button onMouseDown={e => { e.preventDefault(); choose(customCode); }}
+              className="w-full text-left px-3 py-2 text-sm text-blue-400 hover:bg-[#2a2a3e]">
+              Use location code {customCode}
+            </button>
+          )}
+          {matches.map(l => (
+            <button key={l.code} onMouseDown={e => { e.preventDefault(); choose(l.code); }}
+              className={cn("w-full flex items-center justify-between px-3 py-2 text-sm hover:bg-[#2a2a3e]", l.code === value ? "text-blue-400" : "text-white")}>
+              <span className="truncate">{formatLocation(l.code)}</span>
+              <span className="ml-2 text-xs text-gray-500">{l.type}</span>
+            </button>
+          ))}
+          {matches.length === 0 && !customCode && (
+            <div className="px-3 py-2 text-sm text-gray-500">No matches. Enter a DataForSEO location code to use it directly.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
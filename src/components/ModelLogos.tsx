@@ -53,14 +53,33 @@ export const GoogleSERPLogo: React.FC<LogoProps> = ({ className = "w-4 h-4", sty
   </svg>
 );
 
+// Bing Logo - Stylized b
+export const BingLogo: React.FC<LogoProps> = ({ className = "w-4 h-4", style }) => (
+  <svg viewBox="0 0 24 24" className={className} fill="currentColor" style={style}>
+    <path d="M5 2l4 1.4v14.1l5.6-3.2-2.8-1.3-1.7-4.3 8.9 3.1v4.6L9 22l-4-2.2V2z" />
+  </svg>
+);
+
+// Copilot Logo - Overlapping petals
+export const CopilotLogo: React.FC<LogoProps> = ({ className = "w-4 h-4", style }) => (
+  <svg viewBox="0 0 24 24" className={className} fill="currentColor" style={style}>
+    <path d="M8 3h6.5c1.2 0 2.2.8 2.5 1.9L21 19c.4 1.1-.5 2-1.6 2H16l-4-13h-3.6L8 3zm-.6 3H11l4 14H8.5c-1.2 0-2.2-.8-2.5-1.9L3 8c-.4-1.1.5-2 1.6-2h2.8z" />
+  </svg>
+);
+
 // Model logos map with colors
 export const MODEL_LOGOS: Record<string, { Logo: React.FC<LogoProps>; color: string; name: string }> = {
   chatgpt: { Logo: ChatGPTLogo, color: "#10b981", name: "ChatGPT" },
   claude: { Logo: ClaudeLogo, color: "#f59e0b", name: "Claude" },
   gemini: { Logo: GeminiLogo, color: "#3b82f6", name: "Gemini" },
   perplexity: { Logo: PerplexityLogo, color: "#8b5cf6", name: "Perplexity" },
+  chatgpt_search: { Logo: ChatGPTLogo, color: "#059669", name: "ChatGPT Search" },
+  gemini_grounded: { Logo: GeminiLogo, color: "#1d4ed8", name: "Gemini Grounded" },
   google_ai_overview: { Logo: GoogleAILogo, color: "#ef4444", name: "Google AI Overview" },
   google_serp: { Logo: GoogleSERPLogo, color: "#22c55e", name: "Google SERP" },
+  bing_copilot: { Logo: CopilotLogo, color: "#0078d4", name: "Bing Copilot" },
+  bing_serp: { Logo: BingLogo, color: "#00a2ed", name: "Bing SERP" },
+  generic_serp: { Logo: GoogleSERPLogo, color: "#94a3b8", name: "Other SERP" },
 };
 
 // Helper component to render model logo with name
@@ -0,0 +1,106 @@
+/**
+ * Team Members - roles and client access for an organization (owners and admins)
+ * Members and viewers can be limited to some clients (agency staff on their accounts)
+ */
+import React, { useState } from "react";
+import { Trash2, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { OrganizationMember } from "@/hooks/useAuth";
+import { ROLES, ROLE_LABELS, type Role } from "../../supabase/functions/_shared/permissions.ts";
+
+interface TeamMembersProps {
+  members: OrganizationMember[];
+  clients: Array<{ id: string; name: string }>;
+  currentUserId: string | null;
+  currentRole: Role | null;
+  onAdd: (email: string, role: Role) => Promise<boolean>;
+  onUpdate: (memberId: string, updates: { role?: Role; client_ids?: string[] | null }) => void;
+  onRemove: (memberId: string) => void;
+}
+
+const selectTrigger = "h-8 bg-[#0a0a0f] border-[#2a2a3e] text-white text-sm";
+const selectContent = "bg-[#1a1a2e] border-[#2a2a3e]";
+const selectItem = "text-white hover:bg-[#2a2a3e]";
+
+export const TeamMembers: React.FC<TeamMembersProps> = ({ members, clients, currentUserId, currentRole, onAdd, onUpdate, onRemove }) => {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>("member");
+  // Only owners can hand out (or take away) the owner role
+  const assignable = ROLES.filter(r => r !== "owner" || currentRole === "owner");
+
+  const add = async () => {
+    if (!email.trim()) return;
+    if (await onAdd(email, role)) setEmail("");
+  };
+
+  const toggleClient = (member: OrganizationMember, clientId: string) => {
+    const current = member.client_ids || [];
+    const next = current.includes(clientId) ? current.filter(id => id !== clientId) : [...current, clientId];
+    onUpdate(member.id, { client_ids: next });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Input placeholder="Email of an existing account" value={email} onChange={e => setEmail(e.target.value)}
+          onKeyDown={e => e.key === "Enter" && add()}
+          className="bg-[#0a0a0f] border-[#2a2a3e] text-white placeholder:text-gray-500" />
+        <Select value={role} onValueChange={v => setRole(v as Role)}>
+          <SelectTrigger className={`w-32 ${selectTrigger}`}><SelectValue /></SelectTrigger>
+          <SelectContent className={selectContent}>
+            {assignable.map(r => <SelectItem key={r} value={r} className={selectItem}>{ROLE_LABELS[r]}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button onClick={add} disabled={!email.trim()} className="bg-blue-600 hover:bg-blue-700"><UserPlus className="h-4 w-4 mr-1" /> Add</Button>
+      </div>
+
+      <div className="divide-y divide-[#2a2a3e] border border-[#2a2a3e] rounded-lg">
+        {members.map(m => {
+          const isSelf = m.user_id === currentUserId;
+          const locked = isSelf || (m.role === "owner" && currentRole !== "owner");
+          const scoped = m.role === "member" || m.role === "viewer";
+          return (
+            <div key={m.id} className="p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-white truncate">{m.full_name || m.email}{isSelf && <span className="text-gray-500"> (you)</span>}</div>
+                  {m.full_name && <div className="text-xs text-gray-500 truncate">{m.email}</div>}
+                </div>
+                <Select value={m.role} onValueChange={v => onUpdate(m.id, { role: v as Role })} disabled={locked}>
+                  <SelectTrigger className={`w-28 ${selectTrigger}`}><SelectValue /></SelectTrigger>
+                  <SelectContent className={selectContent}>
+                    {(locked ? ROLES : assignable).map(r => <SelectItem key={r} value={r} className={selectItem}>{ROLE_LABELS[r]}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" onClick={() => onRemove(m.id)} disabled={locked} className="h-8 w-8 text-gray-400 hover:text-red-400">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {scoped && (
+                <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+                  <Select value={m.client_ids ? "some" : "all"} onValueChange={v => onUpdate(m.id, { client_ids: v === "all" ? null : [] })}>
+                    <SelectTrigger className={`w-36 ${selectTrigger}`}><SelectValue /></SelectTrigger>
+                    <SelectContent className={selectContent}>
+                      <SelectItem value="all" className={selectItem}>All clients</SelectItem>
+                      <SelectItem value="some" className={selectItem}>Selected clients</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {m.client_ids && clients.map(c => (
+                    <label key={c.id} className="flex items-center gap-1.5 cursor-pointer">
+                      <Checkbox checked={m.client_ids!.includes(c.id)} onCheckedChange={() => toggleClient(m, c.id)} />
+                      {c.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {members.length === 0 && <div className="p-4 text-sm text-center text-gray-500">No members yet</div>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+/**
+ * Trend Chart - lightweight SVG line chart for the Trends tab
+ */
+import React from "react";
+
+export interface TrendSeries {
+  id: string;
+  label: string;
+  color: string;
+  values: Array<number | null>; // one value per label in `buckets`, null = no data
+}
+
+interface TrendChartProps {
+  buckets: string[];
+  series: TrendSeries[];
+  max?: number;
+  invert?: boolean; // lower is better (e.g. rank): draw lower values higher up
+  formatValue?: (value: number) => string;
+  height?: number;
+}
+
+const WIDTH = 800;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 40 };
+
+export const TrendChart: React.FC<TrendChartProps> = ({
+  buckets, series, max, invert = false, formatValue = v => String(v), height = 260,
+}) => {
+  const allValues = series.flatMap(s => s.values.filter((v): v is number => v != null));
+  const yMin = invert ? 1 : 0;
+  const yMax = Math.max(max ?? 0, ...allValues, yMin + 1);
+  const plotW = WIDTH - PADDING.left - PADDING.right;
+  const plotH = height - PADDING.top - PADDING.bottom;
+
+  const x = (i: number) => PADDING.left + (buckets.length > 1 ? (i / (buckets.length - 1)) * plotW : plotW / 2);
+  const y = (v: number) => {
+    const ratio = (v - yMin) / (yMax - yMin || 1);
+    return PADDING.top + (invert ? ratio : 1 - ratio) * plotH;
+  };
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(t => yMin + t * (yMax - yMin));
+  const labelEvery = Math.max(1, Math.ceil(buckets.length / 8));
+
+  // Break the line where a bucket has no data
+  const segments = (values: Array<number | null>) => {
+    const result: string[] = [];
+    let current: string[] = [];
+    values.forEach((v, i) => {
+      if (v == null) {
+        if (current.length) result.push(current.join(" "));
+        current = [];
+      } else {
+        current.push(`${x(i)},${y(v)}`);
+      }
+    });
+    if (current.length) result.push(current.join(" "));
+    return result;
+  };
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" style={{ height }}>
+      {ticks.map((t, i) => (
+        <g key={i}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(t)} y2={y(t)} stroke="#2a2a3e" strokeWidth={1} />
+          <text x={PADDING.left - 6} y={y(t) + 4} textAnchor="end" fontSize={10} fill="#6b7280">{formatValue(Math.round(t * 10) / 10)}</text>
+        </g>
+      ))}
+      {buckets.map((b, i) => i % labelEvery === 0 && (
+        <text key={b} x={x(i)} y={height - 8} textAnchor="middle" fontSize={10} fill="#6b7280">{b}</text>
+      ))}
+      {series.map(s => (
+        <g key={s.id}>
+          {segments(s.values).map((points, i) => (
+            <polyline key={i} points={points} fill="none" stroke={s.color} strokeWidth={s.id === "all" ? 2.5 : 1.5} strokeLinejoin="round" />
+          ))}
+          {s.values.map((v, i) => v != null && (
+            <circle key={i} cx={x(i)} cy={y(v)} r={s.id === "all" ? 3 : 2} fill={s.color}>
+              <title>{`${s.label} · ${buckets[i]}: ${formatValue(v)}`}</title>
+            </circle>
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+};
@@ -0,0 +1,222 @@
+/**
+ * ============================================================================
+ * FORZEO AUTH HOOK
+ * ============================================================================
+ *
+ * Sign-in state, organization memberships and the current organization.
+ *
+ * - Email/password sign-in via Supabase Auth (session persisted by the client)
+ * - Memberships from organization_members (role + optional client_ids)
+ * - Current organization remembered in localStorage
+ * - Team management for owners/admins (create_organization and
+ *   add_organization_member RPCs, see database/add_auth_and_roles.sql)
+ *
+ * Roles and what they may do live in _shared/permissions.ts. The dashboard
+ * only uses them to hide controls; Row Level Security and the edge functions
+ * enforce them.
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { can, type Permission, type Role } from "../../supabase/functions/_shared/permissions.ts";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface Membership {
+  organization: Organization;
+  role: Role;
+  client_ids: string[] | null;   // null = every client in the organization
+}
+
+export interface OrganizationMember {
+  id: string;
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  role: Role;
+  client_ids: string[] | null;
+}
+
+const CURRENT_ORG_KEY = "forzeo_current_organization";
+
+// ============================================
+// MAIN HOOK
+// ============================================
+
+export function useAuth() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [currentOrgId, setCurrentOrgId] = useState<string | null>(() => localStorage.getItem(CURRENT_ORG_KEY));
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const user: User | null = session?.user ?? null;
+  const membership = memberships.find(m => m.organization.id === currentOrgId) || memberships[0] || null;
+  const role: Role | null = membership?.role ?? null;
+
+  // ============================================
+  // SESSION
+  // ============================================
+
+  const signIn = useCallback(async (email: string, password: string): Promise<boolean> => {
+    setError(null);
+    const { error: signInError } = await supabase.auth.signInWithPassword({ email, password });
+    if (signInError) { setError(signInError.message); return false; }
+    return true;
+  }, []);
+
+  // Returns true when the account needs email confirmation before signing in
+  const signUp = useCallback(async (email: string, password: string, fullName?: string): Promise<boolean> => {
+    setError(null);
+    const { data, error: signUpError } = await supabase.auth.signUp({
+      email, password, options: { data: { full_name: fullName || null } },
+    });
+    if (signUpError) { setError(signUpError.message); return false; }
+    return !data.session;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    setMemberships([]);
+    setMembers([]);
+  }, []);
+
+  // ============================================
+  // ORGANIZATIONS
+  // ============================================
+
+  const fetchMemberships = useCallback(async (userId: string) => {
+    const { data, error: fetchError } = await supabase
+      .from("organization_members")
+      .select("role, client_ids, organizations(id, name, slug)")
+      .eq("user_id", userId);
+    if (fetchError) {
+      console.error("Memberships fetch error:", fetchError);
+      setError(`Could not load organizations: ${fetchError.message}`);
+      setMemberships([]);
+      return;
+    }
+    setMemberships((data || [])
+      .filter((m: Record<string, any>) => m.organizations)
+      .map((m: Record<string, any>) => ({
+        organization: m.organizations as Organization, role: m.role as Role, client_ids: m.client_ids || null,
+      }))
+      .sort((a, b) => a.organization.name.localeCompare(b.organization.name)));
+  }, []);
+
+  const switchOrganization = useCallback((organizationId: string) => {
+    setCurrentOrgId(organizationId);
+    localStorage.setItem(CURRENT_ORG_KEY, organizationId);
+  }, []);
+
+  const createOrganization = useCallback(async (name: string): Promise<string | null> => {
+    if (!user || !name.trim()) return null;
+    setError(null);
+    const { data, error: rpcError } = await supabase.rpc("create_organization", { p_name: name.trim() });
+    if (rpcError) { setError(rpcError.message); return null; }
+    await fetchMemberships(user.id);
+    switchOrganization(data as string);
+    return data as string;
+  }, [user, fetchMemberships, switchOrganization]);
+
+  // ============================================
+  // TEAM - owners and admins
+  // ============================================
+
+  const fetchMembers = useCallback(async () => {
+    if (!membership || !can(membership.role, "manage_members")) { setMembers([]); return; }
+    const { data, error: fetchError } = await supabase
+      .from("organization_members")
+      .select("id, user_id, role, client_ids, users(email, full_name)")
+      .eq("organization_id", membership.organization.id);
+    if (fetchError) { console.error("Members fetch error:", fetchError); return; }
+    setMembers((data || []).map((m: Record<string, any>) => ({
+      id: m.id, user_id: m.user_id, email: m.users?.email || "", full_name: m.users?.full_name || null,
+      role: m.role, client_ids: m.client_ids || null,
+    })).sort((a, b) => a.email.localeCompare(b.email)));
+  }, [membership?.organization.id, membership?.role]);
+
+  // The user must have signed up already; members are matched by email
+  const addMember = useCallback(async (email: string, memberRole: Role): Promise<boolean> => {
+    if (!membership) return false;
+    setError(null);
+    const { error: rpcError } = await supabase.rpc("add_organization_member", {
+      p_organization_id: membership.organization.id, p_email: email.trim(), p_role: memberRole,
+    });
+    if (rpcError) { setError(rpcError.message); return false; }
+    await fetchMembers();
+    return true;
+  }, [membership?.organization.id, fetchMembers]);
+
+  // client_ids: null gives access to every client, a list limits the member to those accounts
+  const updateMember = useCallback(async (memberId: string, updates: { role?: Role; client_ids?: string[] | null }) => {
+    setError(null);
+    const { error: updateError } = await supabase.from("organization_members").update(updates).eq("id", memberId);
+    if (updateError) { setError(updateError.message); return; }
+    setMembers(prev => prev.map(m => m.id === memberId ? { ...m, ...updates } : m));
+  }, []);
+
+  const removeMember = useCallback(async (memberId: string) => {
+    setError(null);
+    const { error: deleteError } = await supabase.from("organization_members").delete().eq("id", memberId);
+    if (deleteError) { setError(deleteError.message); return; }
+    setMembers(prev => prev.filter(m => m.id !== memberId));
+  }, []);
+
+  const hasPermission = useCallback((permission: Permission) => can(role, permission), [role]);
+
+  // ============================================
+  // INITIALIZATION
+  // ============================================
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      if (!data.session) setLoading(false);
+    });
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => setSession(newSession));
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    setLoading(true);
+    fetchMemberships(user.id).finally(() => setLoading(false));
+  }, [user?.id, fetchMemberships]);
+
+  useEffect(() => { fetchMembers(); }, [fetchMembers]);
+
+  // ============================================
+  // RETURN
+  // ============================================
+
+  return {
+    // State
+    session, user, loading, error, memberships, members,
+    organization: membership?.organization ?? null, role, clientIds: membership?.client_ids ?? null,
+
+    // Session
+    signIn, signUp, signOut,
+
+    // Organizations
+    switchOrganization, createOrganization,
+
+    // Team
+    addMember, updateMember, removeMember,
+
+    // Permissions
+    can: hasPermission,
+  };
+}
+
+export type AuthState = ReturnType<typeof useAuth>;
@@ -19,24 +19,34 @@
  * - audit_results: LLM response analysis results
  * - forzeo_citations: Extracted source citations
  * - forzeo_api_usage: API cost tracking
+ * - audit_jobs: Server-side batch run progress
+ * - alerts: In-app alert inbox (written by geo-audit alert rules)
+ * - outreach_opportunities: Outreach status per cited domain/URL
+ * - content_briefs: Briefs generated from a prompt's audit gaps
  * 
  * ============================================================================
  * KEY FEATURES
  * ============================================================================
  * 
  * Client Management:
+ * - Clients of the current organization only (agency staff: their accounts)
  * - Add, update, delete clients
+ * - Actions checked against the user's role (_shared/permissions.ts)
  * - Switch between clients
  * - Configure brand tags and competitors
+ * - Configure alert rules (SOV threshold, email, webhook)
  * 
  * Prompt Management:
  * - Add single or bulk prompts
  * - Generate prompts from keywords (AI)
  * - Import/export prompts
  * - Categorize by niche level
+ * - Audit language per prompt (defaults to the client's), with per-language brand aliases
  * 
  * Audit Execution:
- * - Run full audit (all prompts)
+ * - Run full audit (all prompts, as a server-side batch job)
+ * - Run every prompt at several locations (country, region or city)
+ * - Resume tracking a running job after reload
  * - Run single prompt audit
  * - Re-run existing audits
  * - Track loading states
@@ -45,8 +55,13 @@
  * - Share of Voice calculation
  * - Model-by-model visibility stats
  * - Competitor gap analysis
- * - Top sources aggregation
+ * - Top sources aggregation (classified by source type)
+ * - Outreach opportunities (sources citing competitors but not the brand) with status tracking
+ * - Content briefs from a prompt's gaps (winners, entities ahead, cited domains), editable and saved
+ * - GEO score of a draft against the tracked prompts, with line-level suggestions (score-content)
  * - Insights and recommendations
+ * - Visibility trends over time (per prompt, per model)
+ * - Location comparison (same prompts across audit locations)
  * 
  * Export:
  * - CSV export
@@ -70,7 +85,7 @@
  *     runFullAudit,
  *     addCustomPrompt,
  *     // ... more
- *   } = useClientDashboard();
+ *   } = useClientDashboard({ organizationId, role });
  * 
  *   return <div>...</div>;
  * }
@@ -81,7 +96,22 @@
  */
 
 import { useState, useCallback, useEffect } from "react";
+import { FunctionsFetchError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { wilsonInterval } from "@/lib/stats";
+import { discoverCompetitors, type CompetitorCandidate } from "@/lib/competitorDiscovery";
+import { findOutreachOpportunities, type OpportunityTarget, type OutreachOpportunity } from "@/lib/outreachOpportunities";
+import { parseEntity, countEntityMentions, withLanguageAliases, type EntitySpec, type LanguageAliases } from "../../supabase/functions/_shared/brandMatching.ts";
+import { DEFAULT_LANGUAGE, normalizeLanguage } from "../../supabase/functions/_shared/languages.ts";
+import { DEFAULT_LOCATION_CODE, LOCATIONS } from "../../supabase/functions/_shared/locations.ts";
+import type { RankedEntity } from "../../supabase/functions/_shared/answerParser.ts";
+import type { MentionSentiment, Stance } from "../../supabase/functions/_shared/sentiment.ts";
+import { classifySource, type SourceClass, type SourceOverride } from "../../supabase/functions/_shared/citationClassifier.ts";
+import { can, ROLE_LABELS, type Permission, type Role } from "../../supabase/functions/_shared/permissions.ts";
+import { isGenerationError, type GenerationError } from "../../supabase/functions/_shared/generationErrors.ts";
+import { validateContentBrief, type BriefGaps, type ContentBrief } from "../../supabase/functions/_shared/contentBrief.ts";
+import type { GeoScore, ScoredContentType } from "../../supabase/functions/_shared/contentScore.ts";
+import { collectBriefGaps } from "@/lib/briefGaps";
 
 // ============================================
 // TYPES
@@ -100,10 +130,18 @@ export const AI_MODELS: AIModel[] = [
   { id: "claude", name: "Claude", provider: "Anthropic", color: "#f59e0b", costPerQuery: 0.02 },
   { id: "gemini", name: "Gemini", provider: "Google", color: "#3b82f6", costPerQuery: 0.02 },
   { id: "perplexity", name: "Perplexity", provider: "Perplexity AI", color: "#8b5cf6", costPerQuery: 0.02 },
+  { id: "chatgpt_search", name: "ChatGPT Search", provider: "OpenAI", color: "#059669", costPerQuery: 0.03 },
+  { id: "gemini_grounded", name: "Gemini Grounded", provider: "Google", color: "#1d4ed8", costPerQuery: 0.03 },
   { id: "google_ai_overview", name: "Google AI Overview", provider: "DataForSEO", color: "#ef4444", costPerQuery: 0.003 },
   { id: "google_serp", name: "Google SERP", provider: "DataForSEO", color: "#22c55e", costPerQuery: 0.002 },
+  { id: "bing_copilot", name: "Bing Copilot", provider: "Microsoft", color: "#0078d4", costPerQuery: 0.003 },
+  { id: "bing_serp", name: "Bing SERP", provider: "Microsoft", color: "#00a2ed", costPerQuery: 0.002 },
+  { id: "generic_serp", name: "Other SERP", provider: "DataForSEO", color: "#94a3b8", costPerQuery: 0.002 },
 ];
 
+// Engines for the "Other SERP" model (clients.settings.generic_serp_engine), mirrors SERP_ENGINES in geo-audit
+export const SERP_ENGINES = ["yahoo", "bing", "google", "baidu", "naver", "seznam"] as const;
+
 export type PromptCategory = 
   | "custom" | "imported" | "generated" | "niche" | "super_niche" 
   | "brand" | "competitor" | "location" | "feature";
@@ -116,10 +154,118 @@ export interface Client {
   slug: string;
   target_region: string;
   location_code: number;
+  language: string;              // audit language code, see _shared/languages.ts
   industry: string;
   competitors: string[];
   primary_color: string;
   created_at: string;
+  organization_id?: string | null;
+  brand_domain?: string;
+  settings?: {
+    notifications?: Partial<NotificationSettings>;
+    budget?: BudgetSettings;
+    source_overrides?: Record<string, SourceOverride>; // per-domain source class, see citationClassifier.ts
+    model_routing?: Record<string, ModelRoute>;         // per-model answer provider, see geo-audit PROVIDER ADAPTERS
+    generic_serp_engine?: string;                       // engine behind "Other SERP" (SERP_ENGINES)
+    language_aliases?: Record<string, LanguageAliases>; // extra brand/competitor terms per language
+    audit_locations?: number[];                         // location codes every prompt runs at (default: location_code)
+    [key: string]: unknown;
+  };
+}
+
+// Where geo-audit gets a model's answers; DataForSEO unless routed elsewhere
+export type ProviderId = "dataforseo" | "openai" | "anthropic" | "gemini" | "perplexity" | "openai_compatible";
+
+export interface ModelRoute {
+  provider: ProviderId;
+  model?: string;          // provider model name, e.g. "sonar-pro" (provider default when empty)
+  base_url?: string;       // openai_compatible only
+  api_key_env?: string;    // openai_compatible only, must start with OPENAI_COMPATIBLE_
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  dataforseo: "DataForSEO",
+  openai: "OpenAI API",
+  anthropic: "Anthropic API",
+  gemini: "Gemini API",
+  perplexity: "Perplexity API",
+  openai_compatible: "OpenAI-compatible",
+};
+
+// clients.settings.budget, enforced by geo-audit before any provider call
+export interface BudgetSettings {
+  monthly_limit_usd: number | null;
+}
+
+// Pre-flight cost of running N prompts with the selected models (geo-audit "estimate" mode)
+export interface AuditEstimate {
+  prompts: number;
+  locations: number;                  // each prompt runs once per audit location
+  per_prompt_cost: number;
+  estimated_cost: number;
+  limit_usd: number | null;           // tightest client/org monthly limit, null = unlimited
+  spent_usd: number;
+  remaining_usd: number | null;
+  affordable_prompts: number | null;  // prompt runs (prompt x location) the remaining budget covers
+  within_budget: boolean;
+}
+
+// Mirrors NotificationSettings in supabase/functions/_shared/alerts.ts
+export interface NotificationSettings {
+  email_alerts: boolean;
+  weekly_digest: boolean;
+  sov_threshold: number | null;
+  alert_on_competitor_gain: boolean;
+  alert_on_model_drop: boolean;
+  alert_on_citation_loss: boolean;
+  notification_email: string | null;
+  webhook_url: string | null;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  email_alerts: false, weekly_digest: false, sov_threshold: 20,
+  alert_on_competitor_gain: true, alert_on_model_drop: true, alert_on_citation_loss: true,
+  notification_email: null, webhook_url: null,
+};
+
+export interface AlertItem {
+  id: string;
+  rule: "sov_below_threshold" | "competitor_overtook" | "brand_dropped" | "brand_citation_lost";
+  severity: "info" | "warning" | "critical";
+  model: string | null;
+  title: string;
+  message: string;
+  prompt_id: string | null;
+  is_read: boolean;
+  created_at: string;
+}
+
+// Outreach progress per opportunity (outreach_opportunities table); untracked = no entry
+export type OutreachStatus = "to_contact" | "contacted" | "won";
+
+export interface OutreachRecord {
+  target: string;
+  target_type: OpportunityTarget;
+  status: OutreachStatus;
+  updated_at: string;
+}
+
+// Content briefs (content_briefs table), schema in _shared/contentBrief.ts
+export type BriefStatus = "draft" | "approved" | "published";
+
+export interface ContentBriefRecord {
+  id: string;
+  client_id: string;
+  prompt_id: string | null;
+  audit_result_id: string | null;
+  prompt_text: string;
+  title: string;
+  brief: ContentBrief;
+  gaps: BriefGaps | null;
+  status: BriefStatus;
+  generated_by: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Prompt {
@@ -127,6 +273,7 @@ export interface Prompt {
   client_id: string;
   prompt_text: string;
   category: PromptCategory;
+  language?: string | null; // null = the client's language
   is_custom: boolean;
   is_active: boolean;
   niche_level?: "broad" | "niche" | "super_niche";
@@ -143,10 +290,13 @@ export interface ModelResult {
   brand_mention_count: number;
   brand_rank: number | null;
   brand_sentiment?: string;
+  brand_stance?: Stance | null;
+  brand_mention_sentiments?: MentionSentiment[]; // per mention, with the evidence sentence
   matched_terms?: string[];
   winner_brand?: string;
-  competitors_found?: Array<{ name: string; count: number; rank: number | null; sentiment?: string }>;
-  citations: Array<{ url: string; title: string; domain: string }>;
+  competitors_found?: Array<{ name: string; count: number; rank: number | null; sentiment?: string; stance?: Stance }>;
+  ranked_entities?: RankedEntity[]; // every entity the answer recommends, in order
+  citations: Array<{ url: string; title: string; domain: string; position?: number; snippet?: string; source_class?: SourceClass; authority?: number }>;
   citation_count: number;
   api_cost: number;
   raw_response: string;
@@ -154,33 +304,95 @@ export interface ModelResult {
   is_cited?: boolean;
   authority_type?: string;
   ai_search_volume?: number;
+  from_cache?: boolean; // served from the geo-audit response cache
+  answer_source?: string; // "dataforseo_llm_mentions", "dataforseo_live" or "<provider>:<model>"
+  samples?: ModelSample[]; // every answer of a multi-sample run
+  sample_stats?: SampleStats;
+}
+
+export interface ModelSample {
+  response: string;
+  brand_mentioned: boolean;
+  brand_mention_count: number;
+  brand_rank: number | null;
+  is_cited: boolean;
+  citation_count: number;
+  api_cost: number;
+  from_cache: boolean;
+  excluded?: boolean; // LLM Mentions answer next to LIVE samples, not counted in sample_stats
+}
+
+// Mirrors SampleStats in supabase/functions/geo-audit/index.ts
+export interface SampleStats {
+  samples: number;
+  mentions: number;
+  mention_probability: number;
+  sov_ci: [number, number]; // 95% interval, in %
+  rank_median: number | null;
+  rank_min: number | null;
+  rank_max: number | null;
 }
 
 export interface AuditResult {
   id: string;
   prompt_id: string;
   prompt_text: string;
+  language: string;
+  location_code: number | null;  // null for audits saved before locations were recorded
   model_results: ModelResult[];
   summary: {
     share_of_voice: number;
     average_rank: number | null;
     total_citations: number;
     total_cost: number;
+    samples?: number;
+    share_of_voice_ci?: [number, number] | null;
   };
   created_at: string;
 }
 
+export type AuditJobStatus = "queued" | "running" | "completed" | "partial" | "failed";
+
+export interface AuditJob {
+  id: string;
+  status: AuditJobStatus;
+  prompts_total: number;
+  prompts_completed: number;
+  prompts_failed: number;
+  audit_result_ids: string[];
+  total_cost: number;
+  error?: string;
+  updated_at?: string;
+}
+
 export interface DashboardSummary {
   total_prompts: number;
   overall_sov: number;
+  overall_sov_ci: [number, number] | null; // only when some results were multi-sampled
   average_rank: number | null;
   total_citations: number;
   total_cost: number;
 }
 
-export interface ModelStats { visible: number; total: number; cost: number; }
+export type TrendBucket = "day" | "week" | "month";
+
+export interface TrendPoint {
+  bucket_start: string;
+  model: string; // "all" = every model combined
+  share_of_voice: number;
+  visibility_score: number;
+  trust_index: number;
+  average_rank: number | null;
+  audits: number;
+}
+
+export interface ModelStats {
+  visible: number; total: number; cost: number;
+  samples: number; mentions: number;   // pooled over every sample of every prompt
+  ci: [number, number] | null;         // 95% interval on the mention rate, in %
+}
 export interface CompetitorGapItem { name: string; mentions: number; percentage: number; }
-export interface SourceItem { domain: string; count: number; prompts: string[]; }
+export interface SourceItem { domain: string; count: number; prompts: string[]; source_class: SourceClass; authority: number; }
 export interface Insights { status: "high" | "medium" | "low"; statusText: string; recommendations: string[]; }
 
 // Industry presets
@@ -214,11 +426,12 @@ export const INDUSTRY_PRESETS: Record<string, {
   "Custom": { competitors: [], prompts: [], nichePrompts: [], superNichePrompts: [] }
 };
 
-export const LOCATION_CODES: Record<string, number> = {
-  "India": 2356, "United States": 2840, "United Kingdom": 2826, "Thailand": 2764,
-  "Singapore": 2702, "Australia": 2036, "Canada": 2124, "Germany": 2276,
-  "France": 2250, "UAE": 2784,
-};
+// Country name -> location code; regions and cities are in _shared/locations.ts
+export const LOCATION_CODES: Record<string, number> = Object.fromEntries(
+  LOCATIONS.filter(l => l.type === "Country").map(l => [l.name, l.code])
+);
+
+export const MAX_AUDIT_LOCATIONS = 10; // matches BATCH_MAX_LOCATIONS in geo-audit
 
 // ============================================
 // STORAGE HELPERS - LocalStorage as cache
@@ -230,8 +443,17 @@ const STORAGE_KEYS = {
   PROMPTS: "forzeo_prompts_v3",
   SELECTED_CLIENT: "forzeo_selected_client",
   SELECTED_MODELS: "forzeo_selected_models",
+  ACTIVE_JOBS: "forzeo_active_audit_jobs",
+  SAMPLES: "forzeo_audit_samples",
+  OUTREACH: "forzeo_outreach_v1",
 };
 
+export const MAX_SAMPLES = 5; // matches MAX_SAMPLES in geo-audit
+
+const JOB_POLL_INTERVAL_MS = 2000;
+// A job whose updated_at hasn't moved for this long lost its worker (matches run-scheduled-audits)
+const JOB_STALE_MS = 15 * 60 * 1000;
+
 function loadFromStorage<T>(key: string, defaultValue: T): T {
   try {
     const stored = localStorage.getItem(key);
@@ -243,6 +465,53 @@ function saveToStorage(key: string, value: unknown): void {
   try { localStorage.setItem(key, JSON.stringify(value)); } catch (err) { console.error("Storage error:", err); }
 }
 
+function mapAuditRow(r: Record<string, any>): AuditResult {
+  return {
+    id: r.id, prompt_id: r.prompt_id, prompt_text: r.prompt_text,
+    language: normalizeLanguage(r.language),
+    location_code: r.location_code ?? null,
+    model_results: r.model_results || [],
+    // Build summary from individual columns (database stores them separately, not as JSONB)
+    summary: r.summary || {
+      share_of_voice: r.share_of_voice ?? 0,
+      average_rank: r.average_rank ?? null,
+      total_citations: r.total_citations ?? 0,
+      total_cost: r.total_cost ?? 0,
+    },
+    created_at: r.created_at,
+  };
+}
+
+// A prompt's own language, else its client's
+function promptLanguage(prompt: Prompt, client: Client): string {
+  return normalizeLanguage(prompt.language || client.language);
+}
+
+// Locations every prompt runs at: the client's audit locations, else its location code
+export function auditLocations(client: Client): number[] {
+  const configured = client.settings?.audit_locations || [];
+  return configured.length > 0 ? configured : [client.location_code || DEFAULT_LOCATION_CODE];
+}
+
+// Whether a result is the prompt's run at this location (results without a location count as the client's)
+function isRunAt(result: AuditResult, promptId: string, locationCode: number, client: Client): boolean {
+  return result.prompt_id === promptId && (result.location_code ?? client.location_code) === locationCode;
+}
+
+function mapAuditJob(j: Record<string, any>): AuditJob {
+  return {
+    id: j.id, status: j.status,
+    prompts_total: j.prompts_total ?? 0, prompts_completed: j.prompts_completed ?? 0,
+    prompts_failed: j.prompts_failed ?? 0, audit_result_ids: j.audit_result_ids || [],
+    total_cost: Number(j.total_cost ?? 0), error: j.error || undefined,
+    updated_at: j.updated_at || undefined,
+  };
+}
+
+function isJobActive(job: AuditJob | null): boolean {
+  return !!job && (job.status === "queued" || job.status === "running");
+}
+
 function generateSlug(name: string): string {
   return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
 }
@@ -268,7 +537,12 @@ function detectNicheLevel(promptText: string): "broad" | "niche" | "super_niche"
 // MAIN HOOK
 // ============================================
 
-export function useClientDashboard() {
+export interface DashboardAccess {
+  organizationId: string | null;  // clients are scoped to this organization
+  role: Role | null;              // the user's role in it; null = no sign-in (local use)
+}
+
+export function useClientDashboard({ organizationId, role }: DashboardAccess = { organizationId: null, role: null }) {
   const [clients, setClients] = useState<Client[]>([]);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [prompts, setPrompts] = useState<Prompt[]>([]);
@@ -277,31 +551,57 @@ export function useClientDashboard() {
   const [selectedModels, setSelectedModelsState] = useState<string[]>(
     loadFromStorage(STORAGE_KEYS.SELECTED_MODELS, ["chatgpt", "google_ai_overview", "google_serp"])
   );
+  const [sampleCount, setSampleCountState] = useState<number>(loadFromStorage(STORAGE_KEYS.SAMPLES, 1));
   const [loading, setLoading] = useState(false);
   const [loadingPromptId, setLoadingPromptId] = useState<string | null>(null);
+  const [auditJob, setAuditJob] = useState<AuditJob | null>(null);
+  const [alerts, setAlerts] = useState<AlertItem[]>([]);
+  const [outreach, setOutreach] = useState<Record<string, OutreachRecord>>({});
+  const [briefs, setBriefs] = useState<ContentBriefRecord[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [generationError, setGenerationError] = useState<GenerationError | null>(null);
 
   const setSelectedModels = useCallback((models: string[]) => {
     setSelectedModelsState(models);
     saveToStorage(STORAGE_KEYS.SELECTED_MODELS, models);
   }, []);
 
+  const setSampleCount = useCallback((samples: number) => {
+    const clamped = Math.min(Math.max(1, Math.round(samples)), MAX_SAMPLES);
+    setSampleCountState(clamped);
+    saveToStorage(STORAGE_KEYS.SAMPLES, clamped);
+  }, []);
+
+  // Fail early with a readable message; RLS and geo-audit enforce the same rules
+  const requirePermission = useCallback((permission: Permission): boolean => {
+    if (!role || can(role, permission)) return true;
+    setError(`Your role (${ROLE_LABELS[role]}) can't ${permission.replace(/_/g, " ")}`);
+    return false;
+  }, [role]);
+
   // ============================================
   // ANALYTICS FUNCTIONS
   // ============================================
 
   const getModelStats = useCallback((): Record<string, ModelStats> => {
     const stats: Record<string, ModelStats> = {};
-    AI_MODELS.forEach(model => { stats[model.id] = { visible: 0, total: 0, cost: 0 }; });
+    AI_MODELS.forEach(model => { stats[model.id] = { visible: 0, total: 0, cost: 0, samples: 0, mentions: 0, ci: null }; });
+    let sampled = false;
     auditResults.forEach(result => {
       result.model_results.forEach(mr => {
         if (stats[mr.model]) {
           stats[mr.model].total++;
           if (mr.brand_mentioned) stats[mr.model].visible++;
           stats[mr.model].cost += mr.api_cost;
+          stats[mr.model].samples += mr.sample_stats?.samples ?? 1;
+          stats[mr.model].mentions += mr.sample_stats?.mentions ?? (mr.brand_mentioned ? 1 : 0);
+          if ((mr.sample_stats?.samples ?? 1) > 1) sampled = true;
         }
       });
     });
+    if (sampled) {
+      Object.values(stats).forEach(s => { if (s.samples > 0) s.ci = wilsonInterval(s.mentions, s.samples); });
+    }
     return stats;
   }, [auditResults]);
 
@@ -309,15 +609,18 @@ export function useClientDashboard() {
     if (!selectedClient) return [];
     const mentions: Record<string, number> = {};
     mentions[selectedClient.brand_name] = 0;
-    selectedClient.competitors.forEach(c => { mentions[c] = 0; });
+    selectedClient.competitors.forEach(c => { mentions[parseEntity(c).name] = 0; });
+    // Competitor entities per audit language, with that language's aliases
+    const entitiesByLanguage: Record<string, EntitySpec[]> = {};
     auditResults.forEach(result => {
+      const language = normalizeLanguage(result.language);
+      const entities = entitiesByLanguage[language] ||= withLanguageAliases(
+        [], selectedClient.competitors, selectedClient.settings?.language_aliases?.[language]
+      ).competitors.map(c => parseEntity(c));
       result.model_results.forEach(mr => {
-        const response = mr.raw_response?.toLowerCase() || "";
         if (mr.brand_mentioned) mentions[selectedClient.brand_name] += mr.brand_mention_count;
-        selectedClient.competitors.forEach(comp => {
-          const regex = new RegExp(comp.toLowerCase(), "gi");
-          const matches = response.match(regex);
-          if (matches) mentions[comp] += matches.length;
+        entities.forEach(entity => {
+          mentions[entity.name] += countEntityMentions(mr.raw_response || "", entity);
         });
       });
     });
@@ -327,6 +630,12 @@ export function useClientDashboard() {
       .sort((a, b) => b.mentions - a.mentions);
   }, [selectedClient, auditResults]);
 
+  const getCompetitorSuggestions = useCallback((): CompetitorCandidate[] => {
+    if (!selectedClient) return [];
+    return discoverCompetitors(auditResults, selectedClient.brand_name, selectedClient.brand_tags, selectedClient.competitors);
+  }, [selectedClient, auditResults]);
+
+  // Classified on the fly so overrides and older audits (no stored class) stay current
   const getTopSources = useCallback((): SourceItem[] => {
     const sources: Record<string, { count: number; prompts: Set<string> }> = {};
     auditResults.forEach(result => {
@@ -338,10 +647,28 @@ export function useClientDashboard() {
         });
       });
     });
+    const context = selectedClient ? {
+      brandDomain: selectedClient.brand_domain,
+      brandName: selectedClient.brand_name,
+      brandTags: selectedClient.brand_tags,
+      competitors: selectedClient.competitors,
+      overrides: selectedClient.settings?.source_overrides,
+    } : {};
     return Object.entries(sources)
-      .map(([domain, data]) => ({ domain, count: data.count, prompts: Array.from(data.prompts) }))
+      .map(([domain, data]) => ({ domain, count: data.count, prompts: Array.from(data.prompts), ...classifySource(domain, context) }))
       .sort((a, b) => b.count - a.count);
-  }, [auditResults]);
+  }, [selectedClient, auditResults]);
+
+  const getOutreachOpportunities = useCallback((by: OpportunityTarget = "domain"): OutreachOpportunity[] => {
+    if (!selectedClient) return [];
+    return findOutreachOpportunities(auditResults, by, {
+      brandName: selectedClient.brand_name,
+      brandTags: selectedClient.brand_tags,
+      brandDomain: selectedClient.brand_domain,
+      competitors: selectedClient.competitors,
+      overrides: selectedClient.settings?.source_overrides,
+    });
+  }, [selectedClient, auditResults]);
 
   const getInsights = useCallback((): Insights => {
     const sov = summary?.overall_sov || 0;
@@ -377,33 +704,35 @@ export function useClientDashboard() {
 
   const fetchClients = useCallback(async () => {
     try {
-      const { data, error: fetchError } = await supabase
-        .from("clients")
-        .select("*")
-        .order("created_at", { ascending: false });
+      let query = supabase.from("clients").select("*");
+      if (organizationId) query = query.eq("organization_id", organizationId);
+      const { data, error: fetchError } = await query.order("created_at", { ascending: false });
 
-      if (!fetchError && data && data.length > 0) {
+      // An organization without clients is a valid (empty) result, not a reason to fall back
+      if (!fetchError && data && (data.length > 0 || organizationId)) {
         const mappedClients: Client[] = data.map(c => ({
           id: c.id, name: c.name, brand_name: c.brand_name, brand_tags: c.brand_tags || [],
           slug: c.slug, target_region: c.target_region, location_code: c.location_code,
-          industry: c.industry, competitors: c.competitors || [],
-          primary_color: c.primary_color || generateColor(), created_at: c.created_at,
+          language: normalizeLanguage(c.language), industry: c.industry, competitors: c.competitors || [],
+          primary_color: c.primary_color || generateColor(), created_at: c.created_at, organization_id: c.organization_id,
+          brand_domain: c.brand_domain || undefined, settings: c.settings || {},
         }));
         setClients(mappedClients);
         saveToStorage(STORAGE_KEYS.CLIENTS, mappedClients);
         const lastSelectedId = loadFromStorage<string>(STORAGE_KEYS.SELECTED_CLIENT, mappedClients[0]?.id);
-        const lastSelected = mappedClients.find(c => c.id === lastSelectedId) || mappedClients[0];
+        const lastSelected = mappedClients.find(c => c.id === lastSelectedId) || mappedClients[0] || null;
         setSelectedClient(lastSelected);
         return;
       }
     } catch (err) { console.log("Supabase fetch failed, using localStorage:", err); }
 
     // Fallback to localStorage
-    const storedClients = loadFromStorage<Client[]>(STORAGE_KEYS.CLIENTS, []);
-    if (storedClients.length === 0) {
+    const storedClients = loadFromStorage<Client[]>(STORAGE_KEYS.CLIENTS, [])
+      .filter(c => !organizationId || c.organization_id === organizationId);
+    if (storedClients.length === 0 && !organizationId) {
       const defaultClients: Client[] = [{
         id: crypto.randomUUID(), name: "Juleo Club", brand_name: "Juleo", slug: "juleo",
-        target_region: "India", location_code: 2356, industry: "Dating/Matrimony",
+        target_region: "India", location_code: 2356, language: DEFAULT_LANGUAGE, industry: "Dating/Matrimony",
         primary_color: "#ec4899", created_at: new Date().toISOString(),
         brand_tags: ["Juleo Club", "juleo.club", "Juleo App"],
         competitors: ["Bumble", "Hinge", "Tinder", "Shaadi", "Aisle"]
@@ -414,11 +743,12 @@ export function useClientDashboard() {
     } else {
       setClients(storedClients);
       const lastSelectedId = loadFromStorage<string>(STORAGE_KEYS.SELECTED_CLIENT, storedClients[0]?.id);
-      setSelectedClient(storedClients.find(c => c.id === lastSelectedId) || storedClients[0]);
+      setSelectedClient(storedClients.find(c => c.id === lastSelectedId) || storedClients[0] || null);
     }
-  }, []);
+  }, [organizationId]);
 
-  const addClient = useCallback(async (clientData: Partial<Client>): Promise<Client> => {
+  const addClient = useCallback(async (clientData: Partial<Client>): Promise<Client | null> => {
+    if (!requirePermission("manage_clients")) return null;
     const newClient: Client = {
       id: crypto.randomUUID(),
       name: clientData.name || "New Client",
@@ -426,9 +756,10 @@ export function useClientDashboard() {
       slug: generateSlug(clientData.name || "new-client"),
       target_region: clientData.target_region || "United States",
       location_code: clientData.location_code || 2840,
+      language: normalizeLanguage(clientData.language),
       industry: clientData.industry || "Custom",
       primary_color: clientData.primary_color || generateColor(),
-      created_at: new Date().toISOString(),
+      created_at: new Date().toISOString(), organization_id: organizationId,
       brand_tags: clientData.brand_tags || [clientData.brand_name || clientData.name || ""],
       competitors: clientData.competitors || INDUSTRY_PRESETS[clientData.industry || "Custom"]?.competitors || [],
     };
@@ -438,8 +769,8 @@ export function useClientDashboard() {
       const { error: insertError } = await supabase.from("clients").insert({
         id: newClient.id, name: newClient.name, brand_name: newClient.brand_name,
         slug: newClient.slug, target_region: newClient.target_region, location_code: newClient.location_code,
-        industry: newClient.industry, primary_color: newClient.primary_color,
-        brand_tags: newClient.brand_tags, competitors: newClient.competitors,
+        language: newClient.language, industry: newClient.industry, primary_color: newClient.primary_color,
+        brand_tags: newClient.brand_tags, competitors: newClient.competitors, organization_id: newClient.organization_id,
       });
       if (insertError) console.error("Supabase insert error:", insertError);
     } catch (err) { console.log("Supabase insert failed:", err); }
@@ -447,10 +778,12 @@ export function useClientDashboard() {
     const newClients = [...clients, newClient];
     setClients(newClients);
     saveToStorage(STORAGE_KEYS.CLIENTS, newClients);
+    setSelectedClient(prev => prev || newClient);
     return newClient;
-  }, [clients]);
+  }, [clients, organizationId, requirePermission]);
 
   const updateClient = useCallback(async (clientId: string, updates: Partial<Client>): Promise<Client | null> => {
+    if (!requirePermission("manage_clients")) return null;
     const clientIndex = clients.findIndex(c => c.id === clientId);
     if (clientIndex === -1) return null;
     
@@ -461,8 +794,9 @@ export function useClientDashboard() {
       const { error: updateError } = await supabase.from("clients").update({
         name: updatedClient.name, brand_name: updatedClient.brand_name,
         target_region: updatedClient.target_region, location_code: updatedClient.location_code,
-        industry: updatedClient.industry, primary_color: updatedClient.primary_color,
+        language: updatedClient.language, industry: updatedClient.industry, primary_color: updatedClient.primary_color,
         brand_tags: updatedClient.brand_tags, competitors: updatedClient.competitors,
+        ...(updatedClient.brand_domain !== undefined ? { brand_domain: updatedClient.brand_domain } : {}),
       }).eq("id", clientId);
       if (updateError) console.error("Supabase update error:", updateError);
     } catch (err) { console.log("Supabase update failed:", err); }
@@ -473,9 +807,10 @@ export function useClientDashboard() {
     saveToStorage(STORAGE_KEYS.CLIENTS, newClients);
     if (selectedClient?.id === clientId) setSelectedClient(updatedClient);
     return updatedClient;
-  }, [clients, selectedClient]);
+  }, [clients, selectedClient, requirePermission]);
 
   const deleteClient = useCallback(async (clientId: string): Promise<boolean> => {
+    if (!requirePermission("manage_clients")) return false;
     if (clients.length <= 1) return false;
     
     try {
@@ -487,7 +822,7 @@ export function useClientDashboard() {
     saveToStorage(STORAGE_KEYS.CLIENTS, newClients);
     if (selectedClient?.id === clientId) setSelectedClient(newClients[0]);
     return true;
-  }, [clients, selectedClient]);
+  }, [clients, selectedClient, requirePermission]);
 
   const switchClient = useCallback(async (client: Client) => {
     setSelectedClient(client);
@@ -500,7 +835,7 @@ export function useClientDashboard() {
       if (promptsData && promptsData.length > 0) {
         const mappedPrompts: Prompt[] = promptsData.map(p => ({
           id: p.id, client_id: p.client_id, prompt_text: p.prompt_text,
-          category: p.category || "custom", is_custom: p.is_custom, is_active: p.is_active,
+          category: p.category || "custom", language: p.language || null, is_custom: p.is_custom, is_active: p.is_active,
         }));
         setPrompts(mappedPrompts);
         const storedPrompts = loadFromStorage<Record<string, Prompt[]>>(STORAGE_KEYS.PROMPTS, {});
@@ -520,18 +855,7 @@ export function useClientDashboard() {
       const { data: resultsData } = await supabase
         .from("audit_results").select("*").eq("client_id", client.id).order("created_at", { ascending: false });
       if (resultsData && resultsData.length > 0) {
-        const mappedResults: AuditResult[] = resultsData.map(r => ({
-          id: r.id, prompt_id: r.prompt_id, prompt_text: r.prompt_text,
-          model_results: r.model_results || [],
-          // Build summary from individual columns (database stores them separately, not as JSONB)
-          summary: r.summary || {
-            share_of_voice: r.share_of_voice ?? 0,
-            average_rank: r.average_rank ?? null,
-            total_citations: r.total_citations ?? 0,
-            total_cost: r.total_cost ?? 0,
-          },
-          created_at: r.created_at,
-        }));
+        const mappedResults: AuditResult[] = resultsData.map(mapAuditRow);
         setAuditResults(mappedResults);
         updateSummary(mappedResults);
         const storedResults = loadFromStorage<Record<string, AuditResult[]>>(STORAGE_KEYS.RESULTS, {});
@@ -548,6 +872,7 @@ export function useClientDashboard() {
   }, []);
 
   const updateBrandTags = useCallback(async (tags: string[]) => {
+    if (!requirePermission("edit_competitors")) return;
     if (!selectedClient) return;
     const updated = { ...selectedClient, brand_tags: tags };
     setSelectedClient(updated);
@@ -557,9 +882,10 @@ export function useClientDashboard() {
     const newClients = clients.map(c => c.id === selectedClient.id ? updated : c);
     setClients(newClients);
     saveToStorage(STORAGE_KEYS.CLIENTS, newClients);
-  }, [selectedClient, clients]);
+  }, [selectedClient, clients, requirePermission]);
 
   const updateCompetitors = useCallback(async (competitors: string[]) => {
+    if (!requirePermission("edit_competitors")) return;
     if (!selectedClient) return;
     const updated = { ...selectedClient, competitors };
     setSelectedClient(updated);
@@ -569,27 +895,201 @@ export function useClientDashboard() {
     const newClients = clients.map(c => c.id === selectedClient.id ? updated : c);
     setClients(newClients);
     saveToStorage(STORAGE_KEYS.CLIENTS, newClients);
-  }, [selectedClient, clients]);
+  }, [selectedClient, clients, requirePermission]);
+
+  // Re-parse stored responses for newly tracked competitors (geo-audit backfill, no API cost)
+  const backfillCompetitors = useCallback(async (names: string[]): Promise<number> => {
+    if (!requirePermission("edit_competitors")) return 0;
+    if (!selectedClient || names.length === 0) return 0;
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke("geo-audit", {
+        body: { mode: "backfill", client_id: selectedClient.id, competitors: names },
+      });
+      if (fnError || !data?.success) {
+        setError(fnError?.message || data?.error || "Backfill failed");
+        return 0;
+      }
+      await switchClient({ ...selectedClient, competitors: Array.from(new Set([...selectedClient.competitors, ...names])) });
+      return data.data.audits_updated;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Backfill failed");
+      return 0;
+    }
+  }, [selectedClient, switchClient, requirePermission]);
+
+  // Re-parse stored responses with the current tags/competitors (geo-audit reprocess, no API cost)
+  const reprocessResults = useCallback(async (from?: string, to?: string): Promise<number> => {
+    if (!requirePermission("edit_competitors")) return 0;
+    if (!selectedClient) return 0;
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke("geo-audit", {
+        body: { mode: "reprocess", client_id: selectedClient.id, from, to },
+      });
+      if (fnError || !data?.success) {
+        setError(fnError?.message || data?.error || "Reprocessing failed");
+        return 0;
+      }
+      await switchClient(selectedClient);
+      return data.data.audits_updated;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Reprocessing failed");
+      return 0;
+    }
+  }, [selectedClient, switchClient, requirePermission]);
+
+  const trackCompetitor = useCallback(async (name: string, backfill = true) => {
+    if (!requirePermission("edit_competitors")) return;
+    if (!selectedClient || selectedClient.competitors.includes(name)) return;
+    await updateCompetitors([...selectedClient.competitors, name]);
+    if (backfill) await backfillCompetitors([name]);
+  }, [selectedClient, updateCompetitors, backfillCompetitors, requirePermission]);
+
+  const saveClientSettings = useCallback(async (patch: NonNullable<Client["settings"]>) => {
+    if (!requirePermission("edit_settings")) return;
+    if (!selectedClient) return;
+    const settings = { ...(selectedClient.settings || {}), ...patch };
+    const updated = { ...selectedClient, settings };
+    setSelectedClient(updated);
+    try {
+      const { error: updateError } = await supabase.from("clients").update({ settings }).eq("id", selectedClient.id);
+      if (updateError) console.error("Supabase settings update error:", updateError);
+    } catch (err) { console.log("Supabase update failed:", err); }
+    const newClients = clients.map(c => c.id === selectedClient.id ? updated : c);
+    setClients(newClients);
+    saveToStorage(STORAGE_KEYS.CLIENTS, newClients);
+  }, [selectedClient, clients, requirePermission]);
+
+  const updateNotificationSettings = useCallback(
+    (notifications: NotificationSettings) => saveClientSettings({ notifications }), [saveClientSettings]);
+
+  const updateBudget = useCallback(
+    (budget: BudgetSettings) => saveClientSettings({ budget }), [saveClientSettings]);
+
+  // null clears the override and falls back to the shared rules
+  const updateSourceOverride = useCallback((domain: string, sourceClass: SourceClass | null) => {
+    const overrides = { ...(selectedClient?.settings?.source_overrides || {}) };
+    if (sourceClass) overrides[domain] = { class: sourceClass };
+    else delete overrides[domain];
+    return saveClientSettings({ source_overrides: overrides });
+  }, [selectedClient, saveClientSettings]);
+
+  const updateSerpEngine = useCallback(
+    (engine: string) => saveClientSettings({ generic_serp_engine: engine }), [saveClientSettings]);
+
+  // null (or no terms) removes the language's aliases
+  const updateLanguageAliases = useCallback((language: string, aliases: LanguageAliases | null) => {
+    const all = { ...(selectedClient?.settings?.language_aliases || {}) };
+    const hasTerms = !!aliases && ((aliases.brand?.length || 0) > 0 || Object.values(aliases.competitors || {}).some(t => t.length > 0));
+    if (aliases && hasTerms) all[language] = aliases;
+    else delete all[language];
+    return saveClientSettings({ language_aliases: all });
+  }, [selectedClient, saveClientSettings]);
+
+  const updateAuditLocations = useCallback(
+    (codes: number[]) => saveClientSettings({ audit_locations: Array.from(new Set(codes)).slice(0, MAX_AUDIT_LOCATIONS) }),
+    [saveClientSettings]);
+
+  // null routes the model back to DataForSEO
+  const updateModelRoute = useCallback((modelId: string, route: ModelRoute | null) => {
+    const routing = { ...(selectedClient?.settings?.model_routing || {}) };
+    if (route && route.provider !== "dataforseo") routing[modelId] = route;
+    else delete routing[modelId];
+    return saveClientSettings({ model_routing: routing });
+  }, [selectedClient, saveClientSettings]);
+
+  // ============================================
+  // ALERTS - Inbox written by geo-audit
+  // ============================================
+
+  const fetchAlerts = useCallback(async (clientId: string) => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from("alerts").select("*").eq("client_id", clientId)
+        .order("created_at", { ascending: false }).limit(50);
+      if (!fetchError && data) {
+        setAlerts(data.map(a => ({
+          id: a.id, rule: a.rule, severity: a.severity, model: a.model, title: a.title,
+          message: a.message, prompt_id: a.prompt_id, is_read: a.is_read, created_at: a.created_at,
+        })));
+        return;
+      }
+    } catch (err) { console.log("Supabase alerts fetch failed:", err); }
+    setAlerts([]);
+  }, []);
+
+  const markAlertsRead = useCallback(async () => {
+    if (!selectedClient) return;
+    const unreadIds = alerts.filter(a => !a.is_read).map(a => a.id);
+    if (unreadIds.length === 0) return;
+    setAlerts(alerts.map(a => ({ ...a, is_read: true })));
+    try {
+      await supabase.rpc("mark_alerts_read", { p_alert_ids: unreadIds });
+    } catch (err) { console.log("Supabase alerts update failed:", err); }
+  }, [selectedClient, alerts]);
+
+  // ============================================
+  // OUTREACH - Status per opportunity
+  // ============================================
+
+  const fetchOutreach = useCallback(async (clientId: string) => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from("outreach_opportunities").select("target, target_type, status, updated_at").eq("client_id", clientId);
+      if (!fetchError && data) {
+        const records: Record<string, OutreachRecord> = {};
+        data.forEach(r => { records[r.target] = r as OutreachRecord; });
+        setOutreach(records);
+        const stored = loadFromStorage<Record<string, Record<string, OutreachRecord>>>(STORAGE_KEYS.OUTREACH, {});
+        stored[clientId] = records;
+        saveToStorage(STORAGE_KEYS.OUTREACH, stored);
+        return;
+      }
+    } catch (err) { console.log("Supabase outreach fetch failed:", err); }
+    const stored = loadFromStorage<Record<string, Record<string, OutreachRecord>>>(STORAGE_KEYS.OUTREACH, {});
+    setOutreach(stored[clientId] || {});
+  }, []);
+
+  // null stops tracking the opportunity
+  const updateOutreachStatus = useCallback(async (target: string, targetType: OpportunityTarget, status: OutreachStatus | null) => {
+    if (!requirePermission("track_outreach")) return;
+    if (!selectedClient) return;
+    const records = { ...outreach };
+    if (status) records[target] = { target, target_type: targetType, status, updated_at: new Date().toISOString() };
+    else delete records[target];
+    setOutreach(records);
+    const stored = loadFromStorage<Record<string, Record<string, OutreachRecord>>>(STORAGE_KEYS.OUTREACH, {});
+    stored[selectedClient.id] = records;
+    saveToStorage(STORAGE_KEYS.OUTREACH, stored);
+    try {
+      const query = status
+        ? supabase.from("outreach_opportunities").upsert(
+            { client_id: selectedClient.id, ...records[target] }, { onConflict: "client_id,target" })
+        : supabase.from("outreach_opportunities").delete().eq("client_id", selectedClient.id).eq("target", target);
+      const { error: saveError } = await query;
+      if (saveError) console.error("Supabase outreach save error:", saveError);
+    } catch (err) { console.log("Supabase outreach save failed:", err); }
+  }, [selectedClient, outreach, requirePermission]);
 
   // ============================================
   // PROMPT MANAGEMENT - Supabase Primary
   // ============================================
 
-  const addCustomPrompt = useCallback(async (promptText: string, category?: PromptCategory): Promise<Prompt | null> => {
+  const addCustomPrompt = useCallback(async (promptText: string, category?: PromptCategory, language?: string): Promise<Prompt | null> => {
+    if (!requirePermission("manage_prompts")) return null;
     if (!selectedClient) return null;
     const nicheLevel = detectNicheLevel(promptText);
     const detectedCategory = category || (nicheLevel === "super_niche" ? "super_niche" : nicheLevel === "niche" ? "niche" : "custom");
     
     const newPrompt: Prompt = {
       id: crypto.randomUUID(), client_id: selectedClient.id, prompt_text: promptText,
-      category: detectedCategory, is_custom: true, is_active: true, niche_level: nicheLevel,
+      category: detectedCategory, language: language || null, is_custom: true, is_active: true, niche_level: nicheLevel,
     };
     
     // Save to Supabase first
     try {
       const { error: insertError } = await supabase.from("forzeo_prompts").insert({
         id: newPrompt.id, client_id: newPrompt.client_id, prompt_text: newPrompt.prompt_text,
-        category: newPrompt.category, is_custom: newPrompt.is_custom, is_active: newPrompt.is_active,
+        category: newPrompt.category, language: newPrompt.language, is_custom: newPrompt.is_custom, is_active: newPrompt.is_active,
       });
       if (insertError) console.error("Supabase prompt insert error:", insertError);
     } catch (err) { console.log("Supabase prompt insert failed:", err); }
@@ -600,16 +1100,17 @@ export function useClientDashboard() {
     storedPrompts[selectedClient.id] = newPrompts;
     saveToStorage(STORAGE_KEYS.PROMPTS, storedPrompts);
     return newPrompt;
-  }, [selectedClient, prompts]);
+  }, [selectedClient, prompts, requirePermission]);
 
-  const addMultiplePrompts = useCallback(async (promptTexts: string[], category?: PromptCategory) => {
+  const addMultiplePrompts = useCallback(async (promptTexts: string[], category?: PromptCategory, language?: string) => {
+    if (!requirePermission("manage_prompts")) return;
     if (!selectedClient) return;
     const newPrompts: Prompt[] = promptTexts.filter(t => t.trim()).map(text => {
       const nicheLevel = detectNicheLevel(text);
       return {
         id: crypto.randomUUID(), client_id: selectedClient.id, prompt_text: text.trim(),
         category: category || (nicheLevel === "super_niche" ? "super_niche" : nicheLevel === "niche" ? "niche" : "imported"),
-        is_custom: true, is_active: true, niche_level: nicheLevel,
+        language: language || null, is_custom: true, is_active: true, niche_level: nicheLevel,
       };
     });
     
@@ -618,7 +1119,7 @@ export function useClientDashboard() {
       const { error: insertError } = await supabase.from("forzeo_prompts").insert(
         newPrompts.map(p => ({
           id: p.id, client_id: p.client_id, prompt_text: p.prompt_text,
-          category: p.category, is_custom: p.is_custom, is_active: p.is_active,
+          category: p.category, language: p.language, is_custom: p.is_custom, is_active: p.is_active,
         }))
       );
       if (insertError) console.error("Supabase bulk insert error:", insertError);
@@ -629,7 +1130,7 @@ export function useClientDashboard() {
     const storedPrompts = loadFromStorage<Record<string, Prompt[]>>(STORAGE_KEYS.PROMPTS, {});
     storedPrompts[selectedClient.id] = allPrompts;
     saveToStorage(STORAGE_KEYS.PROMPTS, storedPrompts);
-  }, [selectedClient, prompts]);
+  }, [selectedClient, prompts, requirePermission]);
 
   const generateNichePrompts = useCallback(async () => {
     if (!selectedClient) return;
@@ -645,6 +1146,7 @@ export function useClientDashboard() {
   }, [selectedClient, addMultiplePrompts]);
 
   const deletePrompt = useCallback(async (promptId: string) => {
+    if (!requirePermission("manage_prompts")) return;
     if (!selectedClient) return;
     try {
       await supabase.from("forzeo_prompts").delete().eq("id", promptId);
@@ -654,9 +1156,10 @@ export function useClientDashboard() {
     const storedPrompts = loadFromStorage<Record<string, Prompt[]>>(STORAGE_KEYS.PROMPTS, {});
     storedPrompts[selectedClient.id] = newPrompts;
     saveToStorage(STORAGE_KEYS.PROMPTS, storedPrompts);
-  }, [selectedClient, prompts]);
+  }, [selectedClient, prompts, requirePermission]);
 
   const clearAllPrompts = useCallback(async () => {
+    if (!requirePermission("manage_prompts")) return;
     if (!selectedClient) return;
     try {
       await supabase.from("forzeo_prompts").delete().eq("client_id", selectedClient.id);
@@ -665,9 +1168,10 @@ export function useClientDashboard() {
     const storedPrompts = loadFromStorage<Record<string, Prompt[]>>(STORAGE_KEYS.PROMPTS, {});
     storedPrompts[selectedClient.id] = [];
     saveToStorage(STORAGE_KEYS.PROMPTS, storedPrompts);
-  }, [selectedClient]);
+  }, [selectedClient, requirePermission]);
 
   const clearResults = useCallback(async () => {
+    if (!requirePermission("run_audits")) return;
     if (!selectedClient) return;
     try {
       await supabase.from("audit_results").delete().eq("client_id", selectedClient.id);
@@ -677,7 +1181,7 @@ export function useClientDashboard() {
     const storedResults = loadFromStorage<Record<string, AuditResult[]>>(STORAGE_KEYS.RESULTS, {});
     storedResults[selectedClient.id] = [];
     saveToStorage(STORAGE_KEYS.RESULTS, storedResults);
-  }, [selectedClient]);
+  }, [selectedClient, requirePermission]);
 
   // ============================================
   // AUDIT EXECUTION - Save to Supabase
@@ -686,27 +1190,105 @@ export function useClientDashboard() {
   const updateSummary = useCallback((results: AuditResult[]) => {
     if (results.length === 0) { setSummary(null); return; }
     let totalSov = 0, totalCitations = 0, totalCost = 0, rankSum = 0, rankCount = 0;
+    let samples = 0, mentions = 0, sampled = false;
     for (const r of results) {
       totalSov += r.summary.share_of_voice;
       totalCitations += r.summary.total_citations;
       totalCost += r.summary.total_cost;
       if (r.summary.average_rank) { rankSum += r.summary.average_rank; rankCount++; }
+      if ((r.summary.samples ?? 1) > 1) sampled = true;
+      for (const mr of r.model_results.filter(m => m.success)) {
+        samples += mr.sample_stats?.samples ?? 1;
+        mentions += mr.sample_stats?.mentions ?? (mr.brand_mentioned ? 1 : 0);
+      }
     }
     setSummary({
       total_prompts: results.length, overall_sov: Math.round(totalSov / results.length),
+      overall_sov_ci: sampled ? wilsonInterval(mentions, samples) : null,
       average_rank: rankCount > 0 ? Math.round((rankSum / rankCount) * 10) / 10 : null,
       total_citations: totalCitations, total_cost: totalCost,
     });
   }, []);
 
+  // Pre-flight estimate from geo-audit (adds the remaining monthly budget); list prices if it's unreachable
+  const estimateAuditCost = useCallback(async (promptCount: number): Promise<AuditEstimate> => {
+    const perPrompt = sampleCount * selectedModels.reduce((sum, id) => sum + (AI_MODELS.find(m => m.id === id)?.costPerQuery ?? 0.02), 0);
+    const locationCount = selectedClient ? auditLocations(selectedClient).length : 1;
+    const fallback: AuditEstimate = {
+      prompts: promptCount, locations: locationCount, per_prompt_cost: perPrompt, estimated_cost: perPrompt * promptCount * locationCount,
+      limit_usd: null, spent_usd: 0, remaining_usd: null, affordable_prompts: null, within_budget: true,
+    };
+    if (!selectedClient || promptCount === 0) return fallback;
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke("geo-audit", {
+        body: {
+          mode: "estimate", client_id: selectedClient.id, models: selectedModels,
+          prompt_count: promptCount, location_count: locationCount, samples: sampleCount,
+        },
+      });
+      if (!fnError && data?.success) {
+        const d = data.data;
+        return {
+          prompts: d.prompts, locations: d.locations ?? locationCount, per_prompt_cost: d.per_prompt_cost, estimated_cost: d.estimated_cost,
+          limit_usd: d.budget?.limit_usd ?? null, spent_usd: d.budget?.spent_usd ?? 0,
+          remaining_usd: d.budget?.remaining_usd ?? null, affordable_prompts: d.affordable_prompts,
+          within_budget: d.within_budget,
+        };
+      }
+    } catch (err) { console.log("Cost estimate unavailable, using list prices:", err); }
+    return fallback;
+  }, [selectedClient, selectedModels, sampleCount]);
+
   const runFullAudit = useCallback(async () => {
-    if (!selectedClient || prompts.length === 0) return;
+    if (!requirePermission("run_audits")) return;
+    if (!selectedClient || prompts.length === 0 || isJobActive(auditJob)) return;
+    const locationCodes = auditLocations(selectedClient);
+    const hasRun = (promptId: string, code: number) => auditResults.some(r => isRunAt(r, promptId, code, selectedClient));
+    const pendingIds = prompts.filter(p => locationCodes.some(code => !hasRun(p.id, code))).map(p => p.id);
+    if (pendingIds.length === 0) return;
     setLoading(true);
     setError(null);
+
+    // Run server-side as a batch job (keeps going if the tab closes)
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke("geo-audit", {
+        body: {
+          mode: "batch", client_id: selectedClient.id, prompt_ids: pendingIds,
+          location_codes: locationCodes, models: selectedModels, samples: sampleCount,
+        },
+      });
+      if (!fnError && data?.success) {
+        const activeJobs = loadFromStorage<Record<string, string>>(STORAGE_KEYS.ACTIVE_JOBS, {});
+        activeJobs[selectedClient.id] = data.data.job_id;
+        saveToStorage(STORAGE_KEYS.ACTIVE_JOBS, activeJobs);
+        setAuditJob({
+          id: data.data.job_id, status: "queued", prompts_total: data.data.prompts_total,
+          prompts_completed: 0, prompts_failed: 0, audit_result_ids: [], total_cost: 0,
+        });
+        return;
+      }
+
+      // Rejections (budget, validation, permissions) are final; only an unreachable function falls back
+      const response = (fnError as { context?: Response } | null)?.context;
+      if (!(fnError instanceof FunctionsFetchError) && response?.status !== 404) {
+        let payload = data;
+        if (fnError && !payload) payload = await response?.json?.().catch(() => null);
+        setError(payload?.error || fnError?.message || "Batch audit failed");
+        setLoading(false);
+        return;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Batch audit failed");
+      setLoading(false);
+      return;
+    }
+
+    // Fallback (geo-audit not deployed or unreachable): run prompts one by one from the browser, once per location
     const results: AuditResult[] = [...auditResults];
+    const runs = prompts.flatMap(prompt => locationCodes.map(location_code => ({ prompt, location_code })));
 
-    for (const prompt of prompts) {
-      if (results.find(r => r.prompt_id === prompt.id)) continue;
+    for (const { prompt, location_code } of runs) {
+      if (results.find(r => isRunAt(r, prompt.id, location_code, selectedClient))) continue;
       setLoadingPromptId(prompt.id);
 
       try {
@@ -714,14 +1296,15 @@ export function useClientDashboard() {
           body: {
             client_id: selectedClient.id, prompt_id: prompt.id, prompt_text: prompt.prompt_text,
             brand_name: selectedClient.brand_name, brand_tags: selectedClient.brand_tags,
-            competitors: selectedClient.competitors, location_code: selectedClient.location_code,
-            models: selectedModels, niche_level: prompt.niche_level, save_to_db: true,
+            competitors: selectedClient.competitors, location_code,
+            language: promptLanguage(prompt, selectedClient), models: selectedModels, niche_level: prompt.niche_level, save_to_db: true, samples: sampleCount,
           },
         });
 
         if (!fnError && data?.success) {
           const result: AuditResult = {
             id: data.data.id || crypto.randomUUID(), prompt_id: prompt.id, prompt_text: prompt.prompt_text,
+            language: data.data.language || promptLanguage(prompt, selectedClient), location_code,
             model_results: data.data.model_results, summary: data.data.summary, created_at: data.data.timestamp,
           };
           results.push(result);
@@ -741,52 +1324,53 @@ export function useClientDashboard() {
     }
     setLoading(false);
     setLoadingPromptId(null);
-  }, [selectedClient, prompts, selectedModels, auditResults, updateSummary]);
+  }, [selectedClient, prompts, selectedModels, sampleCount, auditResults, auditJob, updateSummary, requirePermission]);
 
   const runSinglePrompt = useCallback(async (promptId: string) => {
+    if (!requirePermission("run_audits")) return;
     if (!selectedClient) return;
     const prompt = prompts.find(p => p.id === promptId);
     if (!prompt) return;
     
-    // Check if there's an existing result (for re-run)
-    const existingResultIndex = auditResults.findIndex(r => r.prompt_id === promptId);
-    
     setLoadingPromptId(promptId);
     setError(null);
 
     try {
-      const { data, error: fnError } = await supabase.functions.invoke("geo-audit", {
-        body: {
-          client_id: selectedClient.id, prompt_id: prompt.id, prompt_text: prompt.prompt_text,
-          brand_name: selectedClient.brand_name, brand_tags: selectedClient.brand_tags,
-          competitors: selectedClient.competitors, location_code: selectedClient.location_code,
-          models: selectedModels, niche_level: prompt.niche_level, save_to_db: true,
-        },
-      });
+      let newResults: AuditResult[] = [...auditResults];
+      for (const location_code of auditLocations(selectedClient)) {
+        const { data, error: fnError } = await supabase.functions.invoke("geo-audit", {
+          body: {
+            client_id: selectedClient.id, prompt_id: prompt.id, prompt_text: prompt.prompt_text,
+            brand_name: selectedClient.brand_name, brand_tags: selectedClient.brand_tags,
+            competitors: selectedClient.competitors, location_code,
+            language: promptLanguage(prompt, selectedClient), models: selectedModels, niche_level: prompt.niche_level, save_to_db: true, samples: sampleCount,
+          },
+        });
 
-      if (!fnError && data?.success) {
-        const result: AuditResult = {
-          id: data.data.id || crypto.randomUUID(), prompt_id: prompt.id, prompt_text: prompt.prompt_text,
-          model_results: data.data.model_results, summary: data.data.summary, created_at: data.data.timestamp,
-        };
-        
-        let newResults: AuditResult[];
-        if (existingResultIndex >= 0) {
-          // Replace existing result (re-run)
-          newResults = [...auditResults];
-          newResults[existingResultIndex] = result;
+        if (!fnError && data?.success) {
+          const result: AuditResult = {
+            id: data.data.id || crypto.randomUUID(), prompt_id: prompt.id, prompt_text: prompt.prompt_text,
+            language: data.data.language || promptLanguage(prompt, selectedClient), location_code,
+            model_results: data.data.model_results, summary: data.data.summary, created_at: data.data.timestamp,
+          };
+
+          // Replace the existing result at this location (re-run), else add it
+          const existingResultIndex = newResults.findIndex(r => isRunAt(r, promptId, location_code, selectedClient));
+          if (existingResultIndex >= 0) {
+            newResults = [...newResults];
+            newResults[existingResultIndex] = result;
+          } else {
+            newResults = [...newResults, result];
+          }
+
+          setAuditResults(newResults);
+          const storedResults = loadFromStorage<Record<string, AuditResult[]>>(STORAGE_KEYS.RESULTS, {});
+          storedResults[selectedClient.id] = newResults;
+          saveToStorage(STORAGE_KEYS.RESULTS, storedResults);
+          updateSummary(newResults);
         } else {
-          // Add new result
-          newResults = [...auditResults, result];
+          setError(fnError?.message || data?.error || "Audit failed");
         }
-        
-        setAuditResults(newResults);
-        const storedResults = loadFromStorage<Record<string, AuditResult[]>>(STORAGE_KEYS.RESULTS, {});
-        storedResults[selectedClient.id] = newResults;
-        saveToStorage(STORAGE_KEYS.RESULTS, storedResults);
-        updateSummary(newResults);
-      } else {
-        setError(fnError?.message || data?.error || "Audit failed");
       }
     } catch (err) {
       console.error("Single audit error:", err);
@@ -794,7 +1378,20 @@ export function useClientDashboard() {
     } finally {
       setLoadingPromptId(null);
     }
-  }, [selectedClient, prompts, selectedModels, auditResults, updateSummary]);
+  }, [selectedClient, prompts, selectedModels, sampleCount, auditResults, updateSummary, requirePermission]);
+
+  // Every saved run of one prompt, newest first (state only keeps the latest per prompt after a re-run)
+  const fetchPromptHistory = useCallback(async (promptId: string): Promise<AuditResult[]> => {
+    try {
+      const { data: resultsData, error: fetchError } = await supabase
+        .from("audit_results").select("*").eq("prompt_id", promptId)
+        .order("created_at", { ascending: false }).limit(20);
+      if (!fetchError && resultsData && resultsData.length > 0) return resultsData.map(mapAuditRow);
+    } catch (err) { console.log("Supabase history fetch failed, using local results:", err); }
+    return auditResults
+      .filter(r => r.prompt_id === promptId)
+      .sort((a, b) => (b.created_at || "").localeCompare(a.created_at || ""));
+  }, [auditResults]);
 
   // ============================================
   // EXPORT/IMPORT FUNCTIONS
@@ -819,6 +1416,26 @@ export function useClientDashboard() {
     URL.revokeObjectURL(url);
   }, [selectedClient, auditResults, prompts]);
 
+  const exportOpportunities = useCallback((by: OpportunityTarget = "domain") => {
+    if (!selectedClient) return;
+    const opportunities = getOutreachOpportunities(by);
+    if (opportunities.length === 0) return;
+    const rows = [[by === "domain" ? "Domain" : "URL", "Type", "Prompts", "Models", "Citations", "Competitors", "Found In", "Status", "Updated"]];
+    for (const o of opportunities) {
+      const record = outreach[o.target];
+      rows.push([o.target, o.source_class, o.prompts.length.toString(), o.models.join("; "), o.citations.toString(),
+        o.competitors.join("; "), o.evidence.join("; "), record?.status || "", record?.updated_at?.split("T")[0] || ""]);
+    }
+    const csv = rows.map(r => r.map(c => `"${c.replace(/"/g, '""')}"`).join(",")).join("\n");
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${selectedClient.slug}-opportunities-${new Date().toISOString().split("T")[0]}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [selectedClient, getOutreachOpportunities, outreach]);
+
   const exportPrompts = useCallback(() => {
     if (!selectedClient) return;
     const data = { client: selectedClient.name, exported_at: new Date().toISOString(),
@@ -887,72 +1504,157 @@ export function useClientDashboard() {
   // AI GENERATION FUNCTIONS
   // ============================================
 
-  const generatePromptsFromKeywords = useCallback(async (keywords: string): Promise<string[]> => {
-    if (!selectedClient) return [];
-    const prompt = `Generate 10 search prompts for AI visibility analysis.\n\nKeywords: ${keywords}\nBrand: ${selectedClient.brand_name}\nIndustry: ${selectedClient.industry}\nRegion: ${selectedClient.target_region}\n\nGenerate a mix of broad, niche, and super-niche prompts. Return only the prompts, one per line.`;
-
+  // generate-content is the only path to an LLM; failures come back as a GenerationError the UI renders
+  const invokeGenerate = useCallback(async (body: Record<string, unknown>): Promise<{
+    response: string; provider: string; model: string; brief?: ContentBrief; gaps?: BriefGaps;
+  } | null> => {
+    if (!selectedClient) return null;
+    setGenerationError(null);
     try {
-      const { data, error } = await supabase.functions.invoke("generate-content", {
-        body: { prompt, type: "prompts" },
+      const { data, error: fnError } = await supabase.functions.invoke("generate-content", {
+        body: { client_id: selectedClient.id, ...body },
       });
-      if (!error && data?.response) {
-        return data.response.split("\n").map((l: string) => l.trim()).filter((l: string) => l.length > 10 && !l.startsWith("-") && !l.match(/^\d+\./));
-      }
-    } catch (err) { console.log("Generate prompts error:", err); }
+      if (!fnError && data?.success && data.data?.response) return data.data;
 
-    // Fallback to direct Groq
-    const groqApiKey = import.meta.env.VITE_GROQ_API_KEY;
-    if (!groqApiKey) return [];
-    try {
-      const response = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-        method: "POST",
-        headers: { "Authorization": `Bearer ${groqApiKey}`, "Content-Type": "application/json" },
-        body: JSON.stringify({
-          model: "llama-3.1-8b-instant",
-          messages: [{ role: "system", content: "Generate search prompts, one per line." }, { role: "user", content: prompt }],
-          temperature: 0.7, max_tokens: 2048,
-        }),
-      });
-      if (response.ok) {
-        const data = await response.json();
-        const content = data.choices?.[0]?.message?.content || "";
-        return content.split("\n").map((l: string) => l.trim()).filter((l: string) => l.length > 10);
-      }
-    } catch (err) { console.error("Groq error:", err); }
-    return [];
+      // Non-2xx responses carry the structured error in the body
+      let payload = data;
+      if (fnError && !payload) payload = await (fnError as { context?: Response }).context?.json?.().catch(() => null);
+      setGenerationError(isGenerationError(payload?.error) ? payload.error
+        : { code: "INTERNAL", message: fnError?.message || "Generation failed" });
+    } catch (err) {
+      setGenerationError({ code: "INTERNAL", message: err instanceof Error ? err.message : "Generation failed" });
+    }
+    return null;
   }, [selectedClient]);
 
+  const generatePromptsFromKeywords = useCallback(async (keywords: string): Promise<string[]> => {
+    if (!requirePermission("manage_prompts")) return [];
+    if (!selectedClient) return [];
+    const prompt = `Generate 10 search prompts for AI visibility analysis.\n\nKeywords: ${keywords}\nBrand: ${selectedClient.brand_name}\nIndustry: ${selectedClient.industry}\nRegion: ${selectedClient.target_region}\n\nGenerate a mix of broad, niche, and super-niche prompts. Return only the prompts, one per line.`;
+
+    const generated = await invokeGenerate({ prompt, type: "prompts" });
+    if (!generated) return [];
+    return generated.response.split("\n").map((l: string) => l.trim()).filter((l: string) => l.length > 10 && !l.startsWith("-") && !l.match(/^\d+\./));
+  }, [selectedClient, invokeGenerate, requirePermission]);
+
   const generateContent = useCallback(async (topic: string, contentType: string): Promise<string | null> => {
+    if (!requirePermission("manage_content")) return null;
     if (!selectedClient) return null;
     const prompt = `Write a ${contentType} about: ${topic}\n\nBrand: ${selectedClient.brand_name}\nIndustry: ${selectedClient.industry}\nCompetitors: ${selectedClient.competitors.join(", ")}\nRegion: ${selectedClient.target_region}\n\nMake it SEO-optimized. Format in Markdown.`;
 
-    try {
-      const { data, error } = await supabase.functions.invoke("generate-content", {
-        body: { prompt, type: contentType, brand_name: selectedClient.brand_name, competitors: selectedClient.competitors },
-      });
-      if (!error && data?.response) return data.response;
-    } catch (err) { console.log("Generate content error:", err); }
+    const generated = await invokeGenerate({ prompt, type: contentType, brand_name: selectedClient.brand_name, competitors: selectedClient.competitors });
+    return generated?.response ?? null;
+  }, [selectedClient, invokeGenerate, requirePermission]);
 
-    const groqApiKey = import.meta.env.VITE_GROQ_API_KEY;
-    if (!groqApiKey) return null;
+  // GEO score of a draft, checked against the client's active prompts (no cost)
+  const scoreContent = useCallback(async (content: string, contentType: ScoredContentType): Promise<GeoScore | null> => {
+    if (!selectedClient || !content.trim()) return null;
     try {
-      const response = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-        method: "POST",
-        headers: { "Authorization": `Bearer ${groqApiKey}`, "Content-Type": "application/json" },
-        body: JSON.stringify({
-          model: "llama-3.1-8b-instant",
-          messages: [{ role: "system", content: "You are an expert content writer." }, { role: "user", content: prompt }],
-          temperature: 0.7, max_tokens: 4096,
-        }),
+      const { data, error: fnError } = await supabase.functions.invoke("score-content", {
+        body: { client_id: selectedClient.id, content, type: contentType },
       });
-      if (response.ok) {
-        const data = await response.json();
-        return data.choices?.[0]?.message?.content || null;
-      }
-    } catch (err) { console.error("Groq error:", err); }
+      if (!fnError && data?.success) return data.data as GeoScore;
+      let payload = data;
+      if (fnError && !payload) payload = await (fnError as { context?: Response }).context?.json?.().catch(() => null);
+      setError(`Scoring failed: ${payload?.error || fnError?.message || "unknown error"}`);
+    } catch (err) {
+      setError(`Scoring failed: ${err instanceof Error ? err.message : "unknown error"}`);
+    }
     return null;
   }, [selectedClient]);
 
+  // ============================================
+  // CONTENT BRIEFS - Supabase
+  // ============================================
+
+  const fetchBriefs = useCallback(async (clientId: string) => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from("content_briefs").select("*").eq("client_id", clientId).order("updated_at", { ascending: false });
+      if (fetchError) {
+        console.error("Supabase briefs fetch error:", fetchError);
+        setBriefs([]);
+        return;
+      }
+      setBriefs((data || []) as ContentBriefRecord[]);
+    } catch (err) { console.log("Supabase briefs fetch failed:", err); }
+  }, []);
+
+  // Brief from the prompt's latest audit: who won, who is listed ahead, which domains are cited
+  const generateBriefFromGaps = useCallback(async (promptId: string): Promise<ContentBriefRecord | null> => {
+    if (!requirePermission("manage_content")) return null;
+    if (!selectedClient) return null;
+    const latest = auditResults
+      .filter(r => r.prompt_id === promptId)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+    if (!latest) {
+      setError("Run an audit of this prompt first - briefs are built from its results");
+      return null;
+    }
+
+    const gaps = collectBriefGaps(latest, {
+      brandName: selectedClient.brand_name,
+      brandTags: selectedClient.brand_tags,
+      brandDomain: selectedClient.brand_domain,
+      competitors: selectedClient.competitors,
+      overrides: selectedClient.settings?.source_overrides,
+    });
+    const generated = await invokeGenerate({
+      type: "content_brief", prompt: latest.prompt_text, gaps,
+      brand_name: selectedClient.brand_name, competitors: selectedClient.competitors,
+    });
+    if (!generated?.brief) return null;
+
+    try {
+      const { data, error: insertError } = await supabase.from("content_briefs").insert({
+        client_id: selectedClient.id,
+        prompt_id: promptId,
+        audit_result_id: latest.id,
+        prompt_text: latest.prompt_text,
+        title: generated.brief.title,
+        brief: generated.brief,
+        gaps: generated.gaps || gaps,
+        generated_by: `${generated.provider}:${generated.model}`,
+      }).select().single();
+      if (insertError) throw insertError;
+      const record = data as ContentBriefRecord;
+      setBriefs(prev => [record, ...prev]);
+      return record;
+    } catch (err) {
+      setError(`Brief generated but not saved: ${err instanceof Error ? err.message : (err as { message?: string })?.message || "unknown error"}`);
+      return null;
+    }
+  }, [selectedClient, auditResults, invokeGenerate, requirePermission]);
+
+  // Edits go through the same schema as generated briefs; returns the problems, if any
+  const updateBrief = useCallback(async (briefId: string, updates: { brief?: ContentBrief; status?: BriefStatus }): Promise<string[]> => {
+    if (!requirePermission("manage_content")) return ["Not allowed"];
+    const changes: Partial<ContentBriefRecord> = { updated_at: new Date().toISOString() };
+    if (updates.brief) {
+      const { brief, errors } = validateContentBrief(updates.brief);
+      if (!brief) return errors;
+      changes.brief = brief;
+      changes.title = brief.title;
+    }
+    if (updates.status) changes.status = updates.status;
+
+    const { error: updateError } = await supabase.from("content_briefs").update(changes).eq("id", briefId);
+    if (updateError) {
+      setError(`Could not save the brief: ${updateError.message}`);
+      return [updateError.message];
+    }
+    setBriefs(prev => prev.map(b => b.id === briefId ? { ...b, ...changes } : b)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at)));
+    return [];
+  }, [requirePermission]);
+
+  const deleteBrief = useCallback(async (briefId: string) => {
+    if (!requirePermission("manage_content")) return;
+    const { error: deleteError } = await supabase.from("content_briefs").delete().eq("id", briefId);
+    if (deleteError) { setError(`Could not delete the brief: ${deleteError.message}`); return; }
+    setBriefs(prev => prev.filter(b => b.id !== briefId));
+  }, [requirePermission]);
+
   const getAllCitations = useCallback(() => {
     const citationMap = new Map<string, { url: string; title: string; domain: string; count: number; prompts: string[] }>();
     for (const result of auditResults) {
@@ -972,6 +1674,33 @@ export function useClientDashboard() {
     return Array.from(citationMap.values()).sort((a, b) => b.count - a.count);
   }, [auditResults]);
 
+  // ============================================
+  // TRENDS - Supabase RPC
+  // ============================================
+
+  const fetchVisibilityTrends = useCallback(async (
+    options: { days?: number; bucket?: TrendBucket; promptId?: string | null } = {}
+  ): Promise<TrendPoint[]> => {
+    if (!selectedClient) return [];
+    const { data, error: rpcError } = await supabase.rpc("get_client_visibility_trends", {
+      p_client_id: selectedClient.id, days: options.days || 30,
+      bucket: options.bucket || "day", p_prompt_id: options.promptId || null,
+    });
+    if (rpcError) {
+      console.error("Trends RPC error:", rpcError);
+      setError(`Could not load trends: ${rpcError.message}`);
+      return [];
+    }
+    return (data || []).map((row: Record<string, any>) => ({
+      bucket_start: row.bucket_start, model: row.model,
+      share_of_voice: Math.round(Number(row.avg_sov ?? 0)),
+      visibility_score: Math.round(Number(row.avg_visibility_score ?? 0)),
+      trust_index: Math.round(Number(row.avg_trust_index ?? 0)),
+      average_rank: row.avg_rank != null ? Math.round(Number(row.avg_rank) * 10) / 10 : null,
+      audits: Number(row.total_audits ?? 0),
+    }));
+  }, [selectedClient]);
+
   // ============================================
   // INITIALIZATION
   // ============================================
@@ -988,7 +1717,7 @@ export function useClientDashboard() {
           if (promptsData && promptsData.length > 0) {
             const mappedPrompts: Prompt[] = promptsData.map(p => ({
               id: p.id, client_id: p.client_id, prompt_text: p.prompt_text,
-              category: p.category || "custom", is_custom: p.is_custom, is_active: p.is_active,
+              category: p.category || "custom", language: p.language || null, is_custom: p.is_custom, is_active: p.is_active,
             }));
             setPrompts(mappedPrompts);
           } else {
@@ -1004,18 +1733,7 @@ export function useClientDashboard() {
           const { data: resultsData } = await supabase
             .from("audit_results").select("*").eq("client_id", selectedClient.id).order("created_at", { ascending: false });
           if (resultsData && resultsData.length > 0) {
-            const mappedResults: AuditResult[] = resultsData.map(r => ({
-              id: r.id, prompt_id: r.prompt_id, prompt_text: r.prompt_text,
-              model_results: r.model_results || [],
-              // Build summary from individual columns (database stores them separately, not as JSONB)
-              summary: r.summary || {
-                share_of_voice: r.share_of_voice ?? 0,
-                average_rank: r.average_rank ?? null,
-                total_citations: r.total_citations ?? 0,
-                total_cost: r.total_cost ?? 0,
-              },
-              created_at: r.created_at,
-            }));
+            const mappedResults: AuditResult[] = resultsData.map(mapAuditRow);
             setAuditResults(mappedResults);
             updateSummary(mappedResults);
           } else {
@@ -1034,6 +1752,108 @@ export function useClientDashboard() {
     }
   }, [selectedClient, updateSummary]);
 
+  // Alerts are raised server-side after each saved audit, so refresh when results change
+  useEffect(() => {
+    if (selectedClient) fetchAlerts(selectedClient.id);
+  }, [selectedClient?.id, auditResults.length, fetchAlerts]);
+
+  useEffect(() => {
+    if (selectedClient) fetchOutreach(selectedClient.id);
+  }, [selectedClient?.id, fetchOutreach]);
+
+  useEffect(() => {
+    if (selectedClient) fetchBriefs(selectedClient.id);
+    else setBriefs([]);
+  }, [selectedClient?.id, fetchBriefs]);
+
+  // Resume tracking a batch job started earlier for this client
+  useEffect(() => {
+    if (!selectedClient) return;
+    const activeJobs = loadFromStorage<Record<string, string>>(STORAGE_KEYS.ACTIVE_JOBS, {});
+    const jobId = activeJobs[selectedClient.id];
+    setAuditJob(jobId ? {
+      id: jobId, status: "running", prompts_total: 0, prompts_completed: 0,
+      prompts_failed: 0, audit_result_ids: [], total_cost: 0,
+    } : null);
+    setLoading(!!jobId);
+  }, [selectedClient?.id]);
+
+  // Poll the active batch job and merge finished results as they land
+  const activeJobId = isJobActive(auditJob) ? auditJob!.id : null;
+  useEffect(() => {
+    if (!selectedClient || !activeJobId) return;
+    const clientId = selectedClient.id;
+    const fetchedIds = new Set<string>();
+    let cancelled = false;
+    let lastUpdatedAt: string | undefined;
+    let lastProgressAt = Date.now();
+
+    const finishJob = () => {
+      const activeJobs = loadFromStorage<Record<string, string>>(STORAGE_KEYS.ACTIVE_JOBS, {});
+      delete activeJobs[clientId];
+      saveToStorage(STORAGE_KEYS.ACTIVE_JOBS, activeJobs);
+      setLoading(false);
+    };
+
+    const poll = async () => {
+      try {
+        const { data: jobRow, error: jobError } = await supabase
+          .from("audit_jobs").select("*").eq("id", activeJobId).single();
+        if (cancelled) return;
+        if (jobError || !jobRow) {
+          setError(jobError?.message || "Audit job not found");
+          setAuditJob(null);
+          finishJob();
+          return;
+        }
+        const job = mapAuditJob(jobRow);
+
+        const newIds = job.audit_result_ids.filter(id => !fetchedIds.has(id));
+        if (newIds.length > 0) {
+          const { data: resultsData } = await supabase.from("audit_results").select("*").in("id", newIds);
+          if (cancelled) return;
+          if (resultsData && resultsData.length > 0) {
+            resultsData.forEach(r => fetchedIds.add(r.id));
+            const fresh = resultsData.map(mapAuditRow);
+            setAuditResults(prev => {
+              const merged = [...fresh, ...prev.filter(r => !fresh.some(f => f.prompt_id === r.prompt_id && f.location_code === r.location_code))];
+              const storedResults = loadFromStorage<Record<string, AuditResult[]>>(STORAGE_KEYS.RESULTS, {});
+              storedResults[clientId] = merged;
+              saveToStorage(STORAGE_KEYS.RESULTS, storedResults);
+              updateSummary(merged);
+              return merged;
+            });
+          }
+        }
+
+        // Give up once the job stops advancing (its worker was stopped before finishing)
+        if (job.updated_at !== lastUpdatedAt) {
+          lastProgressAt = lastUpdatedAt === undefined && job.updated_at
+            ? Math.min(Date.now(), new Date(job.updated_at).getTime())
+            : Date.now();
+          lastUpdatedAt = job.updated_at;
+        }
+        if (isJobActive(job) && Date.now() - lastProgressAt > JOB_STALE_MS) {
+          setAuditJob({ ...job, status: "failed" });
+          setError(`Audit job stopped responding after ${job.prompts_completed + job.prompts_failed} of ${job.prompts_total} prompts`);
+          finishJob();
+          return;
+        }
+
+        setAuditJob(job);
+        if (!isJobActive(job)) {
+          if (job.status === "failed") setError(job.error || "Audit failed");
+          else if (job.prompts_failed > 0) setError(`${job.prompts_failed} of ${job.prompts_total} prompts failed`);
+          finishJob();
+        }
+      } catch (err) { console.log("Audit job poll failed:", err); }
+    };
+
+    poll();
+    const interval = setInterval(poll, JOB_POLL_INTERVAL_MS);
+    return () => { cancelled = true; clearInterval(interval); };
+  }, [selectedClient, activeJobId, updateSummary]);
+
   // ============================================
   // RETURN
   // ============================================
@@ -1041,28 +1861,39 @@ export function useClientDashboard() {
   return {
     // State
     clients, selectedClient, prompts, auditResults, summary, costBreakdown,
-    selectedModels, loading, loadingPromptId, error,
+    selectedModels, sampleCount, loading, loadingPromptId, auditJob, alerts, outreach, briefs, error, generationError,
     
     // Client management
-    addClient, updateClient, deleteClient, switchClient, setSelectedModels,
-    updateBrandTags, updateCompetitors,
+    addClient, updateClient, deleteClient, switchClient, setSelectedModels, setSampleCount,
+    updateBrandTags, updateCompetitors, trackCompetitor, backfillCompetitors, reprocessResults, updateNotificationSettings, updateBudget,
+    updateSourceOverride, updateModelRoute, updateSerpEngine, updateLanguageAliases, updateAuditLocations,
+    
+    // Alerts
+    markAlertsRead,
+    
+    // Outreach
+    updateOutreachStatus,
     
     // Audit
-    runFullAudit, runSinglePrompt, clearResults,
+    runFullAudit, runSinglePrompt, fetchPromptHistory, clearResults, estimateAuditCost,
     
     // Prompts
     addCustomPrompt, addMultiplePrompts, generateNichePrompts, deletePrompt, clearAllPrompts,
     
     // Export/Import
-    exportToCSV, exportPrompts, exportFullReport, importData,
+    exportToCSV, exportOpportunities, exportPrompts, exportFullReport, importData,
     
     // AI features
-    generatePromptsFromKeywords, generateContent,
+    generatePromptsFromKeywords, generateContent, scoreContent,
+    
+    // Content briefs
+    generateBriefFromGaps, updateBrief, deleteBrief,
     
     // Analytics
-    getAllCitations, getModelStats, getCompetitorGap, getTopSources, getInsights,
+    getAllCitations, getModelStats, getCompetitorGap, getCompetitorSuggestions, getTopSources, getInsights,
+    getOutreachOpportunities, fetchVisibilityTrends,
     
     // Constants
-    INDUSTRY_PRESETS, LOCATION_CODES,
+    INDUSTRY_PRESETS, LOCATION_CODES, MAX_AUDIT_LOCATIONS,
   };
 }
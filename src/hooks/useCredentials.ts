@@ -0,0 +1,115 @@
+/**
+ * ============================================================================
+ * FORZEO CREDENTIALS HOOK
+ * ============================================================================
+ *
+ * The current organization's provider keys (Account menu > API Keys).
+ *
+ * - Everything goes through the manage-credentials edge function: keys are
+ *   encrypted there and never come back, only a hint and the last test
+ * - Saving over a stored key rotates it; every save is tested right away
+ * - Owners and admins only (manage_credentials permission)
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { CredentialProvider } from "../../supabase/functions/_shared/credentialProviders.ts";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CredentialStatus {
+  provider: CredentialProvider;
+  configured: boolean;          // the organization stored a key
+  key_hint: string | null;
+  env_fallback: boolean;        // a project secret is used when no key is stored
+  last_tested_at: string | null;
+  last_test_ok: boolean | null;
+  last_test_message: string | null;
+  updated_at: string | null;
+  rotated_at: string | null;
+}
+
+export interface CredentialTest {
+  ok: boolean;
+  message: string;
+}
+
+// ============================================
+// MAIN HOOK
+// ============================================
+
+export function useCredentials(organizationId: string | null, enabled: boolean) {
+  const [credentials, setCredentials] = useState<CredentialStatus[]>([]);
+  const [encryption, setEncryption] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState<CredentialProvider | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Returns the function's data, or null after setting the error
+  const call = useCallback(async (action: string, extra: Record<string, unknown> = {}) => {
+    if (!organizationId) return null;
+    setError(null);
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke("manage-credentials", {
+        body: { action, organization_id: organizationId, ...extra },
+      });
+      if (fnError || !data?.success) {
+        setError(data?.error || fnError?.message || "Request failed");
+        return null;
+      }
+      return data.data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return null;
+    }
+  }, [organizationId]);
+
+  const fetchCredentials = useCallback(async () => {
+    if (!enabled) { setCredentials([]); return; }
+    setLoading(true);
+    const data = await call("list");
+    if (data) {
+      setCredentials(data.credentials);
+      setEncryption(data.encryption);
+    }
+    setLoading(false);
+  }, [enabled, call]);
+
+  // Add or rotate a key; resolves with the test of the new key
+  const saveCredential = useCallback(async (provider: CredentialProvider, secret: string): Promise<CredentialTest | null> => {
+    setBusy(provider);
+    const data = await call("save", { provider, secret });
+    setBusy(null);
+    if (!data) return null;
+    setCredentials(data.credentials);
+    return data.test;
+  }, [call]);
+
+  // Tests the stored key, or the project secret when the organization has none
+  const testCredential = useCallback(async (provider: CredentialProvider): Promise<CredentialTest | null> => {
+    setBusy(provider);
+    const data = await call("test", { provider });
+    setBusy(null);
+    if (!data) return null;
+    if (data.source === "organization") await fetchCredentials();
+    return data.test;
+  }, [call, fetchCredentials]);
+
+  const removeCredential = useCallback(async (provider: CredentialProvider): Promise<boolean> => {
+    setBusy(provider);
+    const data = await call("delete", { provider });
+    setBusy(null);
+    if (!data) return false;
+    setCredentials(data.credentials);
+    return true;
+  }, [call]);
+
+  useEffect(() => { fetchCredentials(); }, [fetchCredentials]);
+
+  return {
+    credentials, encryption, loading, busy, error,
+    fetchCredentials, saveCredential, testCredential, removeCredential,
+  };
+}
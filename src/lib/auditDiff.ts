@@ -0,0 +1,155 @@
+/**
+ * Run-over-run comparison for two audits of the same prompt
+ * Explains why SOV moved: mentions, ranks, citations, competitors, sentiment, response text
+ */
+import type { AuditResult, ModelResult } from "@/hooks/useClientDashboard";
+
+export interface TextDiffPart {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface ModelDiff {
+  model: string;
+  model_name: string;
+  presence: "both" | "added" | "removed"; // model only queried in one of the runs
+  mention: "gained" | "lost" | "unchanged";
+  mention_count: { before: number; after: number };
+  rank: { before: number | null; after: number | null; delta: number | null }; // negative = moved up
+  citations_added: string[];   // domains
+  citations_removed: string[];
+  competitors_added: string[];
+  competitors_removed: string[];
+  sentiment: { before?: string; after?: string; flipped: boolean };
+  response_diff: TextDiffPart[];
+}
+
+export interface AuditDiff {
+  before: AuditResult;
+  after: AuditResult;
+  sov_delta: number;
+  rank_delta: number | null;
+  citations_delta: number;
+  models: ModelDiff[];
+}
+
+// Above this many line pairs the LCS table gets too big; show a full replace instead
+const MAX_DIFF_CELLS = 4_000_000;
+
+function uniqueLower(values: string[]): Map<string, string> {
+  const map = new Map<string, string>();
+  values.filter(Boolean).forEach(v => { if (!map.has(v.toLowerCase())) map.set(v.toLowerCase(), v); });
+  return map;
+}
+
+function setDiff(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const b = uniqueLower(before);
+  const a = uniqueLower(after);
+  return {
+    added: [...a.entries()].filter(([key]) => !b.has(key)).map(([, v]) => v),
+    removed: [...b.entries()].filter(([key]) => !a.has(key)).map(([, v]) => v),
+  };
+}
+
+/**
+ * Line-level diff of two responses (longest common subsequence)
+ */
+export function diffText(before: string, after: string): TextDiffPart[] {
+  const a = (before || "").split("\n");
+  const b = (after || "").split("\n");
+  if (before === after) return [{ type: "same", text: before || "" }];
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ type: "removed", text: before }, { type: "added", text: after }];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const cols = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = a[i] === b[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const parts: TextDiffPart[] = [];
+  const push = (type: TextDiffPart["type"], line: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += "\n" + line;
+    else parts.push({ type, text: line });
+  };
+  let i = 0, j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { push("same", a[i]); i++; j++; }
+    else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) { push("removed", a[i]); i++; }
+    else { push("added", b[j]); j++; }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+  return parts;
+}
+
+function diffModel(before: ModelResult | undefined, after: ModelResult | undefined): ModelDiff {
+  const ref = (after || before)!;
+  const wasMentioned = !!before?.brand_mentioned;
+  const isMentioned = !!after?.brand_mentioned;
+  const rankBefore = before?.brand_rank ?? null;
+  const rankAfter = after?.brand_rank ?? null;
+  const citations = setDiff(
+    (before?.citations || []).map(c => c.domain),
+    (after?.citations || []).map(c => c.domain)
+  );
+  const competitors = setDiff(
+    (before?.competitors_found || []).map(c => c.name),
+    (after?.competitors_found || []).map(c => c.name)
+  );
+
+  return {
+    model: ref.model,
+    model_name: ref.model_name,
+    presence: before && after ? "both" : after ? "added" : "removed",
+    mention: wasMentioned === isMentioned ? "unchanged" : isMentioned ? "gained" : "lost",
+    mention_count: { before: before?.brand_mention_count || 0, after: after?.brand_mention_count || 0 },
+    rank: {
+      before: rankBefore,
+      after: rankAfter,
+      delta: rankBefore != null && rankAfter != null ? rankAfter - rankBefore : null,
+    },
+    citations_added: citations.added,
+    citations_removed: citations.removed,
+    competitors_added: competitors.added,
+    competitors_removed: competitors.removed,
+    sentiment: {
+      before: before?.brand_sentiment,
+      after: after?.brand_sentiment,
+      flipped: !!before?.brand_sentiment && !!after?.brand_sentiment && before.brand_sentiment !== after.brand_sentiment,
+    },
+    response_diff: diffText(before?.raw_response || "", after?.raw_response || ""),
+  };
+}
+
+/**
+ * Compare two audits of the same prompt, model by model
+ * `before` should be the older run
+ */
+export function diffAuditResults(before: AuditResult, after: AuditResult): AuditDiff {
+  const modelIds = Array.from(new Set([
+    ...before.model_results.map(mr => mr.model),
+    ...after.model_results.map(mr => mr.model),
+  ]));
+  const rankBefore = before.summary.average_rank;
+  const rankAfter = after.summary.average_rank;
+
+  return {
+    before,
+    after,
+    sov_delta: after.summary.share_of_voice - before.summary.share_of_voice,
+    rank_delta: rankBefore != null && rankAfter != null ? Math.round((rankAfter - rankBefore) * 10) / 10 : null,
+    citations_delta: after.summary.total_citations - before.summary.total_citations,
+    models: modelIds.map(id => diffModel(
+      before.model_results.find(mr => mr.model === id),
+      after.model_results.find(mr => mr.model === id)
+    )),
+  };
+}
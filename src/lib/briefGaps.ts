@@ -0,0 +1,69 @@
+/**
+ * Brief gaps - what a prompt's latest audit says the brand is missing
+ * Winners per model, entities ranked ahead of the brand and the domains the answers cite,
+ * the input of a content brief (supabase/functions/_shared/contentBrief.ts)
+ */
+import type { AuditResult } from "@/hooks/useClientDashboard";
+import { mentionsEntity, parseEntity } from "../../supabase/functions/_shared/brandMatching.ts";
+import { classifySource, type SourceContext } from "../../supabase/functions/_shared/citationClassifier.ts";
+import type { BriefGaps } from "../../supabase/functions/_shared/contentBrief.ts";
+
+// Entities taken from an answer that doesn't list the brand at all
+const TOP_WHEN_ABSENT = 5;
+
+export function collectBriefGaps(result: AuditResult, ctx: SourceContext & { brandName: string }): BriefGaps {
+  const brand = parseEntity(ctx.brandName, ctx.brandTags);
+  const isBrand = (text: string) => mentionsEntity(text, brand);
+  const winners = new Map<string, Set<string>>();
+  const ahead = new Map<string, { name: string; best_position: number; models: Set<string> }>();
+  const domains = new Map<string, { citations: number; source_class: string }>();
+  const missing: string[] = [];
+
+  for (const mr of result.model_results) {
+    if (!mr.success) continue;
+    if (!mr.brand_mentioned) missing.push(mr.model_name);
+
+    if (mr.winner_brand && !isBrand(mr.winner_brand)) {
+      if (!winners.has(mr.winner_brand)) winners.set(mr.winner_brand, new Set());
+      winners.get(mr.winner_brand)!.add(mr.model_name);
+    }
+
+    const entities = mr.ranked_entities || [];
+    const brandEntity = entities.find(e => isBrand(e.name));
+    const before = brandEntity
+      ? entities.filter(e => e.position < brandEntity.position)
+      : entities.slice(0, TOP_WHEN_ABSENT);
+    for (const e of before) {
+      if (isBrand(e.name)) continue;
+      const key = e.name.toLowerCase();
+      const entry = ahead.get(key) || { name: e.name, best_position: e.position, models: new Set<string>() };
+      entry.best_position = Math.min(entry.best_position, e.position);
+      entry.models.add(mr.model_name);
+      ahead.set(key, entry);
+    }
+
+    for (const c of mr.citations) {
+      if (!c.domain) continue;
+      const { source_class } = classifySource(c.domain, ctx);
+      if (source_class === "brand") continue;
+      const entry = domains.get(c.domain) || { citations: 0, source_class };
+      entry.citations++;
+      domains.set(c.domain, entry);
+    }
+  }
+
+  return {
+    prompt_text: result.prompt_text,
+    brand_name: ctx.brandName,
+    brand_missing_in: missing,
+    winners: Array.from(winners.entries())
+      .map(([name, models]) => ({ name, models: Array.from(models) }))
+      .sort((a, b) => b.models.length - a.models.length),
+    entities_ahead: Array.from(ahead.values())
+      .map(e => ({ name: e.name, best_position: e.best_position, models: Array.from(e.models) }))
+      .sort((a, b) => b.models.length - a.models.length || a.best_position - b.best_position),
+    cited_domains: Array.from(domains.entries())
+      .map(([domain, d]) => ({ domain, citations: d.citations, source_class: d.source_class }))
+      .sort((a, b) => b.citations - a.citations),
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Competitor discovery - brands the AI answers recommend that the client doesn't track yet
+ * Uses the parsed entity list stored on each model result (parsed on the fly for older audits)
+ */
+import type { AuditResult } from "@/hooks/useClientDashboard";
+import { parseRankedEntities } from "../../supabase/functions/_shared/answerParser.ts";
+import { mentionsEntity, normalizeEntityName, parseEntity } from "../../supabase/functions/_shared/brandMatching.ts";
+
+export interface CompetitorCandidate {
+  name: string;
+  answers: number;       // model answers that recommend it
+  prompts: number;       // distinct prompts it came up for
+  models: string[];      // model names that recommended it
+  avg_position: number;  // average position in those answers
+}
+
+// Ignore one-off names - a candidate must come up in at least this many answers
+const MIN_ANSWERS = 2;
+
+/**
+ * Rank untracked entities by model coverage, then by how often they come up
+ */
+export function discoverCompetitors(
+  results: AuditResult[],
+  brandName: string,
+  brandTags: string[],
+  competitors: string[],
+  limit = 10
+): CompetitorCandidate[] {
+  const known = [parseEntity(brandName, brandTags), ...competitors.map(c => parseEntity(c))];
+  const candidates = new Map<string, { name: string; answers: number; prompts: Set<string>; models: Set<string>; positions: number[] }>();
+
+  for (const result of results) {
+    for (const mr of result.model_results) {
+      if (!mr.success || !mr.raw_response) continue;
+      const entities = mr.ranked_entities || parseRankedEntities(mr.raw_response);
+      for (const entity of entities) {
+        if (known.some(k => mentionsEntity(entity.name, k))) continue;
+        const key = normalizeEntityName(entity.name);
+        const candidate = candidates.get(key) || { name: entity.name, answers: 0, prompts: new Set<string>(), models: new Set<string>(), positions: [] };
+        candidate.answers++;
+        candidate.prompts.add(result.prompt_id);
+        candidate.models.add(mr.model_name);
+        candidate.positions.push(entity.position);
+        candidates.set(key, candidate);
+      }
+    }
+  }
+
+  return Array.from(candidates.values())
+    .filter(c => c.answers >= MIN_ANSWERS)
+    .map(c => ({
+      name: c.name,
+      answers: c.answers,
+      prompts: c.prompts.size,
+      models: Array.from(c.models),
+      avg_position: Math.round((c.positions.reduce((a, b) => a + b, 0) / c.positions.length) * 10) / 10,
+    }))
+    .sort((a, b) => b.models.length - a.models.length || b.answers - a.answers || a.avg_position - b.avg_position)
+    .slice(0, limit);
+}
@@ -0,0 +1,103 @@
+/**
+ * Location comparison - the same prompts audited at several locations (London vs Manchester)
+ * Uses the latest run of each prompt per location; results without a location count as the client's
+ */
+import type { AuditResult } from "@/hooks/useClientDashboard";
+import { formatLocation } from "../../supabase/functions/_shared/locations.ts";
+
+export interface LocationStats {
+  location_code: number;
+  location_name: string;
+  prompts: number;                          // prompts with a run at this location
+  average_sov: number;                      // mean SOV over those prompts, in %
+  mention_rate: number;                     // successful model answers that mention the brand, in %
+  average_rank: number | null;
+  models: Record<string, number>;           // model id -> % of prompts where it mentions the brand
+}
+
+export interface PromptLocationRow {
+  prompt_id: string;
+  prompt_text: string;
+  sov: Record<number, number | null>;       // location code -> SOV, null = not run there
+  spread: number;                           // best minus worst SOV across the locations it ran at
+}
+
+export interface LocationComparison {
+  locations: LocationStats[];
+  prompts: PromptLocationRow[];
+}
+
+/**
+ * Latest result per prompt and location (results are assumed newest first, as loaded)
+ */
+function latestByLocation(results: AuditResult[], defaultLocation: number): Map<number, Map<string, AuditResult>> {
+  const byLocation = new Map<number, Map<string, AuditResult>>();
+  for (const r of results) {
+    const code = r.location_code ?? defaultLocation;
+    let prompts = byLocation.get(code);
+    if (!prompts) {
+      prompts = new Map();
+      byLocation.set(code, prompts);
+    }
+    const existing = prompts.get(r.prompt_id);
+    if (!existing || (r.created_at || "") > (existing.created_at || "")) prompts.set(r.prompt_id, r);
+  }
+  return byLocation;
+}
+
+/**
+ * Compare visibility across locations; only the given locations if any are passed
+ */
+export function compareLocations(
+  results: AuditResult[],
+  defaultLocation: number,
+  onlyLocations: number[] = []
+): LocationComparison {
+  const byLocation = latestByLocation(results, defaultLocation);
+  const codes = Array.from(byLocation.keys()).filter(code => onlyLocations.length === 0 || onlyLocations.includes(code));
+
+  const locations: LocationStats[] = codes.map(code => {
+    const runs = Array.from(byLocation.get(code)!.values());
+    let answers = 0, mentions = 0, rankSum = 0, rankCount = 0;
+    const modelHits: Record<string, { hits: number; total: number }> = {};
+    for (const r of runs) {
+      if (r.summary.average_rank) { rankSum += r.summary.average_rank; rankCount++; }
+      for (const mr of r.model_results.filter(m => m.success)) {
+        answers++;
+        if (mr.brand_mentioned) mentions++;
+        const m = modelHits[mr.model] ||= { hits: 0, total: 0 };
+        m.total++;
+        if (mr.brand_mentioned) m.hits++;
+      }
+    }
+    return {
+      location_code: code,
+      location_name: formatLocation(code),
+      prompts: runs.length,
+      average_sov: runs.length > 0 ? Math.round(runs.reduce((sum, r) => sum + r.summary.share_of_voice, 0) / runs.length) : 0,
+      mention_rate: answers > 0 ? Math.round((mentions / answers) * 100) : 0,
+      average_rank: rankCount > 0 ? Math.round((rankSum / rankCount) * 10) / 10 : null,
+      models: Object.fromEntries(Object.entries(modelHits).map(([model, m]) => [model, Math.round((m.hits / m.total) * 100)])),
+    };
+  }).sort((a, b) => b.average_sov - a.average_sov);
+
+  const promptIds = new Set(codes.flatMap(code => Array.from(byLocation.get(code)!.keys())));
+  const prompts: PromptLocationRow[] = Array.from(promptIds).map(promptId => {
+    const sov: Record<number, number | null> = {};
+    let promptText = "";
+    for (const code of codes) {
+      const run = byLocation.get(code)!.get(promptId);
+      sov[code] = run ? run.summary.share_of_voice : null;
+      if (run && !promptText) promptText = run.prompt_text;
+    }
+    const values = Object.values(sov).filter((v): v is number => v !== null);
+    return {
+      prompt_id: promptId,
+      prompt_text: promptText,
+      sov,
+      spread: values.length > 1 ? Math.max(...values) - Math.min(...values) : 0,
+    };
+  }).sort((a, b) => b.spread - a.spread);
+
+  return { locations, prompts };
+}
@@ -0,0 +1,97 @@
+/**
+ * Outreach opportunities - sources that AI answers cite for competitors but not for the brand
+ * A citation counts when its title/snippet names a competitor and not the brand, or when it
+ * backs an answer that mentions a competitor and not the brand
+ */
+import type { AuditResult } from "@/hooks/useClientDashboard";
+import { mentionsEntity, parseEntity } from "../../supabase/functions/_shared/brandMatching.ts";
+import { classifySource, type SourceClass, type SourceContext } from "../../supabase/functions/_shared/citationClassifier.ts";
+
+export type OpportunityTarget = "domain" | "url";
+export type OpportunityEvidence = "citation" | "answer";
+
+export interface OutreachOpportunity {
+  target: string;                    // domain or URL, depending on grouping
+  domain: string;
+  title: string;                     // first title seen for the target
+  source_class: SourceClass;
+  citations: number;                 // qualifying citations
+  prompts: string[];                 // prompt texts that cite it
+  models: string[];                  // model names that cite it
+  competitors: string[];             // competitors it is cited for
+  evidence: OpportunityEvidence[];   // how the competitor link was found
+}
+
+// The brand's and competitors' own sites aren't outreach targets
+const EXCLUDED_CLASSES: SourceClass[] = ["brand", "competitor"];
+
+/**
+ * Rank sources by how many prompts, then models, cite them for competitors
+ */
+export function findOutreachOpportunities(
+  results: AuditResult[],
+  by: OpportunityTarget,
+  ctx: SourceContext & { brandName: string }
+): OutreachOpportunity[] {
+  const brand = parseEntity(ctx.brandName, ctx.brandTags);
+  const competitors = (ctx.competitors || []).map(c => parseEntity(c));
+  const brandCited = new Set<string>();
+  const targets = new Map<string, {
+    domain: string; title: string; source_class: SourceClass; citations: number;
+    prompts: Set<string>; models: Set<string>; competitors: Set<string>; evidence: Set<OpportunityEvidence>;
+  }>();
+
+  for (const result of results) {
+    for (const mr of result.model_results) {
+      if (!mr.success) continue;
+      const inAnswer = (mr.competitors_found || []).filter(c => c.count > 0).map(c => c.name);
+
+      for (const c of mr.citations) {
+        const key = by === "domain" ? c.domain : c.url;
+        if (!key) continue;
+        const text = `${c.title || ""} ${c.snippet || ""}`;
+        if (mentionsEntity(text, brand)) {
+          brandCited.add(key);
+          continue;
+        }
+
+        const named = competitors.filter(e => mentionsEntity(text, e)).map(e => e.name);
+        const evidence: OpportunityEvidence | null = named.length > 0
+          ? "citation"
+          : !mr.brand_mentioned && inAnswer.length > 0 ? "answer" : null;
+        if (!evidence) continue;
+
+        let target = targets.get(key);
+        if (!target) {
+          const { source_class } = classifySource(c.domain, ctx);
+          if (EXCLUDED_CLASSES.includes(source_class)) continue;
+          target = {
+            domain: c.domain, title: c.title || "", source_class, citations: 0,
+            prompts: new Set(), models: new Set(), competitors: new Set(), evidence: new Set(),
+          };
+          targets.set(key, target);
+        }
+        target.citations++;
+        target.prompts.add(result.prompt_text);
+        target.models.add(mr.model_name);
+        (named.length > 0 ? named : inAnswer).forEach(name => target!.competitors.add(name));
+        target.evidence.add(evidence);
+      }
+    }
+  }
+
+  return Array.from(targets.entries())
+    .filter(([key]) => !brandCited.has(key))
+    .map(([key, t]) => ({
+      target: key,
+      domain: t.domain,
+      title: t.title,
+      source_class: t.source_class,
+      citations: t.citations,
+      prompts: Array.from(t.prompts),
+      models: Array.from(t.models),
+      competitors: Array.from(t.competitors),
+      evidence: Array.from(t.evidence),
+    }))
+    .sort((a, b) => b.prompts.length - a.prompts.length || b.models.length - a.models.length || b.citations - a.citations);
+}
@@ -0,0 +1,19 @@
+/**
+ * Small statistics helpers for multi-sample audits
+ * Mirrors wilsonInterval in supabase/functions/geo-audit/index.ts
+ */
+
+/**
+ * 95% Wilson score interval for a proportion, returned in percent
+ */
+export function wilsonInterval(successes: number, trials: number, z = 1.96): [number, number] {
+  if (trials === 0) return [0, 0];
+  const p = successes / trials;
+  const denom = 1 + (z * z) / trials;
+  const center = (p + (z * z) / (2 * trials)) / denom;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denom;
+  return [
+    Math.round(Math.max(0, center - margin) * 1000) / 10,
+    Math.round(Math.min(1, center + margin) * 1000) / 10,
+  ];
+}
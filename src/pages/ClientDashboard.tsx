@@ -20,27 +20,35 @@
  *    - Top sources list
  *    - AI-generated insights
  * 
- * 2. Prompts Tab:
+ * 2. Trends Tab:
+ *    - SOV, visibility, trust and rank over time
+ *    - Per client or per prompt, one line per model
+ *    - Day / week / month buckets
+ * 
+ * 3. Prompts Tab:
  *    - Add single prompts
  *    - Bulk add prompts
  *    - AI prompt generator
  *    - Run individual audits
  *    - View detailed results
+ *    - Compare two runs of a prompt (what changed)
  *    - Delete prompts
  * 
- * 3. Citations Tab:
+ * 4. Citations Tab:
  *    - All citations aggregated
  *    - Citation count by URL
  *    - Model attribution
  *    - Prompt attribution
  * 
- * 4. Content Tab:
+ * 5. Content Tab:
  *    - AI content generator
  *    - Article, listicle, comparison, guide, FAQ types
  *    - SEO-optimized output
  * 
- * 5. Sources Tab:
+ * 6. Sources Tab:
  *    - Domain-level aggregation
+ *    - Grouping by source type (reviews, news, forums, ...) with per-domain overrides
+ *    - Outreach opportunities (cited for competitors, not for you) with status + CSV export
  *    - Full URL listing
  *    - Citation counts
  * 
@@ -51,11 +59,15 @@
  * - Dark theme UI (professional look)
  * - Model selection badges
  * - Client switcher dropdown
- * - Settings panel (brand tags, competitors)
+ * - Organization switcher, account menu and team management (owners/admins)
+ * - Controls a role can't use are hidden or disabled (_shared/permissions.ts)
+ * - Settings panel (brand tags, competitors, alert rules)
+ * - Alert inbox (bell menu)
  * - Import/export functionality
  * - Real-time loading states
  * - Error handling
- * - Date filtering
+ * - Date, language and location filtering
+ * - Location comparison (same prompts across audit locations)
  * 
  * ============================================================================
  * DEPENDENCIES
@@ -66,19 +78,21 @@
  * - Tailwind CSS
  * - Lucide React (icons)
  * - useClientDashboard hook (state management)
+ * - useAuth hook (session, organizations, roles)
  * 
  * @version 2.0.0
  * @author Forzeo Team
  */
 
-import { useState, useRef, useMemo } from "react";
+import { useState, useRef, useMemo, useEffect } from "react";
 import { cn } from "@/lib/utils";
 import {
   BarChart3, FileText, Globe, Play, Plus, Loader2, ChevronDown, X,
   CheckCircle, XCircle, ExternalLink, TrendingUp, Users, Award,
   Download, Upload, Settings, Tag, Trash2, DollarSign,
   AlertTriangle, Lightbulb, MoreVertical, Sparkles, Copy, Link2,
-  Calendar,
+  Calendar, LineChart, GitCompare, Bell, Wallet, Languages, MapPin,
+  Building2, LogOut, UserCog, KeyRound, ClipboardList,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -91,29 +105,103 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
-import { useClientDashboard, AI_MODELS } from "@/hooks/useClientDashboard";
+import {
+  useClientDashboard, auditLocations, AI_MODELS, DEFAULT_NOTIFICATION_SETTINGS, MAX_SAMPLES, PROVIDER_LABELS, SERP_ENGINES,
+  type AuditEstimate, type AuditResult, type NotificationSettings, type OutreachStatus, type ProviderId, type TrendBucket, type TrendPoint,
+} from "@/hooks/useClientDashboard";
 import { ForzeoLogo } from "@/components/ForzeoLogo";
 import { MODEL_LOGOS } from "@/components/ModelLogos";
+import { TrendChart } from "@/components/TrendChart";
+import { AuditComparison } from "@/components/AuditComparison";
+import { LocationComparison } from "@/components/LocationComparison";
+import { LocationPicker } from "@/components/LocationPicker";
+import { TeamMembers } from "@/components/TeamMembers";
+import { CredentialsManager } from "@/components/CredentialsManager";
+import { ContentBriefEditor } from "@/components/ContentBriefEditor";
+import { ContentScorer } from "@/components/ContentScorer";
+import type { AuthState } from "@/hooks/useAuth";
+import { useCredentials } from "@/hooks/useCredentials";
+import { diffAuditResults } from "@/lib/auditDiff";
+import { compareLocations } from "@/lib/locationComparison";
+import type { OpportunityTarget } from "@/lib/outreachOpportunities";
+import { SOURCE_CLASSES, SOURCE_CLASS_LABELS, type SourceClass } from "../../supabase/functions/_shared/citationClassifier.ts";
+import { LANGUAGES } from "../../supabase/functions/_shared/languages.ts";
+import { describeGenerationError } from "../../supabase/functions/_shared/generationErrors.ts";
+import { DEFAULT_LOCATION_CODE, formatLocation } from "../../supabase/functions/_shared/locations.ts";
+import { entityDisplayName } from "../../supabase/functions/_shared/brandMatching.ts";
+import { ROLE_LABELS } from "../../supabase/functions/_shared/permissions.ts";
 
 const MODEL_COLORS: Record<string, string> = {
   chatgpt: "#10b981", claude: "#f59e0b", gemini: "#3b82f6",
   perplexity: "#8b5cf6", google_ai_overview: "#ef4444", google_serp: "#22c55e",
+  chatgpt_search: "#059669", gemini_grounded: "#1d4ed8",
+  bing_copilot: "#0078d4", bing_serp: "#00a2ed", generic_serp: "#94a3b8",
+};
+
+const STANCE_STYLES: Record<string, { label: string; className: string }> = {
+  recommended: { label: "Recommended", className: "border-emerald-500 text-emerald-400" },
+  caveated: { label: "With caveats", className: "border-yellow-500 text-yellow-400" },
+  warned_against: { label: "Warned against", className: "border-red-500 text-red-400" },
+  listed: { label: "Listed", className: "border-gray-600 text-gray-400" },
+};
+
+// LLM models geo-audit can route to another provider (Settings > AI Models)
+const ROUTABLE_MODELS = ["chatgpt", "claude", "gemini", "perplexity", "chatgpt_search", "gemini_grounded"];
+
+const SOURCE_CLASS_STYLES: Record<SourceClass, { className: string; action: string }> = {
+  brand: { className: "border-emerald-500 text-emerald-400", action: "Your own pages - keep them current and easy to quote" },
+  competitor: { className: "border-red-500 text-red-400", action: "Competitor pages shaping the answer - publish a better comparison" },
+  review: { className: "border-yellow-500 text-yellow-400", action: "Ask happy customers for reviews on these sites" },
+  marketplace: { className: "border-orange-500 text-orange-400", action: "Improve listings, ratings and descriptions" },
+  news: { className: "border-blue-500 text-blue-400", action: "PR outreach to these publications" },
+  forum: { className: "border-purple-500 text-purple-400", action: "Join the threads (Reddit, Quora) with genuine answers" },
+  wikipedia: { className: "border-gray-400 text-gray-300", action: "Check the relevant articles are accurate and cite you" },
+  gov_edu: { className: "border-cyan-500 text-cyan-400", action: "Hard to influence - cite these sources in your own content" },
+  other: { className: "border-gray-600 text-gray-400", action: "Blogs and niche sites - guest posts and partnerships" },
+};
+
+const OUTREACH_STATUSES: Record<OutreachStatus, { label: string; className: string }> = {
+  to_contact: { label: "To contact", className: "text-yellow-400" },
+  contacted: { label: "Contacted", className: "text-blue-400" },
+  won: { label: "Won", className: "text-emerald-400" },
+};
+
+type TrendMetric = "share_of_voice" | "visibility_score" | "trust_index" | "average_rank";
+
+const TREND_METRICS: Record<TrendMetric, { label: string; max?: number; invert?: boolean; format: (v: number) => string }> = {
+  share_of_voice: { label: "Share of Voice", max: 100, format: v => `${v}%` },
+  visibility_score: { label: "Visibility Score", max: 150, format: v => String(v) },
+  trust_index: { label: "Trust Index", max: 100, format: v => String(v) },
+  average_rank: { label: "Average Rank", invert: true, format: v => `#${v}` },
 };
 
-export default function ClientDashboard() {
+export default function ClientDashboard({ auth }: { auth: AuthState }) {
   const {
     clients, selectedClient, prompts, auditResults, summary,
-    selectedModels, loading, loadingPromptId, error,
+    selectedModels, sampleCount, loading, loadingPromptId, auditJob, alerts, outreach, error,
     
-    addClient, updateClient, deleteClient, switchClient, setSelectedModels,
-    runFullAudit, runSinglePrompt, clearResults,
+    addClient, updateClient, deleteClient, switchClient, setSelectedModels, setSampleCount,
+    updateNotificationSettings, updateBudget, updateSourceOverride, updateModelRoute, updateSerpEngine, updateLanguageAliases, updateAuditLocations, markAlertsRead, updateOutreachStatus,
+    runFullAudit, runSinglePrompt, fetchPromptHistory, clearResults, estimateAuditCost,
     addCustomPrompt, addMultiplePrompts, deletePrompt, clearAllPrompts,
-    updateBrandTags, updateCompetitors,
-    exportToCSV, exportPrompts, exportFullReport, importData,
-    generatePromptsFromKeywords, generateContent, getAllCitations,
-    getModelStats, getCompetitorGap, getTopSources, getInsights,
-    INDUSTRY_PRESETS: industries, LOCATION_CODES: locations
-  } = useClientDashboard();
+    updateBrandTags, updateCompetitors, trackCompetitor, backfillCompetitors, reprocessResults,
+    exportToCSV, exportOpportunities, exportPrompts, exportFullReport, importData,
+    generatePromptsFromKeywords, generateContent, scoreContent, generationError, getAllCitations,
+    briefs, generateBriefFromGaps, updateBrief, deleteBrief,
+    getModelStats, getCompetitorGap, getCompetitorSuggestions, getTopSources, getInsights, getOutreachOpportunities, fetchVisibilityTrends,
+    INDUSTRY_PRESETS: industries, MAX_AUDIT_LOCATIONS: maxAuditLocations
+  } = useClientDashboard({ organizationId: auth.organization?.id ?? null, role: auth.role });
+
+  // What the user's role allows (controls it can't use are hidden or disabled)
+  const canRunAudits = auth.can("run_audits");
+  const canManagePrompts = auth.can("manage_prompts");
+  const canEditCompetitors = auth.can("edit_competitors");
+  const canEditSettings = auth.can("edit_settings");
+  const canManageClients = auth.can("manage_clients");
+  const canManageMembers = auth.can("manage_members");
+  const canManageCredentials = auth.can("manage_credentials");
+  const canManageContent = auth.can("manage_content");
+  const roleLabel = auth.role ? ROLE_LABELS[auth.role] : "";
 
   // Theme-based colors
   // Dark theme colors (fixed)
@@ -134,7 +222,15 @@ export default function ClientDashboard() {
   const [bulkPrompts, setBulkPrompts] = useState("");
   const [newTag, setNewTag] = useState("");
   const [newCompetitor, setNewCompetitor] = useState("");
+  const [backfillTarget, setBackfillTarget] = useState<string | null>(null);
+  const [backfilling, setBackfilling] = useState<string | null>(null);
+  const [reprocessing, setReprocessing] = useState(false);
+  const [reprocessedCount, setReprocessedCount] = useState<number | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [teamOpen, setTeamOpen] = useState(false);
+  const [credentialsOpen, setCredentialsOpen] = useState(false);
+  // Organization API keys, loaded when the dialog opens
+  const credentials = useCredentials(auth.organization?.id ?? null, canManageCredentials && credentialsOpen);
   const [addClientOpen, setAddClientOpen] = useState(false);
   const [editClientOpen, setEditClientOpen] = useState(false);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
@@ -145,15 +241,40 @@ export default function ClientDashboard() {
   const [contentType, setContentType] = useState("article");
   const [generatedContent, setGeneratedContent] = useState("");
   const [generatingContent, setGeneratingContent] = useState(false);
+  const [activeTab, setActiveTab] = useState("summary");
+  const [generatingBrief, setGeneratingBrief] = useState<string | null>(null);
+  const [selectedBriefId, setSelectedBriefId] = useState<string | null>(null);
   const [selectedPromptDetail, setSelectedPromptDetail] = useState<string | null>(null);
-  const [sourcesView, setSourcesView] = useState<"domains" | "urls">("domains");
+  const [sourcesView, setSourcesView] = useState<"domains" | "classes" | "opportunities" | "urls">("domains");
+  const [opportunityTarget, setOpportunityTarget] = useState<OpportunityTarget>("domain");
+  const [opportunityFilter, setOpportunityFilter] = useState<OutreachStatus | "all" | "untracked">("all");
   const [selectedDate, setSelectedDate] = useState<string>("all");
+  const [selectedLanguage, setSelectedLanguage] = useState<string>("all");
+  const [selectedLocation, setSelectedLocation] = useState<string>("all");
+  const [newPromptLanguage, setNewPromptLanguage] = useState<string>("client");
+  const [aliasLanguage, setAliasLanguage] = useState<string>("en");
+  const [newBrandAlias, setNewBrandAlias] = useState("");
+  const [trendPromptId, setTrendPromptId] = useState<string>("all");
+  const [trendMetric, setTrendMetric] = useState<TrendMetric>("share_of_voice");
+  const [trendBucket, setTrendBucket] = useState<TrendBucket>("day");
+  const [trendDays, setTrendDays] = useState("30");
+  const [trendPoints, setTrendPoints] = useState<TrendPoint[]>([]);
+  const [loadingTrends, setLoadingTrends] = useState(false);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [promptHistory, setPromptHistory] = useState<AuditResult[]>([]);
+  const [compareBeforeId, setCompareBeforeId] = useState<string>("");
+  const [compareAfterId, setCompareAfterId] = useState<string>("");
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [notificationForm, setNotificationForm] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [brandDomainInput, setBrandDomainInput] = useState("");
+  const [budgetInput, setBudgetInput] = useState("");
+  const [auditEstimate, setAuditEstimate] = useState<AuditEstimate | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [newClientForm, setNewClientForm] = useState({
-    name: "", brand_name: "", target_region: "United States", industry: "Custom", competitors: "", primary_color: "#8b5cf6"
+    name: "", brand_name: "", location_code: DEFAULT_LOCATION_CODE, language: "en", industry: "Custom", competitors: "", primary_color: "#8b5cf6"
   });
   const [editClientForm, setEditClientForm] = useState({
-    name: "", brand_name: "", target_region: "United States", industry: "Custom", primary_color: "#8b5cf6"
+    name: "", brand_name: "", location_code: DEFAULT_LOCATION_CODE, language: "en", industry: "Custom", primary_color: "#8b5cf6"
   });
 
   const COLOR_OPTIONS = ["#ec4899", "#f59e0b", "#06b6d4", "#8b5cf6", "#10b981", "#ef4444", "#3b82f6", "#f97316"];
@@ -161,9 +282,37 @@ export default function ClientDashboard() {
   const allCitations = getAllCitations();
   const modelStats = getModelStats();
   const competitorGap = getCompetitorGap();
+  const competitorSuggestions = getCompetitorSuggestions();
   const topSources = getTopSources();
+  const sourceGroups = useMemo(() => {
+    const total = topSources.reduce((sum, s) => sum + s.count, 0);
+    return SOURCE_CLASSES
+      .map(cls => {
+        const sources = topSources.filter(s => s.source_class === cls);
+        const count = sources.reduce((sum, s) => sum + s.count, 0);
+        return {
+          cls,
+          sources,
+          count,
+          share: total > 0 ? Math.round((count / total) * 100) : 0,
+          authority: sources.length > 0 ? sources.reduce((sum, s) => sum + s.authority, 0) / sources.length : 0,
+        };
+      })
+      .filter(g => g.sources.length > 0)
+      .sort((a, b) => b.count - a.count);
+  }, [topSources]);
+  const sourceOverrides = selectedClient?.settings?.source_overrides || {};
+  const opportunities = getOutreachOpportunities(opportunityTarget).filter(o =>
+    opportunityFilter === "all" || (opportunityFilter === "untracked" ? !outreach[o.target] : outreach[o.target]?.status === opportunityFilter)
+  );
   const insights = getInsights();
-  const pendingPrompts = prompts.filter(p => !auditResults.find(r => r.prompt_id === p.id)).length;
+  // A prompt is pending until it has a result at every audit location
+  const clientLocations = selectedClient ? auditLocations(selectedClient) : [];
+  // Results saved before locations were recorded ran at the client's location
+  const defaultLocation = selectedClient?.location_code || DEFAULT_LOCATION_CODE;
+  const pendingPrompts = prompts.filter(p =>
+    clientLocations.some(code => !auditResults.some(r => r.prompt_id === p.id && (r.location_code ?? defaultLocation) === code))
+  ).length;
   const totalCost = Object.values(modelStats).reduce((sum, m) => sum + m.cost, 0);
   
   // Get unique dates from audit results for filtering
@@ -178,21 +327,103 @@ export default function ClientDashboard() {
     return Array.from(dates).sort((a, b) => b.localeCompare(a)); // Most recent first
   }, [auditResults]);
 
-  // Filter audit results by selected date
+  // Languages that have audit results
+  const uniqueLanguages = useMemo(
+    () => Array.from(new Set(auditResults.map(r => r.language))).sort(),
+    [auditResults]
+  );
+
+  // Locations that have audit results
+  const uniqueLocations = useMemo(
+    () => Array.from(new Set(auditResults.map(r => r.location_code ?? defaultLocation))),
+    [auditResults, defaultLocation]
+  );
+
+  // Filter audit results by selected date, language and location
   const filteredAuditResults = useMemo(() => {
-    if (selectedDate === "all") return auditResults;
     return auditResults.filter(r => {
+      if (selectedLanguage !== "all" && r.language !== selectedLanguage) return false;
+      if (selectedLocation !== "all" && String(r.location_code ?? defaultLocation) !== selectedLocation) return false;
+      if (selectedDate === "all") return true;
       if (!r.created_at) return false;
       const resultDate = new Date(r.created_at).toISOString().split('T')[0];
       return resultDate === selectedDate;
     });
-  }, [auditResults, selectedDate]);
+  }, [auditResults, selectedDate, selectedLanguage, selectedLocation, defaultLocation]);
+
+  // Same prompts across locations (date and language filters apply)
+  const locationComparison = useMemo(() => {
+    const results = auditResults.filter(r =>
+      (selectedLanguage === "all" || r.language === selectedLanguage) &&
+      (selectedDate === "all" || (!!r.created_at && new Date(r.created_at).toISOString().split('T')[0] === selectedDate))
+    );
+    return compareLocations(results, defaultLocation);
+  }, [auditResults, selectedDate, selectedLanguage, defaultLocation]);
   
-  // Estimate cost for pending prompts
-  const estimatedCost = pendingPrompts * selectedModels.reduce((sum, modelId) => {
+  // Estimate cost for pending prompts (list prices until the server estimate arrives)
+  const estimatedCost = auditEstimate?.estimated_cost ?? pendingPrompts * Math.max(1, clientLocations.length) * selectedModels.reduce((sum, modelId) => {
     const model = AI_MODELS.find(m => m.id === modelId);
     return sum + (model?.costPerQuery || 0.02);
   }, 0);
+  const overBudget = pendingPrompts > 0 && auditEstimate !== null && !auditEstimate.within_budget;
+
+  // Pre-flight estimate for the Run button, including the remaining monthly budget
+  useEffect(() => {
+    if (loading) return;
+    let cancelled = false;
+    estimateAuditCost(pendingPrompts).then(estimate => {
+      if (!cancelled) setAuditEstimate(estimate);
+    });
+    return () => { cancelled = true; };
+  }, [estimateAuditCost, pendingPrompts, loading]);
+
+  // Load trend series when the client, filters or results change
+  useEffect(() => {
+    let cancelled = false;
+    setLoadingTrends(true);
+    fetchVisibilityTrends({
+      days: Number(trendDays), bucket: trendBucket,
+      promptId: trendPromptId === "all" ? null : trendPromptId,
+    }).then(points => {
+      if (!cancelled) setTrendPoints(points);
+    }).finally(() => {
+      if (!cancelled) setLoadingTrends(false);
+    });
+    return () => { cancelled = true; };
+  }, [fetchVisibilityTrends, trendDays, trendBucket, trendPromptId, auditResults.length]);
+
+  // Reset prompt filter when switching clients
+  useEffect(() => { setTrendPromptId("all"); }, [selectedClient?.id]);
+  useEffect(() => {
+    setSelectedLanguage("all");
+    setAliasLanguage(selectedClient?.language || "en");
+  }, [selectedClient?.id, selectedClient?.language]);
+
+  // Load the client's alert rules into the settings form
+  useEffect(() => {
+    setNotificationForm({ ...DEFAULT_NOTIFICATION_SETTINGS, ...(selectedClient?.settings?.notifications || {}) });
+    setBrandDomainInput(selectedClient?.brand_domain || "");
+    setBudgetInput(selectedClient?.settings?.budget?.monthly_limit_usd?.toString() ?? "");
+  }, [selectedClient?.id]);
+
+  const unreadAlerts = alerts.filter(a => !a.is_read).length;
+
+  const trendChart = useMemo(() => {
+    const buckets = Array.from(new Set(trendPoints.map(p => p.bucket_start))).sort();
+    const labels = buckets.map(b => new Date(b).toLocaleDateString('en-US',
+      trendBucket === "month" ? { month: 'short', year: '2-digit' } : { month: 'short', day: 'numeric' }));
+    const seriesIds = ["all", ...AI_MODELS.map(m => m.id).filter(id => trendPoints.some(p => p.model === id))];
+    const series = seriesIds.map(id => ({
+      id,
+      label: id === "all" ? "All models" : AI_MODELS.find(m => m.id === id)?.name || id,
+      color: id === "all" ? "#ffffff" : MODEL_COLORS[id] || "#6b7280",
+      values: buckets.map(b => {
+        const point = trendPoints.find(p => p.bucket_start === b && p.model === id);
+        return point ? point[trendMetric] : null;
+      }),
+    }));
+    return { labels, series };
+  }, [trendPoints, trendMetric, trendBucket]);
 
   // Get unique domains count
   const uniqueDomains = new Set(allCitations.map(c => c.domain)).size;
@@ -200,14 +431,14 @@ export default function ClientDashboard() {
   // Handlers
   const handleAddPrompt = async () => {
     if (newPrompt.trim()) {
-      await addCustomPrompt(newPrompt.trim());
+      await addCustomPrompt(newPrompt.trim(), undefined, newPromptLanguage === "client" ? undefined : newPromptLanguage);
       setNewPrompt("");
     }
   };
 
   const handleBulkAdd = () => {
     if (bulkPrompts.trim()) {
-      addMultiplePrompts(bulkPrompts.split("\n").filter(l => l.trim().length > 3));
+      addMultiplePrompts(bulkPrompts.split("\n").filter(l => l.trim().length > 3), undefined, newPromptLanguage === "client" ? undefined : newPromptLanguage);
       setBulkPrompts("");
       setBulkPromptsOpen(false);
     }
@@ -247,6 +478,21 @@ export default function ClientDashboard() {
     }
   };
 
+  // Brief from the prompt's latest audit gaps, opened in the Content tab
+  const handleGenerateBrief = async (promptId: string) => {
+    setGeneratingBrief(promptId);
+    try {
+      const brief = await generateBriefFromGaps(promptId);
+      if (brief) {
+        setSelectedBriefId(brief.id);
+        setSelectedPromptDetail(null);
+        setActiveTab("content");
+      }
+    } finally {
+      setGeneratingBrief(null);
+    }
+  };
+
   const handleRunSinglePrompt = async (promptId: string) => {
     await runSinglePrompt(promptId);
   };
@@ -258,14 +504,15 @@ export default function ClientDashboard() {
     const result = await addClient({
       name: newClientForm.name,
       brand_name: newClientForm.brand_name || newClientForm.name,
-      target_region: newClientForm.target_region,
-      location_code: locations[newClientForm.target_region] || 2840,
+      target_region: formatLocation(newClientForm.location_code),
+      location_code: newClientForm.location_code,
+      language: newClientForm.language,
       industry: newClientForm.industry,
       competitors: competitors.length > 0 ? competitors : industries[newClientForm.industry]?.competitors || [],
       primary_color: newClientForm.primary_color,
     });
     console.log("Created client:", result);
-    setNewClientForm({ name: "", brand_name: "", target_region: "United States", industry: "Custom", competitors: "", primary_color: "#8b5cf6" });
+    setNewClientForm({ name: "", brand_name: "", location_code: DEFAULT_LOCATION_CODE, language: "en", industry: "Custom", competitors: "", primary_color: "#8b5cf6" });
     setAddClientOpen(false);
   };
 
@@ -274,7 +521,8 @@ export default function ClientDashboard() {
     setEditClientForm({
       name: selectedClient.name,
       brand_name: selectedClient.brand_name,
-      target_region: selectedClient.target_region,
+      location_code: selectedClient.location_code || DEFAULT_LOCATION_CODE,
+      language: selectedClient.language || "en",
       industry: selectedClient.industry,
       primary_color: selectedClient.primary_color,
     });
@@ -290,8 +538,9 @@ export default function ClientDashboard() {
     const result = await updateClient(selectedClient.id, {
       name: editClientForm.name,
       brand_name: editClientForm.brand_name || editClientForm.name,
-      target_region: editClientForm.target_region,
-      location_code: locations[editClientForm.target_region] || selectedClient.location_code,
+      target_region: editClientForm.location_code === selectedClient.location_code ? selectedClient.target_region : formatLocation(editClientForm.location_code),
+      location_code: editClientForm.location_code,
+      language: editClientForm.language,
       industry: editClientForm.industry,
       primary_color: editClientForm.primary_color,
     });
@@ -310,6 +559,11 @@ export default function ClientDashboard() {
     }
   };
 
+  const handleCreateOrganization = async () => {
+    const name = prompt("Name of the new organization");
+    if (name?.trim()) await auth.createOrganization(name);
+  };
+
   const handleAddTag = () => {
     if (newTag.trim() && selectedClient) {
       updateBrandTags([...selectedClient.brand_tags, newTag.trim()]);
@@ -317,13 +571,79 @@ export default function ClientDashboard() {
     }
   };
 
+  const languageAliases = selectedClient?.settings?.language_aliases?.[aliasLanguage] || {};
+
+  const handleAddBrandAlias = () => {
+    if (!newBrandAlias.trim()) return;
+    updateLanguageAliases(aliasLanguage, { ...languageAliases, brand: [...(languageAliases.brand || []), newBrandAlias.trim()] });
+    setNewBrandAlias("");
+  };
+
+  // Comma-separated aliases for one competitor in the alias language
+  const handleCompetitorAliases = (name: string, value: string) => {
+    const terms = value.split(",").map(t => t.trim()).filter(Boolean);
+    if (terms.join(", ") === (languageAliases.competitors?.[name] || []).join(", ")) return;
+    const competitors = { ...(languageAliases.competitors || {}) };
+    if (terms.length > 0) competitors[name] = terms;
+    else delete competitors[name];
+    updateLanguageAliases(aliasLanguage, { ...languageAliases, competitors });
+  };
+
   const handleAddCompetitor = () => {
     if (newCompetitor.trim() && selectedClient) {
       updateCompetitors([...selectedClient.competitors, newCompetitor.trim()]);
+      if (auditResults.length > 0) setBackfillTarget(newCompetitor.trim());
       setNewCompetitor("");
     }
   };
 
+  const handleTrackSuggestion = async (name: string) => {
+    setBackfilling(name);
+    await trackCompetitor(name);
+    setBackfilling(null);
+  };
+
+  const handleReprocess = async () => {
+    setReprocessing(true);
+    setReprocessedCount(await reprocessResults());
+    setReprocessing(false);
+  };
+
+  const handleBackfill = async () => {
+    if (!backfillTarget) return;
+    setBackfilling(backfillTarget);
+    await backfillCompetitors([backfillTarget]);
+    setBackfilling(null);
+    setBackfillTarget(null);
+  };
+
+  const handleSaveAlerts = async () => {
+    if (!selectedClient) return;
+    await updateNotificationSettings(notificationForm);
+    if (brandDomainInput.trim() !== (selectedClient.brand_domain || "")) {
+      await updateClient(selectedClient.id, { brand_domain: brandDomainInput.trim() });
+    }
+  };
+
+  const handleSaveBudget = async () => {
+    const limit = parseFloat(budgetInput);
+    await updateBudget({ monthly_limit_usd: limit > 0 ? limit : null });
+  };
+
+  const handleRunFullAudit = () => {
+    if (auditEstimate && overBudget) {
+      const covered = auditEstimate.affordable_prompts ?? 0;
+      const left = `$${(auditEstimate.remaining_usd ?? 0).toFixed(2)}`;
+      if (covered === 0) {
+        alert(`This full audit will cost ~$${estimatedCost.toFixed(3)}, but only ${left} of the monthly budget is left.`);
+        return;
+      }
+      const runs = pendingPrompts * auditEstimate.locations;
+      if (!confirm(`This full audit will cost ~$${estimatedCost.toFixed(3)}, but only ${left} of the monthly budget is left. Run the first ${covered} of ${runs} ${auditEstimate.locations > 1 ? "prompt runs" : "prompts"}?`)) return;
+    }
+    runFullAudit();
+  };
+
   const toggleModel = (modelId: string) => {
     if (selectedModels.includes(modelId)) {
       if (selectedModels.length > 1) setSelectedModels(selectedModels.filter(m => m !== modelId));
@@ -343,6 +663,32 @@ export default function ClientDashboard() {
 
   const getPromptResult = (promptId: string) => filteredAuditResults.find(r => r.prompt_id === promptId);
   const selectedPromptResult = selectedPromptDetail ? getPromptResult(selectedPromptDetail) : null;
+  const selectedBrief = briefs.find(b => b.id === selectedBriefId) ?? briefs[0] ?? null;
+
+  // Run-over-run comparison (defaults to previous run vs latest)
+  const handleOpenCompare = async () => {
+    if (!selectedPromptDetail) return;
+    setCompareOpen(true);
+    setLoadingHistory(true);
+    try {
+      const history = await fetchPromptHistory(selectedPromptDetail);
+      setPromptHistory(history);
+      setCompareAfterId(history[0]?.id || "");
+      setCompareBeforeId(history[1]?.id || "");
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  const runDiff = useMemo(() => {
+    const before = promptHistory.find(r => r.id === compareBeforeId);
+    const after = promptHistory.find(r => r.id === compareAfterId);
+    if (!before || !after || before.id === after.id) return null;
+    // Always diff older → newer regardless of which dropdown holds which
+    return (before.created_at || "") <= (after.created_at || "")
+      ? diffAuditResults(before, after)
+      : diffAuditResults(after, before);
+  }, [promptHistory, compareBeforeId, compareAfterId]);
 
   // Get citation with model info
   const getCitationModels = (citation: typeof allCitations[0]) => {
@@ -364,10 +710,33 @@ export default function ClientDashboard() {
         <div className="flex items-center gap-3">
           <ForzeoLogo className="h-7" isDark={isDark} />
           <span className={cn("text-xl font-semibold", colors.text)}>GEO Dashboard</span>
-          
+
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
-              <Button variant="outline" className={cn("gap-2 bg-transparent border-blue-500 hover:bg-blue-500/10 ml-4", colors.text)}>
+              <Button variant="ghost" className={cn("gap-2 ml-4", colors.textMuted, "hover:text-white")}>
+                <Building2 className="h-4 w-4" />
+                {auth.organization?.name}
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className={cn("w-64", colors.bgCard, colors.border)}>
+              {auth.memberships.map(m => (
+                <DropdownMenuItem key={m.organization.id} onClick={() => auth.switchOrganization(m.organization.id)}
+                  className={cn(colors.text, colors.borderHover, "flex justify-between")}>
+                  <span className={m.organization.id === auth.organization?.id ? "text-blue-400" : ""}>{m.organization.name}</span>
+                  <span className="text-gray-500 text-xs">{ROLE_LABELS[m.role]}</span>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator className={colors.border} />
+              <DropdownMenuItem onClick={handleCreateOrganization} className={cn(colors.text, colors.borderHover)}>
+                <Plus className="h-4 w-4 mr-2" /> New Organization
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className={cn("gap-2 bg-transparent border-blue-500 hover:bg-blue-500/10", colors.text)}>
                 <div className="h-2 w-2 rounded-full bg-blue-500" />
                 {selectedClient?.name || "Select Client"}
                 <ChevronDown className="h-4 w-4" />
@@ -383,14 +752,19 @@ export default function ClientDashboard() {
                   <span className="text-gray-500 text-sm">{client.target_region}</span>
                 </DropdownMenuItem>
               ))}
-              <DropdownMenuSeparator className={colors.border} />
-              <DropdownMenuItem onClick={() => setAddClientOpen(true)} className={cn(colors.text, colors.borderHover)}>
-                <Plus className="h-4 w-4 mr-2" /> Add New Client
-              </DropdownMenuItem>
+              {clients.length === 0 && <div className={cn("px-2 py-1.5 text-sm", colors.textSubtle)}>No clients yet</div>}
+              {canManageClients && (
+                <>
+                  <DropdownMenuSeparator className={colors.border} />
+                  <DropdownMenuItem onClick={() => setAddClientOpen(true)} className={cn(colors.text, colors.borderHover)}>
+                    <Plus className="h-4 w-4 mr-2" /> Add New Client
+                  </DropdownMenuItem>
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
           
-          <DropdownMenu>
+          {canManageClients && selectedClient && <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="icon" className={cn(colors.textMuted, "hover:text-white h-8 w-8")}>
                 <MoreVertical className="h-4 w-4" />
@@ -405,20 +779,83 @@ export default function ClientDashboard() {
                 <Trash2 className="h-4 w-4 mr-2" /> Delete Client
               </DropdownMenuItem>
             </DropdownMenuContent>
-          </DropdownMenu>
+          </DropdownMenu>}
         </div>
         
         <div className="flex items-center gap-3">
           
+          <DropdownMenu onOpenChange={open => { if (!open) markAlertsRead(); }}>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className={cn("relative", colors.textMuted, "hover:text-white")}>
+                <Bell className="h-5 w-5" />
+                {unreadAlerts > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 h-4 min-w-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">{unreadAlerts}</span>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className={cn("w-96 max-h-[420px] overflow-auto", colors.bgCard, colors.border)}>
+              {alerts.length > 0 ? alerts.map(alert => (
+                <div key={alert.id} className={cn("px-3 py-2 border-b last:border-0", colors.border, !alert.is_read && "bg-blue-500/5")}>
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className={cn("h-3.5 w-3.5 shrink-0", alert.severity === "critical" ? "text-red-500" : alert.severity === "warning" ? "text-yellow-500" : "text-blue-400")} />
+                    <span className={cn("text-sm font-medium", colors.text)}>{alert.title}</span>
+                  </div>
+                  <div className={cn("text-xs mt-1", colors.textMuted)}>{alert.message}</div>
+                  <div className={cn("text-[10px] mt-1", colors.textSubtle)}>{new Date(alert.created_at).toLocaleString()}</div>
+                </div>
+              )) : (
+                <div className={cn("p-4 text-sm text-center", colors.textSubtle)}>No alerts yet</div>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button variant="ghost" size="icon" onClick={() => setSettingsOpen(true)} className={cn(colors.textMuted, isDark ? "hover:text-white" : "hover:text-gray-900")}>
             <Settings className="h-5 w-5" />
           </Button>
           <span className={cn("text-sm", colors.textMuted)}>{prompts.length} Prompts</span>
-          <Button onClick={runFullAudit} disabled={loading || pendingPrompts === 0} className="bg-blue-600 hover:bg-blue-700 text-white gap-2">
+          {auditEstimate?.remaining_usd != null && (
+            <span className={cn("text-sm", overBudget ? "text-amber-400" : colors.textSubtle)}>${auditEstimate.remaining_usd.toFixed(2)} left this month</span>
+          )}
+          <Button onClick={handleRunFullAudit} disabled={loading || pendingPrompts === 0 || !canRunAudits}
+            title={!canRunAudits ? `Your role (${roleLabel}) can't run audits` : pendingPrompts > 0 ? `This full audit will cost ~$${estimatedCost.toFixed(3)}` : undefined}
+            className="bg-blue-600 hover:bg-blue-700 text-white gap-2">
             {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
-            Run {pendingPrompts > 0 ? pendingPrompts : auditResults.length}
-            {pendingPrompts > 0 && <span className="text-blue-200">(~${estimatedCost.toFixed(3)})</span>}
+            {loading && auditJob ? (
+              <>Running {auditJob.prompts_completed + auditJob.prompts_failed}/{auditJob.prompts_total || "..."}</>
+            ) : (
+              <>
+                Run {pendingPrompts > 0 ? pendingPrompts : auditResults.length}
+                {pendingPrompts > 0 && <span className={overBudget ? "text-amber-300" : "text-blue-200"}>(~${estimatedCost.toFixed(3)})</span>}
+              </>
+            )}
           </Button>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className={cn(colors.textMuted, "hover:text-white")} title={auth.user?.email}>
+                <UserCog className="h-5 w-5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className={cn("w-60", colors.bgCard, colors.border)}>
+              <div className="px-2 py-1.5">
+                <div className={cn("text-sm truncate", colors.text)}>{auth.user?.email}</div>
+                <div className={cn("text-xs", colors.textSubtle)}>{roleLabel} · {auth.organization?.name}</div>
+              </div>
+              <DropdownMenuSeparator className={colors.border} />
+              {canManageMembers && (
+                <DropdownMenuItem onClick={() => setTeamOpen(true)} className={cn(colors.text, colors.borderHover)}>
+                  <Users className="h-4 w-4 mr-2" /> Team & Access
+                </DropdownMenuItem>
+              )}
+              {canManageCredentials && (
+                <DropdownMenuItem onClick={() => setCredentialsOpen(true)} className={cn(colors.text, colors.borderHover)}>
+                  <KeyRound className="h-4 w-4 mr-2" /> API Keys
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={auth.signOut} className={cn(colors.text, colors.borderHover)}>
+                <LogOut className="h-4 w-4 mr-2" /> Sign Out
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
@@ -446,21 +883,36 @@ export default function ClientDashboard() {
             );
           })}
         </div>
-        <span className={cn("text-sm", colors.textMuted)}>{selectedClient?.industry} • {selectedClient?.target_region}</span>
+        <div className="flex items-center gap-3">
+          <Select value={String(sampleCount)} onValueChange={v => setSampleCount(Number(v))}>
+            <SelectTrigger className={cn("w-32 h-8 text-sm", colors.bgCard, colors.border, colors.text)} title="Ask each model several times to measure how stable the answers are">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className={cn(colors.bgCard, colors.border)}>
+              {Array.from({ length: MAX_SAMPLES }, (_, i) => i + 1).map(n => (
+                <SelectItem key={n} value={String(n)} className={colors.text}>{n === 1 ? "1 sample" : `${n} samples`}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className={cn("text-sm", colors.textMuted)}>{selectedClient?.industry} • {selectedClient?.target_region}</span>
+        </div>
       </div>
 
-      {error && (
+      {(error || auth.error) && (
         <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm flex items-center gap-2">
-          <AlertTriangle className="h-4 w-4" /> {error}
+          <AlertTriangle className="h-4 w-4" /> {error || auth.error}
         </div>
       )}
 
       {/* Main Tabs */}
-      <Tabs.Root defaultValue="summary" className="space-y-4">
+      <Tabs.Root value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <Tabs.List className={cn("inline-flex p-1 rounded-lg gap-1 border", colors.bgCard, colors.border)}>
           <Tabs.Trigger value="summary" className={cn("px-4 py-2 rounded-md text-sm font-medium flex items-center gap-2 data-[state=active]:bg-blue-600 data-[state=active]:text-white", colors.textMuted)}>
             <BarChart3 className="h-4 w-4 mr-2" /> Summary
           </Tabs.Trigger>
+          <Tabs.Trigger value="trends" className={cn("px-4 py-2 rounded-md text-sm font-medium flex items-center gap-2 data-[state=active]:bg-blue-600 data-[state=active]:text-white", colors.textMuted)}>
+            <LineChart className="h-4 w-4 mr-2" /> Trends
+          </Tabs.Trigger>
           <Tabs.Trigger value="prompts" className={cn("px-4 py-2 rounded-md text-sm font-medium flex items-center gap-2 data-[state=active]:bg-blue-600 data-[state=active]:text-white", colors.textMuted)}>
             <FileText className="h-4 w-4 mr-2" /> Prompts ({prompts.length})
           </Tabs.Trigger>
@@ -473,6 +925,9 @@ export default function ClientDashboard() {
           <Tabs.Trigger value="sources" className={cn("px-4 py-2 rounded-md text-sm font-medium flex items-center gap-2 data-[state=active]:bg-blue-600 data-[state=active]:text-white", colors.textMuted)}>
             <Globe className="h-4 w-4 mr-2" /> Sources
           </Tabs.Trigger>
+          <Tabs.Trigger value="locations" className={cn("px-4 py-2 rounded-md text-sm font-medium flex items-center gap-2 data-[state=active]:bg-blue-600 data-[state=active]:text-white", colors.textMuted)}>
+            <MapPin className="h-4 w-4 mr-2" /> Locations ({locationComparison.locations.length})
+          </Tabs.Trigger>
         </Tabs.List>
 
         {/* Summary Tab */}
@@ -481,6 +936,9 @@ export default function ClientDashboard() {
             <div className={cn("rounded-xl p-4 border", colors.bgCard, colors.border)}>
               <div className={cn("flex items-center gap-2 text-sm mb-2", colors.textMuted)}><TrendingUp className="h-4 w-4" /> Share of Voice</div>
               <div className={cn("text-3xl font-bold", (summary?.overall_sov || 0) >= 50 ? "text-emerald-500" : (summary?.overall_sov || 0) >= 20 ? "text-yellow-500" : "text-red-500")}>{summary?.overall_sov || 0}%</div>
+              {summary?.overall_sov_ci && (
+                <div className={cn("text-xs mt-1", colors.textSubtle)}>95% CI {summary.overall_sov_ci[0]}–{summary.overall_sov_ci[1]}%</div>
+              )}
             </div>
             <div className={cn("rounded-xl p-4 border", colors.bgCard, colors.border)}>
               <div className={cn("flex items-center gap-2 text-sm mb-2", colors.textMuted)}><Award className="h-4 w-4" /> Average Rank</div>
@@ -505,8 +963,11 @@ export default function ClientDashboard() {
             <h3 className={cn("text-lg font-semibold mb-4", colors.text)}>Visibility by Model</h3>
             <div className="grid grid-cols-3 gap-4">
               {AI_MODELS.filter(m => selectedModels.includes(m.id)).map(model => {
-                const stats = modelStats[model.id] || { visible: 0, total: 0, cost: 0 };
-                const pct = stats.total > 0 ? Math.round((stats.visible / stats.total) * 100) : 0;
+                const stats = modelStats[model.id] || { visible: 0, total: 0, cost: 0, samples: 0, mentions: 0, ci: null };
+                // With multi-sample runs show the pooled mention rate and its error bar
+                const pct = stats.ci
+                  ? Math.round((stats.mentions / stats.samples) * 100)
+                  : stats.total > 0 ? Math.round((stats.visible / stats.total) * 100) : 0;
                 const LogoComponent = MODEL_LOGOS[model.id]?.Logo;
                 return (
                   <div key={model.id} className={cn("rounded-lg p-4 border", colors.bgInput, colors.border)}>
@@ -518,10 +979,18 @@ export default function ClientDashboard() {
                       <span className={cn("text-xs", colors.textSubtle)}>${stats.cost.toFixed(4)}</span>
                     </div>
                     <div className="text-2xl font-bold mb-1" style={{ color: MODEL_COLORS[model.id] }}>{stats.visible}/{stats.total}</div>
-                    <div className={cn("w-full h-1.5 rounded-full overflow-hidden", isDark ? "bg-[#2a2a3e]" : "bg-gray-200")}>
+                    <div className={cn("relative w-full h-1.5 rounded-full", isDark ? "bg-[#2a2a3e]" : "bg-gray-200")}>
                       <div className="h-full rounded-full" style={{ width: `${pct}%`, backgroundColor: MODEL_COLORS[model.id] }} />
+                      {stats.ci && (
+                        <div className="absolute -top-1 h-3.5 border-x-2 border-white/70" title={`95% CI ${stats.ci[0]}–${stats.ci[1]}%`}
+                          style={{ left: `${stats.ci[0]}%`, width: `${Math.max(stats.ci[1] - stats.ci[0], 0.5)}%` }}>
+                          <div className="absolute top-1/2 left-0 right-0 h-px bg-white/70" />
+                        </div>
+                      )}
+                    </div>
+                    <div className={cn("text-xs mt-1", colors.textSubtle)}>
+                      {pct}% visible{stats.ci && ` · ${stats.ci[0]}–${stats.ci[1]}% over ${stats.samples} samples`}
                     </div>
-                    <div className={cn("text-xs mt-1", colors.textSubtle)}>{pct}% visible</div>
                   </div>
                 );
               })}
@@ -583,44 +1052,144 @@ export default function ClientDashboard() {
           </div>
         </Tabs.Content>
 
-        {/* Prompts Tab */}
-        <Tabs.Content value="prompts" className="space-y-4">
-          <div className="flex gap-2">
-            <Input placeholder="Add a prompt..." value={newPrompt} onChange={e => setNewPrompt(e.target.value)}
-              onKeyDown={e => e.key === "Enter" && handleAddPrompt()}
-              className="bg-[#1a1a2e] border-[#2a2a3e] text-white placeholder:text-gray-500" />
-            <Button onClick={handleAddPrompt} className="bg-blue-600 hover:bg-blue-700"><Plus className="h-4 w-4 mr-1" /> Add</Button>
+        {/* Trends Tab */}
+        <Tabs.Content value="trends" className="space-y-4">
+          <div className={cn("rounded-xl p-6 border", colors.bgCard, colors.border)}>
+            <div className="flex items-center justify-between mb-4 gap-3">
+              <h3 className={cn("text-lg font-semibold", colors.text)}>{TREND_METRICS[trendMetric].label} over time</h3>
+              <div className="flex items-center gap-2">
+                {loadingTrends && <Loader2 className={cn("h-4 w-4 animate-spin", colors.textMuted)} />}
+                <Select value={trendPromptId} onValueChange={setTrendPromptId}>
+                  <SelectTrigger className="w-[220px] h-8 bg-[#0a0a0f] border-[#2a2a3e] text-white text-sm"><SelectValue /></SelectTrigger>
+                  <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                    <SelectItem value="all" className="text-white hover:bg-[#2a2a3e]">All prompts</SelectItem>
+                    {prompts.map(p => (
+                      <SelectItem key={p.id} value={p.id} className="text-white hover:bg-[#2a2a3e]">
+                        {p.prompt_text.length > 40 ? `${p.prompt_text.slice(0, 40)}...` : p.prompt_text}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={trendMetric} onValueChange={v => setTrendMetric(v as TrendMetric)}>
+                  <SelectTrigger className="w-[160px] h-8 bg-[#0a0a0f] border-[#2a2a3e] text-white text-sm"><SelectValue /></SelectTrigger>
+                  <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                    {(Object.keys(TREND_METRICS) as TrendMetric[]).map(m => (
+                      <SelectItem key={m} value={m} className="text-white hover:bg-[#2a2a3e]">{TREND_METRICS[m].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={trendBucket} onValueChange={v => setTrendBucket(v as TrendBucket)}>
+                  <SelectTrigger className="w-[100px] h-8 bg-[#0a0a0f] border-[#2a2a3e] text-white text-sm"><SelectValue /></SelectTrigger>
+                  <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                    <SelectItem value="day" className="text-white hover:bg-[#2a2a3e]">Daily</SelectItem>
+                    <SelectItem value="week" className="text-white hover:bg-[#2a2a3e]">Weekly</SelectItem>
+                    <SelectItem value="month" className="text-white hover:bg-[#2a2a3e]">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={trendDays} onValueChange={setTrendDays}>
+                  <SelectTrigger className="w-[120px] h-8 bg-[#0a0a0f] border-[#2a2a3e] text-white text-sm"><SelectValue /></SelectTrigger>
+                  <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                    <SelectItem value="7" className="text-white hover:bg-[#2a2a3e]">Last 7 days</SelectItem>
+                    <SelectItem value="30" className="text-white hover:bg-[#2a2a3e]">Last 30 days</SelectItem>
+                    <SelectItem value="90" className="text-white hover:bg-[#2a2a3e]">Last 90 days</SelectItem>
+                    <SelectItem value="365" className="text-white hover:bg-[#2a2a3e]">Last year</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {trendChart.labels.length > 0 ? (
+              <TrendChart buckets={trendChart.labels} series={trendChart.series}
+                max={TREND_METRICS[trendMetric].max} invert={TREND_METRICS[trendMetric].invert}
+                formatValue={TREND_METRICS[trendMetric].format} />
+            ) : (
+              <div className={cn("text-sm py-12 text-center", colors.textSubtle)}>Run audits over time to see trends</div>
+            )}
           </div>
 
-          {/* AI Prompt Generator */}
-          <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-4">
-            <div className="flex items-center gap-2 mb-3"><Sparkles className="h-4 w-4 text-purple-400" /><span className="font-medium">AI Prompt Generator</span></div>
+          {/* Trend Legend - latest value and change per model */}
+          {trendChart.labels.length > 0 && (
+            <div className="grid grid-cols-4 gap-4">
+              {trendChart.series.map(s => {
+                const values = s.values.filter((v): v is number => v != null);
+                if (values.length === 0) return null;
+                const latest = values[values.length - 1];
+                const change = Math.round((latest - values[0]) * 10) / 10;
+                const improved = TREND_METRICS[trendMetric].invert ? change < 0 : change > 0;
+                return (
+                  <div key={s.id} className={cn("rounded-lg p-4 border", colors.bgCard, colors.border)}>
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: s.color }} />
+                      <span className={cn("text-sm", colors.text)}>{s.label}</span>
+                    </div>
+                    <div className="flex items-baseline gap-2">
+                      <span className={cn("text-2xl font-bold", colors.text)}>{TREND_METRICS[trendMetric].format(latest)}</span>
+                      {change !== 0 && (
+                        <span className={cn("text-xs", improved ? "text-emerald-500" : "text-red-500")}>
+                          {change > 0 ? "+" : ""}{change}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Tabs.Content>
+
+        {/* Prompts Tab */}
+        <Tabs.Content value="prompts" className="space-y-4">
+          {canManagePrompts && (<>
             <div className="flex gap-2">
-              <Input placeholder="Enter keywords, tags, or topics (e.g., dating apps, safety features, India)" 
-                value={keywordsInput} onChange={e => setKeywordsInput(e.target.value)}
-                onKeyDown={e => e.key === "Enter" && handleGeneratePrompts()}
-                className="bg-[#0a0a0f] border-[#2a2a3e] text-white placeholder:text-gray-500" />
-              <Button onClick={handleGeneratePrompts} disabled={generatingPrompts || !keywordsInput.trim()} className="bg-emerald-600 hover:bg-emerald-700 min-w-[100px]">
-                {generatingPrompts ? <Loader2 className="h-4 w-4 animate-spin" /> : "Generate"}
-              </Button>
+              <Input placeholder="Add a prompt..." value={newPrompt} onChange={e => setNewPrompt(e.target.value)}
+                onKeyDown={e => e.key === "Enter" && handleAddPrompt()}
+                className="bg-[#1a1a2e] border-[#2a2a3e] text-white placeholder:text-gray-500" />
+              <Select value={newPromptLanguage} onValueChange={setNewPromptLanguage}>
+                <SelectTrigger className="w-[160px] bg-[#1a1a2e] border-[#2a2a3e] text-white text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                  <SelectItem value="client" className="text-white hover:bg-[#2a2a3e]">Client language</SelectItem>
+                  {Object.entries(LANGUAGES).map(([code, name]) => (
+                    <SelectItem key={code} value={code} className="text-white hover:bg-[#2a2a3e]">{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAddPrompt} className="bg-blue-600 hover:bg-blue-700"><Plus className="h-4 w-4 mr-1" /> Add</Button>
             </div>
-            <p className="text-xs text-gray-500 mt-2">Enter keywords and AI will generate relevant search prompts for visibility analysis</p>
-          </div>
 
-          {/* Bulk Add */}
-          <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl overflow-hidden">
-            <button onClick={() => setBulkPromptsOpen(!bulkPromptsOpen)} className="w-full flex items-center justify-between p-4 text-left hover:bg-[#2a2a3e]">
-              <span className="text-sm text-gray-300">▸ + Add multiple prompts at once</span>
-              <ChevronDown className={cn("h-4 w-4 text-gray-400 transition-transform", bulkPromptsOpen && "rotate-180")} />
-            </button>
-            {bulkPromptsOpen && (
-              <div className="p-4 pt-0 border-t border-[#2a2a3e]">
-                <Textarea placeholder="Paste prompts here (one per line)..." value={bulkPrompts} onChange={e => setBulkPrompts(e.target.value)} rows={4}
-                  className="bg-[#0a0a0f] border-[#2a2a3e] text-white placeholder:text-gray-500 mb-2" />
-                <Button onClick={handleBulkAdd} disabled={!bulkPrompts.trim()} className="bg-blue-600 hover:bg-blue-700">Add All</Button>
+            {/* AI Prompt Generator */}
+            <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-4">
+              <div className="flex items-center gap-2 mb-3"><Sparkles className="h-4 w-4 text-purple-400" /><span className="font-medium">AI Prompt Generator</span></div>
+              <div className="flex gap-2">
+                <Input placeholder="Enter keywords, tags, or topics (e.g., dating apps, safety features, India)" 
+                  value={keywordsInput} onChange={e => setKeywordsInput(e.target.value)}
+                  onKeyDown={e => e.key === "Enter" && handleGeneratePrompts()}
+                  className="bg-[#0a0a0f] border-[#2a2a3e] text-white placeholder:text-gray-500" />
+                <Button onClick={handleGeneratePrompts} disabled={generatingPrompts || !keywordsInput.trim()} className="bg-emerald-600 hover:bg-emerald-700 min-w-[100px]">
+                  {generatingPrompts ? <Loader2 className="h-4 w-4 animate-spin" /> : "Generate"}
+                </Button>
               </div>
-            )}
-          </div>
+              <p className="text-xs text-gray-500 mt-2">Enter keywords and AI will generate relevant search prompts for visibility analysis</p>
+              {generationError && !generatingPrompts && (
+                <p className="text-xs text-red-400 mt-2 flex items-start gap-1.5"><AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />{describeGenerationError(generationError)}</p>
+              )}
+            </div>
+
+            {/* Bulk Add */}
+            <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl overflow-hidden">
+              <button onClick={() => setBulkPromptsOpen(!bulkPromptsOpen)} className="w-full flex items-center justify-between p-4 text-left hover:bg-[#2a2a3e]">
+                <span className="text-sm text-gray-300">▸ + Add multiple prompts at once</span>
+                <ChevronDown className={cn("h-4 w-4 text-gray-400 transition-transform", bulkPromptsOpen && "rotate-180")} />
+              </button>
+              {bulkPromptsOpen && (
+                <div className="p-4 pt-0 border-t border-[#2a2a3e]">
+                  <Textarea placeholder="Paste prompts here (one per line)..." value={bulkPrompts} onChange={e => setBulkPrompts(e.target.value)} rows={4}
+                    className="bg-[#0a0a0f] border-[#2a2a3e] text-white placeholder:text-gray-500 mb-2" />
+                  <Button onClick={handleBulkAdd} disabled={!bulkPrompts.trim()} className="bg-blue-600 hover:bg-blue-700">Add All</Button>
+                </div>
+              )}
+            </div>
+          </>)}
 
           {/* Date Filter & Prompts Table */}
           <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl overflow-hidden">
@@ -642,9 +1211,39 @@ export default function ClientDashboard() {
                     ))}
                   </SelectContent>
                 </Select>
+                <Languages className="h-4 w-4 text-gray-400 ml-3" />
+                <Select value={selectedLanguage} onValueChange={setSelectedLanguage}>
+                  <SelectTrigger className="w-[150px] h-8 bg-[#1a1a2e] border-[#2a2a3e] text-white text-sm">
+                    <SelectValue placeholder="All languages" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                    <SelectItem value="all" className="text-white hover:bg-[#2a2a3e]">All languages</SelectItem>
+                    {uniqueLanguages.map(code => (
+                      <SelectItem key={code} value={code} className="text-white hover:bg-[#2a2a3e]">{LANGUAGES[code] || code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {uniqueLocations.length > 1 && (
+                  <>
+                    <MapPin className="h-4 w-4 text-gray-400 ml-3" />
+                    <Select value={selectedLocation} onValueChange={setSelectedLocation}>
+                      <SelectTrigger className="w-[180px] h-8 bg-[#1a1a2e] border-[#2a2a3e] text-white text-sm">
+                        <SelectValue placeholder="All locations" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                        <SelectItem value="all" className="text-white hover:bg-[#2a2a3e]">All locations</SelectItem>
+                        {uniqueLocations.map(code => (
+                          <SelectItem key={code} value={String(code)} className="text-white hover:bg-[#2a2a3e]">{formatLocation(code)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
               </div>
               <span className="text-xs text-gray-500">
                 {filteredAuditResults.length} results {selectedDate !== "all" && `on ${new Date(selectedDate).toLocaleDateString()}`}
+                {selectedLanguage !== "all" && ` in ${LANGUAGES[selectedLanguage] || selectedLanguage}`}
+                {selectedLocation !== "all" && ` at ${formatLocation(Number(selectedLocation)).split(",")[0]}`}
               </span>
             </div>
             <table className="w-full">
@@ -670,7 +1269,12 @@ export default function ClientDashboard() {
                   const isRunning = loadingPromptId === prompt.id;
                   return (
                     <tr key={prompt.id} className="border-t border-[#2a2a3e] hover:bg-[#2a2a3e]/50">
-                      <td className="p-3 text-sm text-gray-200 max-w-[300px] truncate">{prompt.prompt_text}</td>
+                      <td className="p-3 text-sm text-gray-200 max-w-[300px] truncate">
+                        {prompt.language && prompt.language !== selectedClient?.language && (
+                          <Badge variant="outline" className="mr-2 bg-[#2a2a3e] border-[#3a3a4e] text-gray-400 text-xs uppercase">{prompt.language}</Badge>
+                        )}
+                        {prompt.prompt_text}
+                      </td>
                       <td className="p-3 text-center">
                         <Badge variant="outline" className="bg-[#2a2a3e] border-[#3a3a4e] text-gray-400 text-xs">{prompt.category || "Custom"}</Badge>
                       </td>
@@ -694,13 +1298,20 @@ export default function ClientDashboard() {
                           {result && (
                             <Button variant="ghost" size="sm" onClick={() => setSelectedPromptDetail(prompt.id)} className="text-gray-400 hover:text-white h-7 px-2">View</Button>
                           )}
-                          <Button variant="ghost" size="sm" onClick={() => handleRunSinglePrompt(prompt.id)} disabled={isRunning || loading} className={cn("h-7 px-2", result ? "text-orange-400 hover:text-orange-300" : "text-blue-400 hover:text-blue-300")}>
+                          {result && canManageContent && (
+                            <Button variant="ghost" size="icon" title="Brief from gaps" onClick={() => handleGenerateBrief(prompt.id)} disabled={generatingBrief !== null} className="text-purple-400 hover:text-purple-300 h-7 w-7">
+                              {generatingBrief === prompt.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <ClipboardList className="h-3 w-3" />}
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="sm" onClick={() => handleRunSinglePrompt(prompt.id)} disabled={isRunning || loading || !canRunAudits} className={cn("h-7 px-2", result ? "text-orange-400 hover:text-orange-300" : "text-blue-400 hover:text-blue-300")}>
                             {isRunning ? <Loader2 className="h-3 w-3 animate-spin" /> : <Play className="h-3 w-3 mr-1" />}
                             {isRunning ? "" : result ? "Re-run" : "Run"}
                           </Button>
-                          <Button variant="ghost" size="icon" onClick={() => deletePrompt(prompt.id)} className="text-gray-400 hover:text-red-400 h-7 w-7">
-                            <Trash2 className="h-3 w-3" />
-                          </Button>
+                          {canManagePrompts && (
+                            <Button variant="ghost" size="icon" onClick={() => deletePrompt(prompt.id)} className="text-gray-400 hover:text-red-400 h-7 w-7">
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -845,6 +1456,9 @@ export default function ClientDashboard() {
                 {generatingContent ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
                 {generatingContent ? "Generating..." : "Generate Content"}
               </Button>
+              {generationError && !generatingContent && (
+                <p className="text-xs text-red-400 flex items-start gap-1.5"><AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />{describeGenerationError(generationError)}</p>
+              )}
             </div>
             <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-6">
               <div className="flex items-center justify-between mb-2">
@@ -864,6 +1478,44 @@ export default function ClientDashboard() {
               )}
             </div>
           </div>
+
+          {/* GEO score */}
+          <div className="mt-6">
+            <ContentScorer generatedContent={generatedContent} generatedType={contentType} onScore={scoreContent} />
+          </div>
+
+          {/* Content briefs */}
+          <div className="grid grid-cols-3 gap-6 mt-6">
+            <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-4">
+              <div className="flex items-center gap-2 mb-3 text-gray-300 text-sm font-medium">
+                <ClipboardList className="h-4 w-4 text-purple-400" /> Briefs ({briefs.length})
+              </div>
+              {briefs.length === 0 ? (
+                <p className="text-sm text-gray-500">No briefs yet. Use "Brief from gaps" on an audited prompt.</p>
+              ) : (
+                <div className="space-y-1 max-h-[500px] overflow-auto">
+                  {briefs.map(b => (
+                    <button key={b.id} onClick={() => setSelectedBriefId(b.id)}
+                      className={cn("w-full text-left p-2 rounded-lg text-sm", (selectedBrief?.id === b.id) ? "bg-[#2a2a3e] text-white" : "text-gray-400 hover:bg-[#2a2a3e]/50")}>
+                      <div className="truncate">{b.title}</div>
+                      <div className="flex items-center gap-2 text-xs text-gray-500">
+                        <span className="capitalize">{b.status}</span>
+                        <span className="truncate">{b.prompt_text}</span>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="col-span-2 bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-6">
+              {selectedBrief ? (
+                <ContentBriefEditor record={selectedBrief} readOnly={!canManageContent} onSave={updateBrief}
+                  onDelete={id => { deleteBrief(id); setSelectedBriefId(null); }} />
+              ) : (
+                <div className="text-center text-gray-500 py-16">Select a brief to edit it</div>
+              )}
+            </div>
+          </div>
         </Tabs.Content>
 
         {/* Sources Tab */}
@@ -872,18 +1524,135 @@ export default function ClientDashboard() {
             <div className="flex items-center gap-2">
               <Button variant={sourcesView === "domains" ? "default" : "outline"} onClick={() => setSourcesView("domains")}
                 className={sourcesView === "domains" ? "bg-blue-600" : "bg-[#1a1a2e] border-[#2a2a3e] text-white"}>Domains</Button>
+              <Button variant={sourcesView === "classes" ? "default" : "outline"} onClick={() => setSourcesView("classes")}
+                className={sourcesView === "classes" ? "bg-blue-600" : "bg-[#1a1a2e] border-[#2a2a3e] text-white"}>By Type</Button>
+              <Button variant={sourcesView === "opportunities" ? "default" : "outline"} onClick={() => setSourcesView("opportunities")}
+                className={sourcesView === "opportunities" ? "bg-blue-600" : "bg-[#1a1a2e] border-[#2a2a3e] text-white"}>Opportunities</Button>
               <Button variant={sourcesView === "urls" ? "default" : "outline"} onClick={() => setSourcesView("urls")}
                 className={sourcesView === "urls" ? "bg-blue-600" : "bg-[#1a1a2e] border-[#2a2a3e] text-white"}>URLs</Button>
               <div className="flex-1" />
-              <Badge variant="outline" className="bg-[#1a1a2e] border-[#2a2a3e] text-gray-300">{sourcesView === "domains" ? uniqueDomains : allCitations.length} sources</Badge>
+              {sourcesView === "opportunities" && (
+                <>
+                  <Select value={opportunityTarget} onValueChange={v => setOpportunityTarget(v as OpportunityTarget)}>
+                    <SelectTrigger className="w-32 h-9 text-sm bg-[#1a1a2e] border-[#2a2a3e] text-white"><SelectValue /></SelectTrigger>
+                    <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                      <SelectItem value="domain" className="text-white">By domain</SelectItem>
+                      <SelectItem value="url" className="text-white">By URL</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={opportunityFilter} onValueChange={v => setOpportunityFilter(v as OutreachStatus | "all" | "untracked")}>
+                    <SelectTrigger className="w-36 h-9 text-sm bg-[#1a1a2e] border-[#2a2a3e] text-white"><SelectValue /></SelectTrigger>
+                    <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                      <SelectItem value="all" className="text-white">All statuses</SelectItem>
+                      <SelectItem value="untracked" className="text-white">Not tracked</SelectItem>
+                      {(Object.keys(OUTREACH_STATUSES) as OutreachStatus[]).map(status => (
+                        <SelectItem key={status} value={status} className="text-white">{OUTREACH_STATUSES[status].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={() => exportOpportunities(opportunityTarget)} disabled={opportunities.length === 0}
+                    className="bg-[#1a1a2e] border-[#2a2a3e] text-white">
+                    <Download className="h-4 w-4 mr-2" />Export
+                  </Button>
+                </>
+              )}
+              <Badge variant="outline" className="bg-[#1a1a2e] border-[#2a2a3e] text-gray-300">
+                {sourcesView === "opportunities" ? `${opportunities.length} opportunities` : `${sourcesView === "urls" ? allCitations.length : uniqueDomains} sources`}
+              </Badge>
             </div>
 
+            {sourcesView === "classes" ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {sourceGroups.map(group => (
+                  <div key={group.cls} className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Badge variant="outline" className={cn("text-xs", SOURCE_CLASS_STYLES[group.cls].className)}>{SOURCE_CLASS_LABELS[group.cls]}</Badge>
+                      <span className="text-2xl font-bold text-white">{group.share}%</span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {group.count} citations · {group.sources.length} domains · authority {group.authority.toFixed(2)}
+                    </p>
+                    <p className="text-sm text-gray-300">{SOURCE_CLASS_STYLES[group.cls].action}</p>
+                    <div className="space-y-1">
+                      {group.sources.slice(0, 5).map(source => (
+                        <div key={source.domain} className="flex items-center justify-between text-sm">
+                          <a href={`https://${source.domain}`} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline truncate">{source.domain}</a>
+                          <span className="text-gray-400 ml-2">{source.count}</span>
+                        </div>
+                      ))}
+                      {group.sources.length > 5 && <p className="text-xs text-gray-500">+{group.sources.length - 5} more</p>}
+                    </div>
+                  </div>
+                ))}
+                {sourceGroups.length === 0 && (
+                  <div className="col-span-full bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-8 text-center text-gray-500">No sources yet. Run an audit to see source data.</div>
+                )}
+              </div>
+            ) : sourcesView === "opportunities" ? (
+              <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl overflow-hidden">
+                <p className="p-3 text-sm text-gray-400 border-b border-[#2a2a3e]">
+                  Sources AI answers cite for your competitors but not for you, ranked by how many prompts and models cite them.
+                </p>
+                <table className="w-full">
+                  <thead className="bg-[#0a0a0f]">
+                    <tr>
+                      <th className="text-left p-3 text-sm font-medium text-gray-400">{opportunityTarget === "domain" ? "Domain" : "URL"}</th>
+                      <th className="text-center p-3 text-sm font-medium text-gray-400">Prompts</th>
+                      <th className="text-center p-3 text-sm font-medium text-gray-400">Models</th>
+                      <th className="text-left p-3 text-sm font-medium text-gray-400">Cited For</th>
+                      <th className="text-left p-3 text-sm font-medium text-gray-400">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {opportunities.map(o => (
+                      <tr key={o.target} className="border-t border-[#2a2a3e] hover:bg-[#2a2a3e]/50">
+                        <td className="p-3 max-w-[360px]">
+                          <a href={opportunityTarget === "domain" ? `https://${o.target}` : o.target} target="_blank" rel="noopener noreferrer"
+                            className="text-blue-400 hover:underline flex items-center gap-1 text-sm truncate">
+                            {o.target.length > 60 ? `${o.target.slice(0, 60)}...` : o.target}<ExternalLink className="h-3 w-3 flex-shrink-0" />
+                          </a>
+                          <div className="flex items-center gap-2 mt-1">
+                            <Badge variant="outline" className={cn("text-[10px]", SOURCE_CLASS_STYLES[o.source_class].className)}>{SOURCE_CLASS_LABELS[o.source_class]}</Badge>
+                            {o.evidence.includes("citation") && <span className="text-[10px] text-gray-500" title="The page title or snippet names a competitor">names competitor</span>}
+                          </div>
+                        </td>
+                        <td className="p-3 text-center text-gray-300">{o.prompts.length}</td>
+                        <td className="p-3 text-center text-gray-300" title={o.models.join(", ")}>{o.models.length}</td>
+                        <td className="p-3 text-sm text-red-400">{o.competitors.slice(0, 3).join(", ")}{o.competitors.length > 3 && <span className="text-gray-500"> +{o.competitors.length - 3}</span>}</td>
+                        <td className="p-3">
+                          <Select value={outreach[o.target]?.status || "none"}
+                            onValueChange={v => updateOutreachStatus(o.target, opportunityTarget, v === "none" ? null : v as OutreachStatus)}>
+                            <SelectTrigger className={cn("w-36 h-8 text-xs bg-[#0a0a0f] border-[#2a2a3e]", outreach[o.target] ? OUTREACH_STATUSES[outreach[o.target].status].className : "text-gray-400")}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                              <SelectItem value="none" className="text-gray-400">Not tracked</SelectItem>
+                              {(Object.keys(OUTREACH_STATUSES) as OutreachStatus[]).map(status => (
+                                <SelectItem key={status} value={status} className="text-white">{OUTREACH_STATUSES[status].label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {opportunities.length === 0 && (
+                  <div className="p-8 text-center text-gray-500">
+                    {!selectedClient?.competitors.length ? "Add competitors in Settings to find outreach opportunities."
+                      : opportunityFilter !== "all" ? "No opportunities with this status."
+                      : "No opportunities found. Sources citing your competitors also cite you."}
+                  </div>
+                )}
+              </div>
+            ) : (
             <div className="bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl overflow-hidden">
               <table className="w-full">
                 <thead className="bg-[#0a0a0f]">
                   <tr>
                     <th className="text-left p-3 text-sm font-medium text-gray-400">{sourcesView === "domains" ? "Domain" : "URL"}</th>
                     <th className="text-center p-3 text-sm font-medium text-gray-400">Citations</th>
+                    {sourcesView === "domains" && <th className="text-left p-3 text-sm font-medium text-gray-400">Type</th>}
                     <th className="text-left p-3 text-sm font-medium text-gray-400">{sourcesView === "domains" ? "Prompts" : "Domain"}</th>
                   </tr>
                 </thead>
@@ -897,6 +1666,21 @@ export default function ClientDashboard() {
                           </a>
                         </td>
                         <td className="p-3 text-center text-gray-300">{source.count}</td>
+                        <td className="p-3">
+                          <Select value={source.source_class}
+                            onValueChange={v => updateSourceOverride(source.domain, v === "auto" ? null : v as SourceClass)}>
+                            <SelectTrigger className={cn("w-48 h-8 text-xs bg-[#0a0a0f] border-[#2a2a3e]", SOURCE_CLASS_STYLES[source.source_class].className)}
+                              title={sourceOverrides[source.domain] ? "Set manually for this client" : "Detected automatically - change to override"}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                              {sourceOverrides[source.domain] && <SelectItem value="auto" className="text-gray-400">Automatic</SelectItem>}
+                              {SOURCE_CLASSES.map(cls => (
+                                <SelectItem key={cls} value={cls} className="text-white">{SOURCE_CLASS_LABELS[cls]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </td>
                         <td className="p-3 text-sm text-gray-400 truncate max-w-[300px]">
                           {source.prompts?.slice(0, 2).join(", ")}{(source.prompts?.length || 0) > 2 && <span className="text-gray-500"> +{(source.prompts?.length || 0) - 2}</span>}
                         </td>
@@ -921,8 +1705,27 @@ export default function ClientDashboard() {
                 <div className="p-8 text-center text-gray-500">No sources yet. Run an audit to see source data.</div>
               )}
             </div>
+            )}
           </div>
         </Tabs.Content>
+
+        {/* Locations Tab */}
+        <Tabs.Content value="locations" className="space-y-4">
+          {locationComparison.locations.length > 1 ? (
+            <LocationComparison
+              comparison={locationComparison}
+              models={AI_MODELS.map(m => ({ id: m.id, name: m.name, color: MODEL_COLORS[m.id] || m.color }))}
+            />
+          ) : (
+            <div className={cn("rounded-xl p-8 border text-center", colors.bgCard, colors.border)}>
+              <MapPin className="h-8 w-8 mx-auto mb-3 text-gray-500" />
+              <div className={cn("mb-1", colors.text)}>Compare visibility across cities and regions</div>
+              <div className={cn("text-sm", colors.textSubtle)}>
+                Add audit locations in Settings (e.g. London and Manchester), then run the audit. Each prompt runs once per location.
+              </div>
+            </div>
+          )}
+        </Tabs.Content>
       </Tabs.Root>
 
       {/* Prompt Detail Dialog - Prompt Analysis */}
@@ -943,6 +1746,14 @@ export default function ClientDashboard() {
                 <span className="text-gray-400 text-xs">
                   {selectedPromptResult.created_at && new Date(selectedPromptResult.created_at).toLocaleString()}
                 </span>
+                <Button variant="outline" size="sm" onClick={handleOpenCompare} className="ml-auto h-7 border-[#2a2a3e] bg-transparent text-gray-300 hover:bg-[#2a2a3e] hover:text-white">
+                  <GitCompare className="h-3 w-3 mr-1" /> Compare runs
+                </Button>
+                {canManageContent && selectedPromptDetail && (
+                  <Button variant="outline" size="sm" onClick={() => handleGenerateBrief(selectedPromptDetail)} disabled={generatingBrief !== null} className="h-7 border-[#2a2a3e] bg-transparent text-purple-300 hover:bg-[#2a2a3e] hover:text-white">
+                    {generatingBrief ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <ClipboardList className="h-3 w-3 mr-1" />} Brief from gaps
+                  </Button>
+                )}
               </div>
             )}
           </DialogHeader>
@@ -957,6 +1768,7 @@ export default function ClientDashboard() {
                       <div className="h-3 w-3 rounded-full" style={{ backgroundColor: MODEL_COLORS[mr.model] }} />
                       <span className="font-medium text-white">{mr.model_name}</span>
                       <span className="text-xs text-gray-500">({mr.provider})</span>
+                      {mr.answer_source && <span className="text-xs text-gray-500" title="Where this answer came from">via {mr.answer_source}</span>}
                     </div>
                     <div className="flex items-center gap-2">
                       {mr.brand_mentioned ? (
@@ -968,6 +1780,12 @@ export default function ClientDashboard() {
                           Not Visible
                         </Badge>
                       )}
+                      {mr.sample_stats && mr.sample_stats.samples > 1 && (
+                        <Badge variant="outline" className="text-xs border-gray-600 text-gray-300"
+                          title={`95% CI ${mr.sample_stats.sov_ci[0]}–${mr.sample_stats.sov_ci[1]}%${mr.sample_stats.rank_median !== null ? ` · rank median #${mr.sample_stats.rank_median} (#${mr.sample_stats.rank_min}–#${mr.sample_stats.rank_max})` : ""}`}>
+                          {mr.sample_stats.mentions}/{mr.sample_stats.samples} samples
+                        </Badge>
+                      )}
                       <span className="text-xs text-gray-500">${mr.api_cost?.toFixed(4) || '0.00'}</span>
                     </div>
                   </div>
@@ -976,11 +1794,18 @@ export default function ClientDashboard() {
                   <div className="p-4">
                     <div className="flex items-center justify-between mb-2">
                       <div className="text-sm text-gray-400">Response ({mr.response_length || 0} chars)</div>
-                      {mr.brand_rank && (
-                        <Badge variant="outline" className="text-xs border-blue-500 text-blue-400">
-                          Rank #{mr.brand_rank}
-                        </Badge>
-                      )}
+                      <div className="flex items-center gap-2">
+                        {mr.brand_stance && STANCE_STYLES[mr.brand_stance] && (
+                          <Badge variant="outline" className={cn("text-xs", STANCE_STYLES[mr.brand_stance].className)}>
+                            {STANCE_STYLES[mr.brand_stance].label}
+                          </Badge>
+                        )}
+                        {mr.brand_rank && (
+                          <Badge variant="outline" className="text-xs border-blue-500 text-blue-400">
+                            Rank #{mr.brand_rank}
+                          </Badge>
+                        )}
+                      </div>
                     </div>
                     <div className="bg-[#0a0a0f] rounded-lg p-4 max-h-80 overflow-auto">
                       {mr.raw_response && mr.raw_response.length > 0 ? (
@@ -1003,6 +1828,23 @@ export default function ClientDashboard() {
                       )}
                     </div>
                     
+                    {/* Brand Mention Evidence */}
+                    {mr.brand_mention_sentiments && mr.brand_mention_sentiments.length > 0 && (
+                      <div className="mt-3">
+                        <div className="text-xs text-gray-500 mb-2">How your brand is mentioned:</div>
+                        <div className="space-y-1">
+                          {mr.brand_mention_sentiments.slice(0, 5).map((m, i) => (
+                            <div key={i} className="flex items-start gap-2 text-xs">
+                              <Badge variant="outline" className={cn("shrink-0 text-[10px]", STANCE_STYLES[m.stance]?.className)}>
+                                {STANCE_STYLES[m.stance]?.label || m.stance}
+                              </Badge>
+                              <span className="text-gray-400">"{m.evidence}"</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    
                     {/* Winner Brand */}
                     {mr.winner_brand && (
                       <div className="mt-3 flex items-center gap-2">
@@ -1027,6 +1869,25 @@ export default function ClientDashboard() {
                       </div>
                     )}
                     
+                    {/* Recommended Entities */}
+                    {mr.ranked_entities && mr.ranked_entities.length > 0 && (
+                      <div className="mt-3">
+                        <div className="text-xs text-gray-500 mb-2">Recommended in this answer:</div>
+                        <div className="flex flex-wrap gap-2">
+                          {mr.ranked_entities.map(entity => {
+                            const isBrand = entity.position === mr.brand_rank;
+                            const isTracked = mr.competitors_found?.some(c => c.rank === entity.position);
+                            return (
+                              <Badge key={entity.position} variant="outline" title={entity.section || undefined}
+                                className={cn("text-xs", isBrand ? "border-emerald-500 text-emerald-400" : isTracked ? "border-red-500 text-red-400" : "border-gray-600 text-gray-400")}>
+                                #{entity.position} {entity.name}
+                              </Badge>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+                    
                     {/* Citations */}
                     {mr.citations && mr.citations.length > 0 && (
                       <div className="mt-4">
@@ -1034,7 +1895,8 @@ export default function ClientDashboard() {
                         <div className="flex flex-wrap gap-2">
                           {mr.citations.slice(0, 10).map((c, i) => (
                             <a key={i} href={c.url} target="_blank" rel="noopener noreferrer" 
-                              className="text-xs text-blue-400 hover:text-blue-300 hover:underline bg-[#0a0a0f] px-3 py-1.5 rounded-full flex items-center gap-1">
+                              title={c.title} className="text-xs text-blue-400 hover:text-blue-300 hover:underline bg-[#0a0a0f] px-3 py-1.5 rounded-full flex items-center gap-1">
+                              {c.position != null && <span className="text-gray-500">{c.position}.</span>}
                               {c.domain}
                               <ExternalLink className="h-3 w-3" />
                             </a>
@@ -1053,6 +1915,48 @@ export default function ClientDashboard() {
         </DialogContent>
       </Dialog>
 
+      {/* Compare Runs Dialog */}
+      <Dialog open={compareOpen} onOpenChange={setCompareOpen}>
+        <DialogContent className="bg-[#0a0a0f] border-[#2a2a3e] text-white max-w-4xl max-h-[90vh] overflow-hidden p-0">
+          <DialogHeader className="p-6 pb-4 border-b border-[#2a2a3e]">
+            <DialogTitle className="text-xl font-semibold">Compare Runs</DialogTitle>
+            <DialogDescription className="text-gray-400 mt-2">
+              {prompts.find(p => p.id === selectedPromptDetail)?.prompt_text}
+            </DialogDescription>
+            {promptHistory.length >= 2 && (
+              <div className="flex items-center gap-3 mt-3">
+                {[{ value: compareBeforeId, onChange: setCompareBeforeId }, { value: compareAfterId, onChange: setCompareAfterId }].map((sel, idx) => (
+                  <div key={idx} className="flex items-center gap-2">
+                    {idx === 1 && <span className="text-gray-500 text-sm">vs</span>}
+                    <Select value={sel.value} onValueChange={sel.onChange}>
+                      <SelectTrigger className="w-[220px] h-8 bg-[#1a1a2e] border-[#2a2a3e] text-white text-sm"><SelectValue /></SelectTrigger>
+                      <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                        {promptHistory.map(r => (
+                          <SelectItem key={r.id} value={r.id} className="text-white hover:bg-[#2a2a3e]">
+                            {new Date(r.created_at).toLocaleString()} · {r.summary.share_of_voice}%
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </DialogHeader>
+          <div className="overflow-auto max-h-[calc(90vh-160px)] p-6">
+            {loadingHistory ? (
+              <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin text-gray-400" /></div>
+            ) : promptHistory.length < 2 ? (
+              <div className="text-gray-500 text-sm text-center py-12">Run this prompt again to compare results</div>
+            ) : runDiff ? (
+              <AuditComparison diff={runDiff} modelColors={MODEL_COLORS} />
+            ) : (
+              <div className="text-gray-500 text-sm text-center py-12">Pick two different runs</div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Add Client Dialog */}
       <Dialog open={addClientOpen} onOpenChange={setAddClientOpen}>
         <DialogContent className={cn("max-w-lg", colors.bgCard, colors.border, colors.text)}>
@@ -1085,17 +1989,21 @@ export default function ClientDashboard() {
                 </Select>
               </div>
               <div>
-                <Label className={cn("mb-2 block", colors.textMuted)}>Target Region</Label>
-                <Select value={newClientForm.target_region} onValueChange={v => setNewClientForm({ ...newClientForm, target_region: v })}>
-                  <SelectTrigger className={cn(colors.bgInput, colors.border, colors.text)}><SelectValue /></SelectTrigger>
-                  <SelectContent className={cn(colors.bgCard, colors.border)}>
-                    {Object.keys(locations).map(loc => (
-                      <SelectItem key={loc} value={loc} className={cn(colors.text, colors.borderHover)}>{loc}</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <Label className={cn("mb-2 block", colors.textMuted)}>Target Location</Label>
+                <LocationPicker value={newClientForm.location_code} onSelect={code => setNewClientForm({ ...newClientForm, location_code: code })} />
               </div>
             </div>
+            <div>
+              <Label className={cn("mb-2 block", colors.textMuted)}>Audit Language</Label>
+              <Select value={newClientForm.language} onValueChange={v => setNewClientForm({ ...newClientForm, language: v })}>
+                <SelectTrigger className={cn(colors.bgInput, colors.border, colors.text)}><SelectValue /></SelectTrigger>
+                <SelectContent className={cn(colors.bgCard, colors.border)}>
+                  {Object.entries(LANGUAGES).map(([code, name]) => (
+                    <SelectItem key={code} value={code} className={cn(colors.text, colors.borderHover)}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div>
               <Label className={cn("mb-2 block", colors.textMuted)}>Primary Color</Label>
               <div className="flex gap-3">
@@ -1145,17 +2053,21 @@ export default function ClientDashboard() {
                 </Select>
               </div>
               <div>
-                <Label className={cn("mb-2 block", colors.textMuted)}>Target Region</Label>
-                <Select value={editClientForm.target_region} onValueChange={v => setEditClientForm({ ...editClientForm, target_region: v })}>
-                  <SelectTrigger className={cn(colors.bgInput, colors.border, colors.text)}><SelectValue /></SelectTrigger>
-                  <SelectContent className={cn(colors.bgCard, colors.border)}>
-                    {Object.keys(locations).map(loc => (
-                      <SelectItem key={loc} value={loc} className={cn(colors.text, colors.borderHover)}>{loc}</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <Label className={cn("mb-2 block", colors.textMuted)}>Target Location</Label>
+                <LocationPicker value={editClientForm.location_code} onSelect={code => setEditClientForm({ ...editClientForm, location_code: code })} />
               </div>
             </div>
+            <div>
+              <Label className={cn("mb-2 block", colors.textMuted)}>Audit Language</Label>
+              <Select value={editClientForm.language} onValueChange={v => setEditClientForm({ ...editClientForm, language: v })}>
+                <SelectTrigger className={cn(colors.bgInput, colors.border, colors.text)}><SelectValue /></SelectTrigger>
+                <SelectContent className={cn(colors.bgCard, colors.border)}>
+                  {Object.entries(LANGUAGES).map(([code, name]) => (
+                    <SelectItem key={code} value={code} className={cn(colors.text, colors.borderHover)}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div>
               <Label className={cn("mb-2 block", colors.textMuted)}>Primary Color</Label>
               <div className="flex gap-3">
@@ -1206,69 +2118,265 @@ export default function ClientDashboard() {
             <SheetTitle className={cn("text-xl", colors.text)}>Settings & Configuration</SheetTitle>
           </SheetHeader>
           <div className="space-y-8 mt-8">
-            
+            {!canEditSettings && (
+              <p className={cn("text-sm", colors.textMuted)}>Your role ({roleLabel}) can view this client's settings. Ask an admin to change them.</p>
+            )}
 
-            {/* Brand Tags */}
-            <div>
-              <Label className={cn("flex items-center gap-2 text-base mb-1", colors.text)}><Tag className="h-5 w-5" /> Brand Tags</Label>
-              <p className={cn("text-sm mb-3", colors.textMuted)}>Alternative names to detect in AI responses</p>
-              <div className="flex flex-wrap gap-2 mb-3">
-                {selectedClient?.brand_tags.map((tag, idx) => (
-                  <Badge key={idx} variant="outline" className={cn("px-3 py-1.5 rounded-full", colors.bgCard, colors.border, colors.text)}>
-                    {tag}
-                    <button onClick={() => updateBrandTags(selectedClient.brand_tags.filter((_, i) => i !== idx))} className={cn("ml-2 hover:text-white", colors.textMuted)}>
-                      <X className="h-3.5 w-3.5" />
-                    </button>
-                  </Badge>
-                ))}
-              </div>
-              <div className="flex gap-2">
-                <Input placeholder="Add tag..." value={newTag} onChange={e => setNewTag(e.target.value)} onKeyDown={e => e.key === "Enter" && handleAddTag()}
-                  className={cn("border-blue-500 placeholder:text-gray-500 focus:border-blue-400", colors.bgInput, colors.text)} />
-                <Button onClick={handleAddTag} className="bg-blue-600 hover:bg-blue-700 px-5">Add</Button>
+            <fieldset disabled={!canEditCompetitors} className="space-y-8 disabled:opacity-60">
+              {/* Brand Tags */}
+              <div>
+                <Label className={cn("flex items-center gap-2 text-base mb-1", colors.text)}><Tag className="h-5 w-5" /> Brand Tags</Label>
+                <p className={cn("text-sm mb-3", colors.textMuted)}>Alternative names to detect in AI responses</p>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {selectedClient?.brand_tags.map((tag, idx) => (
+                    <Badge key={idx} variant="outline" className={cn("px-3 py-1.5 rounded-full", colors.bgCard, colors.border, colors.text)}>
+                      {tag}
+                      <button onClick={() => updateBrandTags(selectedClient.brand_tags.filter((_, i) => i !== idx))} className={cn("ml-2 hover:text-white", colors.textMuted)}>
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Input placeholder="Add tag..." value={newTag} onChange={e => setNewTag(e.target.value)} onKeyDown={e => e.key === "Enter" && handleAddTag()}
+                    className={cn("border-blue-500 placeholder:text-gray-500 focus:border-blue-400", colors.bgInput, colors.text)} />
+                  <Button onClick={handleAddTag} className="bg-blue-600 hover:bg-blue-700 px-5">Add</Button>
+                </div>
               </div>
-            </div>
 
-            {/* Competitors */}
-            <div>
-              <Label className={cn("flex items-center gap-2 text-base mb-1", colors.text)}><Users className="h-5 w-5" /> Competitors</Label>
-              <p className={cn("text-sm mb-3", colors.textMuted)}>Track competitor mentions in AI responses</p>
-              <div className="flex flex-wrap gap-2 mb-3">
-                {selectedClient?.competitors.map((comp, idx) => (
-                  <Badge key={idx} variant="outline" className={cn("px-3 py-1.5 rounded-full", colors.bgCard, colors.border, colors.text)}>
-                    {comp}
-                    <button onClick={() => updateCompetitors(selectedClient.competitors.filter((_, i) => i !== idx))} className={cn("ml-2 hover:text-white", colors.textMuted)}>
-                      <X className="h-3.5 w-3.5" />
+              {/* Competitors */}
+              <div>
+                <Label className={cn("flex items-center gap-2 text-base mb-1", colors.text)}><Users className="h-5 w-5" /> Competitors</Label>
+                <p className={cn("text-sm mb-3", colors.textMuted)}>Track competitor mentions in AI responses. Add aliases and exclusions with "Hinge | Hinge App | -Hinge Health"</p>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {selectedClient?.competitors.map((comp, idx) => (
+                    <Badge key={idx} variant="outline" className={cn("px-3 py-1.5 rounded-full", colors.bgCard, colors.border, colors.text)}>
+                      {comp}
+                      <button onClick={() => updateCompetitors(selectedClient.competitors.filter((_, i) => i !== idx))} className={cn("ml-2 hover:text-white", colors.textMuted)}>
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Input placeholder="Add competitor..." value={newCompetitor} onChange={e => setNewCompetitor(e.target.value)} onKeyDown={e => e.key === "Enter" && handleAddCompetitor()}
+                    className={cn("placeholder:text-gray-500", colors.bgInput, colors.border, colors.text)} />
+                  <Button onClick={handleAddCompetitor} className="bg-blue-600 hover:bg-blue-700 px-5">Add</Button>
+                </div>
+                {backfillTarget && (
+                  <div className={cn("mt-2 flex items-center gap-3 text-sm", colors.textMuted)}>
+                    <span>Find "{backfillTarget}" in past results?</span>
+                    <button onClick={handleBackfill} disabled={!!backfilling} className="text-blue-400 hover:text-blue-300 flex items-center gap-1">
+                      {backfilling === backfillTarget && <Loader2 className="h-3.5 w-3.5 animate-spin" />} Re-scan
                     </button>
-                  </Badge>
-                ))}
+                    <button onClick={() => setBackfillTarget(null)} className="hover:text-white">Dismiss</button>
+                  </div>
+                )}
+                {competitorSuggestions.length > 0 && (
+                  <div className="mt-4">
+                    <div className={cn("text-xs mb-2", colors.textSubtle)}>Suggested from AI answers</div>
+                    <div className="space-y-2">
+                      {competitorSuggestions.map(candidate => (
+                        <div key={candidate.name} className={cn("flex items-center justify-between rounded-lg border px-3 py-2", colors.bgCard, colors.border)}>
+                          <div>
+                            <div className={cn("text-sm", colors.text)}>{candidate.name}</div>
+                            <div className={cn("text-xs", colors.textSubtle)}>
+                              {candidate.answers} answers · {candidate.models.length} models · avg #{candidate.avg_position}
+                            </div>
+                          </div>
+                          <Button variant="outline" size="sm" onClick={() => handleTrackSuggestion(candidate.name)} disabled={!!backfilling}
+                            className="h-7 border-[#2a2a3e] bg-transparent text-gray-300 hover:bg-[#2a2a3e] hover:text-white">
+                            {backfilling === candidate.name ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Plus className="h-3.5 w-3.5 mr-1" />}
+                            Track
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
-              <div className="flex gap-2">
-                <Input placeholder="Add competitor..." value={newCompetitor} onChange={e => setNewCompetitor(e.target.value)} onKeyDown={e => e.key === "Enter" && handleAddCompetitor()}
-                  className={cn("placeholder:text-gray-500", colors.bgInput, colors.border, colors.text)} />
-                <Button onClick={handleAddCompetitor} className="bg-blue-600 hover:bg-blue-700 px-5">Add</Button>
+            </fieldset>
+
+            <fieldset disabled={!canEditSettings} className="space-y-8 disabled:opacity-60">
+              {/* Audit Locations */}
+              <div>
+                <Label className={cn("flex items-center gap-2 text-base mb-1", colors.text)}><MapPin className="h-5 w-5" /> Audit Locations</Label>
+                <p className={cn("text-sm mb-3", colors.textMuted)}>
+                  Every prompt runs once per location (up to {maxAuditLocations}). Without any, audits use {formatLocation(selectedClient?.location_code || DEFAULT_LOCATION_CODE)}.
+                </p>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {(selectedClient?.settings?.audit_locations || []).map(code => (
+                    <Badge key={code} className="bg-blue-500/20 text-blue-400 border-0 px-3 py-1 gap-1">
+                      <MapPin className="h-3 w-3" />{formatLocation(code)}
+                      <button onClick={() => updateAuditLocations((selectedClient?.settings?.audit_locations || []).filter(c => c !== code))} className="ml-1 hover:text-white">
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                {(selectedClient?.settings?.audit_locations || []).length < maxAuditLocations && (
+                  <LocationPicker value={null} placeholder="Add a location..." exclude={selectedClient?.settings?.audit_locations || []}
+                    onSelect={code => updateAuditLocations([...(selectedClient?.settings?.audit_locations || []), code])} />
+                )}
               </div>
-            </div>
 
-            {/* AI Models */}
-            <div>
-              <Label className={cn("flex items-center gap-2 text-base mb-3", colors.text)}><Sparkles className="h-5 w-5" /> AI Models</Label>
-              <div className="space-y-2">
-                {AI_MODELS.map(model => {
-                  const LogoComponent = MODEL_LOGOS[model.id]?.Logo;
+              {/* Language Aliases */}
+              <div>
+                <Label className={cn("flex items-center gap-2 text-base mb-1", colors.text)}><Languages className="h-5 w-5" /> Language Aliases</Label>
+                <p className={cn("text-sm mb-3", colors.textMuted)}>Extra names to detect in answers to prompts in this language, e.g. Thai transliterations</p>
+                <Select value={aliasLanguage} onValueChange={setAliasLanguage}>
+                  <SelectTrigger className={cn("mb-3", colors.bgInput, colors.border, colors.text)}><SelectValue /></SelectTrigger>
+                  <SelectContent className={cn(colors.bgCard, colors.border)}>
+                    {Object.entries(LANGUAGES).map(([code, name]) => (
+                      <SelectItem key={code} value={code} className={cn(colors.text, colors.borderHover)}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {(languageAliases.brand || []).map((alias, idx) => (
+                    <Badge key={idx} variant="outline" className={cn("px-3 py-1.5 rounded-full", colors.bgCard, colors.border, colors.text)}>
+                      {alias}
+                      <button onClick={() => updateLanguageAliases(aliasLanguage, { ...languageAliases, brand: (languageAliases.brand || []).filter((_, i) => i !== idx) })}
+                        className={cn("ml-2 hover:text-white", colors.textMuted)}>
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex gap-2 mb-3">
+                  <Input placeholder="Add brand alias..." value={newBrandAlias} onChange={e => setNewBrandAlias(e.target.value)} onKeyDown={e => e.key === "Enter" && handleAddBrandAlias()}
+                    className={cn("placeholder:text-gray-500", colors.bgInput, colors.border, colors.text)} />
+                  <Button onClick={handleAddBrandAlias} className="bg-blue-600 hover:bg-blue-700 px-5">Add</Button>
+                </div>
+                {(selectedClient?.competitors || []).map(comp => {
+                  const name = entityDisplayName(comp);
                   return (
-                    <div key={model.id} className={cn("flex items-center justify-between p-3 rounded-lg border", colors.bgCard, colors.border)}>
-                      <div className="flex items-center gap-3">
-                        <Checkbox checked={selectedModels.includes(model.id)} onCheckedChange={() => toggleModel(model.id)} className="border-gray-400 data-[state=checked]:bg-blue-600" />
-                        {LogoComponent && <LogoComponent className="h-5 w-5" />}
-                        <span className={cn("text-sm", colors.text)}>{model.name}</span>
-                      </div>
-                      <span className={cn("text-xs", colors.textSubtle)}>${model.costPerQuery}/query</span>
+                    <div key={`${aliasLanguage}:${name}`} className="flex items-center gap-2 mb-2">
+                      <span className={cn("text-sm w-28 truncate", colors.textMuted)}>{name}</span>
+                      <Input placeholder="Aliases, comma-separated" defaultValue={(languageAliases.competitors?.[name] || []).join(", ")}
+                        onBlur={e => handleCompetitorAliases(name, e.target.value)}
+                        className={cn("h-8 text-sm placeholder:text-gray-500", colors.bgInput, colors.border, colors.text)} />
                     </div>
                   );
                 })}
               </div>
-            </div>
+
+              {/* Reprocess */}
+              {auditResults.length > 0 && (
+                <div className={cn("flex items-center justify-between rounded-lg border px-4 py-3", colors.border)}>
+                  <div>
+                    <div className={cn("text-sm", colors.text)}>Re-analyze past results</div>
+                    <div className={cn("text-xs", colors.textSubtle)}>
+                      {reprocessedCount !== null ? `${reprocessedCount} audits updated` : "Apply current brand tags and competitors to stored answers. No API cost."}
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={handleReprocess} disabled={reprocessing}
+                    className="h-7 border-[#2a2a3e] bg-transparent text-gray-300 hover:bg-[#2a2a3e] hover:text-white">
+                    {reprocessing && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />} Re-analyze
+                  </Button>
+                </div>
+              )}
+
+              {/* AI Models */}
+              <div>
+                <Label className={cn("flex items-center gap-2 text-base mb-3", colors.text)}><Sparkles className="h-5 w-5" /> AI Models</Label>
+                <div className="space-y-2">
+                  {AI_MODELS.map(model => {
+                    const LogoComponent = MODEL_LOGOS[model.id]?.Logo;
+                    const route = selectedClient?.settings?.model_routing?.[model.id];
+                    return (
+                      <div key={model.id} className={cn("flex items-center justify-between p-3 rounded-lg border", colors.bgCard, colors.border)}>
+                        <div className="flex items-center gap-3">
+                          <Checkbox checked={selectedModels.includes(model.id)} onCheckedChange={() => toggleModel(model.id)} className="border-gray-400 data-[state=checked]:bg-blue-600" />
+                          {LogoComponent && <LogoComponent className="h-5 w-5" />}
+                          <span className={cn("text-sm", colors.text)}>{model.name}</span>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          {ROUTABLE_MODELS.includes(model.id) && (
+                            <Select value={route?.provider || "dataforseo"}
+                              onValueChange={v => updateModelRoute(model.id, v === "dataforseo" ? null : { provider: v as ProviderId })}>
+                              <SelectTrigger className={cn("w-44 h-8 text-xs", colors.bgInput, colors.border, colors.text)}
+                                title={route?.model ? `Model: ${route.model}` : "Where answers for this model come from"}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                                {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                                  <SelectItem key={id} value={id} className="text-white">{PROVIDER_LABELS[id]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          {model.id === "generic_serp" && (
+                            <Select value={selectedClient?.settings?.generic_serp_engine || "yahoo"} onValueChange={updateSerpEngine}>
+                              <SelectTrigger className={cn("w-44 h-8 text-xs capitalize", colors.bgInput, colors.border, colors.text)} title="Search engine for this model">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent className="bg-[#1a1a2e] border-[#2a2a3e]">
+                                {SERP_ENGINES.map(engine => (
+                                  <SelectItem key={engine} value={engine} className="text-white capitalize">{engine}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <span className={cn("text-xs", colors.textSubtle)}>${model.costPerQuery}/query</span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Budget */}
+              <div>
+                <Label className={cn("flex items-center gap-2 text-base mb-1", colors.text)}><Wallet className="h-5 w-5" /> Budget</Label>
+                <p className={cn("text-sm mb-3", colors.textMuted)}>Audits that would go over the monthly limit drop models or prompts, or don't run</p>
+                <div className="flex items-center gap-2">
+                  <Input type="number" min={0} step="0.01" placeholder="Monthly limit in USD (empty = no limit)" value={budgetInput}
+                    onChange={e => setBudgetInput(e.target.value)}
+                    className={cn("placeholder:text-gray-500", colors.bgInput, colors.border, colors.text)} />
+                  <Button onClick={handleSaveBudget} className="bg-blue-600 hover:bg-blue-700">Save</Button>
+                </div>
+                {auditEstimate?.limit_usd != null && (
+                  <p className={cn("text-xs mt-2", colors.textSubtle)}>
+                    ${auditEstimate.spent_usd.toFixed(2)} of ${auditEstimate.limit_usd.toFixed(2)} spent this month
+                  </p>
+                )}
+              </div>
+
+              {/* Alerts */}
+              <div>
+                <Label className={cn("flex items-center gap-2 text-base mb-1", colors.text)}><Bell className="h-5 w-5" /> Alerts</Label>
+                <p className={cn("text-sm mb-3", colors.textMuted)}>Checked after every saved audit</p>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className={cn("text-sm", colors.text)}>Alert when SOV falls below (%)</span>
+                    <Input type="number" min={0} max={100} value={notificationForm.sov_threshold ?? ""}
+                      onChange={e => setNotificationForm({ ...notificationForm, sov_threshold: e.target.value === "" ? null : Number(e.target.value) })}
+                      className={cn("w-20 h-8", colors.bgInput, colors.border, colors.text)} />
+                  </div>
+                  {([
+                    ["alert_on_competitor_gain", "Competitor overtakes our rank"],
+                    ["alert_on_model_drop", "Brand drops out of a model"],
+                    ["alert_on_citation_loss", "Brand domain no longer cited"],
+                    ["email_alerts", "Email alerts"],
+                  ] as const).map(([key, label]) => (
+                    <label key={key} className="flex items-center gap-3">
+                      <Checkbox checked={notificationForm[key]} onCheckedChange={v => setNotificationForm({ ...notificationForm, [key]: v === true })} className="border-gray-400 data-[state=checked]:bg-blue-600" />
+                      <span className={cn("text-sm", colors.text)}>{label}</span>
+                    </label>
+                  ))}
+                  <Input placeholder="Brand domain (e.g. juleo.club)" value={brandDomainInput} onChange={e => setBrandDomainInput(e.target.value)}
+                    className={cn("placeholder:text-gray-500", colors.bgInput, colors.border, colors.text)} />
+                  <Input placeholder="Notification email" value={notificationForm.notification_email || ""}
+                    onChange={e => setNotificationForm({ ...notificationForm, notification_email: e.target.value || null })}
+                    className={cn("placeholder:text-gray-500", colors.bgInput, colors.border, colors.text)} />
+                  <Input placeholder="Webhook URL (optional)" value={notificationForm.webhook_url || ""}
+                    onChange={e => setNotificationForm({ ...notificationForm, webhook_url: e.target.value || null })}
+                    className={cn("placeholder:text-gray-500", colors.bgInput, colors.border, colors.text)} />
+                  <Button onClick={handleSaveAlerts} className="w-full bg-blue-600 hover:bg-blue-700">Save Alert Rules</Button>
+                </div>
+              </div>
+            </fieldset>
 
             {/* Export/Import */}
             <div>
@@ -1283,7 +2391,7 @@ export default function ClientDashboard() {
                 <Button variant="outline" onClick={exportFullReport} className={cn("text-sm col-span-2", colors.bgCard, colors.border, colors.text, colors.borderHover)}>
                   <FileText className="h-4 w-4 mr-2" /> Full Report
                 </Button>
-                <Button variant="outline" onClick={() => setImportDialogOpen(true)} className={cn("text-sm col-span-2", colors.bgCard, colors.border, colors.text, colors.borderHover)}>
+                <Button variant="outline" onClick={() => setImportDialogOpen(true)} disabled={!canManagePrompts} className={cn("text-sm col-span-2", colors.bgCard, colors.border, colors.text, colors.borderHover)}>
                   <Upload className="h-4 w-4 mr-2" /> Import Prompts
                 </Button>
               </div>
@@ -1293,10 +2401,10 @@ export default function ClientDashboard() {
             <div className={cn("border-t pt-6", colors.border)}>
               <Label className="text-red-400 flex items-center gap-2 text-base mb-3"><AlertTriangle className="h-5 w-5" /> Danger Zone</Label>
               <div className="space-y-2">
-                <Button variant="outline" onClick={clearResults} className="w-full bg-transparent border-red-500/30 text-red-400 hover:bg-red-500/10">
+                <Button variant="outline" onClick={clearResults} disabled={!canRunAudits} className="w-full bg-transparent border-red-500/30 text-red-400 hover:bg-red-500/10">
                   <Trash2 className="h-4 w-4 mr-2" /> Clear All Results
                 </Button>
-                <Button variant="outline" onClick={clearAllPrompts} className="w-full bg-transparent border-red-500/30 text-red-400 hover:bg-red-500/10">
+                <Button variant="outline" onClick={clearAllPrompts} disabled={!canManagePrompts} className="w-full bg-transparent border-red-500/30 text-red-400 hover:bg-red-500/10">
                   <Trash2 className="h-4 w-4 mr-2" /> Clear All Prompts
                 </Button>
               </div>
@@ -1305,6 +2413,39 @@ export default function ClientDashboard() {
         </SheetContent>
       </Sheet>
 
+      {/* Team Dialog */}
+      <Dialog open={teamOpen} onOpenChange={setTeamOpen}>
+        <DialogContent className={cn("max-w-2xl max-h-[85vh] overflow-auto", colors.bgCard, colors.border, colors.text)}>
+          <DialogHeader>
+            <DialogTitle className="text-xl">Team & Access · {auth.organization?.name}</DialogTitle>
+            <DialogDescription className={colors.textMuted}>
+              Viewers can only look. Members run audits and manage prompts. Admins also edit competitors, settings and clients.
+              Limit members and viewers to the clients they work on.
+            </DialogDescription>
+          </DialogHeader>
+          <TeamMembers members={auth.members} clients={clients} currentUserId={auth.user?.id ?? null} currentRole={auth.role}
+            onAdd={auth.addMember} onUpdate={auth.updateMember} onRemove={auth.removeMember} />
+        </DialogContent>
+      </Dialog>
+
+      {/* API Keys Dialog */}
+      <Dialog open={credentialsOpen} onOpenChange={setCredentialsOpen}>
+        <DialogContent className={cn("max-w-2xl max-h-[85vh] overflow-auto", colors.bgCard, colors.border, colors.text)}>
+          <DialogHeader>
+            <DialogTitle className="text-xl">API Keys · {auth.organization?.name}</DialogTitle>
+            <DialogDescription className={colors.textMuted}>
+              Keys are encrypted and only used by audits and content generation for this organization's clients.
+              Providers without a key here use the project's key, when one is set.
+            </DialogDescription>
+          </DialogHeader>
+          {credentials.error && (
+            <div className="p-3 text-sm rounded-lg border border-red-500/30 bg-red-500/10 text-red-400">{credentials.error}</div>
+          )}
+          <CredentialsManager credentials={credentials.credentials} encryption={credentials.encryption} loading={credentials.loading}
+            busy={credentials.busy} onSave={credentials.saveCredential} onTest={credentials.testCredential} onRemove={credentials.removeCredential} />
+        </DialogContent>
+      </Dialog>
+
       {/* Hidden file input */}
       <input type="file" ref={fileInputRef} onChange={handleFileImport} accept=".txt,.csv,.json" className="hidden" />
     </div>
@@ -0,0 +1,118 @@
+/**
+ * ============================================================================
+ * FORZEO SIGN-IN
+ * ============================================================================
+ *
+ * Shown before the dashboard:
+ * - SignIn: email/password sign-in and account creation
+ * - CreateOrganization: signed in but not a member of any organization yet
+ *   (create one, or ask an admin to add you by email)
+ */
+
+import { useState } from "react";
+import { Loader2, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ForzeoLogo } from "@/components/ForzeoLogo";
+import type { AuthState } from "@/hooks/useAuth";
+
+const card = "w-full max-w-sm bg-[#1a1a2e] border border-[#2a2a3e] rounded-xl p-6 space-y-4";
+const input = "bg-[#0a0a0f] border-[#2a2a3e] text-white";
+
+export default function SignIn({ auth }: { auth: AuthState }) {
+  const [mode, setMode] = useState<"sign_in" | "sign_up">("sign_in");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password) return;
+    setSubmitting(true);
+    setNotice(null);
+    if (mode === "sign_in") {
+      await auth.signIn(email.trim(), password);
+    } else {
+      const needsConfirmation = await auth.signUp(email.trim(), password, fullName.trim());
+      if (needsConfirmation) setNotice("Check your email to confirm the account, then sign in.");
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] flex flex-col items-center justify-center gap-6 p-4">
+      <ForzeoLogo className="h-8" />
+      <form onSubmit={submit} className={card}>
+        <div>
+          <h1 className="text-lg font-semibold text-white">{mode === "sign_in" ? "Sign in" : "Create an account"}</h1>
+          <p className="text-sm text-gray-400">AI visibility analytics for your clients</p>
+        </div>
+        {mode === "sign_up" && (
+          <div className="space-y-1">
+            <Label className="text-gray-300">Name</Label>
+            <Input value={fullName} onChange={e => setFullName(e.target.value)} className={input} />
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label className="text-gray-300">Email</Label>
+          <Input type="email" autoComplete="email" value={email} onChange={e => setEmail(e.target.value)} className={input} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-gray-300">Password</Label>
+          <Input type="password" autoComplete={mode === "sign_in" ? "current-password" : "new-password"}
+            value={password} onChange={e => setPassword(e.target.value)} className={input} />
+        </div>
+        {auth.error && <p className="text-sm text-red-400">{auth.error}</p>}
+        {notice && <p className="text-sm text-emerald-400">{notice}</p>}
+        <Button type="submit" disabled={submitting || !email.trim() || !password} className="w-full bg-emerald-600 hover:bg-emerald-700">
+          {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {mode === "sign_in" ? "Sign in" : "Create account"}
+        </Button>
+        <button type="button" onClick={() => { setMode(mode === "sign_in" ? "sign_up" : "sign_in"); setNotice(null); }}
+          className="w-full text-sm text-gray-400 hover:text-white">
+          {mode === "sign_in" ? "No account yet? Create one" : "Already have an account? Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export function CreateOrganization({ auth }: { auth: AuthState }) {
+  const [name, setName] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    await auth.createOrganization(name);
+    setCreating(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] flex flex-col items-center justify-center gap-6 p-4">
+      <ForzeoLogo className="h-8" />
+      <form onSubmit={create} className={card}>
+        <div>
+          <h1 className="text-lg font-semibold text-white">Create your organization</h1>
+          <p className="text-sm text-gray-400">
+            Clients belong to an organization. Joining an existing team? Ask one of its admins to add {auth.user?.email}.
+          </p>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-gray-300">Organization name</Label>
+          <Input value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Acme Agency" className={input} />
+        </div>
+        {auth.error && <p className="text-sm text-red-400">{auth.error}</p>}
+        <Button type="submit" disabled={creating || !name.trim()} className="w-full bg-emerald-600 hover:bg-emerald-700">
+          {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}Create organization
+        </Button>
+        <button type="button" onClick={auth.signOut} className="w-full flex items-center justify-center gap-2 text-sm text-gray-400 hover:text-white">
+          <LogOut className="h-4 w-4" />Sign out
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -4,7 +4,6 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_PUBLISHABLE_KEY: string
   readonly VITE_SUPABASE_PROJECT_ID: string
-  readonly VITE_GROQ_API_KEY: string
 }
 
 interface ImportMeta {
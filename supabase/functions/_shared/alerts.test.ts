@@ -0,0 +1,218 @@
+/**
+ * Alert rule transitions and sinks: stub sinks, a local webhook server, and
+ * Mailpit as the SMTP stand-in when MAILPIT_HOST is set.
+ *
+ * Run: deno test --allow-net --allow-env supabase/functions/_shared/
+ */
+
+import assert from "node:assert/strict";
+import {
+  createEmailSink,
+  createWebhookSink,
+  DEFAULT_NOTIFICATION_SETTINGS,
+  dispatchAlerts,
+  evaluateAlertRules,
+  type Alert,
+  type AlertContext,
+  type AlertSink,
+  type AuditSnapshot,
+} from "./alerts.ts";
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const CONTEXT: AlertContext = {
+  client: { id: "client-1", name: "Juleo Club", brand_name: "Juleo", brand_domain: "juleo.club" },
+  prompt_text: "Best dating apps in India 2025",
+  settings: { ...DEFAULT_NOTIFICATION_SETTINGS, sov_threshold: 20 },
+};
+
+type ModelSnapshot = AuditSnapshot["model_results"][number];
+
+function model(overrides: Partial<ModelSnapshot> = {}): ModelSnapshot {
+  return {
+    model: "chatgpt",
+    model_name: "ChatGPT",
+    success: true,
+    brand_mentioned: true,
+    brand_rank: 1,
+    competitors_found: [{ name: "Bumble", rank: 2 }],
+    citations: [{ domain: "www.juleo.club" }],
+    ...overrides,
+  };
+}
+
+function audit(shareOfVoice: number, models: ModelSnapshot[] = [model()]): AuditSnapshot {
+  return { id: "audit-2", prompt_id: "prompt-1", share_of_voice: shareOfVoice, model_results: models };
+}
+
+const rules = (alerts: Alert[]) => alerts.map(a => a.rule);
+
+// ============================================
+// RULES
+// ============================================
+
+Deno.test("SOV under the threshold fires on the first run, critical at 0%", () => {
+  const alerts = evaluateAlertRules(audit(0), null, CONTEXT);
+  assert.deepEqual(rules(alerts), ["sov_below_threshold"]);
+  assert.equal(alerts[0].severity, "critical");
+});
+
+Deno.test("SOV alerts fire on the transition only", () => {
+  assert.deepEqual(rules(evaluateAlertRules(audit(10), audit(40), CONTEXT)), ["sov_below_threshold"]);
+  assert.deepEqual(rules(evaluateAlertRules(audit(10), audit(15), CONTEXT)), []);
+  assert.deepEqual(rules(evaluateAlertRules(audit(30), audit(10), CONTEXT)), []);
+});
+
+Deno.test("brand dropping out of a model", () => {
+  const current = audit(50, [model({ brand_mentioned: false, brand_rank: null })]);
+  const alerts = evaluateAlertRules(current, audit(50), CONTEXT);
+  assert.ok(rules(alerts).includes("brand_dropped"));
+  assert.equal(alerts.find(a => a.rule === "brand_dropped")!.model, "chatgpt");
+});
+
+Deno.test("competitor overtaking the brand fires once", () => {
+  const overtaken = audit(50, [model({ brand_rank: 3, competitors_found: [{ name: "Bumble", rank: 1 }] })]);
+  const alerts = evaluateAlertRules(overtaken, audit(50), CONTEXT);
+  assert.deepEqual(rules(alerts), ["competitor_overtook"]);
+  assert.equal(alerts[0].details.competitor, "Bumble");
+
+  // Already ahead last run: no new alert
+  assert.deepEqual(rules(evaluateAlertRules(overtaken, overtaken, CONTEXT)), []);
+});
+
+Deno.test("brand-domain citation lost, subdomains count as the brand", () => {
+  const current = audit(50, [model({ citations: [{ domain: "bumble.com" }] })]);
+  assert.deepEqual(rules(evaluateAlertRules(current, audit(50), CONTEXT)), ["brand_citation_lost"]);
+
+  const stillCited = audit(50, [model({ citations: [{ domain: "blog.juleo.club" }] })]);
+  assert.deepEqual(rules(evaluateAlertRules(stillCited, audit(50), CONTEXT)), []);
+});
+
+Deno.test("models that failed in either run are not compared", () => {
+  const failed = audit(50, [model({ success: false, brand_mentioned: false, citations: [] })]);
+  assert.deepEqual(rules(evaluateAlertRules(failed, audit(50), CONTEXT)), []);
+});
+
+Deno.test("disabled rules stay quiet", () => {
+  const settings = {
+    ...CONTEXT.settings,
+    sov_threshold: null,
+    alert_on_model_drop: false,
+    alert_on_competitor_gain: false,
+    alert_on_citation_loss: false,
+  };
+  const current = audit(0, [model({ brand_mentioned: false, brand_rank: null, competitors_found: [{ name: "Bumble", rank: 1 }], citations: [] })]);
+  assert.deepEqual(evaluateAlertRules(current, audit(50), { ...CONTEXT, settings }), []);
+});
+
+// ============================================
+// DISPATCH (STUB SINKS)
+// ============================================
+
+function stubSink(name: string, fail = false): AlertSink & { received: Alert[][] } {
+  const received: Alert[][] = [];
+  return {
+    name,
+    received,
+    async send(alerts) {
+      received.push(alerts);
+      if (fail) throw new Error(`${name} is down`);
+    },
+  };
+}
+
+Deno.test("a failing sink does not block the others", async () => {
+  const alerts = evaluateAlertRules(audit(0), null, CONTEXT);
+  const broken = stubSink("broken", true);
+  const inbox = stubSink("inbox");
+  await dispatchAlerts(alerts, [broken, inbox], CONTEXT);
+  assert.equal(broken.received.length, 1);
+  assert.deepEqual(inbox.received, [alerts]);
+});
+
+Deno.test("nothing is sent without alerts", async () => {
+  const inbox = stubSink("inbox");
+  await dispatchAlerts([], [inbox], CONTEXT);
+  assert.equal(inbox.received.length, 0);
+});
+
+// ============================================
+// WEBHOOK SINK (LOCAL SERVER)
+// ============================================
+
+/**
+ * Local webhook endpoint; `respond` decides what it answers
+ */
+async function withWebhookServer(
+  respond: (req: Request) => Promise<Response>,
+  run: (url: string, requests: unknown[]) => Promise<void>
+): Promise<void> {
+  const requests: unknown[] = [];
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async req => {
+    requests.push(await req.json());
+    return respond(req);
+  });
+  try {
+    await run(`http://127.0.0.1:${server.addr.port}/hooks/forzeo`, requests);
+  } finally {
+    await server.shutdown();
+  }
+}
+
+Deno.test("webhook sink posts the alerts as JSON", async () => {
+  const alerts = evaluateAlertRules(audit(0), null, CONTEXT);
+  await withWebhookServer(async () => new Response("ok"), async (url, requests) => {
+    await createWebhookSink(url).send(alerts, CONTEXT);
+    const [payload] = requests as Array<Record<string, any>>;
+    assert.equal(payload.event, "forzeo.alerts");
+    assert.equal(payload.client.brand_name, "Juleo");
+    assert.equal(payload.prompt_text, CONTEXT.prompt_text);
+    assert.deepEqual(payload.alerts, JSON.parse(JSON.stringify(alerts)));
+  });
+});
+
+Deno.test("webhook sink fails on a non-2xx answer", async () => {
+  await withWebhookServer(async () => new Response("nope", { status: 500 }), async url => {
+    await assert.rejects(createWebhookSink(url).send([], CONTEXT), /Webhook returned 500/);
+  });
+});
+
+Deno.test("webhook sink gives up on a slow endpoint", async () => {
+  // Answers only after the sink has given up
+  let release = () => {};
+  const slow = () => new Promise<Response>(resolve => { release = () => resolve(new Response("late")); });
+  await withWebhookServer(slow, async url => {
+    const started = Date.now();
+    try {
+      await assert.rejects(createWebhookSink(url, 200).send([], CONTEXT), /timed out after 200ms/);
+      assert.ok(Date.now() - started < 2000);
+    } finally {
+      release();
+    }
+  });
+});
+
+// ============================================
+// EMAIL SINK (MAILPIT)
+// ============================================
+// docker run -p 1025:1025 -p 8025:8025 axllent/mailpit, then MAILPIT_HOST=localhost
+
+const MAILPIT_HOST = Deno.env.get("MAILPIT_HOST");
+
+Deno.test({
+  name: "email sink delivers one message per audit to Mailpit",
+  ignore: !MAILPIT_HOST,
+  async fn() {
+    const alerts = evaluateAlertRules(audit(0), null, CONTEXT);
+    const to = `alerts-${crypto.randomUUID()}@forzeo.test`;
+    await createEmailSink({ hostname: MAILPIT_HOST!, port: 1025, tls: false, from: "alerts@forzeo.com", to })
+      .send(alerts, CONTEXT);
+
+    const response = await fetch(`http://${MAILPIT_HOST}:8025/api/v1/search?query=${encodeURIComponent(`to:${to}`)}`);
+    const { messages } = await response.json();
+    assert.equal(messages.length, 1);
+    assert.equal(messages[0].Subject, "[Forzeo] 1 alert for Juleo");
+  },
+});
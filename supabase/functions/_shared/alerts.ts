@@ -0,0 +1,395 @@
+// @ts-nocheck
+/**
+ * ============================================================================
+ * FORZEO ALERTS ENGINE
+ * ============================================================================
+ *
+ * Evaluates alert rules after every saved audit and delivers alerts to
+ * pluggable sinks. Used by geo-audit (single, batch and scheduled runs).
+ *
+ * ============================================================================
+ * RULES (compare the new audit with the previous one for the same prompt)
+ * ============================================================================
+ *
+ * - sov_below_threshold:   SOV falls under settings.sov_threshold
+ * - competitor_overtook:   A competitor now ranks above the brand in a model
+ * - brand_dropped:         Brand was mentioned by a model, now it is not
+ * - brand_citation_lost:   A model stopped citing the brand's domain
+ *
+ * Rules fire on transitions only, so re-running a prompt that is already
+ * below threshold does not raise the same alert again.
+ *
+ * ============================================================================
+ * SINKS
+ * ============================================================================
+ *
+ * - inbox:   Row in the `alerts` table (shown in the dashboard) - always on
+ * - email:   SMTP (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_FROM, SMTP_TLS)
+ *            when settings.email_alerts and settings.notification_email are set
+ * - webhook: JSON POST to settings.webhook_url (or ALERT_WEBHOOK_URL), aborted
+ *            after WEBHOOK_TIMEOUT_MS so a slow endpoint can't stall the audit
+ *
+ * Local testing: run Mailpit (`docker run -p 1025:1025 -p 8025:8025 axllent/mailpit`),
+ * set SMTP_HOST=host.docker.internal SMTP_PORT=1025 SMTP_TLS=false and open
+ * http://localhost:8025 to see the emails. alerts.test.ts sends through it
+ * when MAILPIT_HOST is set (e.g. MAILPIT_HOST=localhost).
+ *
+ * Settings live in `clients.settings.notifications` (see database/add_alerts.sql).
+ */
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AlertRule = "sov_below_threshold" | "competitor_overtook" | "brand_dropped" | "brand_citation_lost";
+
+export interface NotificationSettings {
+  email_alerts: boolean;
+  weekly_digest: boolean;
+  sov_threshold: number | null;
+  alert_on_competitor_gain: boolean;
+  alert_on_model_drop: boolean;
+  alert_on_citation_loss: boolean;
+  notification_email: string | null;
+  webhook_url: string | null;
+}
+
+export interface Alert {
+  client_id: string;
+  audit_result_id: string | null;
+  prompt_id: string | null;
+  rule: AlertRule;
+  severity: "info" | "warning" | "critical";
+  title: string;
+  message: string;
+  model?: string;
+  details: Record<string, unknown>;
+}
+
+export interface AlertSink {
+  name: string;
+  send(alerts: Alert[], context: AlertContext): Promise<void>;
+}
+
+export interface AlertContext {
+  client: { id: string; name: string; brand_name: string; brand_domain?: string | null };
+  prompt_text: string;
+  settings: NotificationSettings;
+}
+
+/** Minimal shape of an audit row / audit response used by the rules */
+export interface AuditSnapshot {
+  id: string | null;
+  prompt_id: string | null;
+  share_of_voice: number;
+  model_results: Array<{
+    model: string;
+    model_name: string;
+    success: boolean;
+    brand_mentioned: boolean;
+    brand_rank: number | null;
+    competitors_found?: Array<{ name: string; rank: number | null }>;
+    citations?: Array<{ domain: string }>;
+  }>;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  email_alerts: false,
+  weekly_digest: false,
+  sov_threshold: 20,
+  alert_on_competitor_gain: true,
+  alert_on_model_drop: true,
+  alert_on_citation_loss: true,
+  notification_email: null,
+  webhook_url: null,
+};
+
+// ============================================
+// RULES
+// ============================================
+
+function isBrandDomain(domain: string, brandDomain: string): boolean {
+  const d = (domain || "").toLowerCase().replace(/^www\./, "");
+  const b = brandDomain.toLowerCase().replace(/^www\./, "");
+  return d === b || d.endsWith(`.${b}`);
+}
+
+/**
+ * Evaluate every enabled rule for a new audit
+ * `previous` is the last saved audit for the same prompt (null on the first run)
+ */
+export function evaluateAlertRules(
+  current: AuditSnapshot,
+  previous: AuditSnapshot | null,
+  context: AlertContext
+): Alert[] {
+  const { client, prompt_text, settings } = context;
+  const alerts: Alert[] = [];
+  const base = { client_id: client.id, audit_result_id: current.id, prompt_id: current.prompt_id };
+
+  // SOV falling under the threshold
+  const threshold = settings.sov_threshold;
+  if (threshold != null && current.share_of_voice < threshold &&
+      (!previous || previous.share_of_voice >= threshold)) {
+    alerts.push({
+      ...base,
+      rule: "sov_below_threshold",
+      severity: current.share_of_voice === 0 ? "critical" : "warning",
+      title: `Share of voice dropped to ${current.share_of_voice}%`,
+      message: `"${prompt_text}": ${client.brand_name} is at ${current.share_of_voice}% SOV, below the ${threshold}% threshold` +
+        (previous ? ` (was ${previous.share_of_voice}%).` : "."),
+      details: { threshold, current: current.share_of_voice, previous: previous?.share_of_voice ?? null },
+    });
+  }
+
+  if (!previous) return alerts;
+
+  for (const mr of current.model_results) {
+    const prev = previous.model_results.find(p => p.model === mr.model);
+    // Only compare models that answered in both runs
+    if (!prev || !prev.success || !mr.success) continue;
+
+    // Brand dropping out of a model
+    if (settings.alert_on_model_drop && prev.brand_mentioned && !mr.brand_mentioned) {
+      alerts.push({
+        ...base,
+        rule: "brand_dropped",
+        severity: "warning",
+        model: mr.model,
+        title: `${client.brand_name} dropped out of ${mr.model_name}`,
+        message: `"${prompt_text}": ${mr.model_name} no longer mentions ${client.brand_name}.`,
+        details: { previous_rank: prev.brand_rank },
+      });
+    }
+
+    // Competitor overtaking the brand's rank
+    if (settings.alert_on_competitor_gain && prev.brand_mentioned) {
+      const brandRank = mr.brand_rank ?? Infinity;
+      const prevBrandRank = prev.brand_rank ?? Infinity;
+      for (const comp of mr.competitors_found || []) {
+        if (comp.rank == null || comp.rank >= brandRank) continue;
+        const prevComp = (prev.competitors_found || []).find(c => c.name.toLowerCase() === comp.name.toLowerCase());
+        const prevCompRank = prevComp?.rank ?? Infinity;
+        if (prevCompRank <= prevBrandRank) continue; // was already ahead
+        alerts.push({
+          ...base,
+          rule: "competitor_overtook",
+          severity: "warning",
+          model: mr.model,
+          title: `${comp.name} overtook ${client.brand_name} in ${mr.model_name}`,
+          message: `"${prompt_text}": ${comp.name} is now #${comp.rank}, ${client.brand_name} is ` +
+            (mr.brand_rank ? `#${mr.brand_rank}` : "unranked") + ".",
+          details: {
+            competitor: comp.name, competitor_rank: comp.rank, previous_competitor_rank: prevComp?.rank ?? null,
+            brand_rank: mr.brand_rank, previous_brand_rank: prev.brand_rank,
+          },
+        });
+      }
+    }
+
+    // Brand-domain citation disappearing
+    if (settings.alert_on_citation_loss && client.brand_domain) {
+      const wasCited = (prev.citations || []).some(c => isBrandDomain(c.domain, client.brand_domain));
+      const isCited = (mr.citations || []).some(c => isBrandDomain(c.domain, client.brand_domain));
+      if (wasCited && !isCited) {
+        alerts.push({
+          ...base,
+          rule: "brand_citation_lost",
+          severity: "info",
+          model: mr.model,
+          title: `${mr.model_name} stopped citing ${client.brand_domain}`,
+          message: `"${prompt_text}": ${client.brand_domain} is no longer among ${mr.model_name}'s sources.`,
+          details: { brand_domain: client.brand_domain },
+        });
+      }
+    }
+  }
+
+  return alerts;
+}
+
+// ============================================
+// SINKS
+// ============================================
+
+/**
+ * In-app inbox: one row per alert in the `alerts` table
+ */
+export function createInboxSink(supabase): AlertSink {
+  return {
+    name: "inbox",
+    async send(alerts) {
+      const { error } = await supabase.from("alerts").insert(alerts.map(a => ({
+        client_id: a.client_id,
+        audit_result_id: a.audit_result_id,
+        prompt_id: a.prompt_id,
+        rule: a.rule,
+        severity: a.severity,
+        model: a.model || null,
+        title: a.title,
+        message: a.message,
+        details: a.details,
+      })));
+      if (error) throw new Error(error.message);
+    },
+  };
+}
+
+/**
+ * Generic webhook: POST { client, prompt_text, alerts } as JSON
+ */
+export function createWebhookSink(url: string, timeoutMs: number = WEBHOOK_TIMEOUT_MS): AlertSink {
+  return {
+    name: "webhook",
+    async send(alerts, context) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            event: "forzeo.alerts",
+            client: { id: context.client.id, name: context.client.name, brand_name: context.client.brand_name },
+            prompt_text: context.prompt_text,
+            alerts,
+            sent_at: new Date().toISOString(),
+          }),
+          signal: controller.signal,
+        });
+        await response.body?.cancel();
+        if (!response.ok) throw new Error(`Webhook returned ${response.status}`);
+      } catch (err) {
+        if (controller.signal.aborted) throw new Error(`Webhook timed out after ${timeoutMs}ms`);
+        throw err;
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+/**
+ * Email via SMTP - one message per audit listing every alert
+ */
+export function createEmailSink(config: {
+  hostname: string; port: number; tls: boolean; username?: string; password?: string; from: string; to: string;
+}): AlertSink {
+  return {
+    name: "email",
+    async send(alerts, context) {
+      // Loaded on the first email, so runs (and tests) without email never need it
+      const { SMTPClient } = await import("https://deno.land/x/denomailer@1.6.0/mod.ts");
+      const client = new SMTPClient({
+        connection: {
+          hostname: config.hostname,
+          port: config.port,
+          tls: config.tls,
+          ...(config.username ? { auth: { username: config.username, password: config.password || "" } } : {}),
+        },
+        // Local stand-ins (Mailpit, MailHog) speak plain SMTP without STARTTLS
+        debug: { allowUnsecure: !config.tls, noStartTLS: !config.tls },
+      });
+      const lines = alerts.map(a => `[${a.severity.toUpperCase()}] ${a.title}\n${a.message}`);
+      try {
+        await client.send({
+          from: config.from,
+          to: config.to,
+          subject: `[Forzeo] ${alerts.length} alert${alerts.length === 1 ? "" : "s"} for ${context.client.brand_name}`,
+          content: `Prompt: ${context.prompt_text}\n\n${lines.join("\n\n")}`,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+/**
+ * Pick sinks from the client's settings and environment
+ */
+export function buildAlertSinks(supabase, settings: NotificationSettings): AlertSink[] {
+  const sinks: AlertSink[] = [];
+  if (supabase) sinks.push(createInboxSink(supabase));
+
+  const smtpHost = Deno.env.get("SMTP_HOST");
+  if (settings.email_alerts && settings.notification_email && smtpHost) {
+    sinks.push(createEmailSink({
+      hostname: smtpHost,
+      port: parseInt(Deno.env.get("SMTP_PORT") || "587"),
+      tls: (Deno.env.get("SMTP_TLS") || "true") === "true",
+      username: Deno.env.get("SMTP_USER") || undefined,
+      password: Deno.env.get("SMTP_PASS") || undefined,
+      from: Deno.env.get("SMTP_FROM") || "alerts@forzeo.com",
+      to: settings.notification_email,
+    }));
+  }
+
+  const webhookUrl = settings.webhook_url || Deno.env.get("ALERT_WEBHOOK_URL");
+  if (webhookUrl) sinks.push(createWebhookSink(webhookUrl));
+
+  return sinks;
+}
+
+/**
+ * Deliver alerts to every sink; one failing sink never blocks the others
+ */
+export async function dispatchAlerts(alerts: Alert[], sinks: AlertSink[], context: AlertContext): Promise<void> {
+  if (alerts.length === 0) return;
+  await Promise.all(sinks.map(async sink => {
+    try {
+      await sink.send(alerts, context);
+      console.log(`[Alerts] Sent ${alerts.length} alert(s) via ${sink.name}`);
+    } catch (err) {
+      console.error(`[Alerts] ${sink.name} sink failed:`, err instanceof Error ? err.message : err);
+    }
+  }));
+}
+
+// ============================================
+// ENTRY POINT
+// ============================================
+
+/**
+ * Run the rules for a freshly saved audit and dispatch the result
+ * Loads client settings and the previous audit for the same prompt (and location, when known)
+ */
+export async function processAuditAlerts(
+  supabase,
+  current: AuditSnapshot & { client_id: string; prompt_text: string; location_code?: number | null; brand_domain?: string | null }
+): Promise<Alert[]> {
+  const { data: client } = await supabase
+    .from("clients").select("id, name, brand_name, brand_domain, settings").eq("id", current.client_id).single();
+  if (!client) return [];
+
+  const settings: NotificationSettings = {
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    ...(client.settings?.notifications || {}),
+  };
+
+  let previous: AuditSnapshot | null = null;
+  if (current.prompt_id) {
+    // A prompt run at several locations is compared with its last run at the same one
+    let query = supabase
+      .from("audit_results")
+      .select("id, prompt_id, share_of_voice, model_results")
+      .eq("prompt_id", current.prompt_id)
+      .neq("id", current.id);
+    if (current.location_code) query = query.eq("location_code", current.location_code);
+    const { data } = await query
+      .order("created_at", { ascending: false })
+      .limit(1);
+    previous = data?.[0] || null;
+  }
+
+  const context: AlertContext = {
+    client: { ...client, brand_domain: client.brand_domain || current.brand_domain || null },
+    prompt_text: current.prompt_text,
+    settings,
+  };
+  const alerts = evaluateAlertRules(current, previous, context);
+  await dispatchAlerts(alerts, buildAlertSinks(supabase, settings), context);
+  return alerts;
+}
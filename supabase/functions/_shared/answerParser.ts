@@ -0,0 +1,237 @@
+/**
+ * ============================================================================
+ * FORZEO ANSWER PARSER
+ * ============================================================================
+ *
+ * Turns an AI response into the ordered list of entities it recommends, so we
+ * can see every brand a model put forward - not only configured competitors.
+ * Shared by geo-audit (Deno) and the dashboard, imports only brandMatching.ts.
+ *
+ * ============================================================================
+ * RECOGNISED FORMATS
+ * ============================================================================
+ *
+ *   1. Bumble - ...            numbered list ("1.", "1)", "1]", "**1. Bumble**")
+ *   ### 2. Hinge               numbered markdown heading
+ *   - **Tinder**: ...          bullet with a bold or short leading name
+ *   **Aisle** - ...            bold name at the start of a paragraph
+ *   | OkCupid | Free | ... |   first cell of a markdown table row
+ *
+ * Unnumbered headings, bold-only lines ending in ":" and short lines ending
+ * in ":" start a new section; each entity records the section it sits in.
+ */
+
+import { normalizeEntityName } from "./brandMatching.ts";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type EntityFormat = "numbered" | "heading" | "bullet" | "bold" | "table";
+
+export interface RankedEntity {
+  name: string;
+  position: number;          // 1-based order of first appearance in the response
+  list_rank: number | null;  // number written in the response ("3." -> 3)
+  section: string | null;    // nearest preceding heading / intro line
+  format: EntityFormat;
+  text: string;              // the item's line without markdown (truncated)
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const MAX_NAME_LENGTH = 60;
+const MAX_NAME_WORDS = 6;
+const MAX_TEXT_LENGTH = 200;
+const MAX_SECTION_LENGTH = 80;
+
+// Headings that describe structure rather than an entity
+const GENERIC_NAMES = /^(summary|conclusion|overview|introduction|key (features|takeaways|considerations|factors)|pros|cons|pros and cons|final thoughts|tips|notes?|bottom line|verdict|recommendations?|considerations|features|pricing|price|cost|why|how|what|when|where|which|best for|other options|alternatives|comparison|sources|references|disclaimer)\b/i;
+
+// "Bumble - text", "Bumble – text", "Bumble: text"
+const NAME_SEPARATOR = /\s+[-–—]\s+|:\s+|\s+\|\s+/;
+
+// ============================================
+// TEXT HELPERS
+// ============================================
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")  // links and images
+    .replace(/\[\d+\]/g, "")                    // citation markers [1]
+    .replace(/(\*\*|__|\*|_|`)/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function cleanName(raw: string): string {
+  return stripMarkdown(raw)
+    .replace(/\s*\([^)]*\)\s*$/, "")      // trailing "(iOS, Android)"
+    .replace(/^[\s"'“”]+|[\s"'“”.,;:!?-]+$/g, "")
+    .trim();
+}
+
+function isPlausibleName(name: string): boolean {
+  if (!name || name.length > MAX_NAME_LENGTH) return false;
+  if (name.split(/\s+/).length > MAX_NAME_WORDS) return false;
+  if (!/[\p{L}\p{N}]/u.test(name)) return false;
+  return !GENERIC_NAMES.test(name);
+}
+
+/**
+ * Pick the entity name out of a list item's content
+ * Bold/link at the start wins, then text before a separator, then the whole item
+ */
+function extractName(content: string, allowLeadingRun: boolean): string | null {
+  const trimmed = content.trim();
+
+  const emphasis = trimmed.match(/^(?:\*\*|__)(.+?)(?:\*\*|__)/);
+  if (emphasis) {
+    const name = cleanName(emphasis[1]);
+    if (isPlausibleName(name)) return name;
+  }
+
+  const link = trimmed.match(/^\[([^\]]+)\]\([^)]*\)/);
+  if (link) {
+    const name = cleanName(link[1]);
+    if (isPlausibleName(name)) return name;
+  }
+
+  const plain = stripMarkdown(trimmed);
+  const separated = plain.split(NAME_SEPARATOR)[0];
+  if (separated !== plain) {
+    const name = cleanName(separated);
+    if (isPlausibleName(name)) return name;
+  }
+
+  const whole = cleanName(plain);
+  if (isPlausibleName(whole) && !/[.!?]\s/.test(whole)) return whole;
+
+  // "1. Bumble is the best choice because..." -> leading capitalised words
+  if (allowLeadingRun) {
+    const run = plain.match(/^((?:[\p{Lu}\p{N}][\p{L}\p{N}&'.+-]*)(?:\s+(?:[\p{Lu}\p{N}&][\p{L}\p{N}&'.+-]*)){0,3})/u);
+    if (run) {
+      const name = cleanName(run[1]);
+      if (isPlausibleName(name)) return name;
+    }
+  }
+  return null;
+}
+
+function toSection(raw: string): string | null {
+  const section = stripMarkdown(raw).replace(/:\s*$/, "").trim();
+  if (!section) return null;
+  return section.length > MAX_SECTION_LENGTH ? section.slice(0, MAX_SECTION_LENGTH - 1) + "…" : section;
+}
+
+function isTableSeparator(line: string): boolean {
+  return /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/.test(line);
+}
+
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\||\|$/g, "").split("|").map(c => c.trim());
+}
+
+// ============================================
+// PARSER
+// ============================================
+
+/**
+ * Ordered, de-duplicated list of the entities a response recommends
+ */
+export function parseRankedEntities(response: string): RankedEntity[] {
+  if (!response) return [];
+
+  const lines = response.split("\n");
+  const entities: RankedEntity[] = [];
+  const seen = new Set<string>();
+  let section: string | null = null;
+
+  const add = (name: string | null, format: EntityFormat, listRank: number | null, line: string) => {
+    if (!name) return;
+    const key = normalizeEntityName(name);
+    if (seen.has(key)) return;
+    seen.add(key);
+    entities.push({
+      name,
+      position: entities.length + 1,
+      list_rank: listRank,
+      section,
+      format,
+      text: stripMarkdown(line).slice(0, MAX_TEXT_LENGTH),
+    });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+
+    // Markdown tables: first cell of each body row
+    if (line.trim().startsWith("|")) {
+      if (isTableSeparator(line)) continue;
+      if (i + 1 < lines.length && isTableSeparator(lines[i + 1])) continue; // header row
+      const first = tableCells(line)[0] || "";
+      const name = cleanName(first);
+      add(isPlausibleName(name) ? name : null, "table", null, line);
+      continue;
+    }
+
+    // Headings: numbered ones are entities, others start a section
+    const heading = line.match(/^\s*#{1,6}\s+(.+)$/);
+    if (heading) {
+      const numbered = heading[1].replace(/^[*_]{1,2}(?=\d)/, "").match(/^(\d{1,2})[.)\]]?\s+(.+)/);
+      if (numbered) {
+        add(extractName(numbered[2], true), "heading", parseInt(numbered[1]), numbered[2]);
+      } else {
+        section = toSection(heading[1]);
+      }
+      continue;
+    }
+
+    // Numbered list items ("1. ", "2) ", "**3. Name**")
+    const numbered = line.replace(/^(\s*)[*_]{1,2}(?=\d)/, "$1").match(/^\s*(\d{1,2})[.)\]](?!\d)\s*(.+)$/);
+    if (numbered) {
+      add(extractName(numbered[2], true), "numbered", parseInt(numbered[1]), numbered[2]);
+      continue;
+    }
+
+    // Bullets ("- ", "* ", "• ")
+    const bullet = line.match(/^\s*[-*•+]\s+(.+)$/);
+    if (bullet) {
+      add(extractName(bullet[1], false), "bullet", null, bullet[1]);
+      continue;
+    }
+
+    const trimmed = line.trim();
+
+    // Bold-only line: "**Best for safety:**" is a section, "**Bumble**" an entity
+    const boldOnly = trimmed.match(/^(?:\*\*|__)(.+?)(?:\*\*|__):?$/);
+    if (boldOnly) {
+      if (/:\s*$/.test(boldOnly[1]) || trimmed.endsWith(":")) {
+        section = toSection(boldOnly[1]);
+      } else {
+        const name = cleanName(boldOnly[1]);
+        if (isPlausibleName(name)) add(name, "bold", null, trimmed);
+        else section = toSection(boldOnly[1]);
+      }
+      continue;
+    }
+
+    // Paragraph that opens with a bold name: "**Aisle** - for serious relationships"
+    const leadingBold = trimmed.match(/^(?:\*\*|__)(.+?)(?:\*\*|__)\s*[-–—:]/);
+    if (leadingBold) {
+      const name = cleanName(leadingBold[1]);
+      if (isPlausibleName(name)) add(name, "bold", null, trimmed);
+      continue;
+    }
+
+    // Short intro line ("Here are the best dating apps in India:")
+    if (trimmed.endsWith(":") && trimmed.length <= MAX_SECTION_LENGTH * 2) {
+      section = toSection(trimmed);
+    }
+  }
+
+  return entities;
+}
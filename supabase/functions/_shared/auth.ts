@@ -0,0 +1,131 @@
+// @ts-nocheck
+/**
+ * ============================================================================
+ * FORZEO AUTH
+ * ============================================================================
+ *
+ * Who is calling an edge function and what they may do with a client.
+ * Used by geo-audit, generate-content, run-scheduled-audits and
+ * manage-credentials with the service-role client.
+ *
+ * - Service role key as bearer token: trusted (scheduler, server-to-server)
+ * - User access token: role from organization_members (see permissions.ts)
+ * - Anything else (anon key, no header): anonymous, rejected unless
+ *   AUTH_REQUIRED=false (local development)
+ */
+
+import { can, canAccessClient, type Permission, type Role } from "./permissions.ts";
+
+export const AUTH_REQUIRED = Deno.env.get("AUTH_REQUIRED") !== "false";
+
+export interface Caller {
+  service: boolean;          // called with the service role key
+  user_id: string | null;    // signed-in user, null for service and anonymous calls
+}
+
+export interface Authorization {
+  allowed: boolean;
+  status: number;            // 401 not signed in, 403 no access or role too low
+  error?: string;
+  caller: Caller;
+  role?: Role | null;
+}
+
+/**
+ * Resolve the caller from the Authorization header
+ */
+export async function resolveCaller(req: Request, supabase, serviceKey: string): Promise<Caller> {
+  const token = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "").trim();
+  if (!token) return { service: false, user_id: null };
+  if (serviceKey && token === serviceKey) return { service: true, user_id: null };
+  if (!supabase) return { service: false, user_id: null };
+  try {
+    const { data, error } = await supabase.auth.getUser(token);
+    return { service: false, user_id: error ? null : data?.user?.id || null };
+  } catch {
+    return { service: false, user_id: null };
+  }
+}
+
+/**
+ * The user's role for a client: its organization membership, if it covers the client
+ */
+export async function getClientRole(supabase, userId: string, clientId: string): Promise<Role | null> {
+  const { data: client } = await supabase
+    .from("clients").select("organization_id").eq("id", clientId).maybeSingle();
+  if (!client?.organization_id) return null;
+
+  const { data: member } = await supabase
+    .from("organization_members")
+    .select("role, client_ids")
+    .eq("organization_id", client.organization_id)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (!member || !canAccessClient(member, clientId)) return null;
+  return member.role;
+}
+
+/**
+ * The user's role in an organization
+ */
+export async function getOrganizationRole(supabase, userId: string, organizationId: string): Promise<Role | null> {
+  const { data: member } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", organizationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return member?.role || null;
+}
+
+/**
+ * Check the caller may use `permission` on a client
+ * Only read-only "view" calls (estimates, scoring) may leave out the client;
+ * everything else needs one so it runs on that organization's keys and limits
+ */
+export async function authorize(
+  req: Request,
+  supabase,
+  serviceKey: string,
+  clientId: string | null | undefined,
+  permission: Permission
+): Promise<Authorization> {
+  const caller = await resolveCaller(req, supabase, serviceKey);
+  if (caller.service || !AUTH_REQUIRED) return { allowed: true, status: 200, caller };
+  if (!caller.user_id) return { allowed: false, status: 401, error: "Sign in required", caller };
+  if (!clientId) {
+    return permission === "view"
+      ? { allowed: true, status: 200, caller }
+      : { allowed: false, status: 400, error: "client_id is required", caller };
+  }
+
+  const role = await getClientRole(supabase, caller.user_id, clientId);
+  if (!role) return { allowed: false, status: 403, error: "No access to this client", caller, role };
+  if (!can(role, permission)) {
+    return { allowed: false, status: 403, error: `Your role (${role}) can't ${permission.replace(/_/g, " ")}`, caller, role };
+  }
+  return { allowed: true, status: 200, caller, role };
+}
+
+/**
+ * Check the caller may use `permission` on an organization (settings that aren't per client)
+ */
+export async function authorizeOrganization(
+  req: Request,
+  supabase,
+  serviceKey: string,
+  organizationId: string | null | undefined,
+  permission: Permission
+): Promise<Authorization> {
+  const caller = await resolveCaller(req, supabase, serviceKey);
+  if (caller.service || !AUTH_REQUIRED) return { allowed: true, status: 200, caller };
+  if (!caller.user_id) return { allowed: false, status: 401, error: "Sign in required", caller };
+  if (!organizationId) return { allowed: false, status: 400, error: "organization_id is required", caller };
+
+  const role = await getOrganizationRole(supabase, caller.user_id, organizationId);
+  if (!role) return { allowed: false, status: 403, error: "Not a member of this organization", caller, role };
+  if (!can(role, permission)) {
+    return { allowed: false, status: 403, error: `Your role (${role}) can't ${permission.replace(/_/g, " ")}`, caller, role };
+  }
+  return { allowed: true, status: 200, caller, role };
+}
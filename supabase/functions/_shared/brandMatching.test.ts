@@ -0,0 +1,178 @@
+/**
+ * Brand matching against AI answers in the shape geo-audit stores them
+ * (audit_results.model_results[].raw_response) for the seeded clients.
+ *
+ * Run: deno test --allow-net --allow-env supabase/functions/_shared/
+ */
+
+import assert from "node:assert/strict";
+import {
+  countEntityMentions,
+  entityDisplayName,
+  findEntityMatches,
+  matchedEntityTerms,
+  mentionsEntity,
+  normalizeEntityName,
+  parseEntity,
+  withLanguageAliases,
+} from "./brandMatching.ts";
+
+// ============================================
+// FIXTURES
+// ============================================
+
+// Juleo (India, Dating/Matrimony) - ChatGPT, "Best dating apps in India 2025"
+const JULEO_CHATGPT = `Here are some of the best dating apps in India for 2025:
+
+1. **Bumble** - Women make the first move. Bumble's verification badge and Bumble’s BFF mode make it popular in metro cities.
+2. **Hinge** - "Designed to be deleted." Hinge's prompts help start conversations; everything is hinged on detailed profiles.
+3. **Aisle** - Built for Indians looking for serious relationships. Aisle focuses on intent.
+4. **Tinder** - The largest user base, best for casual dating.
+5. **Juleo Club** - A trusted singles club with verified profiles.
+
+Whether the match works out often hinges on how honest both profiles are. Many couples who met on Aisle are now walking down the aisle, and grocery aisles are no longer the only place to meet people.`;
+
+// Juleo - Perplexity answer that also mentions a different company with a competitor's name
+const JULEO_PERPLEXITY = `Hinge Health, the digital physiotherapy company, is unrelated to dating. For relationships, Hinge and Bumble lead among urban users, while Hinges' free tier is more limited than Tinder's.`;
+
+// Post House Dental (Surrey, UK) - Google AI Overview, "best dentist in Surrey"
+const PHD_AI_OVERVIEW = `Post House Dental in Cobham is highly rated for implants. Patients praise Post House for short waiting times, and PHD Surrey offers Invisalign. Dr. Patel, who holds a PhD in dental surgery, leads the team. Other options include Bupa Dental and MyDentist; the phd program at King's is unrelated.`;
+
+// Bumble (Thailand, th) - Gemini, Thai answer
+const BUMBLE_GEMINI_TH = `แอปหาคู่ยอดนิยมในประเทศไทย ได้แก่ ทินเดอร์ บัมเบิล และ Tinder Gold สำหรับผู้ใช้ที่ต้องการฟีเจอร์เพิ่ม บัมเบิลให้ผู้หญิงเริ่มทักก่อน`;
+
+// Bumble (Japan, ja) - ChatGPT, Japanese answer
+const BUMBLE_CHATGPT_JA = `日本で人気のマッチングアプリには、ティンダー、Bumble、ペアーズがあります。ティンダーは利用者が多いです。`;
+
+// ============================================
+// WORD BOUNDARIES & PLURALS
+// ============================================
+
+Deno.test("Hinge does not match hinged or hinges", () => {
+  const hinge = parseEntity("Hinge");
+  const matches = findEntityMatches(JULEO_CHATGPT, hinge);
+  assert.deepEqual(matches.map(m => m.text), ["Hinge", "Hinge's"]);
+});
+
+Deno.test("Aisle does not match aisles, but matches aisle in any casing", () => {
+  const matches = findEntityMatches(JULEO_CHATGPT, parseEntity("Aisle"));
+  assert.deepEqual(matches.map(m => m.text), ["Aisle", "Aisle", "Aisle", "aisle"]);
+});
+
+Deno.test("=Aisle only matches the exact casing", () => {
+  assert.equal(countEntityMentions(JULEO_CHATGPT, parseEntity("=Aisle")), 3);
+});
+
+Deno.test("plurals match only when the stem is written like the term", () => {
+  const tinder = parseEntity("Tinder");
+  assert.equal(countEntityMentions("Two Tinders open at once", tinder), 1);
+  assert.equal(countEntityMentions("two tinders open at once", tinder), 0);
+});
+
+// ============================================
+// POSSESSIVES
+// ============================================
+
+Deno.test("straight and curly possessives match", () => {
+  const matches = findEntityMatches(JULEO_CHATGPT, parseEntity("Bumble"));
+  assert.deepEqual(matches.map(m => m.text), ["Bumble", "Bumble's", "Bumble's"]);
+});
+
+Deno.test("a plural possessive counts (the match stops before the apostrophe)", () => {
+  const matches = findEntityMatches(JULEO_PERPLEXITY, parseEntity("Hinge"));
+  assert.deepEqual(matches.map(m => m.text), ["Hinge", "Hinge", "Hinges"]);
+});
+
+Deno.test("match indexes point into the original text", () => {
+  const [, , curly] = findEntityMatches(JULEO_CHATGPT, parseEntity("Bumble"));
+  assert.equal(JULEO_CHATGPT.slice(curly.index, curly.end), "Bumble’s");
+});
+
+// ============================================
+// EXCLUSIONS
+// ============================================
+
+Deno.test("-Hinge Health cancels matches inside it", () => {
+  const hinge = parseEntity("Hinge | Hinge App | -Hinge Health");
+  assert.equal(hinge.name, "Hinge");
+  assert.deepEqual(hinge.exclude.map(t => t.text), ["Hinge Health"]);
+  assert.deepEqual(findEntityMatches(JULEO_PERPLEXITY, hinge).map(m => m.text), ["Hinge", "Hinges"]);
+});
+
+Deno.test("the display name drops aliases, exclusions and the case marker", () => {
+  assert.equal(entityDisplayName("Hinge | Hinge App | -Hinge Health"), "Hinge");
+  assert.equal(entityDisplayName("=Aisle"), "Aisle");
+});
+
+// ============================================
+// CASE SENSITIVITY
+// ============================================
+
+Deno.test("short terms like PHD are case-sensitive", () => {
+  const phd = parseEntity("PHD");
+  assert.equal(phd.terms[0].caseSensitive, true);
+  assert.equal(countEntityMentions(PHD_AI_OVERVIEW, phd), 1);
+  assert.equal(mentionsEntity("She has a PhD and a phd thesis", phd), false);
+});
+
+Deno.test("longer terms are case-insensitive", () => {
+  assert.equal(countEntityMentions("post house dental is in Cobham", parseEntity("Post House Dental")), 1);
+});
+
+// ============================================
+// OVERLAPS
+// ============================================
+
+Deno.test("overlapping brand terms count once, the longest term wins", () => {
+  const brand = parseEntity("Post House Dental", ["Post House", "PHD Surrey"]);
+  const matches = findEntityMatches(PHD_AI_OVERVIEW, brand);
+  assert.deepEqual(matches.map(m => m.text), ["Post House Dental", "Post House", "PHD Surrey"]);
+  assert.deepEqual(matchedEntityTerms(matches, brand), ["Post House Dental", "Post House", "PHD Surrey"]);
+});
+
+Deno.test("a brand tag inside the brand name does not double count", () => {
+  const brand = parseEntity("Juleo", ["Juleo Club"]);
+  const matches = findEntityMatches(JULEO_CHATGPT, brand);
+  assert.deepEqual(matches.map(m => m.text), ["Juleo Club"]);
+  assert.deepEqual(matchedEntityTerms(matches, brand), ["Juleo Club"]);
+});
+
+// ============================================
+// LANGUAGE ALIASES (THAI / CJK)
+// ============================================
+
+Deno.test("Thai aliases from withLanguageAliases match without word boundaries", () => {
+  const { brandTags, competitors } = withLanguageAliases(["Bumble App"], ["Tinder", "Hinge"], {
+    brand: ["บัมเบิล"],
+    competitors: { Tinder: ["ทินเดอร์"] },
+  });
+  assert.deepEqual(brandTags, ["Bumble App", "บัมเบิล"]);
+  assert.deepEqual(competitors, ["Tinder | ทินเดอร์", "Hinge"]);
+
+  assert.equal(countEntityMentions(BUMBLE_GEMINI_TH, parseEntity("Bumble", brandTags)), 2);
+  const tinder = parseEntity(competitors[0]);
+  assert.equal(tinder.name, "Tinder");
+  assert.deepEqual(findEntityMatches(BUMBLE_GEMINI_TH, tinder).map(m => m.text), ["ทินเดอร์", "Tinder"]);
+});
+
+Deno.test("Japanese aliases match inside unspaced text", () => {
+  const { competitors } = withLanguageAliases([], ["Tinder"], { competitors: { tinder: ["ティンダー"] } });
+  assert.deepEqual(competitors, ["Tinder | ティンダー"]);
+  assert.equal(countEntityMentions(BUMBLE_CHATGPT_JA, parseEntity(competitors[0])), 2);
+  assert.equal(countEntityMentions(BUMBLE_CHATGPT_JA, parseEntity("Bumble")), 1);
+});
+
+Deno.test("no aliases for the language leaves tags and competitors unchanged", () => {
+  const input = { brandTags: ["Juleo Club"], competitors: ["Bumble", "Hinge | -Hinge Health"] };
+  assert.deepEqual(withLanguageAliases(input.brandTags, input.competitors, null), input);
+  assert.deepEqual(withLanguageAliases(input.brandTags, input.competitors, { brand: [" "] }), input);
+});
+
+// ============================================
+// NAME NORMALIZATION
+// ============================================
+
+Deno.test("normalizeEntityName folds case, possessives and spacing", () => {
+  assert.equal(normalizeEntityName("Bumble’s"), "bumble");
+  assert.equal(normalizeEntityName("  Post   House Dental "), "post house dental");
+});
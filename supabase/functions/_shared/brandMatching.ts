@@ -0,0 +1,259 @@
+/**
+ * ============================================================================
+ * FORZEO BRAND MATCHING
+ * ============================================================================
+ *
+ * Entity-aware matching of brands and competitors in AI responses. Shared by
+ * geo-audit (Deno) and the dashboard hook (Vite), so it has no imports and no
+ * runtime-specific APIs.
+ *
+ * ============================================================================
+ * MATCHING RULES
+ * ============================================================================
+ *
+ * - Word boundaries are Unicode-aware: "Hinge" does not match "hinged" and
+ *   "Aisle" does not match "aisles", "Café" matches in "Café Coffee Day"
+ * - Possessives always match: "Bumble's", "Bumble’s", "Hinges'"
+ * - Plurals ("Teslas") only match when the stem is written exactly as the term
+ * - Terms of 3 characters or less are case-sensitive ("PHD" != "phd")
+ * - Overlapping matches of several terms count once ("Post House Dental")
+ * - Terms in scripts written without spaces (Thai, Chinese, Japanese, Lao,
+ *   Khmer, Myanmar) match anywhere in the text, without plural handling
+ *
+ * ============================================================================
+ * LANGUAGE ALIASES
+ * ============================================================================
+ *
+ * clients.settings.language_aliases holds extra terms per audit language, e.g.
+ * a Thai transliteration of the brand. withLanguageAliases() folds them into
+ * the brand tags and competitor entries before matching:
+ *
+ *   { "th": { "brand": ["บัมเบิล"], "competitors": { "Tinder": ["ทินเดอร์"] } } }
+ *
+ * ============================================================================
+ * TERM SYNTAX (brand tags and competitor entries)
+ * ============================================================================
+ *
+ *   Hinge                          plain term
+ *   =Aisle                         case-sensitive term
+ *   -Hinge Health                  exclusion: matches inside it are ignored
+ *   Hinge | Hinge App | -Hinge Health
+ *                                  competitor with aliases; the first part is
+ *                                  the display name
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MatchTerm {
+  text: string;
+  caseSensitive: boolean;
+}
+
+export interface EntitySpec {
+  name: string;          // display name
+  terms: MatchTerm[];    // name + aliases
+  exclude: MatchTerm[];  // phrases that cancel overlapping matches
+}
+
+export interface LanguageAliases {
+  brand?: string[];                         // extra brand terms
+  competitors?: Record<string, string[]>;   // display name -> extra terms
+}
+
+export interface EntityMatch {
+  term: string;   // which term matched
+  text: string;   // matched text including any possessive/plural suffix
+  index: number;
+  end: number;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Letters, digits and combining marks in any script
+const WORD_CHARS = "\\p{L}\\p{N}\\p{M}";
+
+// Scripts without spaces between words: word boundaries can't be detected
+const UNSPACED_SCRIPT = /[\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+// Typographic apostrophes are folded to ' (same length, so indexes stay valid)
+const APOSTROPHES = /[’‘ʼ`´]/g;
+
+// Terms this short only match with the exact casing
+const CASE_SENSITIVE_MAX_LENGTH = 3;
+
+const patternCache = new Map<string, RegExp>();
+
+// ============================================
+// TERM PARSING
+// ============================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Parse one term ("=PHD", "-Hinge Health", "Bumble")
+ * Returns null for empty input
+ */
+export function parseMatchTerm(raw: string): { term: MatchTerm; exclude: boolean } | null {
+  let text = (raw || "").trim();
+  let exclude = false;
+  let caseSensitive: boolean | null = null;
+
+  if (text.startsWith("-")) {
+    exclude = true;
+    text = text.slice(1).trim();
+  }
+  if (text.startsWith("=")) {
+    caseSensitive = true;
+    text = text.slice(1).trim();
+  }
+  if (!text) return null;
+
+  text = text.normalize("NFC").replace(APOSTROPHES, "'");
+  return { term: { text, caseSensitive: caseSensitive ?? text.length <= CASE_SENSITIVE_MAX_LENGTH }, exclude };
+}
+
+/**
+ * Build an entity from a name (optionally "Name | alias | -exclusion") plus extra terms
+ * e.g. parseEntity(client.brand_name, client.brand_tags) or parseEntity(competitor)
+ */
+export function parseEntity(raw: string, extraTerms: string[] = []): EntitySpec {
+  const parts = (raw || "").split("|");
+  const entity: EntitySpec = {
+    name: parts[0].trim().replace(/^[=-]\s*/, ""),
+    terms: [],
+    exclude: [],
+  };
+
+  for (const part of [...parts, ...extraTerms]) {
+    const parsed = parseMatchTerm(part);
+    if (!parsed) continue;
+    const list = parsed.exclude ? entity.exclude : entity.terms;
+    if (!list.some(t => t.text === parsed.term.text && t.caseSensitive === parsed.term.caseSensitive)) {
+      list.push(parsed.term);
+    }
+  }
+  return entity;
+}
+
+/**
+ * Brand tags and competitor entries with one language's aliases added
+ * Competitor aliases are appended to the entry with the same display name
+ */
+export function withLanguageAliases(
+  brandTags: string[],
+  competitors: string[],
+  aliases?: LanguageAliases | null
+): { brandTags: string[]; competitors: string[] } {
+  if (!aliases) return { brandTags, competitors };
+  const byName = new Map(
+    Object.entries(aliases.competitors || {}).map(([name, terms]) => [normalizeEntityName(name), terms])
+  );
+  return {
+    brandTags: [...brandTags, ...(aliases.brand || []).filter(t => t.trim())],
+    competitors: competitors.map(entry => {
+      const terms = (byName.get(normalizeEntityName(parseEntity(entry).name)) || []).filter(t => t.trim());
+      return terms.length > 0 ? [entry, ...terms].join(" | ") : entry;
+    }),
+  };
+}
+
+/**
+ * Display name of a competitor entry ("Hinge | -Hinge Health" -> "Hinge")
+ */
+export function entityDisplayName(raw: string): string {
+  return parseEntity(raw).name;
+}
+
+/**
+ * Canonical key for grouping names: case-folded, possessive removed, spaces collapsed
+ */
+export function normalizeEntityName(name: string): string {
+  return (name || "")
+    .normalize("NFC")
+    .replace(APOSTROPHES, "'")
+    .trim()
+    .replace(/'s?$/i, "")
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+function termPattern(term: MatchTerm): RegExp {
+  const key = `${term.caseSensitive ? "s" : "i"}:${term.text}`;
+  let pattern = patternCache.get(key);
+  if (!pattern) {
+    const body = term.text.split(/\s+/).map(escapeRegExp).join("\\s+");
+    // stem, then optional possessive ('s or a bare trailing ') or plural (s/es);
+    // unspaced scripts match the bare stem anywhere
+    const source = UNSPACED_SCRIPT.test(term.text)
+      ? `(${body})`
+      : `(?<![${WORD_CHARS}])(${body})('s|'(?![${WORD_CHARS}])|e?s)?(?![${WORD_CHARS}])`;
+    pattern = new RegExp(source, term.caseSensitive ? "gu" : "giu");
+    patternCache.set(key, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+}
+
+function findTermMatches(text: string, term: MatchTerm): EntityMatch[] {
+  const matches: EntityMatch[] = [];
+  const pattern = termPattern(term);
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(text)) !== null) {
+    const [full, stem, suffix] = m;
+    // Plural only when the stem is written exactly like the term ("Teslas", not "hinges")
+    const isPlural = suffix !== undefined && !suffix.startsWith("'");
+    if (!isPlural || stem === term.text) {
+      matches.push({ term: term.text, text: full, index: m.index, end: m.index + full.length });
+    }
+    if (full.length === 0) pattern.lastIndex++;
+  }
+  return matches;
+}
+
+/**
+ * Every non-overlapping match of an entity, in order of appearance
+ */
+export function findEntityMatches(text: string, entity: EntitySpec): EntityMatch[] {
+  if (!text || entity.terms.length === 0) return [];
+  const haystack = text.replace(APOSTROPHES, "'");
+
+  const excluded = entity.exclude.flatMap(term => findTermMatches(haystack, term));
+  const candidates = entity.terms
+    .flatMap(term => findTermMatches(haystack, term))
+    .filter(m => !excluded.some(x => m.index < x.end && x.index < m.end))
+    // Earliest first; at the same position the longest term wins
+    .sort((a, b) => a.index - b.index || (b.end - b.index) - (a.end - a.index));
+
+  const matches: EntityMatch[] = [];
+  for (const candidate of candidates) {
+    const last = matches[matches.length - 1];
+    if (!last || candidate.index >= last.end) matches.push(candidate);
+  }
+  return matches;
+}
+
+export function countEntityMentions(text: string, entity: EntitySpec): number {
+  return findEntityMatches(text, entity).length;
+}
+
+export function mentionsEntity(text: string, entity: EntitySpec): boolean {
+  return findEntityMatches(text, entity).length > 0;
+}
+
+/**
+ * Terms that matched at least once, in the order they were configured
+ */
+export function matchedEntityTerms(matches: EntityMatch[], entity: EntitySpec): string[] {
+  const hit = new Set(matches.map(m => m.term));
+  return entity.terms.map(t => t.text).filter(t => hit.has(t));
+}
@@ -0,0 +1,94 @@
+// @ts-nocheck
+/**
+ * ============================================================================
+ * FORZEO BUDGETS
+ * ============================================================================
+ *
+ * Monthly spend limits, read by geo-audit (audits, batches, estimates) and
+ * generate-content before any provider is called. Spend is read from
+ * forzeo_api_usage (get_monthly_spend), one row per provider call:
+ *
+ *   clients.settings.budget.monthly_limit_usd     per client
+ *   organizations.settings.monthly_budget_usd     per organization (+ max_audits_per_month)
+ *   MONTHLY_BUDGET_USD secret                     clients without an organization
+ *
+ * The tightest limit wins.
+ */
+
+// Monthly spend cap (USD) for clients without an organization - 0 = unlimited
+export const DEFAULT_MONTHLY_BUDGET_USD = parseFloat(Deno.env.get("MONTHLY_BUDGET_USD") || "0");
+
+export interface BudgetStatus {
+  limit_usd: number | null;        // tightest monthly limit, null = unlimited
+  spent_usd: number;               // spend this month counted against that limit
+  remaining_usd: number | null;
+  audits_remaining: number | null; // organizations.max_audits_per_month, null = unlimited
+  organization_id: string | null;
+}
+
+function startOfMonth(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+/**
+ * Month-to-date spend for a client, an organization, or everything (no scope)
+ */
+export async function getMonthlySpend(
+  supabase,
+  scope: { client_id?: string; organization_id?: string }
+): Promise<number> {
+  const { data, error } = await supabase.rpc("get_monthly_spend", {
+    p_client_id: scope.client_id || null,
+    p_organization_id: scope.organization_id || null,
+  });
+  if (error) throw new Error(`Failed to read monthly spend: ${error.message}`);
+  return Number(data?.[0]?.total_cost || 0);
+}
+
+/**
+ * Resolve the tightest monthly limit that applies to a client
+ */
+export async function getBudgetStatus(supabase, clientId?: string): Promise<BudgetStatus> {
+  const limits: Array<{ limit: number; spent: number }> = [];
+  let organizationId: string | null = null;
+  let auditsRemaining: number | null = null;
+
+  if (clientId) {
+    const { data: client } = await supabase.from("clients").select("*").eq("id", clientId).maybeSingle();
+    organizationId = client?.organization_id || null;
+    const clientLimit = Number(client?.settings?.budget?.monthly_limit_usd);
+    if (clientLimit > 0) {
+      limits.push({ limit: clientLimit, spent: await getMonthlySpend(supabase, { client_id: clientId }) });
+    }
+  }
+
+  if (organizationId) {
+    const { data: org } = await supabase
+      .from("organizations").select("settings, max_audits_per_month").eq("id", organizationId).maybeSingle();
+    const orgLimit = Number(org?.settings?.monthly_budget_usd);
+    if (orgLimit > 0) {
+      limits.push({ limit: orgLimit, spent: await getMonthlySpend(supabase, { organization_id: organizationId }) });
+    }
+    if (org?.max_audits_per_month) {
+      const { data: orgClients } = await supabase.from("clients").select("id").eq("organization_id", organizationId);
+      const { count } = await supabase
+        .from("audit_results")
+        .select("id", { count: "exact", head: true })
+        .in("client_id", (orgClients || []).map(c => c.id))
+        .gte("created_at", startOfMonth());
+      auditsRemaining = Math.max(0, org.max_audits_per_month - (count || 0));
+    }
+  } else if (DEFAULT_MONTHLY_BUDGET_USD > 0) {
+    limits.push({ limit: DEFAULT_MONTHLY_BUDGET_USD, spent: await getMonthlySpend(supabase, {}) });
+  }
+
+  const tightest = limits.sort((a, b) => (a.limit - a.spent) - (b.limit - b.spent))[0];
+  return {
+    limit_usd: tightest?.limit ?? null,
+    spent_usd: tightest?.spent ?? 0,
+    remaining_usd: tightest ? Math.max(0, tightest.limit - tightest.spent) : null,
+    audits_remaining: auditsRemaining,
+    organization_id: organizationId,
+  };
+}
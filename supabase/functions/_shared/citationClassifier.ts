@@ -0,0 +1,151 @@
+/**
+ * ============================================================================
+ * FORZEO CITATION CLASSIFIER
+ * ============================================================================
+ *
+ * Sorts every cited domain into a source class and gives it an authority
+ * weight (0-1) for the trust index. Shared by geo-audit (Deno) and the
+ * dashboard, so older citations can be classified on the fly.
+ *
+ * ============================================================================
+ * ORDER OF PRECEDENCE
+ * ============================================================================
+ *
+ *   1. Client override      clients.settings.source_overrides["g2.com"]
+ *   2. Brand-owned          brand domain, or domain named after the brand/tags
+ *   3. Competitor-owned     domain named after a tracked competitor
+ *   4. Domain rules         DOMAIN_RULES in citationRules.ts
+ *   5. Gov / edu suffixes   .gov, .edu, .ac.uk, .gov.in, ...
+ *   6. other
+ */
+
+import { parseEntity } from "./brandMatching.ts";
+import {
+  DOMAIN_RULES,
+  GOV_EDU_SUFFIXES,
+  SOURCE_CLASS_AUTHORITY,
+  type SourceClass,
+} from "./citationRules.ts";
+
+export { SOURCE_CLASS_LABELS, SOURCE_CLASS_AUTHORITY, type SourceClass } from "./citationRules.ts";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SourceOverride {
+  class: SourceClass;
+  authority?: number;
+}
+
+export interface SourceContext {
+  brandDomain?: string | null;
+  brandName?: string;
+  brandTags?: string[];
+  competitors?: string[];
+  overrides?: Record<string, SourceOverride>;
+}
+
+export interface SourceClassification {
+  source_class: SourceClass;
+  authority: number;
+}
+
+export const SOURCE_CLASSES: SourceClass[] = [
+  "brand", "competitor", "review", "marketplace", "news", "forum", "wikipedia", "gov_edu", "other",
+];
+
+// Second-level labels that sit under a country code (example.co.uk)
+const SECOND_LEVEL = new Set(["co", "com", "org", "net", "ac", "gov", "edu"]);
+
+// ============================================
+// DOMAIN HELPERS
+// ============================================
+
+export function normalizeDomain(domain: string): string {
+  return (domain || "")
+    .toLowerCase()
+    .trim()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/.*$/, "")
+    .replace(/:\d+$/, "")
+    .replace(/^www\./, "");
+}
+
+function matchesDomain(domain: string, rule: string): boolean {
+  return domain === rule || domain.endsWith("." + rule);
+}
+
+/**
+ * The registrable name of a domain: "blog.bumble.co.uk" -> "bumble"
+ */
+function mainLabel(domain: string): string {
+  const parts = domain.split(".");
+  if (parts.length >= 3 && SECOND_LEVEL.has(parts[parts.length - 2]) && parts[parts.length - 1].length === 2) {
+    return parts[parts.length - 3];
+  }
+  return parts.length >= 2 ? parts[parts.length - 2] : parts[0];
+}
+
+// "Truly Madly" -> "trulymadly"
+function squash(term: string): string {
+  return term.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+/**
+ * Does the domain belong to this entity? Terms containing a dot are treated as
+ * domains; other terms must equal the domain's main label once squashed
+ */
+function ownsDomain(domain: string, raw: string, extraTerms: string[] = []): boolean {
+  const entity = parseEntity(raw, extraTerms);
+  const label = mainLabel(domain);
+  return entity.terms.some(t => {
+    const text = t.text.toLowerCase();
+    if (text.includes(".")) return matchesDomain(domain, normalizeDomain(text));
+    const squashed = squash(text);
+    return squashed.length >= 3 && squashed === label;
+  });
+}
+
+function clampAuthority(value: number): number {
+  return Math.max(0, Math.min(1, Math.round(value * 100) / 100));
+}
+
+// ============================================
+// CLASSIFIER
+// ============================================
+
+export function classifySource(domain: string, ctx: SourceContext = {}): SourceClassification {
+  const host = normalizeDomain(domain);
+  const result = (source_class: SourceClass, authority?: number): SourceClassification => ({
+    source_class,
+    authority: clampAuthority(authority ?? SOURCE_CLASS_AUTHORITY[source_class]),
+  });
+  if (!host) return result("other");
+
+  // 1. Client overrides (exact domain or parent domain)
+  const overrides = ctx.overrides || {};
+  const overrideKey = Object.keys(overrides)
+    .filter(key => matchesDomain(host, normalizeDomain(key)))
+    .sort((a, b) => b.length - a.length)[0];
+  if (overrideKey && SOURCE_CLASSES.includes(overrides[overrideKey].class)) {
+    return result(overrides[overrideKey].class, overrides[overrideKey].authority);
+  }
+
+  // 2. Brand-owned
+  const brandDomain = normalizeDomain(ctx.brandDomain || "");
+  if (brandDomain && matchesDomain(host, brandDomain)) return result("brand");
+  if (ctx.brandName && ownsDomain(host, ctx.brandName, ctx.brandTags)) return result("brand");
+
+  // 3. Competitor-owned
+  if ((ctx.competitors || []).some(c => ownsDomain(host, c))) return result("competitor");
+
+  // 4. Domain rules
+  const rule = DOMAIN_RULES.find(r => matchesDomain(host, r.domain));
+  if (rule) return result(rule.class, rule.authority);
+
+  // 5. Government / education
+  if (GOV_EDU_SUFFIXES.some(suffix => host.endsWith(suffix))) return result("gov_edu");
+
+  return result("other");
+}
@@ -0,0 +1,151 @@
+/**
+ * ============================================================================
+ * FORZEO CITATION RULES
+ * ============================================================================
+ *
+ * Data for citationClassifier.ts. Add domains here; clients can override any
+ * domain in Settings (clients.settings.source_overrides).
+ *
+ * A rule matches the domain itself and every subdomain ("reddit.com" also
+ * matches "old.reddit.com"). The first matching rule wins, so put specific
+ * domains before broad ones. `authority` (0-1) overrides the class weight.
+ */
+
+export type SourceClass =
+  | "brand"
+  | "competitor"
+  | "review"
+  | "marketplace"
+  | "news"
+  | "forum"
+  | "wikipedia"
+  | "gov_edu"
+  | "other";
+
+export interface DomainRule {
+  domain: string;
+  class: SourceClass;
+  authority?: number;
+}
+
+export const SOURCE_CLASS_LABELS: Record<SourceClass, string> = {
+  brand: "Brand-owned",
+  competitor: "Competitor-owned",
+  review: "Review sites",
+  marketplace: "Marketplaces & app stores",
+  news: "News & media",
+  forum: "Forums & UGC",
+  wikipedia: "Wikipedia",
+  gov_edu: "Government & education",
+  other: "Other",
+};
+
+// Default authority per class: how much an AI answer citing it is worth for trust
+export const SOURCE_CLASS_AUTHORITY: Record<SourceClass, number> = {
+  brand: 0.6,
+  competitor: 0.2,
+  review: 0.8,
+  marketplace: 0.6,
+  news: 0.8,
+  forum: 0.5,
+  wikipedia: 0.9,
+  gov_edu: 1.0,
+  other: 0.4,
+};
+
+// Government / education suffixes (matched against the end of the domain)
+export const GOV_EDU_SUFFIXES = [
+  ".gov", ".edu", ".mil", ".int",
+  ".gov.in", ".nic.in", ".ac.in", ".edu.in", ".res.in",
+  ".gov.uk", ".nhs.uk", ".ac.uk", ".gov.au", ".edu.au", ".gc.ca",
+  ".europa.eu", ".who.int",
+];
+
+export const DOMAIN_RULES: DomainRule[] = [
+  // Wikipedia & reference
+  { domain: "wikipedia.org", class: "wikipedia" },
+  { domain: "wikimedia.org", class: "wikipedia" },
+  { domain: "britannica.com", class: "wikipedia", authority: 0.85 },
+
+  // Forums & user-generated content
+  { domain: "reddit.com", class: "forum", authority: 0.6 },
+  { domain: "quora.com", class: "forum" },
+  { domain: "stackexchange.com", class: "forum", authority: 0.6 },
+  { domain: "stackoverflow.com", class: "forum", authority: 0.6 },
+  { domain: "medium.com", class: "forum", authority: 0.4 },
+  { domain: "substack.com", class: "forum", authority: 0.4 },
+  { domain: "youtube.com", class: "forum" },
+  { domain: "tiktok.com", class: "forum", authority: 0.3 },
+  { domain: "x.com", class: "forum", authority: 0.3 },
+  { domain: "twitter.com", class: "forum", authority: 0.3 },
+  { domain: "facebook.com", class: "forum", authority: 0.3 },
+  { domain: "instagram.com", class: "forum", authority: 0.3 },
+  { domain: "linkedin.com", class: "forum", authority: 0.5 },
+  { domain: "pinterest.com", class: "forum", authority: 0.2 },
+  { domain: "mumsnet.com", class: "forum" },
+
+  // Review sites
+  { domain: "trustpilot.com", class: "review" },
+  { domain: "g2.com", class: "review", authority: 0.9 },
+  { domain: "capterra.com", class: "review" },
+  { domain: "getapp.com", class: "review" },
+  { domain: "softwareadvice.com", class: "review" },
+  { domain: "yelp.com", class: "review" },
+  { domain: "tripadvisor.com", class: "review" },
+  { domain: "glassdoor.com", class: "review" },
+  { domain: "consumerreports.org", class: "review", authority: 0.9 },
+  { domain: "which.co.uk", class: "review", authority: 0.9 },
+  { domain: "pcmag.com", class: "review" },
+  { domain: "techradar.com", class: "review" },
+  { domain: "cnet.com", class: "review" },
+  { domain: "tomsguide.com", class: "review" },
+  { domain: "nerdwallet.com", class: "review" },
+  { domain: "practo.com", class: "review" },
+  { domain: "justdial.com", class: "review", authority: 0.6 },
+  { domain: "mouthshut.com", class: "review", authority: 0.6 },
+  { domain: "sitejabber.com", class: "review", authority: 0.6 },
+  { domain: "reviews.io", class: "review" },
+
+  // Marketplaces & app stores
+  { domain: "apps.apple.com", class: "marketplace", authority: 0.7 },
+  { domain: "play.google.com", class: "marketplace", authority: 0.7 },
+  { domain: "amazon.com", class: "marketplace" },
+  { domain: "amazon.in", class: "marketplace" },
+  { domain: "amazon.co.uk", class: "marketplace" },
+  { domain: "flipkart.com", class: "marketplace" },
+  { domain: "ebay.com", class: "marketplace", authority: 0.5 },
+  { domain: "etsy.com", class: "marketplace", authority: 0.5 },
+  { domain: "walmart.com", class: "marketplace" },
+  { domain: "producthunt.com", class: "marketplace" },
+
+  // News & media
+  { domain: "nytimes.com", class: "news", authority: 0.95 },
+  { domain: "wsj.com", class: "news", authority: 0.95 },
+  { domain: "reuters.com", class: "news", authority: 0.95 },
+  { domain: "apnews.com", class: "news", authority: 0.95 },
+  { domain: "bbc.com", class: "news", authority: 0.95 },
+  { domain: "bbc.co.uk", class: "news", authority: 0.95 },
+  { domain: "theguardian.com", class: "news", authority: 0.9 },
+  { domain: "forbes.com", class: "news" },
+  { domain: "businessinsider.com", class: "news" },
+  { domain: "techcrunch.com", class: "news" },
+  { domain: "theverge.com", class: "news" },
+  { domain: "wired.com", class: "news" },
+  { domain: "bloomberg.com", class: "news", authority: 0.95 },
+  { domain: "cnbc.com", class: "news" },
+  { domain: "cnn.com", class: "news" },
+  { domain: "timesofindia.indiatimes.com", class: "news" },
+  { domain: "indiatimes.com", class: "news" },
+  { domain: "hindustantimes.com", class: "news" },
+  { domain: "thehindu.com", class: "news" },
+  { domain: "ndtv.com", class: "news" },
+  { domain: "livemint.com", class: "news" },
+  { domain: "economictimes.com", class: "news" },
+  { domain: "indianexpress.com", class: "news" },
+  { domain: "news.google.com", class: "news" },
+
+  // Health reference sites (authoritative, not government)
+  { domain: "mayoclinic.org", class: "gov_edu", authority: 0.95 },
+  { domain: "webmd.com", class: "news", authority: 0.8 },
+  { domain: "healthline.com", class: "news", authority: 0.8 },
+];
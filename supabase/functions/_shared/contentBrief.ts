@@ -0,0 +1,240 @@
+/**
+ * ============================================================================
+ * FORZEO CONTENT BRIEFS
+ * ============================================================================
+ *
+ * A brief for one prompt the brand is losing, built from its audit gaps:
+ * the competitors that won, the entities listed ahead of the brand and the
+ * domains the answers cite. Shared by generate-content (builds the request,
+ * validates the model's JSON) and the dashboard (collects the gaps, edits
+ * and saves briefs to content_briefs), so it has no imports.
+ *
+ * validateContentBrief() is the schema: it trims and caps every field,
+ * drops empty entries and reports what is missing. A brief with errors is
+ * never saved.
+ */
+
+export type BriefContentType = "article" | "listicle" | "comparison" | "guide" | "faq";
+
+export interface BriefSection {
+  heading: string;
+  points: string[];
+}
+
+export interface BriefSource {
+  domain: string;
+  reason: string;              // why being listed there matters for this prompt
+}
+
+export interface ContentBrief {
+  title: string;
+  angle: string;               // what the piece must do to win the prompt
+  content_type: BriefContentType;
+  word_count: number;
+  target_keywords: string[];
+  outline: BriefSection[];
+  sources_to_get_listed_on: BriefSource[];
+  competitors_to_address: string[];
+}
+
+// What the audit says about a prompt (input of a brief, stored with it)
+export interface BriefGaps {
+  prompt_text: string;
+  brand_name: string;
+  brand_missing_in: string[];                                        // model names that didn't mention the brand
+  winners: Array<{ name: string; models: string[] }>;                // winner_brand per model, brand excluded
+  entities_ahead: Array<{ name: string; best_position: number; models: string[] }>; // listed before the brand
+  cited_domains: Array<{ domain: string; citations: number; source_class?: string }>;
+}
+
+export const BRIEF_CONTENT_TYPES: BriefContentType[] = ["article", "listicle", "comparison", "guide", "faq"];
+
+export const BRIEF_LIMITS = {
+  title: 200,
+  angle: 600,
+  text: 300,                   // heading, point, reason, keyword, name
+  keywords: 15,
+  sections: 12,
+  points: 8,
+  sources: 15,
+  competitors: 10,
+  word_count: [300, 5000] as [number, number],
+};
+
+const GAP_LIMITS = { winners: 10, entities: 15, domains: 15, models: 12 };
+
+// ============================================
+// SCHEMA
+// ============================================
+
+function text(value: unknown, max = BRIEF_LIMITS.text): string {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim().slice(0, max) : "";
+}
+
+function textList(value: unknown, maxItems: number): string[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value.map(v => text(v)).filter(v => {
+    const key = v.toLowerCase();
+    if (!v || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, maxItems);
+}
+
+function domainOf(value: unknown): string {
+  return text(value).toLowerCase().replace(/^https?:\/\//, "").replace(/^www\./, "").split(/[/?#\s]/)[0];
+}
+
+/**
+ * Check (and normalize) a brief; `brief` is null when a required field is missing
+ */
+export function validateContentBrief(value: unknown): { brief: ContentBrief | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { brief: null, errors: ["Brief must be a JSON object"] };
+  }
+  const raw = value as Record<string, unknown>;
+
+  const title = text(raw.title, BRIEF_LIMITS.title);
+  if (!title) errors.push("title is required");
+
+  const angle = text(raw.angle, BRIEF_LIMITS.angle);
+
+  const type = text(raw.content_type).toLowerCase();
+  const content_type = (BRIEF_CONTENT_TYPES as string[]).includes(type) ? type as BriefContentType : "article";
+
+  const [minWords, maxWords] = BRIEF_LIMITS.word_count;
+  const words = Math.round(Number(raw.word_count));
+  const word_count = isFinite(words) && words > 0 ? Math.min(maxWords, Math.max(minWords, words)) : 1200;
+
+  const target_keywords = textList(raw.target_keywords, BRIEF_LIMITS.keywords);
+  if (target_keywords.length === 0) errors.push("target_keywords needs at least one keyword");
+
+  const outline: BriefSection[] = (Array.isArray(raw.outline) ? raw.outline : [])
+    .map(section => typeof section === "string"
+      ? { heading: text(section), points: [] }
+      : { heading: text(section?.heading), points: textList(section?.points, BRIEF_LIMITS.points) })
+    .filter(section => section.heading)
+    .slice(0, BRIEF_LIMITS.sections);
+  if (outline.length === 0) errors.push("outline needs at least one section");
+
+  const seenDomains = new Set<string>();
+  const sources_to_get_listed_on: BriefSource[] = (Array.isArray(raw.sources_to_get_listed_on) ? raw.sources_to_get_listed_on : [])
+    .map(source => typeof source === "string"
+      ? { domain: domainOf(source), reason: "" }
+      : { domain: domainOf(source?.domain), reason: text(source?.reason) })
+    .filter(source => {
+      if (!source.domain || !source.domain.includes(".") || seenDomains.has(source.domain)) return false;
+      seenDomains.add(source.domain);
+      return true;
+    })
+    .slice(0, BRIEF_LIMITS.sources);
+
+  const competitors_to_address = textList(raw.competitors_to_address, BRIEF_LIMITS.competitors);
+
+  if (errors.length > 0) return { brief: null, errors };
+  return {
+    brief: { title, angle, content_type, word_count, target_keywords, outline, sources_to_get_listed_on, competitors_to_address },
+    errors,
+  };
+}
+
+/**
+ * The JSON object in a model's answer (code fences and chatter around it are ignored)
+ */
+export function parseBriefJSON(response: string): unknown {
+  const unfenced = response.replace(/```(?:json)?/gi, "");
+  const start = unfenced.indexOf("{");
+  const end = unfenced.lastIndexOf("}");
+  if (start < 0 || end <= start) return null;
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// GAPS
+// ============================================
+
+/**
+ * Gaps from a request body, trimmed and capped (never trust the browser's copy)
+ */
+export function sanitizeBriefGaps(value: unknown): BriefGaps | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, any>;
+  const prompt_text = text(raw.prompt_text, 500);
+  if (!prompt_text) return null;
+  const models = (v: unknown) => textList(v, GAP_LIMITS.models);
+  return {
+    prompt_text,
+    brand_name: text(raw.brand_name, 100),
+    brand_missing_in: models(raw.brand_missing_in),
+    winners: (Array.isArray(raw.winners) ? raw.winners : [])
+      .map(w => ({ name: text(w?.name, 100), models: models(w?.models) }))
+      .filter(w => w.name).slice(0, GAP_LIMITS.winners),
+    entities_ahead: (Array.isArray(raw.entities_ahead) ? raw.entities_ahead : [])
+      .map(e => ({ name: text(e?.name, 100), best_position: Math.max(1, Math.round(Number(e?.best_position)) || 1), models: models(e?.models) }))
+      .filter(e => e.name).slice(0, GAP_LIMITS.entities),
+    cited_domains: (Array.isArray(raw.cited_domains) ? raw.cited_domains : [])
+      .map(d => ({ domain: domainOf(d?.domain), citations: Math.max(1, Math.round(Number(d?.citations)) || 1), source_class: text(d?.source_class, 30) || undefined }))
+      .filter(d => d.domain).slice(0, GAP_LIMITS.domains),
+  };
+}
+
+export function hasBriefGaps(gaps: BriefGaps): boolean {
+  return gaps.brand_missing_in.length > 0 || gaps.winners.length > 0 || gaps.entities_ahead.length > 0 || gaps.cited_domains.length > 0;
+}
+
+/**
+ * User message for a content_brief request
+ */
+export function buildBriefRequest(gaps: BriefGaps): string {
+  const list = (items: string[]) => items.length > 0 ? items.map(i => `- ${i}`).join("\n") : "- none";
+  return `Create a content brief so that "${gaps.brand_name}" is recommended by AI assistants for this search prompt:
+"${gaps.prompt_text}"
+
+Models that did not mention ${gaps.brand_name}:
+${list(gaps.brand_missing_in)}
+
+Brands that won the answer (first recommendation):
+${list(gaps.winners.map(w => `${w.name} (${w.models.join(", ")})`))}
+
+Entities listed ahead of ${gaps.brand_name}:
+${list(gaps.entities_ahead.map(e => `${e.name} - best position ${e.best_position} (${e.models.join(", ")})`))}
+
+Domains the answers cite:
+${list(gaps.cited_domains.map(d => `${d.domain} - ${d.citations} citation${d.citations === 1 ? "" : "s"}${d.source_class ? `, ${d.source_class}` : ""}`))}
+
+The outline must cover what the winning brands are recommended for. Pick sources_to_get_listed_on from the cited domains (reviews, listicles, forums, news) where ${gaps.brand_name} should appear, each with the reason. Put the winners and entities ahead of the brand that the piece must compare against in competitors_to_address.`;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Markdown for copying a brief into a doc or ticket
+ */
+export function briefToMarkdown(brief: ContentBrief): string {
+  const lines = [
+    `# ${brief.title}`,
+    "",
+    brief.angle,
+    "",
+    `**Type:** ${brief.content_type} · **Length:** ~${brief.word_count} words`,
+    `**Target keywords:** ${brief.target_keywords.join(", ")}`,
+    "",
+    "## Outline",
+    ...brief.outline.flatMap(section => [`### ${section.heading}`, ...section.points.map(p => `- ${p}`)]),
+  ];
+  if (brief.competitors_to_address.length > 0) {
+    lines.push("", "## Competitors to address", ...brief.competitors_to_address.map(c => `- ${c}`));
+  }
+  if (brief.sources_to_get_listed_on.length > 0) {
+    lines.push("", "## Sources to get listed on", ...brief.sources_to_get_listed_on.map(s => `- ${s.domain}${s.reason ? ` - ${s.reason}` : ""}`));
+  }
+  return lines.join("\n");
+}
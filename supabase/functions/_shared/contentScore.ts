@@ -0,0 +1,565 @@
+/**
+ * ============================================================================
+ * FORZEO GEO CONTENT SCORE
+ * ============================================================================
+ *
+ * Predicts how citable a Markdown draft is for AI answers before it is
+ * published. Used by score-content (the scoring endpoint) and by
+ * generate-content, whose writing requirements are the CONTENT_RULES below,
+ * so a generated draft is asked for exactly what the scorer checks. No
+ * runtime-specific APIs.
+ *
+ * ============================================================================
+ * FACTORS (100 points)
+ * ============================================================================
+ *
+ * | Factor      | Points | Checks                                                          |
+ * |-------------|--------|-----------------------------------------------------------------|
+ * | entities    | 20     | brand and competitors named, defined where first mentioned      |
+ * | structure   | 20     | headings, lists, tables, no wall-of-text paragraphs             |
+ * | faq         | 20     | tracked prompts answered by a section, question headings        |
+ * | specificity | 15     | numbers, dates and prices per 100 words; vague wording          |
+ * | brand       | 15     | brand mentions in range, in the introduction, not stuffed       |
+ * | schema      | 10     | JSON-LD present, or structure ready for FAQPage/HowTo/ItemList  |
+ *
+ * Every finding is a suggestion tied to a line of the draft (1-based, null
+ * when it concerns the whole draft). Each CONTENT_RULES entry of the draft's
+ * type is checked and reported as passed or failed; failures are
+ * suggestions too. Schema suggestions carry JSON-LD built from the draft.
+ */
+
+import { findEntityMatches, parseEntity, type EntitySpec } from "./brandMatching.ts";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ScoredContentType = "article" | "listicle" | "comparison" | "guide" | "faq";
+
+export type GeoFactorId = "entities" | "structure" | "faq" | "specificity" | "brand" | "schema";
+
+export type ContentRuleId =
+  | "headings" | "numbered_list" | "table" | "question_headings" | "callouts"
+  | "word_count" | "specifics" | "brand_mentions" | "named_entities" | "pros_cons";
+
+export interface ContentRule {
+  id: ContentRuleId;
+  requirement: string;         // line of the generation prompt
+  min?: number;
+  max?: number;
+}
+
+export interface RuleCheck {
+  id: ContentRuleId;
+  requirement: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface GeoFactor {
+  id: GeoFactorId;
+  label: string;
+  score: number;
+  max: number;
+  detail: string;
+}
+
+export interface GeoSuggestion {
+  line: number | null;         // 1-based line of the draft, null for the whole draft
+  severity: "high" | "medium" | "low";
+  factor: GeoFactorId | "rules";
+  message: string;
+}
+
+export interface SchemaSuggestion {
+  type: "Article" | "FAQPage" | "HowTo" | "ItemList";
+  reason: string;
+  json_ld: string;
+}
+
+export interface GeoScore {
+  score: number;               // 0-100
+  type: ScoredContentType;
+  factors: GeoFactor[];
+  rules: RuleCheck[];
+  suggestions: GeoSuggestion[];
+  schema: SchemaSuggestion[];
+  stats: {
+    words: number;
+    headings: number;
+    list_items: number;
+    tables: number;
+    questions: number;
+    facts: number;
+    brand_mentions: number;
+    prompts_covered: number;
+    prompts_total: number;
+  };
+}
+
+export interface ScoreContext {
+  type: ScoredContentType;
+  brandName?: string;
+  brandTags?: string[];
+  competitors?: string[];      // competitor entries (term syntax of brandMatching.ts)
+  prompts?: string[];          // the client's tracked prompts
+}
+
+// ============================================
+// RULES (per content type)
+// ============================================
+
+export const SCORED_CONTENT_TYPES: ScoredContentType[] = ["article", "listicle", "comparison", "guide", "faq"];
+
+export const CONTENT_RULES: Record<ScoredContentType, ContentRule[]> = {
+  article: [
+    { id: "headings", requirement: "Use clear headings (H2, H3) for structure", min: 3 },
+    { id: "numbered_list", requirement: "Include numbered lists where appropriate", min: 3 },
+    { id: "word_count", requirement: "Target 600-1000 words", min: 600, max: 1000 },
+    { id: "specifics", requirement: "Include factual, verifiable information (numbers, dates, prices)", min: 5 },
+    { id: "brand_mentions", requirement: "Naturally incorporate the brand 2-3 times if specified", min: 2, max: 3 },
+  ],
+  listicle: [
+    { id: "numbered_list", requirement: "Use numbered lists (1. 2. 3.) as the primary format", min: 5 },
+    { id: "named_entities", requirement: "Mention specific brands/products by name", min: 3 },
+    { id: "word_count", requirement: "Target 500-800 words", min: 500, max: 800 },
+    { id: "pros_cons", requirement: "Include pros and cons where relevant" },
+  ],
+  comparison: [
+    { id: "pros_cons", requirement: "Compare features, pros, and cons objectively" },
+    { id: "table", requirement: "Use tables where appropriate (Markdown tables)", min: 1 },
+    { id: "specifics", requirement: "Include specific details and data points", min: 5 },
+    { id: "word_count", requirement: "Target 600-900 words", min: 600, max: 900 },
+  ],
+  guide: [
+    { id: "numbered_list", requirement: "Use numbered steps for instructions", min: 3 },
+    { id: "callouts", requirement: "Include tips and best practices in callout boxes (> **Tip:** ...)", min: 1 },
+    { id: "word_count", requirement: "Target 700-1000 words", min: 700, max: 1000 },
+  ],
+  faq: [
+    { id: "question_headings", requirement: "Use clear questions as headers (## Q: Question?)", min: 5 },
+    { id: "word_count", requirement: "Target 500-800 words", min: 500, max: 800 },
+  ],
+};
+
+/**
+ * The checkable requirements of a content type, as prompt lines ("- ...")
+ */
+export function ruleRequirements(type: ScoredContentType): string {
+  return CONTENT_RULES[type].map(rule => `- ${rule.requirement}`).join("\n");
+}
+
+export function isScoredContentType(value: unknown): value is ScoredContentType {
+  return typeof value === "string" && (SCORED_CONTENT_TYPES as string[]).includes(value);
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const MAX_SCORED_LENGTH = 60000;      // characters
+const MAX_PROMPTS = 25;
+const MAX_SUGGESTIONS = 40;
+const LONG_PARAGRAPH_WORDS = 120;
+const FACTS_PER_100_WORDS = 2;               // full specificity points
+const INTRO_WORDS = 150;                     // the brand should appear this early
+const PROMPT_COVERAGE = 0.6;                 // share of a prompt's keywords a section must contain
+
+const FACTOR_LABELS: Record<GeoFactorId, string> = {
+  entities: "Entities & definitions",
+  structure: "Lists, tables & headings",
+  faq: "Tracked prompt coverage",
+  specificity: "Factual specificity",
+  brand: "Brand mentions",
+  schema: "Schema.org markup",
+};
+
+const FACT_PATTERN = /[$€£₹]\s?\d[\d,.]*|\b\d[\d,.]*\s?(?:%|percent\b)?|\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+\d{1,2}\b/gi;
+const VAGUE_PATTERN = /\b(?:many|several|various|numerous|countless|a lot of|lots of|tons of|some of the best|one of the best|very|really|extremely|huge)\b/gi;
+const DEFINITION_PATTERN = /^\W{0,3}(?:\([^)]*\)\s*)?(?:is|are|was|offers|provides|helps|lets|allows|gives|specializes|focuses|[:—–(]|-\s)/i;
+const PROS_CONS_PATTERN = /\b(?:pros?|cons?|advantages?|disadvantages?|drawbacks?|downsides?|strengths?|weaknesses?)\b/i;
+const JSON_LD_PATTERN = /application\/ld\+json|"@context"\s*:\s*"https?:\/\/schema\.org/i;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "are", "what", "which", "who", "how", "why", "when", "where", "best", "top",
+  "is", "in", "of", "to", "a", "an", "on", "or", "vs", "my", "me", "i", "do", "does", "can", "should", "you",
+  "your", "near", "from", "that", "this", "there", "any", "good", "most", "some", "about", "into", "than",
+]);
+
+// ============================================
+// PARSING
+// ============================================
+
+interface Line { no: number; text: string; kind: "heading" | "numbered" | "bullet" | "table" | "quote" | "text" | "blank" | "code"; level?: number }
+interface Paragraph { line: number; text: string; words: number }
+interface Section { line: number; level: number; heading: string; question: boolean; text: string }
+
+function isQuestion(text: string): boolean {
+  const clean = plain(text);
+  return clean.endsWith("?") || /^q[:.]\s/i.test(clean);
+}
+
+// Markdown markers and link targets removed
+function plain(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s*(?:#{1,6}\s+|>\s?|[-*+]\s+|\d+[.)]\s+)/, "")
+    .replace(/[*_`|]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function countWords(text: string): number {
+  return plain(text).split(" ").filter(w => /[\p{L}\p{N}]/u.test(w)).length;
+}
+
+function countFacts(text: string): number {
+  return (plain(text).match(FACT_PATTERN) || []).filter(m => /\d/.test(m)).length;
+}
+
+function parseLines(markdown: string): Line[] {
+  let inCode = false;
+  return markdown.replace(/\r\n?/g, "\n").split("\n").map((text, i) => {
+    const no = i + 1;
+    if (/^\s*(```|~~~)/.test(text)) { inCode = !inCode; return { no, text, kind: "code" }; }
+    if (inCode) return { no, text, kind: "code" };
+    const heading = text.match(/^\s*(#{1,6})\s+\S/);
+    if (heading) return { no, text, kind: "heading", level: heading[1].length };
+    if (/^\s*\d+[.)]\s+\S/.test(text)) return { no, text, kind: "numbered" };
+    if (/^\s*[-*+]\s+\S/.test(text)) return { no, text, kind: "bullet" };
+    if (/^\s*\|.*\|\s*$/.test(text)) return { no, text, kind: "table" };
+    if (/^\s*>/.test(text)) return { no, text, kind: "quote" };
+    if (!text.trim()) return { no, text, kind: "blank" };
+    // A bold line that asks a question is a heading too ("**Is it free?**")
+    if (/^\s*\*\*[^*]+\?\*\*\s*$/.test(text)) return { no, text, kind: "heading", level: 3 };
+    return { no, text, kind: "text" };
+  });
+}
+
+function paragraphsOf(lines: Line[]): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  let current: Paragraph | null = null;
+  for (const line of lines) {
+    if (line.kind === "text") {
+      if (!current) current = { line: line.no, text: "", words: 0 };
+      current.text += (current.text ? " " : "") + line.text.trim();
+      current.words += countWords(line.text);
+    } else if (current) {
+      paragraphs.push(current);
+      current = null;
+    }
+  }
+  if (current) paragraphs.push(current);
+  return paragraphs;
+}
+
+function sectionsOf(lines: Line[]): Section[] {
+  const sections: Section[] = [{ line: 1, level: 0, heading: "", question: false, text: "" }];
+  for (const line of lines) {
+    if (line.kind === "code" || line.kind === "blank") continue;
+    if (line.kind === "heading") {
+      sections.push({ line: line.no, level: line.level ?? 2, heading: plain(line.text), question: isQuestion(line.text), text: "" });
+    } else {
+      const section = sections[sections.length - 1];
+      section.text += " " + plain(line.text);
+    }
+  }
+  return sections.filter(s => s.heading || s.text.trim());
+}
+
+function keywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return Array.from(new Set(words
+    .filter(w => w.length >= 3 && !STOPWORDS.has(w))
+    .map(w => w.length > 4 && w.endsWith("s") ? w.slice(0, -1) : w)));
+}
+
+// Item name of a list line: the bold lead, or the text before ":" / " - "
+function itemName(text: string): string {
+  const bold = text.match(/\*\*([^*]+)\*\*/);
+  const name = bold ? bold[1] : plain(text).split(/:|\s[-–—]\s/)[0];
+  return plain(name).replace(/[:.]$/, "").slice(0, 80);
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+/**
+ * Score a Markdown draft against the GEO factors and the rules of its type
+ */
+export function scoreGeoContent(markdown: string, ctx: ScoreContext): GeoScore {
+  const lines = parseLines(markdown.slice(0, MAX_SCORED_LENGTH));
+  const content = lines.filter(l => l.kind !== "code" && l.kind !== "blank");
+  const paragraphs = paragraphsOf(lines);
+  const sections = sectionsOf(lines);
+  const suggestions: GeoSuggestion[] = [];
+  const suggest = (factor: GeoSuggestion["factor"], severity: GeoSuggestion["severity"], line: number | null, message: string) =>
+    suggestions.push({ line, severity, factor, message });
+
+  const words = content.reduce((sum, l) => sum + countWords(l.text), 0);
+  const headings = content.filter(l => l.kind === "heading");
+  const numbered = content.filter(l => l.kind === "numbered");
+  const listItems = content.filter(l => l.kind === "numbered" || l.kind === "bullet");
+  const tables = content.filter(l => l.kind === "table" && /^\s*\|?\s*:?-{3,}/.test(l.text)).length;
+  const quotes = content.filter(l => l.kind === "quote");
+  const questions = headings.filter(l => isQuestion(l.text));
+  const factsPerLine = content.map(l => ({ line: l, facts: l.kind === "heading" ? 0 : countFacts(l.text) }));
+  const facts = factsPerLine.reduce((sum, f) => sum + f.facts, 0);
+  const per100 = (n: number) => words > 0 ? n / words * 100 : 0;
+
+  // ---- Entities ----
+  const brand: EntitySpec | null = ctx.brandName?.trim() ? parseEntity(ctx.brandName, ctx.brandTags || []) : null;
+  const competitors = (ctx.competitors || []).map(c => parseEntity(c)).filter(e => e.terms.length > 0);
+  const mentionsOf = (entity: EntitySpec) => content.flatMap(l =>
+    findEntityMatches(l.text, entity).map(m => ({ line: l, rest: l.text.slice(m.end) })));
+
+  const brandMentions = brand ? mentionsOf(brand) : [];
+  const entities = [...(brand ? [brand] : []), ...competitors].map(entity => ({ entity, mentions: entity === brand ? brandMentions : mentionsOf(entity) }));
+  const mentioned = entities.filter(e => e.mentions.length > 0);
+  const defined = mentioned.filter(e => e.mentions.some(m => m.line.kind !== "heading" && DEFINITION_PATTERN.test(m.rest)));
+  const itemNames = new Set(listItems.map(l => itemName(l.text)).filter(n => /^\p{Lu}/u.test(n) && n.split(" ").length <= 5).map(n => n.toLowerCase()));
+  for (const e of mentioned) itemNames.add(e.entity.name.toLowerCase());
+  const namedEntities = itemNames.size;
+
+  let entityScore: number;
+  let entityDetail: string;
+  if (entities.length > 0) {
+    entityScore = 10 * mentioned.length / entities.length + (mentioned.length > 0 ? 10 * defined.length / mentioned.length : 0);
+    entityDetail = `${mentioned.length}/${entities.length} tracked entities named, ${defined.length} defined`;
+  } else {
+    entityScore = 20 * Math.min(namedEntities, 3) / 3;
+    entityDetail = `${namedEntities} named entities (no brand or competitors set)`;
+  }
+  for (const e of entities) {
+    const isBrand = e.entity === brand;
+    if (e.mentions.length === 0) {
+      if (!isBrand) suggest("entities", "medium", null, `Name ${e.entity.name}: answers to your prompts compare against it, and a page that covers it is cited for those comparisons`);
+    } else if (!defined.includes(e)) {
+      const first = e.mentions.find(m => m.line.kind !== "heading") || e.mentions[0];
+      suggest("entities", isBrand ? "high" : "low", first.line.no,
+        `Define ${e.entity.name} where it first appears ("${e.entity.name} is a … that …") so a model can quote the sentence on its own`);
+    }
+  }
+
+  // ---- Structure ----
+  const longParagraphs = paragraphs.filter(p => p.words > LONG_PARAGRAPH_WORDS);
+  const structureScore = 6 * Math.min(headings.length, 3) / 3
+    + (listItems.length >= 3 ? 6 : 2 * listItems.length)
+    + (tables > 0 ? 4 : 0)
+    + Math.max(0, 4 - longParagraphs.length);
+  if (headings.length === 0) suggest("structure", "high", null, "Add H2/H3 headings: models lift answers section by section");
+  if (listItems.length < 3) suggest("structure", "medium", null, "Add a numbered or bulleted list - ranked lists are what AI answers are built from");
+  if (tables === 0) suggest("structure", "low", null, "Add a Markdown table for features, prices or specs; tables are easy to extract and cite");
+  for (const p of longParagraphs.slice(0, 5)) {
+    suggest("structure", "medium", p.line, `Paragraph of ${p.words} words - split it or turn it into a list`);
+  }
+
+  // ---- Tracked prompt coverage ----
+  const prompts = Array.from(new Set((ctx.prompts || []).map(p => p.trim()).filter(Boolean))).slice(0, MAX_PROMPTS);
+  const coverage = prompts.map(prompt => {
+    const terms = keywords(prompt);
+    let best: { section: Section; share: number } | null = null;
+    for (const section of sections) {
+      const sectionTerms = new Set(keywords(`${section.heading} ${section.text}`));
+      const share = terms.length > 0 ? terms.filter(t => sectionTerms.has(t)).length / terms.length : 0;
+      // Ties go to question sections
+      if (!best || share > best.share || (share === best.share && section.question && !best.section.question)) best = { section, share };
+    }
+    return { prompt, best, covered: !!best && best.share >= PROMPT_COVERAGE };
+  });
+  const covered = coverage.filter(c => c.covered);
+  const questionScore = 6 * Math.min(questions.length, 2) / 2;
+  const faqScore = prompts.length > 0
+    ? 14 * covered.length / prompts.length + questionScore
+    : 20 * Math.min(questions.length, 3) / 3;
+  const faqDetail = prompts.length > 0
+    ? `${covered.length}/${prompts.length} tracked prompts answered, ${questions.length} question headings`
+    : `${questions.length} question headings (no tracked prompts)`;
+  let faqSuggestions = 0;
+  for (const c of coverage) {
+    if (faqSuggestions >= 8) break;
+    if (!c.covered) {
+      const partial = c.best && c.best.share >= 0.3 && c.best.section.heading ? c.best.section.line : null;
+      suggest("faq", "medium", partial, partial
+        ? `This section partly answers the tracked prompt "${c.prompt}" - add a question heading and a direct answer for it`
+        : `Not answered: "${c.prompt}". Add a "## ${c.prompt.replace(/\?*$/, "?")}" section with a 2-3 sentence answer`);
+      faqSuggestions++;
+    } else if (c.best && !c.best.section.question && c.best.section.level > 1) {
+      suggest("faq", "low", c.best.section.line, `Phrase this heading as the question users ask: "${c.prompt.replace(/\?*$/, "?")}"`);
+      faqSuggestions++;
+    }
+  }
+  if (prompts.length === 0 && questions.length === 0) {
+    suggest("faq", "medium", null, "Add an FAQ section with question headings - answers to questions are the most quoted passages");
+  }
+
+  // ---- Specificity ----
+  const vagueLines = content.filter(l => l.kind !== "heading" && (l.text.match(VAGUE_PATTERN) || []).length > 0
+    && factsPerLine.find(f => f.line === l)!.facts === 0);
+  const specificityScore = 10 * Math.min(per100(facts) / FACTS_PER_100_WORDS, 1) + Math.max(0, 5 - vagueLines.length);
+  for (const p of paragraphs.filter(p => p.words >= 50 && countFacts(p.text) === 0).slice(0, 5)) {
+    suggest("specificity", "medium", p.line, "No numbers, dates or prices here - add a figure or a sourced fact models can quote");
+  }
+  for (const l of vagueLines.slice(0, 5)) {
+    const terms = Array.from(new Set((l.text.match(VAGUE_PATTERN) || []).map(t => t.toLowerCase())));
+    suggest("specificity", "low", l.no, `Vague wording (${terms.join(", ")}) - replace it with a number or a name`);
+  }
+
+  // ---- Brand ----
+  const brandRule = CONTENT_RULES[ctx.type].find(r => r.id === "brand_mentions");
+  const brandMin = brandRule?.min ?? 2;
+  const brandMax = brandRule?.max ?? Math.max(3, Math.round(words / 150));
+  let brandScore = 15;
+  let brandDetail = "No brand set";
+  if (brand) {
+    const count = brandMentions.length;
+    let wordsBefore = 0;
+    let introLine: number | null = null;
+    for (const l of content) {
+      if (wordsBefore >= INTRO_WORDS) break;
+      if (introLine === null && l.kind !== "heading") introLine = l.no;
+      if (brandMentions.some(m => m.line === l)) { introLine = -1; break; }
+      wordsBefore += countWords(l.text);
+    }
+    const early = introLine === -1;
+    const stuffedLines = content.filter(l => brandMentions.filter(m => m.line === l).length >= 3);
+    const stuffed = per100(count) > 2 || stuffedLines.length > 0;
+    brandScore = (count === 0 ? 0 : count < brandMin ? 5 : count <= brandMax ? 9 : 6)
+      + (early ? 3 : 0) + (count > 0 && !stuffed ? 3 : 0);
+    brandDetail = `${count} mention${count === 1 ? "" : "s"} (target ${brandMin}-${brandMax})${early ? ", in the introduction" : ""}`;
+
+    if (count === 0) suggest("brand", "high", null, `${brand.name} isn't mentioned - a page can't get the brand cited if it never names it`);
+    else if (count < brandMin) suggest("brand", "medium", null, `Mention ${brand.name} ${brandMin - count} more time${brandMin - count === 1 ? "" : "s"}, where it answers a question`);
+    else if (count > brandMax) suggest("brand", "low", brandMentions[brandMax].line.no, `${count} brand mentions - more than ${brandMax} reads as promotional and is less likely to be quoted`);
+    if (count > 0 && !early) suggest("brand", "medium", introLine && introLine > 0 ? introLine : null, `Mention ${brand.name} in the first ${INTRO_WORDS} words`);
+    for (const l of stuffedLines.slice(0, 3)) suggest("brand", "low", l.no, `${brand.name} is repeated on this line - keep one mention`);
+  }
+
+  // ---- Schema.org ----
+  const hasJsonLd = JSON_LD_PATTERN.test(markdown);
+  const title = plain((headings.find(l => l.level === 1) || headings[0])?.text || "") || plain(content[0]?.text || "");
+  const schema = hasJsonLd ? [] : schemaSuggestions(ctx, title, lines, questions, numbered, mentioned.map(e => e.entity.name), brand?.name);
+  const richResult = schema.some(s => s.type !== "Article");
+  const schemaScore = hasJsonLd ? 10 : richResult ? 5 : 3;
+  for (const s of schema) suggest("schema", s.type === "Article" ? "low" : "medium", null, `Publish with ${s.type} JSON-LD: ${s.reason}`);
+
+  // ---- Rules of the content type ----
+  const ruleStats: Record<ContentRuleId, { value: number; detail: string; line?: number }> = {
+    headings: { value: headings.length, detail: `${headings.length} headings` },
+    numbered_list: { value: numbered.length, detail: `${numbered.length} numbered items` },
+    table: { value: tables, detail: `${tables} tables` },
+    question_headings: { value: questions.length, detail: `${questions.length} question headings` },
+    callouts: { value: quotes.length, detail: `${quotes.length} callout lines` },
+    word_count: { value: words, detail: `${words} words` },
+    specifics: { value: facts, detail: `${facts} numbers, dates or prices` },
+    brand_mentions: { value: brandMentions.length, detail: brand ? `${brandMentions.length} brand mentions` : "No brand set" },
+    named_entities: { value: namedEntities, detail: `${namedEntities} brands/products named` },
+    pros_cons: { value: content.some(l => PROS_CONS_PATTERN.test(l.text)) ? 1 : 0, detail: "" },
+  };
+  ruleStats.pros_cons.detail = ruleStats.pros_cons.value ? "Pros and cons covered" : "No pros, cons or drawbacks";
+
+  const rules: RuleCheck[] = CONTENT_RULES[ctx.type].map(rule => {
+    const stat = ruleStats[rule.id];
+    const passed = (rule.id === "brand_mentions" && !brand)
+      || ((rule.min === undefined || stat.value >= rule.min) && (rule.max === undefined || stat.value <= rule.max)
+        && (rule.min !== undefined || rule.max !== undefined || stat.value > 0));
+    const target = rule.min !== undefined && rule.max !== undefined ? ` (target ${rule.min}-${rule.max})`
+      : rule.min !== undefined ? ` (at least ${rule.min})` : "";
+    return { id: rule.id, requirement: rule.requirement, passed, detail: `${stat.detail}${target}` };
+  });
+  for (const r of rules.filter(r => !r.passed)) {
+    suggest("rules", "medium", null, `${ctx.type} rule not met - ${r.requirement}: ${r.detail}`);
+  }
+
+  const factors: GeoFactor[] = ([
+    ["entities", entityScore, 20, entityDetail],
+    ["structure", structureScore, 20, `${headings.length} headings, ${listItems.length} list items, ${tables} tables`],
+    ["faq", faqScore, 20, faqDetail],
+    ["specificity", specificityScore, 15, `${facts} facts (${per100(facts).toFixed(1)} per 100 words), ${vagueLines.length} vague lines`],
+    ["brand", brandScore, 15, brandDetail],
+    ["schema", schemaScore, 10, hasJsonLd ? "JSON-LD present" : `No JSON-LD; ${schema.map(s => s.type).join(", ")} suggested`],
+  ] as Array<[GeoFactorId, number, number, string]>).map(([id, score, max, detail]) => ({
+    id, label: FACTOR_LABELS[id], score: Math.round(Math.min(score, max) * 10) / 10, max, detail,
+  }));
+
+  const severityOrder = { high: 0, medium: 1, low: 2 };
+  suggestions.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity] || (a.line ?? 0) - (b.line ?? 0));
+
+  return {
+    score: Math.round(factors.reduce((sum, f) => sum + f.score, 0)),
+    type: ctx.type,
+    factors,
+    rules,
+    suggestions: suggestions.slice(0, MAX_SUGGESTIONS),
+    schema,
+    stats: {
+      words, headings: headings.length, list_items: listItems.length, tables, questions: questions.length, facts,
+      brand_mentions: brandMentions.length, prompts_covered: covered.length, prompts_total: prompts.length,
+    },
+  };
+}
+
+// ============================================
+// SCHEMA.ORG SUGGESTIONS
+// ============================================
+
+function schemaSuggestions(
+  ctx: ScoreContext, title: string, lines: Line[], questions: Line[], numbered: Line[], entityNames: string[], brandName?: string,
+): SchemaSuggestion[] {
+  const context = "https://schema.org";
+  const ld = (value: Record<string, unknown>) => JSON.stringify({ "@context": context, ...value }, null, 2);
+  const suggestions: SchemaSuggestion[] = [];
+
+  if (questions.length >= 2) {
+    // The answer is the text up to the next heading
+    const answers = questions.slice(0, 10).map(q => {
+      const next = lines.find(l => l.no > q.no && l.kind === "heading");
+      const body = lines.filter(l => l.no > q.no && (!next || l.no < next.no) && ["text", "numbered", "bullet", "quote"].includes(l.kind));
+      return { question: plain(q.text).replace(/^q[:.]\s*/i, ""), answer: truncate(body.map(l => plain(l.text)).join(" "), 500) };
+    }).filter(a => a.answer);
+    if (answers.length >= 2) {
+      suggestions.push({
+        type: "FAQPage",
+        reason: `${answers.length} question headings with answers`,
+        json_ld: ld({
+          "@type": "FAQPage",
+          mainEntity: answers.map(a => ({ "@type": "Question", name: a.question, acceptedAnswer: { "@type": "Answer", text: a.answer } })),
+        }),
+      });
+    }
+  }
+
+  if (numbered.length >= 3) {
+    const items = numbered.slice(0, 20).map(l => itemName(l.text)).filter(Boolean);
+    suggestions.push(ctx.type === "guide"
+      ? {
+        type: "HowTo",
+        reason: `${items.length} numbered steps`,
+        json_ld: ld({ "@type": "HowTo", name: title, step: numbered.slice(0, 20).map(l => ({ "@type": "HowToStep", text: truncate(plain(l.text), 300) })) }),
+      }
+      : {
+        type: "ItemList",
+        reason: `${items.length} numbered items`,
+        json_ld: ld({ "@type": "ItemList", name: title, itemListElement: items.map((name, i) => ({ "@type": "ListItem", position: i + 1, name })) }),
+      });
+  }
+
+  suggestions.push({
+    type: "Article",
+    reason: "headline, publisher and the entities the page is about",
+    json_ld: ld({
+      "@type": "Article",
+      headline: truncate(title, 110),
+      ...(brandName ? { publisher: { "@type": "Organization", name: brandName } } : {}),
+      ...(entityNames.length > 0 ? { mentions: entityNames.map(name => ({ "@type": "Thing", name })) } : {}),
+      dateModified: "YYYY-MM-DD",
+    }),
+  });
+
+  return suggestions;
+}
@@ -0,0 +1,82 @@
+/**
+ * ============================================================================
+ * FORZEO CREDENTIAL PROVIDERS
+ * ============================================================================
+ *
+ * The API keys an organization can store (Account menu > API Keys). Shared by
+ * the edge functions and the dashboard, so it has no imports; reading,
+ * encrypting and testing keys lives in credentials.ts (edge functions only).
+ *
+ * | Provider   | Used by                                           | Env fallback                          |
+ * |------------|---------------------------------------------------|---------------------------------------|
+ * | dataforseo | SERP, AI Overview, Copilot, LLM Mentions, LIVE    | DATAFORSEO_LOGIN + DATAFORSEO_PASSWORD |
+ * | openai     | ChatGPT routed to OpenAI, sentiment, generation   | OPENAI_API_KEY                        |
+ * | anthropic  | Claude routed to Anthropic, sentiment, generation | ANTHROPIC_API_KEY                     |
+ * | gemini     | Gemini routed to Google                           | GEMINI_API_KEY                        |
+ * | perplexity | Perplexity routed to its API                      | PERPLEXITY_API_KEY                    |
+ * | groq       | Content and prompt generation (first choice)      | GROQ_API_KEY                          |
+ *
+ * An organization's key wins; the project's Supabase secret is the fallback.
+ */
+
+export type CredentialProvider = "dataforseo" | "openai" | "anthropic" | "gemini" | "perplexity" | "groq";
+
+export interface CredentialProviderInfo {
+  label: string;
+  used_for: string;
+  fields: Array<{ name: string; label: string; secret: boolean }>; // joined with ":" when stored
+  env: string[];                                                   // project-wide fallback secret(s)
+}
+
+export const CREDENTIAL_PROVIDERS: Record<CredentialProvider, CredentialProviderInfo> = {
+  dataforseo: {
+    label: "DataForSEO",
+    used_for: "SERP, AI Overview, Copilot and LLM answers",
+    fields: [{ name: "login", label: "API login", secret: false }, { name: "password", label: "API password", secret: true }],
+    env: ["DATAFORSEO_LOGIN", "DATAFORSEO_PASSWORD"],
+  },
+  openai: {
+    label: "OpenAI",
+    used_for: "ChatGPT via the OpenAI API, ChatGPT sentiment, content generation fallback",
+    fields: [{ name: "api_key", label: "API key", secret: true }],
+    env: ["OPENAI_API_KEY"],
+  },
+  anthropic: {
+    label: "Anthropic",
+    used_for: "Claude via the Anthropic API, Claude sentiment, content generation fallback",
+    fields: [{ name: "api_key", label: "API key", secret: true }],
+    env: ["ANTHROPIC_API_KEY"],
+  },
+  gemini: {
+    label: "Google Gemini",
+    used_for: "Gemini via the Google API",
+    fields: [{ name: "api_key", label: "API key", secret: true }],
+    env: ["GEMINI_API_KEY"],
+  },
+  perplexity: {
+    label: "Perplexity",
+    used_for: "Perplexity via its API",
+    fields: [{ name: "api_key", label: "API key", secret: true }],
+    env: ["PERPLEXITY_API_KEY"],
+  },
+  groq: {
+    label: "Groq",
+    used_for: "Content and prompt generation",
+    fields: [{ name: "api_key", label: "API key", secret: true }],
+    env: ["GROQ_API_KEY"],
+  },
+};
+
+export const CREDENTIAL_PROVIDER_IDS = Object.keys(CREDENTIAL_PROVIDERS) as CredentialProvider[];
+
+export function isCredentialProvider(value: unknown): value is CredentialProvider {
+  return typeof value === "string" && value in CREDENTIAL_PROVIDERS;
+}
+
+/**
+ * Last characters of a key, the only part the dashboard ever shows
+ */
+export function keyHint(secret: string): string {
+  const last = secret.slice(-4);
+  return secret.length > 8 ? `…${last}` : "…";
+}
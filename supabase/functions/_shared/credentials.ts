@@ -0,0 +1,174 @@
+// @ts-nocheck
+/**
+ * ============================================================================
+ * FORZEO CREDENTIALS
+ * ============================================================================
+ *
+ * Per-organization provider keys, encrypted at rest with pgcrypto
+ * (organization_credentials, see database/add_credentials.sql).
+ *
+ * - The encryption key (CREDENTIALS_ENCRYPTION_KEY) only exists as an edge
+ *   function secret; the database stores ciphertext, the dashboard only hints
+ * - loadCredentials() decrypts a client's organization keys once per request;
+ *   withCredentials() makes them the keys of everything that request runs
+ *   (batch jobs included), getCredential() reads one
+ * - Providers without an organization key use the project's env secret
+ * - testCredential() makes the cheapest authenticated call each provider has
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { CREDENTIAL_PROVIDERS, CREDENTIAL_PROVIDER_IDS, type CredentialProvider } from "./credentialProviders.ts";
+
+export const CREDENTIALS_KEY = Deno.env.get("CREDENTIALS_ENCRYPTION_KEY") || "";
+
+export type Credentials = Partial<Record<CredentialProvider, string>>;
+
+export interface CredentialTest {
+  ok: boolean;
+  message: string;
+}
+
+const TEST_TIMEOUT_MS = 15000;
+
+/**
+ * Keys from the project's Supabase secrets (fallback for every organization)
+ */
+export function envCredentials(): Credentials {
+  const credentials: Credentials = {};
+  for (const provider of CREDENTIAL_PROVIDER_IDS) {
+    const values = CREDENTIAL_PROVIDERS[provider].env.map(name => Deno.env.get(name) || "");
+    if (values.every(Boolean)) credentials[provider] = values.join(":");
+  }
+  return credentials;
+}
+
+/**
+ * Decrypted keys an organization has stored
+ */
+export async function getOrganizationCredentials(supabase, organizationId: string): Promise<Credentials> {
+  if (!CREDENTIALS_KEY || !organizationId) return {};
+  const { data, error } = await supabase.rpc("get_organization_credentials", {
+    p_organization_id: organizationId, p_encryption_key: CREDENTIALS_KEY,
+  });
+  if (error) {
+    console.error("[Credentials] Decrypt failed:", error.message);
+    return {};
+  }
+  const credentials: Credentials = {};
+  for (const row of data || []) credentials[row.provider] = row.secret;
+  return credentials;
+}
+
+/**
+ * Keys for a request about a client: its organization's, else the env secrets
+ */
+export async function loadCredentials(supabase, clientId?: string | null): Promise<Credentials> {
+  const env = envCredentials();
+  if (!supabase || !clientId) return env;
+  const { data: client } = await supabase
+    .from("clients").select("organization_id").eq("id", clientId).maybeSingle();
+  if (!client?.organization_id) return env;
+  return { ...env, ...(await getOrganizationCredentials(supabase, client.organization_id)) };
+}
+
+const scope = new AsyncLocalStorage<Credentials>();
+
+/**
+ * Run `fn` (and everything it starts) with these credentials
+ */
+export function withCredentials<T>(credentials: Credentials, fn: () => Promise<T>): Promise<T> {
+  return scope.run(credentials, fn);
+}
+
+/**
+ * The current request's key for a provider ("" when there is none)
+ * Outside withCredentials only the env secrets apply
+ */
+export function getCredential(provider: CredentialProvider): string {
+  return (scope.getStore() || envCredentials())[provider] || "";
+}
+
+/**
+ * Encrypt and store (or rotate) an organization's key
+ */
+export async function saveCredential(
+  supabase,
+  organizationId: string,
+  provider: CredentialProvider,
+  secret: string,
+  keyHint: string,
+  userId: string | null
+): Promise<string> {
+  if (!CREDENTIALS_KEY) throw new Error("CREDENTIALS_ENCRYPTION_KEY not configured");
+  const { data, error } = await supabase.rpc("set_organization_credential", {
+    p_organization_id: organizationId, p_provider: provider, p_secret: secret,
+    p_key_hint: keyHint, p_encryption_key: CREDENTIALS_KEY, p_user_id: userId,
+  });
+  if (error) throw new Error(`Could not save key: ${error.message}`);
+  return data;
+}
+
+async function timedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TEST_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function httpFailure(response: Response): CredentialTest {
+  const reasons: Record<number, string> = {
+    401: "Key rejected (401) - check it was copied completely",
+    402: "Account has no credit (402)",
+    403: "Key lacks access (403)",
+    429: "Rate limited (429) - the key works, try again later",
+  };
+  return { ok: response.status === 429, message: reasons[response.status] || `HTTP ${response.status}` };
+}
+
+/**
+ * Check a key with an authenticated, free (or near-free) call
+ */
+export async function testCredential(provider: CredentialProvider, secret: string): Promise<CredentialTest> {
+  if (!secret) return { ok: false, message: "No key" };
+  try {
+    if (provider === "dataforseo") {
+      const response = await timedFetch("https://api.dataforseo.com/v3/appendix/user_data", {
+        headers: { "Authorization": `Basic ${btoa(secret)}` },
+      });
+      if (!response.ok) return httpFailure(response);
+      const data = await response.json();
+      if (data.status_code !== 20000) return { ok: false, message: data.status_message || `Status ${data.status_code}` };
+      const balance = data.tasks?.[0]?.result?.[0]?.money?.balance;
+      return { ok: true, message: balance != null ? `Connected - balance $${Number(balance).toFixed(2)}` : "Connected" };
+    }
+
+    if (provider === "perplexity") {
+      // No free endpoint: a one-token completion (fraction of a cent)
+      const response = await timedFetch("https://api.perplexity.ai/chat/completions", {
+        method: "POST",
+        headers: { "Authorization": `Bearer ${secret}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ model: "sonar", messages: [{ role: "user", content: "ping" }], max_tokens: 1 }),
+      });
+      return response.ok ? { ok: true, message: "Connected" } : httpFailure(response);
+    }
+
+    const requests: Record<string, [string, Record<string, string>]> = {
+      openai: ["https://api.openai.com/v1/models", { "Authorization": `Bearer ${secret}` }],
+      anthropic: ["https://api.anthropic.com/v1/models", { "x-api-key": secret, "anthropic-version": "2023-06-01" }],
+      gemini: [`https://generativelanguage.googleapis.com/v1beta/models?key=${encodeURIComponent(secret)}`, {}],
+      groq: ["https://api.groq.com/openai/v1/models", { "Authorization": `Bearer ${secret}` }],
+    };
+    const [url, headers] = requests[provider];
+    const response = await timedFetch(url, { headers });
+    if (!response.ok) return httpFailure(response);
+    const data = await response.json();
+    const count = (data.data || data.models || []).length;
+    return { ok: true, message: count > 0 ? `Connected - ${count} models available` : "Connected" };
+  } catch (error) {
+    const message = error instanceof Error ? (error.name === "AbortError" ? "Timed out" : error.message) : "Request failed";
+    return { ok: false, message };
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * ============================================================================
+ * FORZEO GENERATION ERRORS
+ * ============================================================================
+ *
+ * Error codes returned by generate-content ({ success: false, error: {...} }).
+ * Shared by the edge function and the dashboard, so it has no imports.
+ *
+ * | Code                  | HTTP | When                                              |
+ * |-----------------------|------|---------------------------------------------------|
+ * | INVALID_REQUEST       | 400  | missing/too long prompt, unknown type             |
+ * | UNAUTHORIZED          | 401  | not signed in                                     |
+ * | FORBIDDEN             | 403  | no access to the client, or role too low          |
+ * | RATE_LIMITED          | 429  | organization over its per-minute or per-day limit |
+ * | BUDGET_EXCEEDED       | 402  | monthly budget can't cover one more generation    |
+ * | NO_PROVIDER           | 503  | no Groq, OpenAI or Anthropic key configured       |
+ * | PROVIDER_AUTH         | 502  | every configured provider rejected its key        |
+ * | PROVIDERS_UNAVAILABLE | 503  | every provider failed after retries               |
+ * | INVALID_OUTPUT        | 502  | a content brief failed its schema twice           |
+ * | INTERNAL              | 500  | anything else                                     |
+ */
+
+export type GenerationErrorCode =
+  | "INVALID_REQUEST"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "RATE_LIMITED"
+  | "BUDGET_EXCEEDED"
+  | "NO_PROVIDER"
+  | "PROVIDER_AUTH"
+  | "PROVIDERS_UNAVAILABLE"
+  | "INVALID_OUTPUT"
+  | "INTERNAL";
+
+export interface ProviderFailure {
+  provider: string;
+  model: string;
+  status: number | null;     // HTTP status of the last attempt, null for network errors/timeouts
+  attempts: number;
+  error: string;
+}
+
+export interface GenerationError {
+  code: GenerationErrorCode;
+  message: string;
+  retry_after?: number;                 // seconds, RATE_LIMITED only
+  providers?: ProviderFailure[];        // NO_PROVIDER / PROVIDER_AUTH / PROVIDERS_UNAVAILABLE
+}
+
+export const GENERATION_ERROR_STATUS: Record<GenerationErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  RATE_LIMITED: 429,
+  BUDGET_EXCEEDED: 402,
+  NO_PROVIDER: 503,
+  PROVIDER_AUTH: 502,
+  PROVIDERS_UNAVAILABLE: 503,
+  INVALID_OUTPUT: 502,
+  INTERNAL: 500,
+};
+
+// What the dashboard suggests next
+export const GENERATION_ERROR_HINTS: Record<GenerationErrorCode, string> = {
+  INVALID_REQUEST: "Check the topic or keywords and try again.",
+  UNAUTHORIZED: "Sign in again.",
+  FORBIDDEN: "Ask an admin for access to this client.",
+  RATE_LIMITED: "Generation limit reached for your organization.",
+  BUDGET_EXCEEDED: "An admin can raise the monthly budget under Settings.",
+  NO_PROVIDER: "An admin needs to add a Groq, OpenAI or Anthropic key under API Keys.",
+  PROVIDER_AUTH: "The stored keys were rejected - an admin should test them under API Keys.",
+  PROVIDERS_UNAVAILABLE: "The AI providers are busy or down. Try again in a minute.",
+  INVALID_OUTPUT: "The model's answer was unusable. Generate again.",
+  INTERNAL: "Something went wrong. Try again.",
+};
+
+export function isGenerationError(value: unknown): value is GenerationError {
+  return !!value && typeof value === "object" && typeof (value as GenerationError).code === "string"
+    && (value as GenerationError).code in GENERATION_ERROR_STATUS;
+}
+
+/**
+ * One line for the dashboard: message, hint and when to retry
+ */
+export function describeGenerationError(error: GenerationError): string {
+  const wait = error.retry_after ? ` Try again in ${error.retry_after < 120 ? `${error.retry_after}s` : `${Math.ceil(error.retry_after / 60)} min`}.` : "";
+  return `${error.message}. ${GENERATION_ERROR_HINTS[error.code]}${wait}`;
+}
@@ -0,0 +1,51 @@
+/**
+ * ============================================================================
+ * FORZEO LANGUAGES
+ * ============================================================================
+ *
+ * Languages a client or prompt can be audited in. Shared by geo-audit (Deno)
+ * and the dashboard, so it has no imports.
+ *
+ * The code is sent to DataForSEO SERP endpoints as `language_code`, the name
+ * to LLM Mentions as `language_name`. Clients default to English; a prompt
+ * without a language uses its client's.
+ */
+
+export const DEFAULT_LANGUAGE = "en";
+
+export const LANGUAGES: Record<string, string> = {
+  en: "English",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+  it: "Italian",
+  nl: "Dutch",
+  pt: "Portuguese",
+  th: "Thai",
+  hi: "Hindi",
+  ja: "Japanese",
+  ko: "Korean",
+  "zh-CN": "Chinese (Simplified)",
+  ar: "Arabic",
+  id: "Indonesian",
+  vi: "Vietnamese",
+};
+
+/**
+ * The supported code for a language, matched case-insensitively ("DE" -> "de"); null if unknown
+ */
+export function findLanguage(code?: unknown): string | null {
+  const raw = String(code || "").trim().toLowerCase();
+  return Object.keys(LANGUAGES).find(key => key.toLowerCase() === raw) || null;
+}
+
+/**
+ * A supported language code, else the default
+ */
+export function normalizeLanguage(code?: unknown): string {
+  return findLanguage(code) || DEFAULT_LANGUAGE;
+}
+
+export function languageName(code?: unknown): string {
+  return LANGUAGES[normalizeLanguage(code)];
+}
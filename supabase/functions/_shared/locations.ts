@@ -0,0 +1,138 @@
+/**
+ * ============================================================================
+ * FORZEO LOCATIONS
+ * ============================================================================
+ *
+ * Bundled subset of DataForSEO's location list (country -> region -> city),
+ * searchable by the dashboard's location picker and used by geo-audit to name
+ * locations in logs. Shared by geo-audit (Deno) and the dashboard, so it has
+ * no imports.
+ *
+ * Codes are DataForSEO location codes (the same as Google Ads geo target IDs).
+ * Add rows from GET /v3/serp/google/locations; a code that isn't listed here
+ * can still be entered in the picker and is sent to DataForSEO as is.
+ */
+
+export type LocationType = "Country" | "Region" | "City";
+
+export interface GeoLocation {
+  code: number;
+  name: string;
+  type: LocationType;
+  parent?: number;       // code of the region or country it belongs to
+  country: string;       // ISO 3166-1 alpha-2
+}
+
+export const DEFAULT_LOCATION_CODE = 2840;
+
+export const LOCATIONS: GeoLocation[] = [
+  // United States
+  { code: 2840, name: "United States", type: "Country", country: "US" },
+  { code: 21137, name: "California", type: "Region", parent: 2840, country: "US" },
+  { code: 21142, name: "Florida", type: "Region", parent: 2840, country: "US" },
+  { code: 21147, name: "Illinois", type: "Region", parent: 2840, country: "US" },
+  { code: 21152, name: "Massachusetts", type: "Region", parent: 2840, country: "US" },
+  { code: 21167, name: "New York", type: "Region", parent: 2840, country: "US" },
+  { code: 21176, name: "Texas", type: "Region", parent: 2840, country: "US" },
+  { code: 21180, name: "Washington", type: "Region", parent: 2840, country: "US" },
+  { code: 1013962, name: "Los Angeles", type: "City", parent: 21137, country: "US" },
+  { code: 1014221, name: "San Francisco", type: "City", parent: 21137, country: "US" },
+  { code: 1015116, name: "Miami", type: "City", parent: 21142, country: "US" },
+  { code: 1016367, name: "Chicago", type: "City", parent: 21147, country: "US" },
+  { code: 1018127, name: "Boston", type: "City", parent: 21152, country: "US" },
+  { code: 1023191, name: "New York", type: "City", parent: 21167, country: "US" },
+  { code: 1026201, name: "Austin", type: "City", parent: 21176, country: "US" },
+  { code: 1026339, name: "Houston", type: "City", parent: 21176, country: "US" },
+  { code: 1027744, name: "Seattle", type: "City", parent: 21180, country: "US" },
+
+  // United Kingdom
+  { code: 2826, name: "United Kingdom", type: "Country", country: "GB" },
+  { code: 20339, name: "England", type: "Region", parent: 2826, country: "GB" },
+  { code: 20340, name: "Northern Ireland", type: "Region", parent: 2826, country: "GB" },
+  { code: 20341, name: "Scotland", type: "Region", parent: 2826, country: "GB" },
+  { code: 20342, name: "Wales", type: "Region", parent: 2826, country: "GB" },
+  { code: 1006524, name: "Birmingham", type: "City", parent: 20339, country: "GB" },
+  { code: 1006886, name: "London", type: "City", parent: 20339, country: "GB" },
+  { code: 1006912, name: "Manchester", type: "City", parent: 20339, country: "GB" },
+
+  // India
+  { code: 2356, name: "India", type: "Country", country: "IN" },
+  { code: 1007751, name: "New Delhi", type: "City", parent: 2356, country: "IN" },
+  { code: 1007768, name: "Bengaluru", type: "City", parent: 2356, country: "IN" },
+  { code: 1007785, name: "Mumbai", type: "City", parent: 2356, country: "IN" },
+
+  // Thailand
+  { code: 2764, name: "Thailand", type: "Country", country: "TH" },
+  { code: 1012728, name: "Bangkok", type: "City", parent: 2764, country: "TH" },
+
+  // Singapore
+  { code: 2702, name: "Singapore", type: "Country", country: "SG" },
+
+  // Australia
+  { code: 2036, name: "Australia", type: "Country", country: "AU" },
+  { code: 1000286, name: "Sydney", type: "City", parent: 2036, country: "AU" },
+  { code: 1000567, name: "Melbourne", type: "City", parent: 2036, country: "AU" },
+
+  // Canada
+  { code: 2124, name: "Canada", type: "Country", country: "CA" },
+  { code: 1001970, name: "Vancouver", type: "City", parent: 2124, country: "CA" },
+  { code: 1002451, name: "Toronto", type: "City", parent: 2124, country: "CA" },
+
+  // Germany
+  { code: 2276, name: "Germany", type: "Country", country: "DE" },
+  { code: 1003854, name: "Berlin", type: "City", parent: 2276, country: "DE" },
+  { code: 1004234, name: "Munich", type: "City", parent: 2276, country: "DE" },
+  { code: 1004437, name: "Hamburg", type: "City", parent: 2276, country: "DE" },
+
+  // France
+  { code: 2250, name: "France", type: "Country", country: "FR" },
+  { code: 1006094, name: "Paris", type: "City", parent: 2250, country: "FR" },
+
+  // United Arab Emirates
+  { code: 2784, name: "UAE", type: "Country", country: "AE" },
+  { code: 1000013, name: "Dubai", type: "City", parent: 2784, country: "AE" },
+];
+
+const BY_CODE = new Map(LOCATIONS.map(l => [l.code, l]));
+
+export function findLocation(code?: number | null): GeoLocation | undefined {
+  return code ? BY_CODE.get(Number(code)) : undefined;
+}
+
+/**
+ * The location and its parents, most specific first (Manchester, England, United Kingdom)
+ */
+export function locationPath(code: number): GeoLocation[] {
+  const path: GeoLocation[] = [];
+  let current = findLocation(code);
+  while (current && path.length < 5) {
+    path.push(current);
+    current = findLocation(current.parent);
+  }
+  return path;
+}
+
+/**
+ * "Manchester, England, United Kingdom"; unknown codes are shown as "Location 1234567"
+ */
+export function formatLocation(code: number): string {
+  const path = locationPath(code);
+  return path.length > 0 ? path.map(l => l.name).join(", ") : `Location ${code}`;
+}
+
+/**
+ * Locations whose name or parents match every word of the query
+ * Countries first, then regions, then cities; a numeric query matches the code
+ */
+export function searchLocations(query: string, limit: number = 20): GeoLocation[] {
+  const words = query.toLowerCase().split(/[\s,]+/).filter(Boolean);
+  if (words.length === 0) return LOCATIONS.slice(0, limit);
+  const order: Record<LocationType, number> = { Country: 0, Region: 1, City: 2 };
+  return LOCATIONS
+    .filter(l => {
+      const haystack = `${formatLocation(l.code)} ${l.country} ${l.code}`.toLowerCase();
+      return words.every(w => haystack.includes(w));
+    })
+    .sort((a, b) => order[a.type] - order[b.type] || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
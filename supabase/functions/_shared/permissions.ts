@@ -0,0 +1,67 @@
+/**
+ * ============================================================================
+ * FORZEO PERMISSIONS
+ * ============================================================================
+ *
+ * What each organization role may do. Shared by the edge functions (which
+ * enforce it) and the dashboard (which hides what a role can't use), so it
+ * has no imports. Row Level Security applies the same rules in the database
+ * (see database/add_auth_and_roles.sql) - keep the three in step.
+ *
+ * | Role   | Can                                                        |
+ * |--------|------------------------------------------------------------|
+ * | viewer | read clients, prompts and results                          |
+ * | member | + run audits, manage prompts, track outreach, content      |
+ * | admin  | + competitors/brand tags, client settings, clients, members |
+ * |        |   and the organization's API keys                          |
+ * | owner  | everything an admin can                                    |
+ *
+ * Members and viewers with `organization_members.client_ids` set only see
+ * those clients (agency staff assigned to their accounts). NULL = every
+ * client in the organization. Owners and admins always see every client.
+ */
+
+export type Role = "owner" | "admin" | "member" | "viewer";
+
+export type Permission =
+  | "view"
+  | "run_audits"
+  | "manage_prompts"
+  | "track_outreach"
+  | "manage_content"     // generate content, content briefs
+  | "edit_competitors"   // brand tags, competitors, backfill, reprocess
+  | "edit_settings"      // alerts, budget, model routing, aliases, locations
+  | "manage_clients"     // create, edit and delete clients
+  | "manage_members"
+  | "manage_credentials"; // organization API keys (add, test, rotate)
+
+export const ROLES: Role[] = ["owner", "admin", "member", "viewer"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+  viewer: "Viewer",
+};
+
+const MEMBER_PERMISSIONS: Permission[] = ["view", "run_audits", "manage_prompts", "track_outreach", "manage_content"];
+const ADMIN_PERMISSIONS: Permission[] = [...MEMBER_PERMISSIONS, "edit_competitors", "edit_settings", "manage_clients", "manage_members", "manage_credentials"];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: ADMIN_PERMISSIONS,
+  admin: ADMIN_PERMISSIONS,
+  member: MEMBER_PERMISSIONS,
+  viewer: ["view"],
+};
+
+export function can(role: Role | null | undefined, permission: Permission): boolean {
+  return !!role && (ROLE_PERMISSIONS[role] || []).includes(permission);
+}
+
+/**
+ * Whether a membership covers a client of its organization
+ */
+export function canAccessClient(member: { role: Role; client_ids?: string[] | null }, clientId: string): boolean {
+  if (member.role === "owner" || member.role === "admin") return true;
+  return !member.client_ids || member.client_ids.includes(clientId);
+}
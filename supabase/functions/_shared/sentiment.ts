@@ -0,0 +1,323 @@
+/**
+ * ============================================================================
+ * FORZEO SENTIMENT
+ * ============================================================================
+ *
+ * Per-mention sentiment and stance for brands and competitors in AI answers.
+ * Each mention is judged on its own sentence (list item, table row), so a
+ * list intro like "Here are the best apps:" no longer colours every brand.
+ *
+ * ============================================================================
+ * BACKENDS
+ * ============================================================================
+ *
+ * - lexiconBackend: rules + word lists with negation ("not the best") and
+ *   contrast ("great but expensive") handling. Offline, free, synchronous
+ *   underneath (classifyMentionsLocal).
+ * - createLLMBackend(name, complete): asks a model to classify the evidence
+ *   sentences; falls back to the lexicon for anything it can't parse.
+ *
+ * ============================================================================
+ * STANCES
+ * ============================================================================
+ *
+ *   recommended     positive, no reservations
+ *   caveated        mixed, or negative without an explicit warning
+ *   warned_against  "avoid", "steer clear", "scam", ...
+ *   listed          named without an opinion
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type Sentiment = "positive" | "neutral" | "negative";
+export type Stance = "recommended" | "caveated" | "warned_against" | "listed";
+
+export interface MentionSpan {
+  index: number;
+  end: number;
+}
+
+export interface MentionSentiment {
+  index: number;       // where the mention starts in the response
+  sentiment: Sentiment;
+  stance: Stance;
+  evidence: string;    // the sentence the classification is based on
+  backend: string;
+}
+
+export interface SentimentBackend {
+  name: string;
+  classify(text: string, entityName: string, mentions: MentionSpan[]): Promise<MentionSentiment[]>;
+}
+
+// ============================================
+// LEXICON
+// ============================================
+
+const POSITIVE_WORDS = new Set([
+  "best", "top", "excellent", "recommended", "recommend", "leading", "trusted",
+  "popular", "great", "amazing", "reliable", "safe", "premium", "innovative",
+  "award", "favorite", "favourite", "preferred", "quality", "ideal", "perfect",
+  "standout", "outstanding", "strong", "solid", "loved", "easy", "intuitive",
+  "affordable", "secure", "verified", "effective", "impressive", "worth",
+]);
+
+const NEGATIVE_WORDS = new Set([
+  "avoid", "poor", "worst", "bad", "unreliable", "scam", "fake", "terrible",
+  "issues", "problems", "complaints", "disappointing", "overpriced", "slow",
+  "buggy", "unsafe", "expensive", "pricey", "limited", "lacks", "lacking",
+  "outdated", "clunky", "confusing", "risky", "weak", "frustrating", "spam",
+  "bots", "drawback", "downside", "controversial", "criticized", "criticised",
+]);
+
+// Explicit warnings decide the stance on their own
+const WARNING_PHRASES = [
+  "avoid", "steer clear", "stay away", "not recommended", "don't recommend",
+  "do not recommend", "wouldn't recommend", "would not recommend", "beware",
+  "scam", "be cautious", "be careful", "red flag",
+];
+
+const NEGATORS = new Set([
+  "not", "no", "never", "isn't", "aren't", "wasn't", "weren't", "don't",
+  "doesn't", "didn't", "hardly", "without", "nor", "cannot", "can't", "won't",
+]);
+
+// Words that open a contrasting clause
+const CONTRAST = /\s*(?:,\s*|;\s*|\s)(?:but|however|although|though|whereas|while|yet)\b/i;
+
+// How many words before a sentiment word a negator still applies
+const NEGATION_WINDOW = 3;
+
+// ============================================
+// EVIDENCE
+// ============================================
+
+/**
+ * The sentence (or list item) around a mention
+ */
+export function evidenceSentence(text: string, span: MentionSpan): { sentence: string; start: number } {
+  let start = span.index;
+  while (start > 0) {
+    const ch = text[start - 1];
+    if (ch === "\n") break;
+    if (/[.!?]/.test(ch) && /\s/.test(text[start] || "") && !/\b(?:e\.g|i\.e|vs|etc)\.$/i.test(text.slice(Math.max(0, start - 5), start))) break;
+    start--;
+  }
+  let end = span.end;
+  while (end < text.length) {
+    const ch = text[end];
+    if (ch === "\n") break;
+    if (/[.!?]/.test(ch) && (end + 1 >= text.length || /\s/.test(text[end + 1])) && !/\b(?:e\.g|i\.e|vs|etc)$/i.test(text.slice(Math.max(0, end - 4), end))) {
+      end++;
+      break;
+    }
+    end++;
+  }
+  const raw = text.slice(start, end);
+  const leading = raw.length - raw.trimStart().length;
+  return { sentence: raw.trim(), start: start + leading };
+}
+
+function cleanEvidence(sentence: string): string {
+  return sentence
+    .replace(/^\s*(?:#{1,6}\s*|[-*•+]\s+|\d{1,2}[.)\]]\s*)/, "")
+    .replace(/(\*\*|__|`)/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 300);
+}
+
+// ============================================
+// LOCAL CLASSIFIER
+// ============================================
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[’‘]/g, "'").match(/[\p{L}\p{N}']+/gu) || [];
+}
+
+function lexiconScore(text: string): { positive: number; negative: number } {
+  const tokens = tokenize(text);
+  let positive = 0;
+  let negative = 0;
+  tokens.forEach((token, i) => {
+    const isPositive = POSITIVE_WORDS.has(token);
+    const isNegative = NEGATIVE_WORDS.has(token);
+    if (!isPositive && !isNegative) return;
+    const negated = tokens.slice(Math.max(0, i - NEGATION_WINDOW), i).some(t => NEGATORS.has(t) || t.endsWith("n't"));
+    if (isPositive !== negated) positive++;
+    else negative++;
+  });
+  return { positive, negative };
+}
+
+function hasWarning(text: string): boolean {
+  const lower = text.toLowerCase().replace(/[’‘]/g, "'");
+  return WARNING_PHRASES.some(phrase => {
+    const idx = lower.indexOf(phrase);
+    if (idx === -1) return false;
+    // "not a scam", "no need to avoid"
+    const before = tokenize(lower.slice(0, idx)).slice(-2);
+    return !before.some(t => NEGATORS.has(t));
+  });
+}
+
+/**
+ * Classify one mention from its own sentence
+ * The clause holding the mention sets the sentiment; a lower-case contrast
+ * after it ("... but expensive") turns a positive mention into a caveated one
+ */
+export function classifyMentionLocal(text: string, span: MentionSpan): MentionSentiment {
+  const { sentence, start } = evidenceSentence(text, span);
+  const offset = span.index - start;
+
+  // Split the sentence into clauses at contrast words
+  const clauses: Array<{ text: string; start: number }> = [];
+  let rest = sentence;
+  let pos = 0;
+  let m: RegExpMatchArray | null;
+  while ((m = rest.match(CONTRAST)) && m.index !== undefined && m.index > 0) {
+    clauses.push({ text: rest.slice(0, m.index), start: pos });
+    pos += m.index;
+    rest = rest.slice(m.index);
+  }
+  clauses.push({ text: rest, start: pos });
+
+  const ownIndex = Math.max(0, clauses.findIndex((c, i) => offset >= c.start && (i === clauses.length - 1 || offset < clauses[i + 1].start)));
+  const own = clauses[ownIndex].text;
+  const tail = clauses.slice(ownIndex + 1)
+    .map(c => c.text.replace(CONTRAST, "").trim())
+    .filter(t => /^[\p{Ll}\p{N}]/u.test(t))  // "but expensive", not "but Tinder is bad"
+    .join(" ");
+
+  const ownScore = lexiconScore(own);
+  const tailScore = lexiconScore(tail);
+  const score = ownScore.positive - ownScore.negative;
+
+  let stance: Stance;
+  let sentiment: Sentiment;
+  if (hasWarning(own)) {
+    stance = "warned_against";
+    sentiment = "negative";
+  } else if (score > 0) {
+    const reserved = ownScore.negative > 0 || tailScore.negative > tailScore.positive;
+    stance = reserved ? "caveated" : "recommended";
+    sentiment = "positive";
+  } else if (score < 0) {
+    stance = "caveated";
+    sentiment = "negative";
+  } else {
+    stance = ownScore.negative > 0 || tailScore.negative > 0 ? "caveated" : "listed";
+    sentiment = "neutral";
+  }
+
+  return { index: span.index, sentiment, stance, evidence: cleanEvidence(sentence), backend: "lexicon" };
+}
+
+export function classifyMentionsLocal(text: string, mentions: MentionSpan[]): MentionSentiment[] {
+  return mentions.map(span => classifyMentionLocal(text, span));
+}
+
+export const lexiconBackend: SentimentBackend = {
+  name: "lexicon",
+  classify: async (text, _entityName, mentions) => classifyMentionsLocal(text, mentions),
+};
+
+// ============================================
+// LLM BACKEND
+// ============================================
+
+const SENTIMENTS: Sentiment[] = ["positive", "neutral", "negative"];
+const STANCES: Stance[] = ["recommended", "caveated", "warned_against", "listed"];
+
+// Each LLM call classifies at most this many mentions; the rest use the lexicon
+const LLM_MAX_MENTIONS = 10;
+
+function buildClassificationPrompt(entityName: string, sentences: string[]): string {
+  return [
+    `Classify how each sentence below talks about "${entityName}".`,
+    `For each one give sentiment (positive, neutral or negative) and stance:`,
+    `recommended (endorsed without reservations), caveated (endorsed with reservations, or criticised),`,
+    `warned_against (the reader is told to avoid it) or listed (named without an opinion).`,
+    `Reply with JSON only, no prose:`,
+    `[{"n": 1, "sentiment": "...", "stance": "...", "evidence": "<shortest quote that supports it>"}]`,
+    ``,
+    ...sentences.map((s, i) => `${i + 1}. ${s}`),
+  ].join("\n");
+}
+
+function parseClassification(reply: string): Map<number, { sentiment: Sentiment; stance: Stance; evidence?: string }> {
+  const parsed = new Map<number, { sentiment: Sentiment; stance: Stance; evidence?: string }>();
+  const start = reply.indexOf("[");
+  const end = reply.lastIndexOf("]");
+  if (start === -1 || end <= start) return parsed;
+  try {
+    const items = JSON.parse(reply.slice(start, end + 1));
+    if (!Array.isArray(items)) return parsed;
+    for (const item of items) {
+      const n = Number(item?.n);
+      if (!Number.isInteger(n) || !SENTIMENTS.includes(item.sentiment) || !STANCES.includes(item.stance)) continue;
+      parsed.set(n, {
+        sentiment: item.sentiment,
+        stance: item.stance,
+        evidence: typeof item.evidence === "string" ? item.evidence.slice(0, 300) : undefined,
+      });
+    }
+  } catch {
+    // Not JSON - every mention falls back to the lexicon
+  }
+  return parsed;
+}
+
+/**
+ * Backend that sends the evidence sentences to a model
+ * `complete` returns the model's reply, or null when the call failed
+ */
+export function createLLMBackend(
+  name: string,
+  complete: (prompt: string) => Promise<string | null>
+): SentimentBackend {
+  return {
+    name,
+    classify: async (text, entityName, mentions) => {
+      const local = classifyMentionsLocal(text, mentions);
+      if (mentions.length === 0) return local;
+
+      const batch = local.slice(0, LLM_MAX_MENTIONS);
+      const reply = await complete(buildClassificationPrompt(entityName, batch.map(m => m.evidence)));
+      if (!reply) return local;
+
+      const parsed = parseClassification(reply);
+      return local.map((m, i) => {
+        const result = parsed.get(i + 1);
+        if (!result) return m;
+        return { ...m, sentiment: result.sentiment, stance: result.stance, evidence: result.evidence || m.evidence, backend: name };
+      });
+    },
+  };
+}
+
+// ============================================
+// SUMMARY
+// ============================================
+
+/**
+ * One sentiment and stance for an entity from all its mentions
+ * Sentiment follows the balance of mentions; the most common opinionated
+ * stance wins (ties: warned_against > caveated > recommended)
+ */
+export function summarizeMentionSentiments(mentions: MentionSentiment[]): { sentiment: Sentiment; stance: Stance } {
+  if (mentions.length === 0) return { sentiment: "neutral", stance: "listed" };
+
+  const balance = mentions.reduce((sum, m) => sum + (m.sentiment === "positive" ? 1 : m.sentiment === "negative" ? -1 : 0), 0);
+  const sentiment: Sentiment = balance > 0 ? "positive" : balance < 0 ? "negative" : "neutral";
+
+  const counts = new Map<Stance, number>();
+  mentions.forEach(m => counts.set(m.stance, (counts.get(m.stance) || 0) + 1));
+  const stance = (["warned_against", "caveated", "recommended"] as Stance[])
+    .filter(s => counts.has(s))
+    .sort((a, b) => counts.get(b)! - counts.get(a)!)[0] || "listed";
+
+  return { sentiment, stance };
+}
@@ -0,0 +1,801 @@
+// @ts-nocheck
+/**
+ * ============================================================================
+ * FORZEO CONTENT GENERATION API - Supabase Edge Function v3.0
+ * ============================================================================
+ *
+ * Generates GEO-optimized content and audit prompts. The only path the
+ * dashboard uses for LLM generation - the browser never calls a provider.
+ *
+ * FEATURES:
+ * - Multiple content types (article, listicle, comparison, guide, FAQ)
+ * - Niche/super-niche prompt generation
+ * - Brand-optimized content for AI visibility
+ * - Input validation and sanitization
+ * - Provider failover: Groq -> OpenAI -> Anthropic (GENERATION_PROVIDERS)
+ * - Retries with exponential backoff (429, 5xx, timeouts; Retry-After honoured)
+ * - Rate limiting per organization (per minute and per day)
+ * - Structured error codes (_shared/generationErrors.ts)
+ * - Keys per organization (API Keys), Supabase secrets as fallback
+ * - Local OpenAI-compatible mock for development (LLM_MOCK_URL)
+ * - Content briefs from audit gaps (type content_brief + gaps), returned
+ *   only when they pass the schema in _shared/contentBrief.ts
+ * - Writing requirements per type from _shared/contentScore.ts, the rules
+ *   score-content checks drafts against
+ *
+ * ============================================================================
+ * PROVIDERS
+ * ============================================================================
+ *
+ * | Provider  | Model                   | Key                           |
+ * |-----------|-------------------------|-------------------------------|
+ * | groq      | llama-3.1-8b-instant    | groq (GROQ_API_KEY)           |
+ * | openai    | gpt-4o-mini             | openai (OPENAI_API_KEY)       |
+ * | anthropic | claude-3-haiku-20240307 | anthropic (ANTHROPIC_API_KEY) |
+ * | mock      | LLM_MOCK_MODEL          | LLM_MOCK_API_KEY (optional)   |
+ *
+ * Providers without a key are skipped. A rejected key (401/403) fails over
+ * at once; rate limits, 5xx and timeouts are retried first. With
+ * LLM_MOCK_URL set only the mock is used (e.g. http://localhost:11434/v1).
+ *
+ * ============================================================================
+ * RATE LIMITS & BUDGETS
+ * ============================================================================
+ *
+ * Every request that reaches a provider writes a forzeo_api_usage row
+ * (api_name generate_content, real cost), which also counts toward budgets.
+ * The row is reserved before the first provider call through the
+ * reserve_generation_slot RPC (count and insert under one lock), so a burst
+ * of concurrent requests can't all pass the same count; it is given back
+ * when no provider was called.
+ * Before any provider is called the monthly budget is checked the same way
+ * geo-audit checks it (_shared/budget.ts): a generation that may not fit is
+ * rejected with BUDGET_EXCEEDED.
+ * Defaults: GENERATION_RATE_LIMIT_PER_MINUTE (10), GENERATION_RATE_LIMIT_PER_DAY
+ * (300); per organization in organizations.settings.generation_rate_limit
+ * ({ "per_minute": 20, "per_day": 1000 }).
+ *
+ * @version 3.0.0
+ * @author Forzeo Team
+ *
+ * @example
+ * POST /functions/v1/generate-content
+ * {
+ *   "client_id": "uuid",
+ *   "prompt": "Write an article about best dating apps in India",
+ *   "type": "article",
+ *   "brand_name": "Juleo",
+ *   "competitors": ["Bumble", "Tinder"]
+ * }
+ *
+ * -> { "success": true, "data": { "response": "...", "provider": "groq", ... } }
+ * -> { "success": false, "error": { "code": "RATE_LIMITED", "message": "...", "retry_after": 42 } }
+ *
+ * POST /functions/v1/generate-content
+ * { "client_id": "uuid", "type": "content_brief", "prompt": "best dating apps",
+ *   "gaps": { "prompt_text": "...", "brand_name": "Juleo", "winners": [...], "entities_ahead": [...], "cited_domains": [...] } }
+ *
+ * -> { "success": true, "data": { "brief": { "title": "...", "outline": [...], ... }, "gaps": {...}, ... } }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authorize } from "../_shared/auth.ts";
+import { getBudgetStatus } from "../_shared/budget.ts";
+import { envCredentials, getOrganizationCredentials, type Credentials } from "../_shared/credentials.ts";
+import {
+  buildBriefRequest,
+  parseBriefJSON,
+  sanitizeBriefGaps,
+  validateContentBrief,
+  type BriefGaps,
+  type ContentBrief,
+} from "../_shared/contentBrief.ts";
+import { ruleRequirements } from "../_shared/contentScore.ts";
+import {
+  GENERATION_ERROR_STATUS,
+  type GenerationError,
+  type GenerationErrorCode,
+  type ProviderFailure,
+} from "../_shared/generationErrors.ts";
+
+// ============================================
+// CORS CONFIGURATION
+// ============================================
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "X-Content-Type-Options": "nosniff",
+  "X-Frame-Options": "DENY",
+};
+
+// ============================================
+// ENVIRONMENT CONFIGURATION
+// ============================================
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") || "";
+const SUPABASE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+const LLM_MOCK_URL = (Deno.env.get("LLM_MOCK_URL") || "").replace(/\/+$/, "");
+const LLM_MOCK_MODEL = Deno.env.get("LLM_MOCK_MODEL") || "mock";
+const LLM_MOCK_API_KEY = Deno.env.get("LLM_MOCK_API_KEY") || "mock";
+
+const RATE_LIMIT_PER_MINUTE = Number(Deno.env.get("GENERATION_RATE_LIMIT_PER_MINUTE")) || 10;
+const RATE_LIMIT_PER_DAY = Number(Deno.env.get("GENERATION_RATE_LIMIT_PER_DAY")) || 300;
+
+const MAX_OUTPUT_TOKENS = 4096;
+const MAX_ATTEMPTS = 3;              // per provider
+const ATTEMPT_TIMEOUT_MS = 30000;
+const MAX_RETRY_DELAY_MS = 10000;
+const DEADLINE_MS = 100000;          // stop retrying well before the edge function limit
+
+const USAGE_API_NAME = "generate_content";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+type ContentType = "article" | "listicle" | "comparison" | "guide" | "faq" | "prompts" | "content_brief";
+
+type GenerationProvider = "groq" | "openai" | "anthropic" | "mock";
+
+interface GenerateContentRequest {
+  client_id?: string;
+  prompt: string;
+  systemPrompt?: string;
+  type?: ContentType;
+  brand_name?: string;
+  competitors?: string[];
+  target_keywords?: string[];
+  industry?: string;
+  region?: string;
+  prompt_category?: "broad" | "niche" | "super_niche";
+  gaps?: BriefGaps;             // content_brief: what the audit found for the prompt
+}
+
+interface GenerateContentResponse {
+  response: string;
+  type: ContentType;
+  word_count: number;
+  provider: GenerationProvider;
+  model: string;
+  attempts: number;             // provider calls it took, failovers and retries included
+  cost: number;
+  generatedAt: string;
+  brief?: ContentBrief;         // content_brief only, validated
+  gaps?: BriefGaps;
+}
+
+interface ProviderResult {
+  ok: boolean;
+  content: string;
+  input_tokens: number;
+  output_tokens: number;
+  status: number | null;
+  error?: string;
+  retryable: boolean;
+  retry_after_ms?: number;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status, headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function fail(code: GenerationErrorCode, message: string, extra: Partial<GenerationError> = {}): Response {
+  const error: GenerationError = { code, message, ...extra };
+  const headers = extra.retry_after ? { "Retry-After": String(extra.retry_after) } : {};
+  return new Response(JSON.stringify({ success: false, error }), {
+    status: GENERATION_ERROR_STATUS[code], headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ============================================
+// INPUT VALIDATION
+// ============================================
+
+/**
+ * Sanitize input string to prevent injection
+ */
+function sanitizeString(input: string, maxLength: number = 2000): string {
+  if (!input || typeof input !== "string") return "";
+  return input
+    .trim()
+    .slice(0, maxLength)
+    .replace(/[<>]/g, "")
+    .replace(/[\x00-\x1F\x7F]/g, "");
+}
+
+/**
+ * Validate request body
+ */
+function validateRequest(body: GenerateContentRequest): string | null {
+  if (!body.client_id || typeof body.client_id !== "string") {
+    return "client_id is required";
+  }
+  if (body.type === "content_brief") {
+    return sanitizeBriefGaps(body.gaps) ? null : "gaps with prompt_text are required for content_brief";
+  }
+  if (!body.prompt || body.prompt.length < 10) {
+    return "prompt is required and must be at least 10 characters";
+  }
+  if (body.prompt.length > 2000) {
+    return "prompt must be less than 2000 characters";
+  }
+  const validTypes: ContentType[] = ["article", "listicle", "comparison", "guide", "faq", "prompts", "content_brief"];
+  if (body.type && !validTypes.includes(body.type)) {
+    return `type must be one of: ${validTypes.join(", ")}`;
+  }
+  return null;
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+const PROVIDER_MODELS: Record<GenerationProvider, string> = {
+  groq: "llama-3.1-8b-instant",
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-haiku-20240307",
+  mock: LLM_MOCK_MODEL,
+};
+
+// USD per million tokens [input, output]
+const PROVIDER_PRICES: Record<GenerationProvider, [number, number]> = {
+  groq: [0.05, 0.08],
+  openai: [0.15, 0.6],
+  anthropic: [0.25, 1.25],
+  mock: [0, 0],
+};
+
+const DEFAULT_PROVIDER_ORDER: GenerationProvider[] = ["groq", "openai", "anthropic"];
+
+/**
+ * Failover order: the mock alone when LLM_MOCK_URL is set, else
+ * GENERATION_PROVIDERS (e.g. "openai,groq") or Groq -> OpenAI -> Anthropic
+ */
+function providerOrder(): GenerationProvider[] {
+  if (LLM_MOCK_URL) return ["mock"];
+  const configured = (Deno.env.get("GENERATION_PROVIDERS") || "")
+    .split(",").map(p => p.trim().toLowerCase())
+    .filter((p): p is GenerationProvider => DEFAULT_PROVIDER_ORDER.includes(p as GenerationProvider));
+  return configured.length > 0 ? Array.from(new Set(configured)) : DEFAULT_PROVIDER_ORDER;
+}
+
+function providerKey(provider: GenerationProvider, credentials: Credentials): string {
+  return provider === "mock" ? LLM_MOCK_API_KEY : credentials[provider] || "";
+}
+
+function retryAfterMs(response: Response): number | undefined {
+  const header = response.headers.get("retry-after");
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * One call to a provider: OpenAI-compatible chat completions (Groq, OpenAI,
+ * mock) or the Anthropic Messages API
+ */
+async function callProvider(
+  provider: GenerationProvider,
+  apiKey: string,
+  prompt: string,
+  systemPrompt: string,
+  jsonMode: boolean
+): Promise<ProviderResult> {
+  const model = PROVIDER_MODELS[provider];
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), ATTEMPT_TIMEOUT_MS);
+
+  try {
+    const response = provider === "anthropic"
+      ? await fetch("https://api.anthropic.com/v1/messages", {
+          method: "POST",
+          signal: controller.signal,
+          headers: { "x-api-key": apiKey, "anthropic-version": "2023-06-01", "Content-Type": "application/json" },
+          body: JSON.stringify({
+            model, system: systemPrompt, max_tokens: MAX_OUTPUT_TOKENS, temperature: 0.7,
+            messages: [{ role: "user", content: prompt }],
+          }),
+        })
+      : await fetch(provider === "groq" ? "https://api.groq.com/openai/v1/chat/completions"
+          : provider === "openai" ? "https://api.openai.com/v1/chat/completions"
+          : `${LLM_MOCK_URL}/chat/completions`, {
+          method: "POST",
+          signal: controller.signal,
+          headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
+          body: JSON.stringify({
+            model, temperature: 0.7, max_tokens: MAX_OUTPUT_TOKENS,
+            // JSON mode where the API has it; the mock may not
+            ...(jsonMode && provider !== "mock" ? { response_format: { type: "json_object" } } : {}),
+            messages: [
+              { role: "system", content: systemPrompt },
+              { role: "user", content: prompt },
+            ],
+          }),
+        });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[Generate/${provider}] API error: ${response.status} - ${errorText.substring(0, 200)}`);
+      return {
+        ok: false, content: "", input_tokens: 0, output_tokens: 0, status: response.status,
+        error: `${provider} API error: ${response.status}`,
+        retryable: response.status === 408 || response.status === 429 || response.status >= 500,
+        retry_after_ms: retryAfterMs(response),
+      };
+    }
+
+    const data = await response.json();
+    const content = provider === "anthropic"
+      ? (data.content || []).map((c: { text?: string }) => c.text || "").join("")
+      : data.choices?.[0]?.message?.content || "";
+    const input_tokens = data.usage?.input_tokens ?? data.usage?.prompt_tokens ?? 0;
+    const output_tokens = data.usage?.output_tokens ?? data.usage?.completion_tokens ?? 0;
+
+    if (!content.trim()) {
+      return { ok: false, content: "", input_tokens, output_tokens, status: response.status, error: `${provider} returned an empty response`, retryable: true };
+    }
+    return { ok: true, content, input_tokens, output_tokens, status: response.status, retryable: false };
+  } catch (err) {
+    const timedOut = err instanceof Error && err.name === "AbortError";
+    console.error(`[Generate/${provider}] ${timedOut ? "Timed out" : `Exception: ${err}`}`);
+    return {
+      ok: false, content: "", input_tokens: 0, output_tokens: 0, status: null,
+      error: timedOut ? `${provider} timed out` : String(err), retryable: true,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Try each provider in order, retrying transient failures with backoff
+ * (1s, 2s + jitter, or the provider's Retry-After, capped)
+ */
+async function generateWithFailover(
+  credentials: Credentials,
+  prompt: string,
+  systemPrompt: string,
+  jsonMode = false
+): Promise<
+  | { ok: true; content: string; provider: GenerationProvider; model: string; attempts: number; cost: number }
+  | { ok: false; code: GenerationErrorCode; message: string; providers: ProviderFailure[]; attempts: number; cost: number }
+> {
+  const started = Date.now();
+  const failures: ProviderFailure[] = [];
+  let attempts = 0;
+  let cost = 0;
+
+  for (const provider of providerOrder()) {
+    const model = PROVIDER_MODELS[provider];
+    const apiKey = providerKey(provider, credentials);
+    if (!apiKey) {
+      failures.push({ provider, model, status: null, attempts: 0, error: "No key configured" });
+      continue;
+    }
+
+    let last: ProviderResult | null = null;
+    let tries = 0;
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        const backoff = Math.pow(2, attempt - 1) * 1000 + Math.floor(Math.random() * 250);
+        const delay = Math.min(MAX_RETRY_DELAY_MS, Math.max(backoff, last?.retry_after_ms || 0));
+        if (Date.now() - started + delay + ATTEMPT_TIMEOUT_MS > DEADLINE_MS) break;
+        console.log(`[Generate/${provider}] Retry ${attempt + 1}/${MAX_ATTEMPTS}, waiting ${delay}ms...`);
+        await sleep(delay);
+      }
+
+      tries++;
+      attempts++;
+      last = await callProvider(provider, apiKey, prompt, systemPrompt, jsonMode);
+      const [inputPrice, outputPrice] = PROVIDER_PRICES[provider];
+      cost += (last.input_tokens * inputPrice + last.output_tokens * outputPrice) / 1_000_000;
+
+      if (last.ok) {
+        console.log(`[Generate/${provider}] Generated ${last.content.length} characters (attempt ${attempts})`);
+        return { ok: true, content: last.content, provider, model, attempts, cost };
+      }
+      if (!last.retryable) break;
+    }
+
+    failures.push({ provider, model, status: last?.status ?? null, attempts: tries, error: last?.error || "Not attempted" });
+    if (Date.now() - started > DEADLINE_MS) break;
+    console.log(`[Generate] ${provider} failed, trying the next provider...`);
+  }
+
+  const tried = failures.filter(f => f.attempts > 0);
+  if (tried.length === 0) {
+    return { ok: false, code: "NO_PROVIDER", message: "No AI provider key configured", providers: failures, attempts, cost };
+  }
+  if (tried.every(f => f.status === 401 || f.status === 403)) {
+    return { ok: false, code: "PROVIDER_AUTH", message: "AI provider keys were rejected", providers: failures, attempts, cost };
+  }
+  return { ok: false, code: "PROVIDERS_UNAVAILABLE", message: "All AI providers failed", providers: failures, attempts, cost };
+}
+
+// ============================================
+// RATE LIMITING, BUDGETS & USAGE
+// ============================================
+
+/**
+ * Reserve a rate limit slot for an organization (or a client without one)
+ * reserve_generation_slot counts the last minute / day and inserts the usage
+ * row under one lock, so concurrent requests can't all pass on the same count
+ * (database/add_generation_rate_limit.sql). The row is filled in by logGenerationUsage.
+ */
+async function reserveGenerationSlot(
+  supabase,
+  client: { id: string; organization_id: string | null; organization_settings?: Record<string, any> | null },
+  promptText: string
+): Promise<{ allowed: true; usage_id: string | null } | { allowed: false; message: string; retry_after: number }> {
+  const overrides = client.organization_settings?.generation_rate_limit || {};
+  const perMinute = Number(overrides.per_minute) || RATE_LIMIT_PER_MINUTE;
+  const perDay = Number(overrides.per_day) || RATE_LIMIT_PER_DAY;
+
+  const { data, error } = await supabase.rpc("reserve_generation_slot", {
+    p_organization_id: client.organization_id,
+    p_client_id: client.id,
+    p_per_minute: perMinute,
+    p_per_day: perDay,
+    p_prompt_text: promptText,
+  });
+  const slot = Array.isArray(data) ? data[0] : data;
+  if (error || !slot) {
+    // A failed reservation never blocks generation (usage is inserted afterwards instead)
+    console.error("[RateLimit] Reservation failed:", error?.message || "no row returned");
+    return { allowed: true, usage_id: null };
+  }
+  if (slot.limited_by) {
+    const limit = slot.limited_by === "minute" ? `${perMinute} generations per minute` : `${perDay} generations per day`;
+    return { allowed: false, message: `Limit of ${limit} reached`, retry_after: slot.retry_after };
+  }
+  return { allowed: true, usage_id: slot.usage_id };
+}
+
+/**
+ * Upper-bound cost of one generation: a full-length answer from the priciest
+ * provider failover may reach (input tokens estimated at 4 characters each)
+ */
+function estimateGenerationCost(prompt: string, systemPrompt: string): number {
+  const inputTokens = Math.ceil((prompt.length + systemPrompt.length) / 4);
+  return Math.max(0, ...providerOrder().map(provider => {
+    const [inputPrice, outputPrice] = PROVIDER_PRICES[provider];
+    return (inputTokens * inputPrice + MAX_OUTPUT_TOKENS * outputPrice) / 1_000_000;
+  }));
+}
+
+/**
+ * One forzeo_api_usage row per request that reached a provider
+ * (counts toward the rate limit and the monthly budget; failures are logged, never thrown)
+ * Completes the row reserved by reserveGenerationSlot, or inserts one without a reservation
+ */
+async function logGenerationUsage(
+  supabase,
+  client: { id: string; organization_id: string | null },
+  usageId: string | null,
+  endpoint: string,
+  providers: string[],
+  cost: number,
+  promptText: string
+): Promise<void> {
+  const fields = { endpoint, cost, prompt_text: promptText, models_used: providers };
+  const { error } = usageId
+    ? await supabase.from("forzeo_api_usage").update(fields).eq("id", usageId)
+    : await supabase.from("forzeo_api_usage").insert({
+      organization_id: client.organization_id,
+      client_id: client.id,
+      api_name: USAGE_API_NAME,
+      request_count: 1,
+      ...fields,
+    });
+  if (error) console.error("[Usage] Save error:", error.message);
+}
+
+/**
+ * Give a reserved slot back when no provider was called
+ */
+async function releaseGenerationSlot(supabase, usageId: string | null): Promise<void> {
+  if (!usageId) return;
+  const { error } = await supabase.from("forzeo_api_usage").delete().eq("id", usageId);
+  if (error) console.error("[Usage] Release error:", error.message);
+}
+
+// ============================================
+// SYSTEM PROMPTS
+// ============================================
+
+/**
+ * Get system prompt based on content type
+ * Each type has specific formatting and structure requirements; the checkable
+ * ones are CONTENT_RULES (_shared/contentScore.ts), scored by score-content
+ */
+function getSystemPrompt(type: ContentType, brandName?: string, competitors?: string[]): string {
+  const brandContext = brandName 
+    ? `\n\nBrand to feature: ${brandName}${competitors?.length ? `\nCompetitors to mention: ${competitors.slice(0, 5).join(", ")}` : ""}`
+    : "";
+
+  const prompts: Record<ContentType, string> = {
+    prompts: `You are a search prompt generator for AI visibility analysis.
+Generate realistic, diverse search queries that users would ask AI assistants (ChatGPT, Google, Perplexity, etc.).
+
+Include a mix of:
+- Broad queries: "Best [product/service] in [region]"
+- Niche queries: "[product] for [specific audience] in [region]"
+- Super-niche queries: "[product] for [very specific use case] in [specific location]"
+- Comparison queries: "[brand] vs [competitor]"
+- Problem-solving queries: "How to [solve problem] with [product]"
+- Feature queries: "[product] with [specific feature]"
+
+Output only the prompts, one per line, no numbering or bullets.
+Generate 8-12 diverse prompts.`,
+
+    content_brief: `You are a content strategist specializing in GEO (Generative Engine Optimization).
+Generate structured content briefs that help brands appear in AI-generated responses.
+
+Output only this JSON object, no Markdown:
+{
+  "title": "Suggested article title",
+  "angle": "What the piece must do to be recommended for the prompt",
+  "content_type": "article|listicle|comparison|guide|faq",
+  "word_count": 1200,
+  "target_keywords": ["keyword1", "keyword2"],
+  "outline": [{ "heading": "Section heading", "points": ["What to cover", "Fact or comparison to include"] }],
+  "sources_to_get_listed_on": [{ "domain": "example.com", "reason": "Why being listed there helps" }],
+  "competitors_to_address": ["Competitor"]
+}${brandContext}`,
+
+    article: `You are an expert content writer specializing in GEO (Generative Engine Optimization).
+Create high-quality, SEO-optimized articles in Markdown format.
+
+Requirements:
+${ruleRequirements("article")}
+- Write in an authoritative but accessible tone
+- Make content suitable for AI models to reference and cite${brandContext}`,
+
+    listicle: `You are an expert content writer creating engaging listicle content.
+Format in Markdown with numbered lists as the main structure.
+
+Requirements:
+${ruleRequirements("listicle")}
+- Include brief explanations for each item (2-3 sentences)
+- Be balanced and informative${brandContext}`,
+
+    comparison: `You are an expert content writer creating balanced comparison content.
+Format in Markdown with clear structure.
+
+Requirements:
+${ruleRequirements("comparison")}
+- Help readers make informed decisions
+- Be fair to all options while highlighting strengths${brandContext}`,
+
+    guide: `You are an expert content writer creating comprehensive how-to guides.
+Format in Markdown with step-by-step instructions.
+
+Requirements:
+${ruleRequirements("guide")}
+- Address common questions and issues
+- Be thorough but concise
+- Include prerequisites if applicable${brandContext}`,
+
+    faq: `You are an expert content writer creating FAQ content.
+Format in Markdown with Q&A structure.
+
+Requirements:
+${ruleRequirements("faq")}
+- Provide concise but complete answers
+- Cover common questions and concerns
+- Include relevant details and examples
+- Group related questions together${brandContext}`,
+  };
+
+  return prompts[type] || prompts.article;
+}
+
+// ============================================
+// NICHE PROMPT GENERATION
+// ============================================
+
+/**
+ * Generate niche and super-niche prompts for a given topic
+ */
+function buildPromptGenerationRequest(
+  keywords: string,
+  brandName?: string,
+  industry?: string,
+  region?: string,
+  category?: "broad" | "niche" | "super_niche"
+): string {
+  const categoryInstructions: Record<string, string> = {
+    broad: "Focus on general, high-volume search queries that many users would ask.",
+    niche: "Focus on specific segment queries targeting particular audiences or use cases.",
+    super_niche: "Focus on highly specific, long-tail queries with very particular requirements.",
+  };
+
+  return `Generate search prompts for AI visibility analysis based on:
+
+Keywords/Topic: ${keywords}
+${brandName ? `Brand: ${brandName}` : ""}
+${industry ? `Industry: ${industry}` : ""}
+${region ? `Region: ${region}` : ""}
+
+${category ? categoryInstructions[category] : "Include a mix of broad, niche, and super-niche queries."}
+
+Examples of query types:
+- Broad: "Best dating apps 2025"
+- Niche: "Dating apps for professionals over 30"
+- Super-niche: "Dating apps for Indian doctors in Mumbai looking for marriage"
+
+Generate 8-12 realistic search prompts that users would ask AI assistants.
+Output only the prompts, one per line.`;
+}
+
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return json({ success: false, error: { code: "INVALID_REQUEST", message: "Method not allowed" } }, 405);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_KEY) {
+    return fail("INTERNAL", "Supabase service credentials not configured");
+  }
+
+  try {
+    // Parse request
+    const body = await req.json().catch(() => ({})) as GenerateContentRequest;
+
+    // Validate
+    const validationError = validateRequest(body);
+    if (validationError) return fail("INVALID_REQUEST", validationError);
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+    const type: ContentType = body.type || "article";
+
+    // Prompt generation adds prompts, everything else is content (briefs included)
+    const access = await authorize(req, supabase, SUPABASE_KEY, body.client_id, type === "prompts" ? "manage_prompts" : "manage_content");
+    if (!access.allowed) return fail(access.status === 401 ? "UNAUTHORIZED" : "FORBIDDEN", access.error || "Not allowed");
+
+    const { data: clientRow } = await supabase
+      .from("clients").select("id, organization_id, organizations(settings)").eq("id", body.client_id).maybeSingle();
+    if (!clientRow) return fail("INVALID_REQUEST", "Client not found");
+    const client = {
+      id: clientRow.id, organization_id: clientRow.organization_id, organization_settings: clientRow.organizations?.settings,
+    };
+
+    // Sanitize inputs
+    const prompt = sanitizeString(body.prompt, 2000);
+    const brandName = body.brand_name ? sanitizeString(body.brand_name, 100) : undefined;
+    const competitors = body.competitors?.map(c => sanitizeString(c, 100)).filter(Boolean);
+    const industry = body.industry ? sanitizeString(body.industry, 100) : undefined;
+    const region = body.region ? sanitizeString(body.region, 100) : undefined;
+
+    console.log(`[Content] Generating ${type} content...`);
+
+    // Build the appropriate prompt
+    let finalPrompt = prompt;
+    const gaps = type === "content_brief" ? sanitizeBriefGaps(body.gaps) : null;
+    if (gaps) {
+      finalPrompt = buildBriefRequest(gaps);
+    } else if (type === "prompts") {
+      finalPrompt = buildPromptGenerationRequest(
+        prompt,
+        brandName,
+        industry,
+        region,
+        body.prompt_category
+      );
+    }
+
+    // Get system prompt
+    const systemPrompt = body.systemPrompt
+      ? sanitizeString(body.systemPrompt, 1000)
+      : getSystemPrompt(type, brandName, competitors);
+
+    // The client's organization keys, project secrets for the rest
+    const credentials: Credentials = {
+      ...envCredentials(),
+      ...(await getOrganizationCredentials(supabase, client.organization_id)),
+    };
+
+    // Same monthly budget as audits: nothing is called when a generation may not fit
+    const budget = await getBudgetStatus(supabase, client.id);
+    const estimatedCost = estimateGenerationCost(finalPrompt, systemPrompt);
+    if (budget.remaining_usd !== null && estimatedCost > budget.remaining_usd) {
+      console.log(`[Budget] ${client.organization_id || client.id}: $${budget.remaining_usd.toFixed(4)} left, generation needs ~$${estimatedCost.toFixed(4)}`);
+      return fail("BUDGET_EXCEEDED", `Monthly budget exceeded: $${budget.remaining_usd.toFixed(3)} left of $${budget.limit_usd!.toFixed(2)}`);
+    }
+
+    // Take the rate limit slot before any provider is called
+    const slot = await reserveGenerationSlot(supabase, client, gaps?.prompt_text || prompt);
+    if (!slot.allowed) {
+      console.log(`[RateLimit] ${client.organization_id || client.id}: ${slot.message}`);
+      return fail("RATE_LIMITED", slot.message, { retry_after: slot.retry_after });
+    }
+
+    // Generate content
+    const result = await generateWithFailover(credentials, finalPrompt, systemPrompt, !!gaps);
+
+    if (!result.ok) {
+      if (result.attempts > 0) {
+        await logGenerationUsage(supabase, client, slot.usage_id, "failed", result.providers.filter(p => p.attempts > 0).map(p => p.provider), result.cost, prompt);
+      } else {
+        await releaseGenerationSlot(supabase, slot.usage_id);
+      }
+      console.error(`[Content] ${result.code}: ${result.providers.map(p => `${p.provider} ${p.status ?? "-"} ${p.error}`).join("; ")}`);
+      return fail(result.code, result.message, { providers: result.providers });
+    }
+
+    // Briefs must pass the schema; one retry with the problems spelled out
+    let brief: ContentBrief | undefined;
+    if (gaps) {
+      let check = validateContentBrief(parseBriefJSON(result.content));
+      if (!check.brief) {
+        console.log(`[Content] Brief rejected (${check.errors.join("; ")}), asking again...`);
+        const retry = await generateWithFailover(credentials,
+          `${finalPrompt}\n\nYour previous answer was rejected: ${check.errors.join("; ")}. Return only the JSON object.`,
+          systemPrompt, true);
+        result.cost += retry.cost;
+        result.attempts += retry.attempts;
+        if (retry.ok) {
+          check = validateContentBrief(parseBriefJSON(retry.content));
+          Object.assign(result, { content: retry.content, provider: retry.provider, model: retry.model });
+        }
+      }
+      if (!check.brief) {
+        await logGenerationUsage(supabase, client, slot.usage_id, `${result.provider}:${result.model}`, [result.provider], result.cost, gaps.prompt_text);
+        return fail("INVALID_OUTPUT", `The brief didn't match the schema: ${check.errors.join("; ")}`);
+      }
+      brief = check.brief;
+    }
+
+    await logGenerationUsage(supabase, client, slot.usage_id, `${result.provider}:${result.model}`, [result.provider], result.cost, gaps?.prompt_text || prompt);
+
+    // Calculate word count
+    const wordCount = result.content.split(/\s+/).filter(Boolean).length;
+
+    console.log(`[Content] Generated ${result.content.length} chars, ${wordCount} words via ${result.provider}`);
+
+    // Build response
+    const response: GenerateContentResponse = {
+      response: result.content,
+      type,
+      word_count: wordCount,
+      provider: result.provider,
+      model: result.model,
+      attempts: result.attempts,
+      cost: result.cost,
+      generatedAt: new Date().toISOString(),
+      ...(brief ? { brief, gaps } : {}),
+    };
+
+    return json({ success: true, data: response });
+
+  } catch (error) {
+    console.error("[Content] Error:", error);
+
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return fail("INTERNAL", errorMessage.replace(/[<>]/g, "").substring(0, 200));
+  }
+});
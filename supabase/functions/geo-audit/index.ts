@@ -20,6 +20,9 @@
  * | Gemini     | /ai_optimization/gemini/llm_responses/live  | gemini-2.5-flash         |
  * | Claude     | /ai_optimization/claude/llm_responses/live  | claude-sonnet-4-0        |
  * | Perplexity | /ai_optimization/perplexity/llm_responses/live| sonar-pro              |
+ *
+ * Search-grounded variants use the same endpoints with web_search on and keep
+ * the model's source list as citations: chatgpt_search, gemini_grounded.
  * 
  * These are REAL-TIME responses from actual AI providers - NOT simulated!
  * 
@@ -28,11 +31,30 @@
  * ============================================================================
  * 
  * - LIVE LLM Queries: Real-time inference from ChatGPT, Gemini, Claude, Perplexity
- * - Brand Detection: Find brand mentions, rank in lists, sentiment analysis
+ * - Provider Routing: Per-client model routing to OpenAI, Anthropic, Gemini, Perplexity or any
+ *   OpenAI-compatible server instead of DataForSEO (clients.settings.model_routing)
+ * - Brand Detection: Whole-word brand/alias matching (see _shared/brandMatching.ts), rank in lists
+ * - Sentiment: Per-mention sentiment and stance with evidence (lexicon or LLM, see _shared/sentiment.ts)
+ * - Answer Parsing: Ordered list of every recommended entity (see _shared/answerParser.ts)
+ * - Competitor Backfill: Find newly tracked competitors in stored responses (mode "backfill")
+ * - Reprocessing: Re-parse stored responses with current tags/competitors (mode "reprocess")
  * - Competitor Analysis: Track competitor mentions and rankings
  * - Citation Tracking: Extract and aggregate source URLs
+ * - Source Classes: Class + authority per cited domain, feeds trust index (see _shared/citationClassifier.ts)
  * - Cost Tracking: Monitor API costs per query
  * - Database Persistence: Save results to Supabase (optional)
+ * - Batch Jobs: Run many prompts server-side with progress in audit_jobs
+ * - Alerts: Evaluate alert rules after each saved audit (see _shared/alerts.ts)
+ * - Response Cache: Reuse raw provider responses across clients (TTL per model)
+ * - Budgets: Pre-flight cost estimate, monthly client/org caps, per-call usage log
+ * - Multi-sample Runs: Ask each model N times, report mention probability and 95% CI
+ * - Languages: Audit prompts per language (prompt, then client) with per-language brand aliases
+ * - Access Control: Signed-in callers need a role on the client (see _shared/permissions.ts);
+ *   the scheduler calls with the service role key
+ * - Credentials: Provider keys of the client's organization, decrypted per request
+ *   (see _shared/credentials.ts); the project's secrets are the fallback
+ * - Locations: Country, region or city location codes; batch runs fan each prompt out to several
+ *   locations (clients.settings.audit_locations, see _shared/locations.ts)
  * - Retry Logic: Exponential backoff for reliability
  * - Input Validation: Sanitize all inputs for security
  * 
@@ -48,6 +70,8 @@
  * | Perplexity (LIVE)    | ~$0.05-0.10    |
  * | Google AI Overview   | ~$0.003        |
  * | Google SERP          | ~$0.002        |
+ * | Bing Copilot         | ~$0.003        |
+ * | Bing / other SERP    | ~$0.002        |
  * 
  * ============================================================================
  * SECURITY
@@ -57,7 +81,7 @@
  * - Rate limiting headers
  * - Error message sanitization
  * - CORS protection
- * - API keys stored in environment variables
+ * - API keys stored encrypted per organization, or as Supabase secrets
  * 
  * @version 3.0.0
  * @author Forzeo Team
@@ -66,6 +90,39 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { processAuditAlerts } from "../_shared/alerts.ts";
+import { authorize } from "../_shared/auth.ts";
+import { getBudgetStatus, type BudgetStatus } from "../_shared/budget.ts";
+import { getCredential, loadCredentials, withCredentials } from "../_shared/credentials.ts";
+import type { Permission } from "../_shared/permissions.ts";
+import {
+  parseEntity,
+  normalizeEntityName,
+  findEntityMatches,
+  mentionsEntity,
+  matchedEntityTerms,
+  withLanguageAliases,
+  type EntitySpec,
+  type LanguageAliases,
+} from "../_shared/brandMatching.ts";
+import { DEFAULT_LANGUAGE, findLanguage, languageName, normalizeLanguage } from "../_shared/languages.ts";
+import { DEFAULT_LOCATION_CODE, formatLocation } from "../_shared/locations.ts";
+import { parseRankedEntities, type RankedEntity } from "../_shared/answerParser.ts";
+import {
+  classifyMentionsLocal,
+  createLLMBackend,
+  lexiconBackend,
+  summarizeMentionSentiments,
+  type MentionSentiment,
+  type SentimentBackend,
+  type Stance,
+} from "../_shared/sentiment.ts";
+import {
+  classifySource,
+  type SourceClass,
+  type SourceContext,
+  type SourceOverride,
+} from "../_shared/citationClassifier.ts";
 
 // ============================================
 // CORS CONFIGURATION
@@ -84,22 +141,28 @@ const corsHeaders = {
 // ============================================
 
 // DataForSEO API (primary for LLM Mentions + AI Overview + LIVE LLM)
+// Provider keys - DataForSEO, OpenAI, Anthropic, Gemini, Perplexity - come from
+// getCredential(): the client's organization key, else the project's secret
+// (DATAFORSEO_LOGIN/DATAFORSEO_PASSWORD, OPENAI_API_KEY, ...)
 const DATAFORSEO_API = "https://api.dataforseo.com/v3";
-const DATAFORSEO_LOGIN = Deno.env.get("DATAFORSEO_LOGIN") || "contact@forzeo.com";
-const DATAFORSEO_PASSWORD = Deno.env.get("DATAFORSEO_PASSWORD") || "b00e21651e5fab03";
-const DATAFORSEO_AUTH = btoa(`${DATAFORSEO_LOGIN}:${DATAFORSEO_PASSWORD}`);
 
 // Serper API (alternative/backup for SERP)
 const SERPER_API_KEY = Deno.env.get("SERPER_API_KEY") || "";
 
-// Gemini API (for direct LLM queries)
-const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY") || "";
+// Any OpenAI-compatible server (Ollama, LM Studio, a local mock) - see PROVIDER ADAPTERS
+// Clients may set their own base_url; the key is read from OPENAI_COMPATIBLE_API_KEY
+// or another OPENAI_COMPATIBLE_* secret named in the route
+const OPENAI_COMPATIBLE_BASE_URL = Deno.env.get("OPENAI_COMPATIBLE_BASE_URL") || "http://localhost:11434/v1";
+const OPENAI_COMPATIBLE_MODEL = Deno.env.get("OPENAI_COMPATIBLE_MODEL") || "llama3.1";
+const OPENAI_COMPATIBLE_COST_PER_QUERY = parseFloat(Deno.env.get("OPENAI_COMPATIBLE_COST_PER_QUERY") || "0");
 
-// OpenAI API (for direct ChatGPT queries)
-const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY") || "";
+// Search engine behind the generic_serp model unless a client picks one (see SERP_ENGINES)
+const GENERIC_SERP_ENGINE = Deno.env.get("GENERIC_SERP_ENGINE") || "yahoo";
 
-// Anthropic API (for direct Claude queries)
-const ANTHROPIC_API_KEY = Deno.env.get("ANTHROPIC_API_KEY") || "";
+// Sentiment backend: "lexicon" (default, offline, free), "chatgpt" or "claude"
+// The LLM backends re-classify brand mentions via queryChatGPT / queryClaude
+const SENTIMENT_BACKEND = Deno.env.get("SENTIMENT_BACKEND") || "lexicon";
+const SENTIMENT_COST_PER_RESULT = 0.001; // one classification call per model result
 
 // Note: Groq removed - using DataForSEO LIVE LLM API only
 
@@ -107,6 +170,42 @@ const ANTHROPIC_API_KEY = Deno.env.get("ANTHROPIC_API_KEY") || "";
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") || "";
 const SUPABASE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
 
+// Response cache TTL per model, in hours (0 = never cache)
+// Override with RESPONSE_CACHE_TTL_HOURS='{"chatgpt": 6, "google_serp": 0}'
+const RESPONSE_CACHE_TTL_HOURS: Record<string, number> = {
+  llm_mentions: 72,   // DataForSEO's own answer database, changes slowly
+  chatgpt: 24,
+  claude: 24,
+  gemini: 24,
+  perplexity: 12,
+  chatgpt_search: 12,  // grounded answers follow the live web
+  gemini_grounded: 12,
+  google_ai_overview: 12,
+  google_serp: 12,
+  bing_copilot: 12,
+  bing_serp: 12,
+  generic_serp: 12,   // per engine: generic_serp@yahoo, generic_serp@naver, ...
+  ...(() => {
+    try { return JSON.parse(Deno.env.get("RESPONSE_CACHE_TTL_HOURS") || "{}"); } catch { return {}; }
+  })(),
+};
+
+// Multi-sample runs: each model is asked up to this many times per prompt
+const MAX_SAMPLES = 5;
+
+// Version of the response parsing (brand matching, answer parser, scores)
+// Bump when parsing changes so stored audits can be found and reprocessed
+const PARSER_VERSION = 5;
+
+// Batch jobs: prompts run in parallel per job (each prompt already fans out to every model)
+const BATCH_DEFAULT_CONCURRENCY = 2;
+const BATCH_MAX_CONCURRENCY = 4;
+const BATCH_MAX_PROMPTS = 200;
+const BATCH_MAX_LOCATIONS = 10;
+
+// DataForSEO location codes: countries are 4 digits, regions 5, cities and postal areas 7
+const MAX_LOCATION_CODE = 9999999;
+
 // ============================================
 // MODEL CONFIGURATIONS
 // ============================================
@@ -128,13 +227,43 @@ const AI_MODELS: Record<string, {
   claude: { name: "Claude", color: "#d97706", provider: "Anthropic", weight: 0.95, costPerQuery: 0.02, isLLM: true },
   gemini: { name: "Gemini", color: "#4285f4", provider: "Google", weight: 0.95, costPerQuery: 0.02, isLLM: true },
   perplexity: { name: "Perplexity", color: "#6366f1", provider: "Perplexity AI", weight: 0.9, costPerQuery: 0.02, isLLM: true },
+  // Search-grounded variants (web search on, structured source lists)
+  chatgpt_search: { name: "ChatGPT Search", color: "#0d8a6a", provider: "OpenAI", weight: 1.0, costPerQuery: 0.03, isLLM: true },
+  gemini_grounded: { name: "Gemini Grounded", color: "#1a73e8", provider: "Google", weight: 0.95, costPerQuery: 0.03, isLLM: true },
   // Traditional SERP models
   google_ai_overview: { name: "Google AI Overview", color: "#ea4335", provider: "DataForSEO", weight: 0.85, costPerQuery: 0.003, isLLM: false },
   google_serp: { name: "Google SERP", color: "#34a853", provider: "DataForSEO", weight: 0.7, costPerQuery: 0.002, isLLM: false },
+  bing_copilot: { name: "Bing Copilot", color: "#0078d4", provider: "Microsoft", weight: 0.8, costPerQuery: 0.003, isLLM: false },
+  bing_serp: { name: "Bing SERP", color: "#00a2ed", provider: "Microsoft", weight: 0.6, costPerQuery: 0.002, isLLM: false },
+  generic_serp: { name: "Other SERP", color: "#94a3b8", provider: "DataForSEO", weight: 0.5, costPerQuery: 0.002, isLLM: false },
+};
+
+// Engines generic_serp can query (DataForSEO SERP API); Baidu, Naver and Seznam
+// need a location_code from their own location list
+const SERP_ENGINES = ["google", "bing", "yahoo", "baidu", "naver", "seznam"];
+
+// LLM model IDs (LLM Mentions API, then LIVE LLM)
+const LLM_MODEL_IDS = ["chatgpt", "claude", "gemini", "perplexity", "chatgpt_search", "gemini_grounded"];
+
+// Search-grounded variants -> base model whose LIVE endpoint they use with web_search on
+// LLM Mentions has no grounded answers, so these always run live
+const SEARCH_GROUNDED_MODELS: Record<string, string> = {
+  chatgpt_search: "chatgpt",
+  gemini_grounded: "gemini",
+};
+
+// Model names behind DataForSEO's LIVE LLM endpoints
+const DATAFORSEO_LIVE_MODELS: Record<string, string> = {
+  chatgpt: "gpt-4.1-mini",
+  gemini: "gemini-2.5-flash",
+  claude: "claude-sonnet-4-0",
+  perplexity: "sonar-pro",
+  chatgpt_search: "gpt-4.1-mini",
+  gemini_grounded: "gemini-2.5-flash",
 };
 
-// LLM model IDs for the LLM Mentions API
-const LLM_MODEL_IDS = ["chatgpt", "claude", "gemini", "perplexity"];
+// Models queried when a request doesn't specify any
+const DEFAULT_MODELS = ["chatgpt", "claude", "gemini", "perplexity", "google_ai_overview"];
 
 // ============================================
 // TYPE DEFINITIONS
@@ -147,6 +276,29 @@ interface Citation {
   position?: number;
   snippet?: string;
   is_brand_source?: boolean;
+  source_class?: SourceClass;
+  authority?: number;
+}
+
+// Where a model's answer comes from (see PROVIDER ADAPTERS)
+type ProviderId = "dataforseo" | "openai" | "anthropic" | "gemini" | "perplexity" | "openai_compatible";
+
+interface ModelRoute {
+  provider: ProviderId;
+  model?: string;        // provider's model name (adapter default when omitted)
+  base_url?: string;     // openai_compatible only
+  api_key_env?: string;  // openai_compatible only: an OPENAI_COMPATIBLE_* secret
+}
+
+interface ProviderResponse {
+  success: boolean;
+  response: string;
+  citations: Citation[];
+  tokens: number;
+  cost: number;
+  latency_ms: number;
+  error?: string;
+  from_cache?: boolean;
 }
 
 interface CompetitorMention {
@@ -154,6 +306,7 @@ interface CompetitorMention {
   count: number;
   rank: number | null;
   sentiment: "positive" | "neutral" | "negative";
+  stance?: Stance;
 }
 
 interface ModelResult {
@@ -170,16 +323,46 @@ interface ModelResult {
   brand_mention_count: number;
   brand_rank: number | null;
   brand_sentiment: "positive" | "neutral" | "negative";
+  brand_stance: Stance | null;                  // null when the brand isn't mentioned
+  brand_mention_sentiments: MentionSentiment[]; // per mention, with the evidence sentence
   matched_terms: string[];
   winner_brand: string;
   competitors_found: CompetitorMention[];
+  ranked_entities: RankedEntity[];  // every entity the answer recommends, in order
   citations: Citation[];
   citation_count: number;
   api_cost: number;
   is_cited: boolean;
   authority_type?: "authority" | "alternative" | "mentioned";
+  source_authority?: number | null;  // mean authority of the cited sources (null without citations)
   ai_search_volume?: number;
   response_time_ms?: number;
+  from_cache?: boolean;
+  answer_source?: string;      // "dataforseo_llm_mentions", "dataforseo_live" or "<provider>:<model>"
+  samples?: ModelSample[];     // every answer when samples > 1 (first = raw_response)
+  sample_stats?: SampleStats;
+}
+
+interface ModelSample {
+  response: string;
+  brand_mentioned: boolean;
+  brand_mention_count: number;
+  brand_rank: number | null;
+  is_cited: boolean;
+  citation_count: number;
+  api_cost: number;
+  from_cache: boolean;
+  excluded?: boolean;      // LLM Mentions answer next to LIVE samples: stored, left out of the vote and interval
+}
+
+interface SampleStats {
+  samples: number;                   // successful samples
+  mentions: number;                  // samples that mention the brand
+  mention_probability: number;       // mentions / samples (0-1)
+  sov_ci: [number, number];          // 95% Wilson interval on SOV, in %
+  rank_median: number | null;
+  rank_min: number | null;
+  rank_max: number | null;
 }
 
 interface AuditRequest {
@@ -193,8 +376,62 @@ interface AuditRequest {
   competitors?: string[];
   location_code?: number;
   location_name?: string;
+  language?: string;       // audit language code (see _shared/languages.ts), default "en"
   models?: string[];
   save_to_db?: boolean;
+  force_refresh?: boolean; // skip the response cache and query providers again
+  budget_policy?: BudgetPolicy;
+  samples?: number;        // ask each model N times (1-MAX_SAMPLES)
+  routing?: Record<string, Partial<ModelRoute>>;  // per-model provider/model override (A/B runs)
+}
+
+interface BatchAuditRequest {
+  mode: "batch";
+  client_id: string;
+  prompt_ids?: string[];
+  models?: string[];
+  location_code?: number;
+  location_codes?: number[]; // run every prompt once per location (default: client's audit_locations)
+  language?: string;       // overrides every prompt's and the client's language
+  concurrency?: number;
+  force_refresh?: boolean;
+  budget_policy?: BudgetPolicy;
+  samples?: number;
+  routing?: Record<string, Partial<ModelRoute>>;
+}
+
+interface EstimateRequest {
+  mode: "estimate";
+  client_id?: string;
+  models?: string[];
+  prompt_count?: number;
+  location_count?: number; // each prompt runs once per location
+  samples?: number;
+  routing?: Record<string, Partial<ModelRoute>>;
+}
+
+interface ReprocessRequest {
+  mode: "reprocess";
+  client_id: string;
+  from?: string;  // ISO date, inclusive
+  to?: string;    // ISO date, inclusive
+}
+
+interface BackfillRequest {
+  mode: "backfill";
+  client_id: string;
+  competitors: string[];  // newly tracked competitors to look for in stored responses
+}
+
+// What to do when a request would exceed the monthly budget:
+// "trim" drops models (single audit) or prompts (batch) until it fits, "reject" fails it
+type BudgetPolicy = "trim" | "reject";
+
+interface UsageEntry {
+  api_name: string;
+  endpoint: string;
+  cost: number;
+  models_used: string[];
 }
 
 // ============================================
@@ -214,6 +451,10 @@ function sanitizeString(input: string, maxLength: number = 500): string {
     .replace(/[\x00-\x1F\x7F]/g, ""); // Remove control characters
 }
 
+function isValidLocationCode(code: unknown): boolean {
+  return Number.isInteger(code) && (code as number) >= 1 && (code as number) <= MAX_LOCATION_CODE;
+}
+
 /**
  * Validate request body
  * Returns error message if invalid, null if valid
@@ -231,9 +472,18 @@ function validateRequest(body: AuditRequest): string | null {
   if (body.models && !Array.isArray(body.models)) {
     return "models must be an array";
   }
-  if (body.location_code && (body.location_code < 1 || body.location_code > 99999)) {
+  if (body.location_code && !isValidLocationCode(body.location_code)) {
     return "invalid location_code";
   }
+  if (body.language && !findLanguage(body.language)) {
+    return `unsupported language: ${body.language}`;
+  }
+  if (body.budget_policy && !["trim", "reject"].includes(body.budget_policy)) {
+    return "budget_policy must be \"trim\" or \"reject\"";
+  }
+  if (body.samples !== undefined && (!Number.isInteger(body.samples) || body.samples < 1 || body.samples > MAX_SAMPLES)) {
+    return `samples must be an integer from 1 to ${MAX_SAMPLES}`;
+  }
   return null;
 }
 
@@ -252,6 +502,22 @@ function extractDomain(url: string): string {
   }
 }
 
+/**
+ * Structured source list (annotations, grounding chunks, search results) -> citations
+ * Keeps the provider's order as position, first occurrence of each URL
+ */
+function toSourceCitations(sources: Array<{ url?: string; title?: string; domain?: string; snippet?: string }>): Citation[] {
+  const seen = new Set<string>();
+  const citations: Citation[] = [];
+  for (const s of sources) {
+    if (typeof s?.url !== "string" || !s.url.startsWith("http") || seen.has(s.url)) continue;
+    seen.add(s.url);
+    const domain = (s.domain || extractDomain(s.url)).replace(/^www\./, "");
+    citations.push({ url: s.url, title: s.title || domain, domain, position: citations.length + 1, snippet: s.snippet || "" });
+  }
+  return citations;
+}
+
 /**
  * Extract URLs from text response
  * Finds all URLs mentioned in the AI response and converts them to citations
@@ -344,154 +610,100 @@ function extractUrlsFromText(text: string): Citation[] {
 }
 
 /**
- * Analyze sentiment from context around brand mention
- * Uses keyword matching for positive/negative indicators
+ * Rank of an entity among the entities the response recommends
+ * Rank = position in the parsed list (numbered, headings, bullets, bold, tables)
  */
-function analyzeSentiment(context: string): "positive" | "neutral" | "negative" {
-  const lower = context.toLowerCase();
-  
-  const positiveWords = [
-    "best", "top", "excellent", "recommended", "leading", "trusted",
-    "popular", "great", "amazing", "reliable", "safe", "premium",
-    "innovative", "award", "favorite", "preferred", "quality"
-  ];
-  
-  const negativeWords = [
-    "avoid", "poor", "worst", "bad", "unreliable", "scam", "fake",
-    "terrible", "issues", "problems", "complaints", "disappointing",
-    "overpriced", "slow", "buggy", "unsafe"
-  ];
-  
-  const posCount = positiveWords.filter(w => lower.includes(w)).length;
-  const negCount = negativeWords.filter(w => lower.includes(w)).length;
-  
-  if (posCount > negCount) return "positive";
-  if (negCount > posCount) return "negative";
-  return "neutral";
+function findListRank(ranked: RankedEntity[], entity: EntitySpec): number | null {
+  const item = ranked.find(r => mentionsEntity(r.name, entity)) ||
+    ranked.find(r => mentionsEntity(r.text, entity));
+  return item ? item.position : null;
+}
+
+/**
+ * Mentions, list rank and sentiment of one entity in a response
+ * Matching rules live in _shared/brandMatching.ts, sentiment rules in _shared/sentiment.ts
+ */
+function analyzeEntity(
+  response: string,
+  entity: EntitySpec,
+  ranked: RankedEntity[] = parseRankedEntities(response)
+): {
+  count: number;
+  rank: number | null;
+  sentiment: "positive" | "neutral" | "negative";
+  stance: Stance;
+  mentionSentiments: MentionSentiment[];
+  matchedTerms: string[];
+} {
+  const matches = findEntityMatches(response, entity);
+  if (matches.length === 0) {
+    return { count: 0, rank: null, sentiment: "neutral", stance: "listed", mentionSentiments: [], matchedTerms: [] };
+  }
+
+  // Classify every mention on its own sentence (lexicon; see refineBrandSentiment for the LLM backend)
+  const mentionSentiments = classifyMentionsLocal(response, matches);
+  const { sentiment, stance } = summarizeMentionSentiments(mentionSentiments);
+
+  return {
+    count: matches.length,
+    rank: findListRank(ranked, entity),
+    sentiment,
+    stance,
+    mentionSentiments,
+    matchedTerms: matchedEntityTerms(matches, entity),
+  };
 }
 
 /**
  * Parse brand mentions from response text
- * Detects brand name and alternative tags
+ * Detects brand name and alternative tags (see brandMatching.ts for tag syntax)
  */
 function parseBrandData(
   response: string,
   brandName: string,
-  brandTags: string[] = []
+  brandTags: string[] = [],
+  ranked?: RankedEntity[]
 ): {
   mentioned: boolean;
   count: number;
   rank: number | null;
   sentiment: "positive" | "neutral" | "negative";
+  stance: Stance;
+  mentionSentiments: MentionSentiment[];
   matchedTerms: string[];
 } {
   if (!response) {
-    return { mentioned: false, count: 0, rank: null, sentiment: "neutral", matchedTerms: [] };
-  }
-  
-  const lower = response.toLowerCase();
-  const allTerms = [brandName, ...brandTags].filter(Boolean);
-  let totalCount = 0;
-  const matchedTerms: string[] = [];
-  
-  // Count all mentions of brand and tags
-  for (const term of allTerms) {
-    if (!term) continue;
-    const termLower = term.toLowerCase();
-    let idx = 0;
-    let count = 0;
-    while ((idx = lower.indexOf(termLower, idx)) !== -1) {
-      count++;
-      idx++;
-    }
-    if (count > 0) {
-      totalCount += count;
-      matchedTerms.push(term);
-    }
-  }
-  
-  // Find rank in numbered lists (e.g., "1. Brand", "2) Brand")
-  let rank: number | null = null;
-  const lines = response.split("\n");
-  for (const line of lines) {
-    const match = line.match(/^\s*(\d+)[.)\]]\s*\*{0,2}(.+)/);
-    if (match) {
-      const lineContent = match[2].toLowerCase();
-      for (const term of allTerms) {
-        if (term && lineContent.includes(term.toLowerCase())) {
-          rank = parseInt(match[1]);
-          break;
-        }
-      }
-      if (rank) break;
-    }
-  }
-  
-  // Analyze sentiment around first mention
-  let sentiment: "positive" | "neutral" | "negative" = "neutral";
-  for (const term of allTerms) {
-    if (!term) continue;
-    const idx = lower.indexOf(term.toLowerCase());
-    if (idx !== -1) {
-      const contextStart = Math.max(0, idx - 100);
-      const contextEnd = Math.min(response.length, idx + term.length + 100);
-      sentiment = analyzeSentiment(response.substring(contextStart, contextEnd));
-      break;
-    }
+    return { mentioned: false, count: 0, rank: null, sentiment: "neutral", stance: "listed", mentionSentiments: [], matchedTerms: [] };
   }
   
-  return {
-    mentioned: totalCount > 0,
-    count: totalCount,
-    rank,
-    sentiment,
-    matchedTerms
-  };
+  const data = analyzeEntity(response, parseEntity(brandName, brandTags), ranked);
+  return { mentioned: data.count > 0, ...data };
 }
 
 /**
  * Parse competitor mentions from response
+ * Competitors may carry aliases and exclusions: "Hinge | Hinge App | -Hinge Health"
  */
-function parseCompetitors(response: string, competitors: string[]): CompetitorMention[] {
+function parseCompetitors(
+  response: string,
+  competitors: string[],
+  ranked: RankedEntity[] = parseRankedEntities(response)
+): CompetitorMention[] {
   if (!response || !competitors.length) return [];
   
-  const lower = response.toLowerCase();
   const results: CompetitorMention[] = [];
   
   for (const comp of competitors) {
-    const compLower = comp.toLowerCase();
-    let count = 0;
-    let idx = 0;
-    
-    while ((idx = lower.indexOf(compLower, idx)) !== -1) {
-      count++;
-      idx++;
-    }
-    
-    if (count === 0) continue;
-    
-    // Find rank in numbered lists
-    let rank: number | null = null;
-    for (const line of response.split("\n")) {
-      const match = line.match(/^\s*(\d+)[.)\]]\s*\*{0,2}(.+)/);
-      if (match && match[2].toLowerCase().includes(compLower)) {
-        rank = parseInt(match[1]);
-        break;
-      }
-    }
-    
-    // Analyze sentiment
-    const firstIdx = lower.indexOf(compLower);
-    const context = response.substring(
-      Math.max(0, firstIdx - 50),
-      Math.min(response.length, firstIdx + comp.length + 50)
-    );
+    const entity = parseEntity(comp);
+    const data = analyzeEntity(response, entity, ranked);
+    if (data.count === 0) continue;
     
     results.push({
-      name: comp,
-      count,
-      rank,
-      sentiment: analyzeSentiment(context)
+      name: entity.name,
+      count: data.count,
+      rank: data.rank,
+      sentiment: data.sentiment,
+      stance: data.stance
     });
   }
   
@@ -502,30 +714,282 @@ function parseCompetitors(response: string, competitors: string[]): CompetitorMe
  * Find the "winner" brand in a response
  * Winner is the brand with rank #1 or most mentions
  */
-function findWinnerBrand(response: string, brandName: string, competitors: string[]): string {
+function findWinnerBrand(
+  response: string,
+  brandName: string,
+  competitors: string[],
+  brandTags: string[] = [],
+  ranked: RankedEntity[] = parseRankedEntities(response)
+): string {
   if (!response) return "";
   
   let winner = "";
   let maxCount = 0;
   let topRank = 999;
   
-  for (const brand of [brandName, ...competitors]) {
-    const data = parseBrandData(response, brand);
+  const entities = [parseEntity(brandName, brandTags), ...competitors.map(c => parseEntity(c))];
+  for (const entity of entities) {
+    const data = analyzeEntity(response, entity, ranked);
     
     // Rank #1 always wins
-    if (data.rank === 1) return brand;
+    if (data.rank === 1) return entity.name;
     
     // Otherwise: most mentions wins, rank breaks ties
     if (data.count > maxCount || (data.count === maxCount && (data.rank || 999) < topRank)) {
       maxCount = data.count;
       topRank = data.rank || 999;
-      winner = brand;
+      winner = entity.name;
     }
   }
   
   return winner;
 }
 
+// ============================================
+// SERVICE CLIENT
+// ============================================
+// Shared by the response cache, budget checks, usage logging and client settings
+
+let serviceClient: ReturnType<typeof createClient> | null = null;
+
+function getServiceClient() {
+  if (!SUPABASE_URL || !SUPABASE_KEY) return null;
+  if (!serviceClient) serviceClient = createClient(SUPABASE_URL, SUPABASE_KEY);
+  return serviceClient;
+}
+
+/**
+ * clients.settings ({} without a client or database): source_overrides, model_routing, generic_serp_engine,
+ * language_aliases, ...
+ */
+async function loadClientSettings(clientId?: string): Promise<{
+  source_overrides?: Record<string, SourceOverride>;
+  model_routing?: Record<string, Partial<ModelRoute>>;
+  generic_serp_engine?: string;
+  language_aliases?: Record<string, LanguageAliases>;
+  [key: string]: unknown;
+}> {
+  const supabase = getServiceClient();
+  if (!clientId || !supabase) return {};
+  try {
+    const { data } = await supabase.from("clients").select("settings").eq("id", clientId).maybeSingle();
+    return data?.settings || {};
+  } catch (err) {
+    console.error("[Settings] Failed to load client settings:", err);
+    return {};
+  }
+}
+
+// ============================================
+// RESPONSE CACHE
+// ============================================
+// Raw provider responses are shared across clients: the key is model + location + language +
+// prompt, never the brand. Brand/competitor parsing always runs on the cached text per request.
+
+/**
+ * TTL for a cache model; routed answers ("chatgpt@openai:gpt-4o-mini") use the model's TTL
+ */
+function cacheTTLHours(model: string): number {
+  return RESPONSE_CACHE_TTL_HOURS[model] ?? RESPONSE_CACHE_TTL_HOURS[model.split("@")[0]] ?? 0;
+}
+
+/**
+ * SHA-256 of model + location + language + normalized prompt text
+ * English keeps the original key format so existing entries stay valid
+ */
+async function buildCacheKey(model: string, prompt: string, locationCode: number, language: string = DEFAULT_LANGUAGE): Promise<string> {
+  const normalized = prompt.trim().toLowerCase().replace(/\s+/g, " ");
+  const scope = language === DEFAULT_LANGUAGE ? `${locationCode}` : `${locationCode}|${language}`;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${model}|${scope}|${normalized}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Look up a fresh cached response; null on miss, expiry, force refresh or cache errors
+ */
+async function readResponseCache(
+  model: string,
+  prompt: string,
+  locationCode: number,
+  forceRefresh: boolean,
+  language: string = DEFAULT_LANGUAGE
+): Promise<unknown | null> {
+  const supabase = getServiceClient();
+  if (!supabase || forceRefresh || !(cacheTTLHours(model) > 0)) return null;
+  
+  try {
+    const cacheKey = await buildCacheKey(model, prompt, locationCode, language);
+    const { data, error } = await supabase
+      .from("response_cache")
+      .select("payload")
+      .eq("cache_key", cacheKey)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+    if (error || !data) return null;
+    console.log(`[Cache] HIT ${model} @ ${locationCode}/${language}`);
+    return data.payload;
+  } catch (err) {
+    console.error(`[Cache] Read error for ${model}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Store a provider response with the model's TTL (failures are logged, never thrown)
+ */
+async function writeResponseCache(
+  model: string,
+  prompt: string,
+  locationCode: number,
+  payload: unknown,
+  cost: number,
+  language: string = DEFAULT_LANGUAGE
+): Promise<void> {
+  const supabase = getServiceClient();
+  const ttlHours = cacheTTLHours(model);
+  if (!supabase || ttlHours <= 0) return;
+  
+  try {
+    const { error } = await supabase.from("response_cache").upsert({
+      cache_key: await buildCacheKey(model, prompt, locationCode, language),
+      model,
+      location_code: locationCode,
+      prompt_text: prompt,
+      payload,
+      cost,
+      created_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + ttlHours * 3600 * 1000).toISOString(),
+    }, { onConflict: "cache_key" });
+    if (error) console.error(`[Cache] Write error for ${model}:`, error.message);
+  } catch (err) {
+    console.error(`[Cache] Write error for ${model}:`, err);
+  }
+}
+
+/**
+ * Keep only the first task of a DataForSEO response (what the parsers read)
+ */
+function compactDataForSEO(data: unknown): unknown {
+  const task = (data as { tasks?: Array<Record<string, unknown>> })?.tasks?.[0];
+  return task ? { tasks: [{ cost: task.cost, status_code: task.status_code, result: task.result }] } : data;
+}
+
+// ============================================
+// BUDGETS & USAGE
+// ============================================
+// Monthly limits and spend are resolved in _shared/budget.ts (shared with generate-content).
+
+/**
+ * DataForSEO LIVE LLM endpoint for a model (ChatGPT's path is chat_gpt)
+ */
+function liveLLMEndpoint(modelId: string): string {
+  const base = SEARCH_GROUNDED_MODELS[modelId] || modelId;
+  return `/ai_optimization/${base === "chatgpt" ? "chat_gpt" : base}/llm_responses/live`;
+}
+
+/**
+ * Upper-bound cost of one prompt: every model billed at list price
+ * (cache hits and LLM Mentions answers make real runs cheaper), plus LLM sentiment if enabled
+ * Models routed away from DataForSEO use their provider's price
+ */
+function estimatePromptCost(models: string[], routes: Record<string, ModelRoute> = {}): number {
+  const unique = Array.from(new Set(models));
+  const sentimentCost = SENTIMENT_BACKEND === "lexicon" ? 0 : unique.length * SENTIMENT_COST_PER_RESULT;
+  return unique.reduce((sum, m) => {
+    const route = routes[m];
+    const cost = route && route.provider !== "dataforseo"
+      ? PROVIDER_ADAPTERS[route.provider].costPerQuery(m)
+      : AI_MODELS[m]?.costPerQuery ?? 0.02;
+    return sum + cost;
+  }, 0) + sentimentCost;
+}
+
+/**
+ * How many prompts fit in the remaining budget (null = no limit)
+ */
+function getAffordablePrompts(budget: BudgetStatus, perPromptCost: number): number | null {
+  const byCost = budget.remaining_usd === null || perPromptCost <= 0
+    ? null
+    : Math.floor((budget.remaining_usd + 1e-9) / perPromptCost);
+  if (byCost === null) return budget.audits_remaining;
+  return budget.audits_remaining === null ? byCost : Math.min(byCost, budget.audits_remaining);
+}
+
+/**
+ * Keep the highest-weight models that fit in the remaining budget
+ */
+function trimModelsToBudget(models: string[], remainingUsd: number, routes: Record<string, ModelRoute> = {}): string[] {
+  const kept = new Set<string>();
+  let cost = 0;
+  for (const m of [...models].sort((a, b) => (AI_MODELS[b]?.weight || 0) - (AI_MODELS[a]?.weight || 0))) {
+    const modelCost = estimatePromptCost([m], routes);
+    if (cost + modelCost <= remainingUsd) {
+      kept.add(m);
+      cost += modelCost;
+    }
+  }
+  return models.filter(m => kept.has(m));
+}
+
+/**
+ * Pre-flight check for one prompt, run before any provider is called
+ * Throws when nothing fits; trims models under the "trim" policy
+ */
+async function enforceAuditBudget(
+  clientId: string | undefined,
+  models: string[],
+  policy: BudgetPolicy,
+  samples: number = 1,
+  routes: Record<string, ModelRoute> = {}
+): Promise<{ models: string[]; trimmed_models: string[]; estimated_cost: number; budget: BudgetStatus | null }> {
+  const estimatedCost = estimatePromptCost(models, routes) * samples;
+  const supabase = getServiceClient();
+  if (!supabase) {
+    return { models, trimmed_models: [], estimated_cost: estimatedCost, budget: null };
+  }
+
+  const budget = await getBudgetStatus(supabase, clientId);
+  if (budget.audits_remaining === 0) {
+    throw new Error("Monthly audit limit reached for this organization");
+  }
+  if (budget.remaining_usd === null || estimatedCost <= budget.remaining_usd) {
+    return { models, trimmed_models: [], estimated_cost: estimatedCost, budget };
+  }
+
+  const kept = policy === "trim" ? trimModelsToBudget(models, budget.remaining_usd / samples, routes) : [];
+  if (kept.length === 0) {
+    throw new Error(`Monthly budget exceeded: this audit needs ~$${estimatedCost.toFixed(3)}, $${budget.remaining_usd.toFixed(3)} left`);
+  }
+  const trimmed = models.filter(m => !kept.includes(m));
+  console.log(`[Budget] $${budget.remaining_usd.toFixed(3)} left, dropped: ${trimmed.join(", ")}`);
+  return { models: kept, trimmed_models: trimmed, estimated_cost: estimatePromptCost(kept, routes) * samples, budget };
+}
+
+/**
+ * Write one forzeo_api_usage row per provider call (failures are logged, never thrown)
+ */
+async function logApiUsage(
+  clientId: string | undefined,
+  organizationId: string | null,
+  promptText: string,
+  entries: UsageEntry[]
+): Promise<void> {
+  const supabase = getServiceClient();
+  if (!supabase || entries.length === 0) return;
+
+  const { error } = await supabase.from("forzeo_api_usage").insert(entries.map(e => ({
+    organization_id: organizationId,
+    client_id: clientId || null,
+    api_name: e.api_name,
+    endpoint: e.endpoint,
+    request_count: 1,
+    cost: e.cost,
+    prompt_text: promptText,
+    models_used: e.models_used,
+  })));
+  if (error) console.error("[Usage] Save error:", error.message);
+}
+
 // ============================================
 // DATAFORSEO API FUNCTIONS
 // ============================================
@@ -540,16 +1004,17 @@ async function callDataForSEO(endpoint: string, body: unknown): Promise<{
 }> {
   console.log(`[DataForSEO] POST ${endpoint}`);
   
-  if (!DATAFORSEO_LOGIN || !DATAFORSEO_PASSWORD) {
+  const credentials = getCredential("dataforseo");
+  if (!credentials) {
     console.error("[DataForSEO] Missing credentials!");
-    return { error: "DataForSEO credentials not configured" };
+    return { error: "DataForSEO credentials not configured - add them under API Keys" };
   }
   
   try {
     const response = await fetch(`${DATAFORSEO_API}${endpoint}`, {
       method: "POST",
       headers: {
-        "Authorization": `Basic ${DATAFORSEO_AUTH}`,
+        "Authorization": `Basic ${btoa(credentials)}`,
         "Content-Type": "application/json",
       },
       body: JSON.stringify(body),
@@ -589,11 +1054,16 @@ async function callDataForSEO(endpoint: string, body: unknown): Promise<{
 }
 
 /**
- * Query Google SERP for organic results
+ * Query a search engine's organic results (Google, Bing or any DataForSEO SERP engine)
+ * `cacheModel` keeps each engine's responses apart in the response cache
  */
-async function getGoogleSERP(
+async function getOrganicSERP(
   prompt: string,
-  locationCode: number
+  locationCode: number,
+  forceRefresh: boolean = false,
+  engine: string = "google",
+  cacheModel: string = "google_serp",
+  language: string = DEFAULT_LANGUAGE
 ): Promise<{
   success: boolean;
   response: string;
@@ -601,14 +1071,17 @@ async function getGoogleSERP(
   cost: number;
   error?: string;
   response_time_ms?: number;
+  from_cache?: boolean;
 }> {
-  console.log("[Google SERP] Querying...");
+  const label = `${engine.charAt(0).toUpperCase()}${engine.slice(1)} SERP`;
+  console.log(`[${label}] Querying...`);
   const startTime = Date.now();
   
-  const result = await callDataForSEO("/serp/google/organic/live/advanced", [{
+  const cached = await readResponseCache(cacheModel, prompt, locationCode, forceRefresh, language);
+  const result = cached ? { data: cached } : await callDataForSEO(`/serp/${engine}/organic/live/advanced`, [{
     keyword: prompt,
     location_code: locationCode,
-    language_code: "en",
+    language_code: language,
     device: "desktop",
     depth: 20,
   }]);
@@ -622,7 +1095,8 @@ async function getGoogleSERP(
   const data = result.data as { tasks?: Array<{ result?: Array<{ items?: unknown[] }>; cost?: number }> };
   const task = data?.tasks?.[0];
   const taskResult = task?.result?.[0];
-  const cost = task?.cost || 0;
+  const cost = cached ? 0 : task?.cost || 0;
+  if (!cached) await writeResponseCache(cacheModel, prompt, locationCode, compactDataForSEO(result.data), cost, language);
   const items = (taskResult?.items || []) as Array<{
     type: string;
     description?: string;
@@ -671,9 +1145,9 @@ async function getGoogleSERP(
   });
   
   const response = parts.join("\n\n").trim();
-  console.log(`[Google SERP] Got ${response.length} chars, ${citations.length} citations, cost: ${cost}`);
+  console.log(`[${label}] Got ${response.length} chars, ${citations.length} citations, cost: ${cost}${cached ? " (cached)" : ""}`);
   
-  return { success: response.length > 0, response, citations, cost, response_time_ms: responseTime };
+  return { success: response.length > 0, response, citations, cost, response_time_ms: responseTime, from_cache: !!cached };
 }
 
 /**
@@ -681,7 +1155,9 @@ async function getGoogleSERP(
  */
 async function getGoogleAIOverview(
   prompt: string,
-  locationCode: number
+  locationCode: number,
+  forceRefresh: boolean = false,
+  language: string = DEFAULT_LANGUAGE
 ): Promise<{
   success: boolean;
   response: string;
@@ -689,14 +1165,16 @@ async function getGoogleAIOverview(
   cost: number;
   error?: string;
   response_time_ms?: number;
+  from_cache?: boolean;
 }> {
   console.log("[Google AI Overview] Querying...");
   const startTime = Date.now();
   
-  const result = await callDataForSEO("/serp/google/organic/live/advanced", [{
+  const cached = await readResponseCache("google_ai_overview", prompt, locationCode, forceRefresh, language);
+  const result = cached ? { data: cached } : await callDataForSEO("/serp/google/organic/live/advanced", [{
     keyword: prompt,
     location_code: locationCode,
-    language_code: "en",
+    language_code: language,
     device: "desktop",
     depth: 10,
   }]);
@@ -710,7 +1188,8 @@ async function getGoogleAIOverview(
   const data = result.data as { tasks?: Array<{ result?: Array<{ items?: unknown[] }>; cost?: number }> };
   const task = data?.tasks?.[0];
   const taskResult = task?.result?.[0];
-  const cost = task?.cost || 0;
+  const cost = cached ? 0 : task?.cost || 0;
+  if (!cached) await writeResponseCache("google_ai_overview", prompt, locationCode, compactDataForSEO(result.data), cost, language);
   const items = (taskResult?.items || []) as Array<{
     type: string;
     items?: Array<{ text?: string; references?: Array<{ url?: string; title?: string; domain?: string; snippet?: string }> }>;
@@ -773,9 +1252,136 @@ async function getGoogleAIOverview(
   }
   
   response = response.trim();
-  console.log(`[Google AI Overview] Got ${response.length} chars, ${citations.length} citations, cost: ${cost}`);
+  console.log(`[Google AI Overview] Got ${response.length} chars, ${citations.length} citations, cost: ${cost}${cached ? " (cached)" : ""}`);
+  
+  return { success: response.length > 0, response, citations, cost, response_time_ms: responseTime, from_cache: !!cached };
+}
+
+/**
+ * Query Bing Copilot: the Copilot answer block on Bing's results page
+ * No organic fallback - a query without a Copilot answer is reported as such
+ */
+async function getBingCopilot(
+  prompt: string,
+  locationCode: number,
+  forceRefresh: boolean = false,
+  language: string = DEFAULT_LANGUAGE
+): Promise<{
+  success: boolean;
+  response: string;
+  citations: Citation[];
+  cost: number;
+  error?: string;
+  response_time_ms?: number;
+  from_cache?: boolean;
+}> {
+  console.log("[Bing Copilot] Querying...");
+  const startTime = Date.now();
+  
+  const cached = await readResponseCache("bing_copilot", prompt, locationCode, forceRefresh, language);
+  const result = cached ? { data: cached } : await callDataForSEO("/serp/bing/organic/live/advanced", [{
+    keyword: prompt,
+    location_code: locationCode,
+    language_code: language,
+    device: "desktop",
+    depth: 10,
+  }]);
+  
+  const responseTime = Date.now() - startTime;
+  
+  if (result.error) {
+    return { success: false, response: "", citations: [], cost: 0, error: result.error, response_time_ms: responseTime };
+  }
+  
+  const data = result.data as { tasks?: Array<{ result?: Array<{ items?: unknown[] }>; cost?: number }> };
+  const task = data?.tasks?.[0];
+  const taskResult = task?.result?.[0];
+  const cost = cached ? 0 : task?.cost || 0;
+  if (!cached) await writeResponseCache("bing_copilot", prompt, locationCode, compactDataForSEO(result.data), cost, language);
+  const items = (taskResult?.items || []) as Array<{
+    type: string;
+    text?: string;
+    markdown?: string;
+    items?: Array<{ text?: string; markdown?: string; references?: Array<{ url?: string; title?: string; domain?: string; snippet?: string }> }>;
+    references?: Array<{ url?: string; title?: string; domain?: string; snippet?: string }>;
+  }>;
+  
+  let response = "";
+  const references: Array<{ url?: string; title?: string; domain?: string; snippet?: string }> = [];
+  
+  // Bing labels the Copilot block "copilot" (older results: "ai_overview")
+  for (const item of items.filter(i => i.type === "copilot" || i.type === "ai_overview")) {
+    const text = item.markdown || item.text;
+    if (text) response += text + "\n";
+    references.push(...(item.references || []));
+    for (const subItem of item.items || []) {
+      const subText = subItem.markdown || subItem.text;
+      if (subText) response += subText + "\n";
+      references.push(...(subItem.references || []));
+    }
+  }
+  
+  response = response.trim();
+  const citations = toSourceCitations(references);
+  console.log(`[Bing Copilot] Got ${response.length} chars, ${citations.length} citations, cost: ${cost}${cached ? " (cached)" : ""}`);
   
-  return { success: response.length > 0, response, citations, cost, response_time_ms: responseTime };
+  return {
+    success: response.length > 0,
+    response,
+    citations,
+    cost,
+    error: response ? undefined : "Bing showed no Copilot answer for this query",
+    response_time_ms: responseTime,
+    from_cache: !!cached,
+  };
+}
+
+/**
+ * Search engine models: every one is parsed into a ModelResult the same way
+ * generic_serp queries the client's engine (clients.settings.generic_serp_engine,
+ * else GENERIC_SERP_ENGINE), cached per engine
+ */
+const SEARCH_MODELS: Record<string, {
+  apiName: string;                              // forzeo_api_usage.api_name
+  endpoint(engine: string): string;
+  fetch(prompt: string, locationCode: number, forceRefresh: boolean, engine: string, language: string): ReturnType<typeof getOrganicSERP>;
+}> = {
+  google_ai_overview: {
+    apiName: "dataforseo_ai_overview",
+    endpoint: () => "/serp/google/organic/live/advanced",
+    fetch: (prompt, locationCode, forceRefresh, _engine, language) => getGoogleAIOverview(prompt, locationCode, forceRefresh, language),
+  },
+  google_serp: {
+    apiName: "dataforseo_serp",
+    endpoint: () => "/serp/google/organic/live/advanced",
+    fetch: (prompt, locationCode, forceRefresh, _engine, language) =>
+      getOrganicSERP(prompt, locationCode, forceRefresh, "google", "google_serp", language),
+  },
+  bing_serp: {
+    apiName: "dataforseo_bing_serp",
+    endpoint: () => "/serp/bing/organic/live/advanced",
+    fetch: (prompt, locationCode, forceRefresh, _engine, language) =>
+      getOrganicSERP(prompt, locationCode, forceRefresh, "bing", "bing_serp", language),
+  },
+  bing_copilot: {
+    apiName: "dataforseo_bing_copilot",
+    endpoint: () => "/serp/bing/organic/live/advanced",
+    fetch: (prompt, locationCode, forceRefresh, _engine, language) => getBingCopilot(prompt, locationCode, forceRefresh, language),
+  },
+  generic_serp: {
+    apiName: "dataforseo_generic_serp",
+    endpoint: engine => `/serp/${engine}/organic/live/advanced`,
+    fetch: (prompt, locationCode, forceRefresh, engine, language) =>
+      getOrganicSERP(prompt, locationCode, forceRefresh, engine, `generic_serp@${engine}`, language),
+  },
+};
+
+/**
+ * Engine for generic_serp: client setting, then GENERIC_SERP_ENGINE (unknown engines fall back)
+ */
+function resolveSerpEngine(clientEngine?: unknown): string {
+  const engine = String(clientEngine || GENERIC_SERP_ENGINE).toLowerCase();
+  return SERP_ENGINES.includes(engine) ? engine : "yahoo";
 }
 
 /**
@@ -787,7 +1393,9 @@ async function getLLMMentions(
   targetDomain: string,
   brandName: string,
   brandTags: string[],
-  locationCode: number = 2840
+  locationCode: number = 2840,
+  forceRefresh: boolean = false,
+  language: string = DEFAULT_LANGUAGE
 ): Promise<{
   success: boolean;
   results: Map<string, {
@@ -801,12 +1409,13 @@ async function getLLMMentions(
   cost: number;
   error?: string;
   response_time_ms?: number;
+  from_cache?: boolean;
 }> {
   console.log(`[LLM Mentions] Searching: "${keyword.substring(0, 50)}..." | Brand: ${brandName}`);
   const startTime = Date.now();
   
   const requestBody = [{
-    language_name: "English",
+    language_name: languageName(language),
     location_code: locationCode,
     target: [{
       keyword: keyword,
@@ -816,7 +1425,8 @@ async function getLLMMentions(
     limit: 10,
   }];
   
-  const result = await callDataForSEO("/ai_optimization/llm_mentions/search/live", requestBody);
+  const cached = await readResponseCache("llm_mentions", keyword, locationCode, forceRefresh, language);
+  const result = cached ? { data: cached } : await callDataForSEO("/ai_optimization/llm_mentions/search/live", requestBody);
   const responseTime = Date.now() - startTime;
   
   const results = new Map<string, {
@@ -835,8 +1445,9 @@ async function getLLMMentions(
   
   const data = result.data as { tasks?: Array<{ result?: Array<{ items?: unknown[] }>; cost?: number }> };
   const task = data?.tasks?.[0];
-  const cost = task?.cost || 0;
+  const cost = cached ? 0 : task?.cost || 0;
   const taskResult = task?.result?.[0];
+  if (!cached) await writeResponseCache("llm_mentions", keyword, locationCode, compactDataForSEO(result.data), cost, language);
   const rawItems = ((taskResult as { items?: unknown[] })?.items || []) as Array<{
     question?: string;
     answer?: string;
@@ -844,9 +1455,10 @@ async function getLLMMentions(
     sources?: Array<{ url?: string; title?: string; domain?: string; position?: number; snippet?: string }>;
   }>;
   
-  console.log(`[LLM Mentions] Got ${rawItems.length} items, cost: ${cost}`);
+  console.log(`[LLM Mentions] Got ${rawItems.length} items, cost: ${cost}${cached ? " (cached)" : ""}`);
   
-  const allTerms = [brandName, targetDomain, ...brandTags].filter(Boolean).map(t => t.toLowerCase());
+  const brandEntity = parseEntity(brandName, [targetDomain, ...brandTags].filter(Boolean));
+  const domainTerms = brandEntity.terms.map(t => t.text.toLowerCase());
   
   if (rawItems.length > 0) {
     // Combine all answers
@@ -871,30 +1483,19 @@ async function getLLMMentions(
     }
     
     // Check brand mentions
-    const answerLower = combinedAnswer.toLowerCase();
-    let brandMentioned = false;
-    let brandMentionCount = 0;
-    
-    for (const term of allTerms) {
-      if (!term) continue;
-      let idx = 0;
-      while ((idx = answerLower.indexOf(term, idx)) !== -1) {
-        brandMentioned = true;
-        brandMentionCount++;
-        idx++;
-      }
-    }
+    const brandMentionCount = findEntityMatches(combinedAnswer, brandEntity).length;
+    const brandMentioned = brandMentionCount > 0;
     
     // Check if brand is cited
     const brandCited = allSources.some(s =>
-      allTerms.some(term =>
+      domainTerms.some(term =>
         s.domain.toLowerCase().includes(term) ||
         s.url.toLowerCase().includes(term)
       )
     );
     
-    // Create results for each LLM model
-    for (const modelId of LLM_MODEL_IDS) {
+    // Create results for each LLM model (grounded variants have no LLM Mentions data)
+    for (const modelId of LLM_MODEL_IDS.filter(m => !SEARCH_GROUNDED_MODELS[m])) {
       results.set(modelId, {
         answer: combinedAnswer,
         sources: allSources,
@@ -906,7 +1507,7 @@ async function getLLMMentions(
     }
   }
   
-  return { success: results.size > 0, results, cost, response_time_ms: responseTime };
+  return { success: results.size > 0, results, cost, response_time_ms: responseTime, from_cache: !!cached };
 }
 
 /**
@@ -924,30 +1525,36 @@ async function getLLMMentions(
  */
 async function getLiveLLMResponse(
   prompt: string,
-  model: "chatgpt" | "gemini" | "claude" | "perplexity"
+  model: string,
+  locationCode: number = 2840,
+  forceRefresh: boolean = false,
+  language: string = DEFAULT_LANGUAGE
 ): Promise<{
   success: boolean;
   response: string;
+  citations: Citation[];   // structured sources (web search annotations), [] for plain completions
   tokens: number;
   cost: number;
   latency_ms: number;
   error?: string;
+  from_cache?: boolean;
 }> {
   console.log(`[LIVE LLM/${model}] Querying real-time...`);
   const startTime = Date.now();
   
-  // Map model IDs to DataForSEO endpoints and model names
-  const modelConfig: Record<string, { endpoint: string; modelName: string }> = {
-    chatgpt: { endpoint: "/ai_optimization/chat_gpt/llm_responses/live", modelName: "gpt-4.1-mini" },
-    gemini: { endpoint: "/ai_optimization/gemini/llm_responses/live", modelName: "gemini-2.5-flash" },
-    claude: { endpoint: "/ai_optimization/claude/llm_responses/live", modelName: "claude-sonnet-4-0" },
-    perplexity: { endpoint: "/ai_optimization/perplexity/llm_responses/live", modelName: "sonar-pro" },
-  };
+  const cached = await readResponseCache(model, prompt, locationCode, forceRefresh, language) as { response?: string; citations?: Citation[]; tokens?: number } | null;
+  if (cached?.response) {
+    return { success: true, response: cached.response, citations: cached.citations || [], tokens: cached.tokens || 0, cost: 0, latency_ms: Date.now() - startTime, from_cache: true };
+  }
   
-  const config = modelConfig[model];
+  // Map model IDs to DataForSEO endpoints and model names
+  const config = DATAFORSEO_LIVE_MODELS[model]
+    ? { endpoint: liveLLMEndpoint(model), modelName: DATAFORSEO_LIVE_MODELS[model] }
+    : null;
   if (!config) {
-    return { success: false, response: "", tokens: 0, cost: 0, latency_ms: 0, error: `Unknown model: ${model}` };
+    return { success: false, response: "", citations: [], tokens: 0, cost: 0, latency_ms: 0, error: `Unknown model: ${model}` };
   }
+  const webSearch = !!SEARCH_GROUNDED_MODELS[model];
   
   // Retry logic with exponential backoff
   const maxRetries = 3;
@@ -968,6 +1575,7 @@ async function getLiveLLMResponse(
       model_name: config.modelName,
       max_output_tokens: 800,
       temperature: 0.7,
+      ...(webSearch ? { web_search: true } : {}),
     }]);
     
     const latency = Date.now() - startTime;
@@ -978,7 +1586,7 @@ async function getLiveLLMResponse(
       
       // Don't retry on auth/credit errors
       if (result.status_code === 401 || result.status_code === 402) {
-        return { success: false, response: "", tokens: 0, cost: totalCost, latency_ms: latency, error: result.error };
+        return { success: false, response: "", citations: [], tokens: 0, cost: totalCost, latency_ms: latency, error: result.error };
       }
       continue;
     }
@@ -993,6 +1601,7 @@ async function getLiveLLMResponse(
             sections?: Array<{
               type?: string;
               text?: string;
+              annotations?: Array<{ url?: string; title?: string }>;
             }>;
           }>;
         }>; 
@@ -1014,8 +1623,9 @@ async function getLiveLLMResponse(
       continue;
     }
     
-    // Extract text from items -> sections
+    // Extract text (and web search annotations) from items -> sections
     let responseText = "";
+    const annotations: Array<{ url?: string; title?: string }> = [];
     if (taskResult?.items) {
       for (const item of taskResult.items) {
         if (item.sections) {
@@ -1023,10 +1633,12 @@ async function getLiveLLMResponse(
             if (section.text) {
               responseText += section.text;
             }
+            annotations.push(...(section.annotations || []));
           }
         }
       }
     }
+    const citations = toSourceCitations(annotations);
     
     if (!responseText) {
       lastError = "No live LLM response returned - empty response";
@@ -1036,11 +1648,13 @@ async function getLiveLLMResponse(
     
     const totalTokens = (taskResult?.input_tokens || 0) + (taskResult?.output_tokens || 0);
     
-    console.log(`[LIVE LLM/${model}] Got ${responseText.length} chars, ${totalTokens} tokens, ${latency}ms, cost: $${cost}`);
+    console.log(`[LIVE LLM/${model}] Got ${responseText.length} chars, ${citations.length} sources, ${totalTokens} tokens, ${latency}ms, cost: $${cost}`);
+    await writeResponseCache(model, prompt, locationCode, { response: responseText, citations, tokens: totalTokens }, totalCost, language);
     
     return {
       success: true,
       response: responseText,
+      citations,
       tokens: totalTokens,
       cost: totalCost,
       latency_ms: latency,
@@ -1053,6 +1667,7 @@ async function getLiveLLMResponse(
   return { 
     success: false, 
     response: "", 
+    citations: [],
     tokens: 0, 
     cost: totalCost, 
     latency_ms: latency, 
@@ -1070,7 +1685,10 @@ async function getLiveLLMWithValidation(
   brandName: string,
   brandTags: string[],
   competitors: string[],
-  models: Array<"chatgpt" | "gemini" | "claude" | "perplexity"> = ["chatgpt", "gemini", "claude"]
+  models: string[] = ["chatgpt", "gemini", "claude"],
+  locationCode: number = 2840,
+  forceRefresh: boolean = false,
+  language: string = DEFAULT_LANGUAGE
 ): Promise<{
   success: boolean;
   results: Map<string, {
@@ -1081,6 +1699,7 @@ async function getLiveLLMWithValidation(
     brand_mentioned: boolean;
     brand_mention_count: number;
     citations: Citation[];
+    from_cache?: boolean;
   }>;
   totalCost: number;
   agreement: "high" | "medium" | "low";
@@ -1096,28 +1715,31 @@ async function getLiveLLMWithValidation(
     brand_mentioned: boolean;
     brand_mention_count: number;
     citations: Citation[];
+    from_cache?: boolean;
   }>();
   
   let totalCost = 0;
+  let lastFromCache = false;
   const responses: string[] = [];
   
   // Query models sequentially with longer delays to avoid rate limits
   for (let i = 0; i < models.length; i++) {
     const model = models[i];
     
-    // Add longer delay between queries (2.5s)
-    if (i > 0) {
+    // Add longer delay between live queries (2.5s) - cache hits don't hit the rate limit
+    if (i > 0 && !lastFromCache) {
       await new Promise(resolve => setTimeout(resolve, 2500));
     }
     
-    const result = await getLiveLLMResponse(prompt, model);
+    const result = await getLiveLLMResponse(prompt, model, locationCode, forceRefresh, language);
+    lastFromCache = !!result.from_cache;
     totalCost += result.cost;
     
     if (result.success) {
       const brandData = parseBrandData(result.response, brandName, brandTags);
       
-      // Extract URLs/citations from the response text
-      const extractedCitations = extractUrlsFromText(result.response);
+      // Structured sources when the model searched the web, else URLs from the response text
+      const extractedCitations = result.citations.length > 0 ? result.citations : extractUrlsFromText(result.response);
       console.log(`[LIVE LLM/${model}] Extracted ${extractedCitations.length} citations from response`);
       
       results.set(model, {
@@ -1128,6 +1750,7 @@ async function getLiveLLMWithValidation(
         brand_mentioned: brandData.mentioned,
         brand_mention_count: brandData.count,
         citations: extractedCitations,
+        from_cache: result.from_cache,
       });
       
       responses.push(result.response);
@@ -1268,29 +1891,110 @@ async function getSerperSERP(
 }
 
 /**
- * Query Gemini API directly for LLM response
- * Useful for getting direct AI responses when LLM Mentions doesn't have data
+ * Send one prompt to an OpenAI-style /chat/completions endpoint
+ * Used for OpenAI, Perplexity and any OpenAI-compatible server (Ollama, LM Studio, mocks).
+ * Perplexity's `citations` / `search_results` and OpenAI's `url_citation` annotations become citations
+ * `webSearch` asks OpenAI search models to search (they reject temperature)
  */
-async function queryGemini(
+async function queryOpenAICompatible(
+  label: string,
+  baseUrl: string,
+  apiKey: string,
+  model: string,
   prompt: string,
-  brandName: string
+  webSearch: boolean = false
 ): Promise<{
   success: boolean;
   response: string;
-  cost: number;
+  citations: Citation[];
+  tokens: number;
   error?: string;
   response_time_ms?: number;
 }> {
-  if (!GEMINI_API_KEY) {
-    return { success: false, response: "", cost: 0, error: "GEMINI_API_KEY not configured" };
+  console.log(`[${label}] Querying ${model}...`);
+  const startTime = Date.now();
+  
+  try {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+    
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: "system", content: "You are a helpful assistant. Provide informative responses with specific recommendations and brand names where relevant." },
+          { role: "user", content: prompt }
+        ],
+        max_tokens: 1024,
+        ...(webSearch ? { web_search_options: {} } : { temperature: 0.7 }),
+      }),
+    });
+    
+    const responseTime = Date.now() - startTime;
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[${label}] Error: ${response.status} - ${errorText.substring(0, 200)}`);
+      return { success: false, response: "", citations: [], tokens: 0, error: `${label} API error: ${response.status}`, response_time_ms: responseTime };
+    }
+    
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    const text = message?.content || "";
+    
+    // Perplexity returns its sources next to the answer, OpenAI search models inline
+    const annotations: Array<{ url_citation?: { url?: string; title?: string } }> = Array.isArray(message?.annotations) ? message.annotations : [];
+    const sources: Array<{ url?: string; title?: string }> = Array.isArray(data.search_results)
+      ? data.search_results
+      : Array.isArray(data.citations)
+        ? data.citations.map((url: string) => ({ url }))
+        : annotations.map(a => a.url_citation || {});
+    const citations = toSourceCitations(sources);
+    
+    console.log(`[${label}] Got ${text.length} chars, ${citations.length} citations`);
+    return {
+      success: text.length > 0,
+      response: text,
+      citations,
+      tokens: data.usage?.total_tokens || 0,
+      response_time_ms: responseTime,
+    };
+    
+  } catch (err) {
+    console.error(`[${label}] Exception: ${err}`);
+    return { success: false, response: "", citations: [], tokens: 0, error: String(err), response_time_ms: Date.now() - startTime };
+  }
+}
+
+/**
+ * Query Gemini API directly
+ */
+async function queryGemini(
+  prompt: string,
+  model: string = "gemini-1.5-flash",
+  grounded: boolean = false
+): Promise<{
+  success: boolean;
+  response: string;
+  citations?: Citation[];
+  cost: number;
+  tokens?: number;
+  error?: string;
+  response_time_ms?: number;
+}> {
+  const apiKey = getCredential("gemini");
+  if (!apiKey) {
+    return { success: false, response: "", cost: 0, error: "Gemini API key not configured" };
   }
   
-  console.log("[Gemini] Querying...");
+  console.log(`[Gemini] Querying ${model}...`);
   const startTime = Date.now();
   
   try {
     const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${GEMINI_API_KEY}`,
+      `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent?key=${apiKey}`,
       {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -1303,7 +2007,8 @@ async function queryGemini(
           generationConfig: {
             temperature: 0.7,
             maxOutputTokens: 1024,
-          }
+          },
+          ...(grounded ? { tools: [{ google_search: {} }] } : {}),
         }),
       }
     );
@@ -1317,12 +2022,21 @@ async function queryGemini(
     }
     
     const data = await response.json();
-    const text = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
+    const candidate = data.candidates?.[0];
+    const text = (candidate?.content?.parts || []).map((part: { text?: string }) => part.text || "").join("");
     
-    console.log(`[Gemini] Got ${text.length} chars`);
+    // Grounding chunks link through a Google redirect; the title is the source's domain
+    const chunks: Array<{ web?: { uri?: string; title?: string } }> = candidate?.groundingMetadata?.groundingChunks || [];
+    const citations = toSourceCitations(chunks.map(c => ({
+      url: c.web?.uri,
+      title: c.web?.title,
+      domain: c.web?.title && /^[\w-]+(\.[\w-]+)+$/.test(c.web.title) ? c.web.title : undefined,
+    })));
     
-    // Gemini Flash is very cheap, ~$0.0001 per query
-    return { success: text.length > 0, response: text, cost: 0.0001, response_time_ms: responseTime };
+    console.log(`[Gemini] Got ${text.length} chars, ${citations.length} sources`);
+    
+    // Gemini Flash is very cheap, ~$0.0001 per query; Google Search grounding is billed per prompt
+    return { success: text.length > 0, response: text, citations, cost: grounded ? 0.035 : 0.0001, tokens: data.usageMetadata?.totalTokenCount || 0, response_time_ms: responseTime };
     
   } catch (err) {
     console.error(`[Gemini] Exception: ${err}`);
@@ -1334,90 +2048,61 @@ async function queryGemini(
  * Query OpenAI ChatGPT API directly
  */
 async function queryChatGPT(
-  prompt: string
+  prompt: string,
+  model: string = "gpt-4o-mini",
+  webSearch: boolean = false
 ): Promise<{
   success: boolean;
   response: string;
+  citations?: Citation[];
   cost: number;
+  tokens?: number;
   error?: string;
   response_time_ms?: number;
 }> {
-  if (!OPENAI_API_KEY) {
-    return { success: false, response: "", cost: 0, error: "OPENAI_API_KEY not configured" };
+  const apiKey = getCredential("openai");
+  if (!apiKey) {
+    return { success: false, response: "", cost: 0, error: "OpenAI API key not configured" };
   }
   
-  console.log("[ChatGPT] Querying...");
-  const startTime = Date.now();
+  const result = await queryOpenAICompatible("ChatGPT", "https://api.openai.com/v1", apiKey, model, prompt, webSearch);
   
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: "You are a helpful assistant. Provide informative responses with specific recommendations and brand names where relevant." },
-          { role: "user", content: prompt }
-        ],
-        max_tokens: 1024,
-        temperature: 0.7,
-      }),
-    });
-    
-    const responseTime = Date.now() - startTime;
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[ChatGPT] Error: ${response.status} - ${errorText.substring(0, 200)}`);
-      return { success: false, response: "", cost: 0, error: `ChatGPT API error: ${response.status}`, response_time_ms: responseTime };
-    }
-    
-    const data = await response.json();
-    const text = data.choices?.[0]?.message?.content || "";
-    
-    console.log(`[ChatGPT] Got ${text.length} chars`);
-    
-    // GPT-4o-mini is ~$0.00015 per 1K input + $0.0006 per 1K output
-    return { success: text.length > 0, response: text, cost: 0.001, response_time_ms: responseTime };
-    
-  } catch (err) {
-    console.error(`[ChatGPT] Exception: ${err}`);
-    return { success: false, response: "", cost: 0, error: String(err), response_time_ms: Date.now() - startTime };
-  }
+  // GPT-4o-mini is ~$0.00015 per 1K input + $0.0006 per 1K output; search adds a per-call fee
+  return { ...result, cost: result.success ? (webSearch ? 0.03 : 0.001) : 0 };
 }
 
 /**
  * Query Anthropic Claude API directly
  */
 async function queryClaude(
-  prompt: string
+  prompt: string,
+  model: string = "claude-3-haiku-20240307"
 ): Promise<{
   success: boolean;
   response: string;
   cost: number;
+  tokens?: number;
   error?: string;
   response_time_ms?: number;
 }> {
-  if (!ANTHROPIC_API_KEY) {
-    return { success: false, response: "", cost: 0, error: "ANTHROPIC_API_KEY not configured" };
+  const apiKey = getCredential("anthropic");
+  if (!apiKey) {
+    return { success: false, response: "", cost: 0, error: "Anthropic API key not configured" };
   }
   
-  console.log("[Claude] Querying...");
+  console.log(`[Claude] Querying ${model}...`);
   const startTime = Date.now();
   
   try {
     const response = await fetch("https://api.anthropic.com/v1/messages", {
       method: "POST",
       headers: {
-        "x-api-key": ANTHROPIC_API_KEY,
+        "x-api-key": apiKey,
         "anthropic-version": "2023-06-01",
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        model: "claude-3-haiku-20240307",
+        model,
         max_tokens: 1024,
         messages: [
           { role: "user", content: prompt + "\n\nProvide a helpful, informative response with specific recommendations and brand names where relevant." }
@@ -1439,7 +2124,13 @@ async function queryClaude(
     console.log(`[Claude] Got ${text.length} chars`);
     
     // Claude Haiku is ~$0.00025 per 1K input + $0.00125 per 1K output
-    return { success: text.length > 0, response: text, cost: 0.001, response_time_ms: responseTime };
+    return {
+      success: text.length > 0,
+      response: text,
+      cost: 0.001,
+      tokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0),
+      response_time_ms: responseTime,
+    };
     
   } catch (err) {
     console.error(`[Claude] Exception: ${err}`);
@@ -1447,13 +2138,215 @@ async function queryClaude(
   }
 }
 
+// ============================================
+// PROVIDER ADAPTERS
+// ============================================
+// Where each LLM model's answer comes from. DataForSEO (LLM Mentions, then LIVE) is the
+// default; a model can be routed to a first-party API or an OpenAI-compatible server per
+// client (clients.settings.model_routing) or per request (`routing`, provider/model only):
+//
+//   { "chatgpt": { "provider": "openai", "model": "gpt-4o-mini" },
+//     "perplexity": { "provider": "perplexity" },
+//     "claude": { "provider": "openai_compatible", "base_url": "http://localhost:11434/v1", "model": "llama3.1" } }
+//
+// Direct answers are cached under model@provider:model, so they never mix with DataForSEO's.
+// Chat models answer in the prompt's language; the audit language only scopes the cache.
+
+/**
+ * Adapter for one provider; `query` never throws
+ * Adapters with `cachesResponses` handle the response cache (and forceRefresh) themselves
+ */
+interface ProviderAdapter {
+  id: ProviderId;
+  apiName: string;                              // forzeo_api_usage.api_name
+  costPerQuery(modelId: string): number;        // list price used for estimates
+  cachesResponses?: boolean;
+  defaultModel(modelId: string): string;
+  endpoint(modelId: string, route: ModelRoute): string;
+  query(prompt: string, modelId: string, route: ModelRoute, locationCode: number, forceRefresh: boolean, language: string): Promise<ProviderResponse>;
+}
+
+function toProviderResponse(
+  result: { success: boolean; response: string; cost: number; tokens?: number; error?: string; response_time_ms?: number },
+  citations: Citation[] = extractUrlsFromText(result.response || "")
+): ProviderResponse {
+  return {
+    success: result.success,
+    response: result.response,
+    citations: result.success ? citations : [],
+    tokens: result.tokens || 0,
+    cost: result.cost,
+    latency_ms: result.response_time_ms || 0,
+    error: result.error,
+  };
+}
+
+const PROVIDER_ADAPTERS: Record<ProviderId, ProviderAdapter> = {
+  dataforseo: {
+    id: "dataforseo",
+    apiName: "dataforseo_live_llm",
+    costPerQuery: modelId => AI_MODELS[modelId]?.costPerQuery ?? 0.02,
+    cachesResponses: true,
+    defaultModel: modelId => DATAFORSEO_LIVE_MODELS[modelId] || "",
+    endpoint: modelId => liveLLMEndpoint(modelId),
+    query: async (prompt, modelId, _route, locationCode, forceRefresh, language) => {
+      if (!DATAFORSEO_LIVE_MODELS[modelId]) {
+        return { success: false, response: "", citations: [], tokens: 0, cost: 0, latency_ms: 0, error: `Unsupported model: ${modelId}` };
+      }
+      const live = await getLiveLLMResponse(prompt, modelId, locationCode, forceRefresh, language);
+      return {
+        ...toProviderResponse({ ...live, response_time_ms: live.latency_ms }, live.citations.length > 0 ? live.citations : extractUrlsFromText(live.response)),
+        from_cache: live.from_cache,
+      };
+    },
+  },
+  openai: {
+    id: "openai",
+    apiName: "openai",
+    costPerQuery: modelId => SEARCH_GROUNDED_MODELS[modelId] ? 0.03 : 0.001,
+    defaultModel: modelId => SEARCH_GROUNDED_MODELS[modelId] ? "gpt-4o-mini-search-preview" : "gpt-4o-mini",
+    endpoint: () => "/v1/chat/completions",
+    query: async (prompt, modelId, route) => {
+      const result = await queryChatGPT(prompt, route.model, !!SEARCH_GROUNDED_MODELS[modelId]);
+      return toProviderResponse(result, result.citations?.length ? result.citations : extractUrlsFromText(result.response));
+    },
+  },
+  anthropic: {
+    id: "anthropic",
+    apiName: "anthropic",
+    costPerQuery: () => 0.001,
+    defaultModel: () => "claude-3-haiku-20240307",
+    endpoint: () => "/v1/messages",
+    query: async (prompt, _modelId, route) => toProviderResponse(await queryClaude(prompt, route.model)),
+  },
+  gemini: {
+    id: "gemini",
+    apiName: "gemini",
+    costPerQuery: modelId => SEARCH_GROUNDED_MODELS[modelId] ? 0.035 : 0.0001,
+    defaultModel: modelId => SEARCH_GROUNDED_MODELS[modelId] ? "gemini-2.0-flash" : "gemini-1.5-flash",
+    endpoint: (_modelId, route) => `/v1beta/models/${route.model}:generateContent`,
+    query: async (prompt, modelId, route) => {
+      const result = await queryGemini(prompt, route.model, !!SEARCH_GROUNDED_MODELS[modelId]);
+      return toProviderResponse(result, result.citations?.length ? result.citations : extractUrlsFromText(result.response));
+    },
+  },
+  perplexity: {
+    id: "perplexity",
+    apiName: "perplexity",
+    costPerQuery: () => 0.006, // sonar-pro: ~$0.005 request fee + tokens
+    defaultModel: () => "sonar-pro",
+    endpoint: () => "/chat/completions",
+    query: async (prompt, _modelId, route) => {
+      const apiKey = getCredential("perplexity");
+      if (!apiKey) {
+        return { success: false, response: "", citations: [], tokens: 0, cost: 0, latency_ms: 0, error: "Perplexity API key not configured" };
+      }
+      const result = await queryOpenAICompatible("Perplexity", "https://api.perplexity.ai", apiKey, route.model!, prompt);
+      // Prefer the search results Perplexity returns over URLs found in the text
+      return toProviderResponse({ ...result, cost: result.success ? 0.006 : 0 },
+        result.citations.length > 0 ? result.citations : extractUrlsFromText(result.response));
+    },
+  },
+  openai_compatible: {
+    id: "openai_compatible",
+    apiName: "openai_compatible",
+    costPerQuery: () => OPENAI_COMPATIBLE_COST_PER_QUERY,
+    defaultModel: () => OPENAI_COMPATIBLE_MODEL,
+    endpoint: (_modelId, route) => `${route.base_url}/chat/completions`,
+    query: async (prompt, _modelId, route) => {
+      if (!route.base_url) {
+        return { success: false, response: "", citations: [], tokens: 0, cost: 0, latency_ms: 0, error: "No base_url configured for openai_compatible" };
+      }
+      const apiKey = Deno.env.get(route.api_key_env || "OPENAI_COMPATIBLE_API_KEY") || "";
+      const result = await queryOpenAICompatible("OpenAI-compatible", route.base_url, apiKey, route.model!, prompt);
+      return toProviderResponse({ ...result, cost: result.success ? OPENAI_COMPATIBLE_COST_PER_QUERY : 0 },
+        result.citations.length > 0 ? result.citations : extractUrlsFromText(result.response));
+    },
+  },
+};
+
+/**
+ * Resolve the route of every LLM model: client settings, then request overrides
+ * Requests may only pick provider and model - base URLs and key names come from settings/secrets
+ */
+function resolveModelRoutes(
+  clientRouting?: Record<string, Partial<ModelRoute>>,
+  requestRouting?: Record<string, Partial<ModelRoute>>
+): Record<string, ModelRoute> {
+  const routes: Record<string, ModelRoute> = {};
+  for (const modelId of LLM_MODEL_IDS) {
+    const fromClient = clientRouting?.[modelId] || {};
+    const fromRequest = requestRouting?.[modelId] || {};
+    let provider = (fromRequest.provider || fromClient.provider || "dataforseo") as ProviderId;
+    if (!PROVIDER_ADAPTERS[provider]) {
+      console.warn(`[Providers] Unknown provider "${provider}" for ${modelId}, using dataforseo`);
+      provider = "dataforseo";
+    }
+    const adapter = PROVIDER_ADAPTERS[provider];
+    const sameProvider = fromClient.provider === provider;
+    const route: ModelRoute = {
+      provider,
+      model: sanitizeString(fromRequest.model || (sameProvider ? fromClient.model : "") || adapter.defaultModel(modelId), 100),
+    };
+    if (provider === "openai_compatible") {
+      route.base_url = ((sameProvider ? fromClient.base_url : "") || OPENAI_COMPATIBLE_BASE_URL).replace(/\/+$/, "");
+      // Only OPENAI_COMPATIBLE_* secrets can be sent to a configurable URL
+      const keyEnv = sameProvider ? fromClient.api_key_env : undefined;
+      route.api_key_env = keyEnv && /^OPENAI_COMPATIBLE_[A-Z0-9_]*$/.test(keyEnv) ? keyEnv : "OPENAI_COMPATIBLE_API_KEY";
+    }
+    routes[modelId] = route;
+  }
+  return routes;
+}
+
+function describeRoute(route: ModelRoute): string {
+  return route.provider === "dataforseo" ? "dataforseo_live" : `${route.provider}:${route.model}`;
+}
+
+/**
+ * Response cache model for a route: openai_compatible endpoints serving the same
+ * model name (a local mock, a production gateway) must not share cached answers
+ */
+function routeCacheModel(modelId: string, route: ModelRoute): string {
+  const endpoint = route.provider === "openai_compatible" ? `@${route.base_url}#${route.api_key_env}` : "";
+  return `${modelId}@${describeRoute(route)}${endpoint}`;
+}
+
+/**
+ * Ask one model through its route, with the response cache in front
+ */
+async function queryProvider(
+  modelId: string,
+  prompt: string,
+  route: ModelRoute,
+  locationCode: number,
+  forceRefresh: boolean,
+  language: string = DEFAULT_LANGUAGE
+): Promise<ProviderResponse> {
+  const adapter = PROVIDER_ADAPTERS[route.provider];
+  if (adapter.cachesResponses) return adapter.query(prompt, modelId, route, locationCode, forceRefresh, language);
+  
+  const cacheModel = routeCacheModel(modelId, route);
+  const startTime = Date.now();
+  const cached = await readResponseCache(cacheModel, prompt, locationCode, forceRefresh, language) as { response?: string; citations?: Citation[]; tokens?: number } | null;
+  if (cached?.response) {
+    return { success: true, response: cached.response, citations: cached.citations || [], tokens: cached.tokens || 0, cost: 0, latency_ms: Date.now() - startTime, from_cache: true };
+  }
+  
+  const result = await adapter.query(prompt, modelId, route, locationCode, forceRefresh, language);
+  if (result.success) {
+    await writeResponseCache(cacheModel, prompt, locationCode, { response: result.response, citations: result.citations, tokens: result.tokens }, result.cost, language);
+  }
+  return result;
+}
+
 /**
- * Query any LLM directly based on model ID
- * Uses DataForSEO LIVE LLM API only (no Groq fallback)
+ * Query any LLM directly based on model ID (DataForSEO LIVE unless a route says otherwise)
  */
 async function queryLLMDirect(
   prompt: string,
-  modelId: string
+  modelId: string,
+  route: ModelRoute = { provider: "dataforseo" }
 ): Promise<{
   success: boolean;
   response: string;
@@ -1462,27 +2355,18 @@ async function queryLLMDirect(
   response_time_ms?: number;
   source: string;
 }> {
-  // Use DataForSEO LIVE LLM API for all models
-  if (["chatgpt", "gemini", "claude", "perplexity"].includes(modelId)) {
-    const result = await getLiveLLMResponse(prompt, modelId as "chatgpt" | "gemini" | "claude" | "perplexity");
-    return { 
-      success: result.success, 
-      response: result.response, 
-      cost: result.cost, 
-      error: result.error,
-      response_time_ms: result.latency_ms,
-      source: "dataforseo_live" 
-    };
+  if (!LLM_MODEL_IDS.includes(modelId)) {
+    return { success: false, response: "", cost: 0, error: `Unsupported model: ${modelId}`, response_time_ms: 0, source: "none" };
   }
   
-  // Unknown model
-  return { 
-    success: false, 
-    response: "", 
-    cost: 0, 
-    error: `Unsupported model: ${modelId}`,
-    response_time_ms: 0,
-    source: "none" 
+  const result = await queryProvider(modelId, prompt, route, 2840, false);
+  return {
+    success: result.success,
+    response: result.response,
+    cost: result.cost,
+    error: result.error,
+    response_time_ms: result.latency_ms,
+    source: describeRoute(route),
   };
 }
 
@@ -1510,6 +2394,8 @@ function createModelResult(
     is_cited?: boolean;
     ai_search_volume?: number;
     response_time_ms?: number;
+    from_cache?: boolean;
+    answer_source?: string;
   }
 ): ModelResult {
   const config = AI_MODELS[modelId] || {
@@ -1528,18 +2414,26 @@ function createModelResult(
   let matchedTerms: string[] = [];
   let brandRank: number | null = null;
   let brandSentiment: "positive" | "neutral" | "negative" = "neutral";
+  let brandStance: Stance = "listed";
+  let mentionSentiments: MentionSentiment[] = [];
+  
+  const rankedEntities = response ? parseRankedEntities(response) : [];
   
   if (response && !extraData) {
-    const brandData = parseBrandData(response, brandName, brandTags);
+    const brandData = parseBrandData(response, brandName, brandTags, rankedEntities);
     brandMentioned = brandData.mentioned;
     brandMentionCount = brandData.count;
     brandRank = brandData.rank;
     brandSentiment = brandData.sentiment;
+    brandStance = brandData.stance;
+    mentionSentiments = brandData.mentionSentiments;
     matchedTerms = brandData.matchedTerms;
   } else if (response) {
-    const brandData = parseBrandData(response, brandName, brandTags);
+    const brandData = parseBrandData(response, brandName, brandTags, rankedEntities);
     brandRank = brandData.rank;
     brandSentiment = brandData.sentiment;
+    brandStance = brandData.stance;
+    mentionSentiments = brandData.mentionSentiments;
     matchedTerms = brandData.matchedTerms;
   }
   
@@ -1560,8 +2454,8 @@ function createModelResult(
     ) : false
   }));
   
-  const competitorData = response ? parseCompetitors(response, competitors) : [];
-  const winnerBrand = response ? findWinnerBrand(response, brandName, competitors) : "";
+  const competitorData = response ? parseCompetitors(response, competitors, rankedEntities) : [];
+  const winnerBrand = response ? findWinnerBrand(response, brandName, competitors, brandTags, rankedEntities) : "";
   
   // Determine authority type
   let authorityType: "authority" | "alternative" | "mentioned" = "mentioned";
@@ -1583,9 +2477,12 @@ function createModelResult(
     brand_mention_count: brandMentionCount,
     brand_rank: brandRank,
     brand_sentiment: brandSentiment,
+    brand_stance: brandMentioned ? brandStance : null,
+    brand_mention_sentiments: mentionSentiments,
     matched_terms: matchedTerms,
     winner_brand: winnerBrand,
     competitors_found: competitorData,
+    ranked_entities: rankedEntities,
     citations: citationsWithBrandFlag,
     citation_count: citations.length,
     api_cost: cost,
@@ -1593,6 +2490,8 @@ function createModelResult(
     authority_type: authorityType,
     ai_search_volume: extraData?.ai_search_volume,
     response_time_ms: extraData?.response_time_ms,
+    from_cache: extraData?.from_cache || false,
+    answer_source: extraData?.answer_source,
   };
 }
 
@@ -1636,10 +2535,12 @@ function calculateVisibilityScore(results: ModelResult[]): number {
 
 /**
  * Calculate trust index based on citation authority
+ * Needs source_authority from classifyCitations (answers without citations add 0)
  */
 function calculateTrustIndex(results: ModelResult[]): number {
   let citedCount = 0;
   let authorityCount = 0;
+  let sourceAuthority = 0;
   let total = 0;
   
   for (const result of results) {
@@ -1647,475 +2548,1453 @@ function calculateTrustIndex(results: ModelResult[]): number {
     total++;
     if (result.is_cited) citedCount++;
     if (result.authority_type === "authority") authorityCount++;
+    sourceAuthority += result.source_authority ?? 0;
   }
   
   if (total === 0) return 0;
   
-  // Trust = 60% citation rate + 40% authority rate
+  // Trust = 50% citation rate + 30% source authority + 20% authority rate
   const citationRate = (citedCount / total) * 100;
+  const sourceRate = (sourceAuthority / total) * 100;
   const authorityRate = (authorityCount / total) * 100;
   
-  return Math.round(citationRate * 0.6 + authorityRate * 0.4);
+  return Math.round(citationRate * 0.5 + sourceRate * 0.3 + authorityRate * 0.2);
 }
 
 // ============================================
-// MAIN HANDLER
+// SOURCE CLASSIFICATION
 // ============================================
+// Every cited domain gets a class (review, news, forum, ...) and an authority
+// weight from _shared/citationRules.ts, with per-client overrides from
+// clients.settings.source_overrides
 
-serve(async (req: Request) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, { status: 204, headers: corsHeaders });
+/**
+ * Set source_class and authority on every citation and source_authority on
+ * every model result (in place). Brand-owned domains also count as brand sources
+ */
+function classifyCitations(results: ModelResult[], ctx: SourceContext): void {
+  const cache = new Map<string, ReturnType<typeof classifySource>>();
+  for (const result of results) {
+    for (const c of result.citations) {
+      if (!cache.has(c.domain)) cache.set(c.domain, classifySource(c.domain, ctx));
+      const { source_class, authority } = cache.get(c.domain)!;
+      c.source_class = source_class;
+      c.authority = authority;
+      if (source_class === "brand") c.is_brand_source = true;
+    }
+    result.source_authority = result.citations.length > 0
+      ? Math.round((result.citations.reduce((sum, c) => sum + c.authority!, 0) / result.citations.length) * 100) / 100
+      : null;
   }
+}
 
-  // Only allow POST
-  if (req.method !== "POST") {
-    return new Response(
-      JSON.stringify({ success: false, error: "Method not allowed" }),
-      { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  }
+// ============================================
+// MULTI-SAMPLE RUNS
+// ============================================
+// LLM answers are non-deterministic: one run says "mentioned" or "not" by chance.
+// With samples > 1 every model is asked again (bypassing the response cache) and the
+// model result reports how often the brand shows up instead of a single yes/no.
 
-  try {
-    // Parse and validate request
-    const body = await req.json() as AuditRequest;
-    
-    const validationError = validateRequest(body);
-    if (validationError) {
-      return new Response(
-        JSON.stringify({ success: false, error: validationError }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+/**
+ * 95% Wilson score interval for a proportion, returned in percent
+ */
+function wilsonInterval(successes: number, trials: number, z: number = 1.96): [number, number] {
+  if (trials === 0) return [0, 0];
+  const p = successes / trials;
+  const denom = 1 + (z * z) / trials;
+  const center = (p + (z * z) / (2 * trials)) / denom;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denom;
+  return [
+    Math.round(Math.max(0, center - margin) * 1000) / 10,
+    Math.round(Math.min(1, center + margin) * 1000) / 10,
+  ];
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function toModelSample(result: ModelResult): ModelSample {
+  return {
+    response: result.raw_response,
+    brand_mentioned: result.brand_mentioned,
+    brand_mention_count: result.brand_mention_count,
+    brand_rank: result.brand_rank,
+    is_cited: result.is_cited,
+    citation_count: result.citation_count,
+    api_cost: result.api_cost,
+    from_cache: result.from_cache || false,
+  };
+}
+
+/**
+ * Vote and interval over the counted samples (excluded ones only count if nothing else succeeded)
+ */
+function summarizeSamples(allSamples: ModelSample[]): SampleStats {
+  const counted = allSamples.filter(s => !s.excluded);
+  const samples = counted.length > 0 ? counted : allSamples;
+  const mentions = samples.filter(s => s.brand_mentioned).length;
+  const ranks = samples.map(s => s.brand_rank).filter((r): r is number => r !== null);
+  return {
+    samples: samples.length,
+    mentions,
+    mention_probability: samples.length > 0 ? Math.round((mentions / samples.length) * 1000) / 1000 : 0,
+    sov_ci: wilsonInterval(mentions, samples.length),
+    rank_median: median(ranks),
+    rank_min: ranks.length > 0 ? Math.min(...ranks) : null,
+    rank_max: ranks.length > 0 ? Math.max(...ranks) : null,
+  };
+}
+
+/**
+ * Ask one model again, always live (LLMs via their route, search engines via SEARCH_MODELS)
+ */
+async function queryExtraSample(
+  modelId: string,
+  prompt: string,
+  locationCode: number,
+  brandName: string,
+  brandTags: string[],
+  brandDomain: string,
+  competitors: string[],
+  route: ModelRoute = { provider: "dataforseo" },
+  serpEngine: string = resolveSerpEngine(),
+  language: string = DEFAULT_LANGUAGE
+): Promise<{ result: ModelResult | null; usage: UsageEntry }> {
+  let response = "";
+  let citations: Citation[] = [];
+  let cost = 0;
+  let responseTime: number | undefined;
+  let endpoint = "";
+  let apiName = "";
+
+  if (LLM_MODEL_IDS.includes(modelId)) {
+    const adapter = PROVIDER_ADAPTERS[route.provider];
+    const live = await queryProvider(modelId, prompt, route, locationCode, true, language);
+    if (live.success) {
+      response = live.response;
+      citations = live.citations;
     }
-    
-    // Sanitize inputs
-    const {
-      client_id,
-      prompt_id,
-      prompt_text: rawPromptText,
-      prompt_category = "custom",
-      brand_name: rawBrandName,
-      brand_domain = "",
-      brand_tags = [],
-      competitors = [],
-      location_code = 2840,
-      location_name = "United States",
-      models = ["chatgpt", "claude", "gemini", "perplexity", "google_ai_overview"],
-      save_to_db = false
-    } = body;
-
-    const prompt_text = sanitizeString(rawPromptText, 500);
-    const brand_name = sanitizeString(rawBrandName, 100);
-    const sanitizedBrandTags = brand_tags.map(t => sanitizeString(t, 100)).filter(Boolean);
-    const sanitizedCompetitors = competitors.map(c => sanitizeString(c, 100)).filter(Boolean);
-    const targetDomain = sanitizeString(brand_domain, 200);
-
-    console.log(`[GEO Audit] "${prompt_text.substring(0, 50)}..." | Brand: ${brand_name} | Category: ${prompt_category}`);
-    console.log(`[GEO Audit] Models: ${models.join(", ")} | Location: ${location_code}`);
-
-    const results: ModelResult[] = [];
-    let totalCost = 0;
-    const promises: Promise<void>[] = [];
-
-    // Determine which APIs to call
-    const requestedLLMs = models.filter(m => LLM_MODEL_IDS.includes(m));
-    const requestSERP = models.includes("google_serp");
-    const requestAIOverview = models.includes("google_ai_overview");
-
-    // Query LLM Mentions API if any LLM models requested
-    if (requestedLLMs.length > 0) {
-      promises.push((async () => {
-        // First try DataForSEO LLM Mentions API - this is the PRIMARY source
-        const llmResult = await getLLMMentions(
-          prompt_text,
-          targetDomain,
-          brand_name,
-          sanitizedBrandTags,
-          location_code
-        );
-        
-        const costPerModel = llmResult.cost / Math.max(1, requestedLLMs.length);
-        totalCost += llmResult.cost;
-        
-        // Track which models got data from DataForSEO
-        const modelsWithData = new Set<string>();
-        
-        // Check if we got ANY data from DataForSEO (even if brand not mentioned)
-        const hasAnyDataForSEOData = llmResult.success && llmResult.results.size > 0;
-        
-        for (const modelId of requestedLLMs) {
-          const modelData = llmResult.results.get(modelId);
-          
-          // Accept DataForSEO data even if short - show whatever we have
-          if (modelData && modelData.answer && modelData.answer.length > 10) {
-            // Got data from DataForSEO - use it regardless of brand visibility
-            modelsWithData.add(modelId);
-            results.push(createModelResult(
-              modelId,
-              true,
-              modelData.answer,
-              modelData.sources,
-              costPerModel,
-              brand_name,
-              sanitizedBrandTags,
-              targetDomain,
-              sanitizedCompetitors,
-              undefined,
-              {
-                brand_mentioned: modelData.brand_mentioned,
-                brand_mention_count: modelData.brand_mention_count,
-                is_cited: modelData.brand_cited,
-                ai_search_volume: modelData.ai_search_volume,
-                response_time_ms: llmResult.response_time_ms,
-              }
-            ));
-          }
-        }
-        
-        // For models without cached data, try LIVE LLM API (real-time inference)
-        const modelsNeedingDirectQuery = requestedLLMs.filter(m => !modelsWithData.has(m));
-        
-        if (modelsNeedingDirectQuery.length > 0) {
-          console.log(`[GEO Audit] No cached data for: ${modelsNeedingDirectQuery.join(", ")}. Trying LIVE LLM API...`);
-          
-          // Try LIVE LLM API first (real-time inference from DataForSEO)
-          const liveModels = modelsNeedingDirectQuery.filter(m => 
-            ["chatgpt", "gemini", "claude", "perplexity"].includes(m)
-          ) as Array<"chatgpt" | "gemini" | "claude" | "perplexity">;
-          
-          if (liveModels.length > 0) {
-            // Query LIVE LLM with validation
-            const liveResult = await getLiveLLMWithValidation(
-              prompt_text,
-              brand_name,
-              sanitizedBrandTags,
-              sanitizedCompetitors,
-              liveModels
-            );
-            
-            totalCost += liveResult.totalCost;
-            
-            for (const modelId of liveModels) {
-              const modelData = liveResult.results.get(modelId);
-              
-              if (modelData) {
-                // Use extracted citations from the response text
-                const citations = modelData.citations || [];
-                
-                // Check if brand domain is cited
-                const isCited = citations.some(c =>
-                  [brand_name, targetDomain, ...sanitizedBrandTags].some(term =>
-                    term && (c.domain.toLowerCase().includes(term.toLowerCase()) ||
-                            c.url.toLowerCase().includes(term.toLowerCase()))
-                  )
-                );
-                
-                results.push(createModelResult(
-                  modelId,
-                  true,
-                  modelData.response,
-                  citations, // Now includes extracted citations from response
-                  modelData.cost,
-                  brand_name,
-                  sanitizedBrandTags,
-                  targetDomain,
-                  sanitizedCompetitors,
-                  undefined,
-                  {
-                    brand_mentioned: modelData.brand_mentioned,
-                    brand_mention_count: modelData.brand_mention_count,
-                    is_cited: isCited,
-                    response_time_ms: modelData.latency_ms,
-                  }
-                ));
-              } else {
-                // LIVE LLM failed for this model - show clear error (no Groq fallback)
-                console.log(`[GEO Audit] LIVE LLM failed for ${modelId} - DataForSEO LIVE is the only source`);
-                
-                results.push(createModelResult(
-                  modelId,
-                  false,
-                  `DataForSEO LIVE LLM failed for ${modelId}. No cached data available and LIVE inference did not return a response. Please try again.`,
-                  [],
-                  0,
-                  brand_name,
-                  sanitizedBrandTags,
-                  targetDomain,
-                  sanitizedCompetitors,
-                  `DataForSEO LIVE LLM failed for ${modelId}`
-                ));
-              }
-            }
-          }
-        }
-      })());
+    cost = live.cost;
+    responseTime = live.latency_ms;
+    endpoint = adapter.endpoint(modelId, route);
+    apiName = adapter.apiName;
+  } else if (SEARCH_MODELS[modelId]) {
+    const search = SEARCH_MODELS[modelId];
+    const serp = await search.fetch(prompt, locationCode, true, serpEngine, language);
+    if (serp.success) {
+      response = serp.response;
+      citations = serp.citations;
     }
+    cost = serp.cost;
+    responseTime = serp.response_time_ms;
+    endpoint = search.endpoint(serpEngine);
+    apiName = search.apiName;
+  }
 
-    // Query Google AI Overview
-    if (requestAIOverview) {
-      promises.push((async () => {
-        const aiResult = await getGoogleAIOverview(prompt_text, location_code);
-        totalCost += aiResult.cost;
-        
-        const brandData = parseBrandData(aiResult.response, brand_name, sanitizedBrandTags);
-        const isCited = aiResult.citations.some(c =>
-          [brand_name, targetDomain, ...sanitizedBrandTags].some(term =>
-            term && (c.domain.toLowerCase().includes(term.toLowerCase()) ||
-                    c.url.toLowerCase().includes(term.toLowerCase()))
-          )
-        );
-        
-        results.push(createModelResult(
-          "google_ai_overview",
-          aiResult.success,
-          aiResult.response,
-          aiResult.citations,
-          aiResult.cost,
-          brand_name,
-          sanitizedBrandTags,
-          targetDomain,
-          sanitizedCompetitors,
-          aiResult.error,
-          {
-            brand_mentioned: brandData.mentioned,
-            brand_mention_count: brandData.count,
-            is_cited: isCited,
-            response_time_ms: aiResult.response_time_ms,
-          }
-        ));
-      })());
-    }
+  const usage = { api_name: apiName, endpoint, cost, models_used: [modelId] };
+  if (!response) return { result: null, usage };
 
-    // Query Google SERP
-    if (requestSERP) {
-      promises.push((async () => {
-        const serpResult = await getGoogleSERP(prompt_text, location_code);
-        totalCost += serpResult.cost;
-        
-        const brandData = parseBrandData(serpResult.response, brand_name, sanitizedBrandTags);
-        const isCited = serpResult.citations.some(c =>
-          [brand_name, targetDomain, ...sanitizedBrandTags].some(term =>
-            term && (c.domain.toLowerCase().includes(term.toLowerCase()) ||
-                    c.url.toLowerCase().includes(term.toLowerCase()))
-          )
-        );
-        
-        results.push(createModelResult(
-          "google_serp",
-          serpResult.success,
-          serpResult.response,
-          serpResult.citations,
-          serpResult.cost,
-          brand_name,
-          sanitizedBrandTags,
-          targetDomain,
-          sanitizedCompetitors,
-          serpResult.error,
-          {
-            brand_mentioned: brandData.mentioned,
-            brand_mention_count: brandData.count,
-            is_cited: isCited,
-            response_time_ms: serpResult.response_time_ms,
-          }
-        ));
-      })());
+  const brandData = parseBrandData(response, brandName, brandTags);
+  return {
+    result: createModelResult(modelId, true, response, citations, cost, brandName, brandTags, brandDomain, competitors, undefined, {
+      brand_mentioned: brandData.mentioned,
+      brand_mention_count: brandData.count,
+      response_time_ms: responseTime,
+      answer_source: LLM_MODEL_IDS.includes(modelId) ? describeRoute(route) : modelId === "generic_serp" ? `dataforseo_serp:${serpEngine}` : undefined,
+    }),
+    usage,
+  };
+}
+
+/**
+ * Collect extra samples for a successful model result and fold them into it:
+ * brand_mentioned becomes the majority vote, brand_rank the median rank
+ */
+async function applyExtraSamples(
+  primary: ModelResult,
+  extraCount: number,
+  prompt: string,
+  locationCode: number,
+  brandName: string,
+  brandTags: string[],
+  brandDomain: string,
+  competitors: string[],
+  route?: ModelRoute,
+  serpEngine?: string,
+  language?: string
+): Promise<{ cost: number; usage: UsageEntry[] }> {
+  const samples: ModelSample[] = [toModelSample(primary)];
+  const usage: UsageEntry[] = [];
+  let cost = 0;
+
+  // Extra samples are LIVE answers; an LLM Mentions answer comes from a different
+  // distribution, so it stays out of the vote once a LIVE sample exists
+  if (primary.answer_source === "dataforseo_llm_mentions") samples[0].excluded = true;
+
+  // Sequential per model: the LIVE LLM endpoints rate-limit bursts
+  for (let i = 0; i < extraCount; i++) {
+    if (i > 0 || LLM_MODEL_IDS.includes(primary.model)) {
+      await new Promise(resolve => setTimeout(resolve, 2500));
     }
+    const extra = await queryExtraSample(primary.model, prompt, locationCode, brandName, brandTags, brandDomain, competitors, route, serpEngine, language);
+    usage.push(extra.usage);
+    cost += extra.usage.cost;
+    if (extra.result) samples.push(toModelSample(extra.result));
+  }
 
-    // Wait for all API calls to complete
-    await Promise.all(promises);
+  const stats = summarizeSamples(samples);
+  primary.samples = samples;
+  primary.sample_stats = stats;
+  primary.brand_mentioned = stats.mention_probability >= 0.5;
+  primary.brand_rank = stats.rank_median !== null ? Math.round(stats.rank_median) : null;
+  primary.api_cost += cost;
+  console.log(`[Samples/${primary.model}] ${stats.mentions}/${stats.samples} mention the brand, CI ${stats.sov_ci[0]}-${stats.sov_ci[1]}%`);
+  return { cost, usage };
+}
 
-    // Calculate aggregate metrics
-    const successfulResults = results.filter(r => r.success);
-    const visibleCount = successfulResults.filter(r => r.brand_mentioned).length;
-    const citedCount = successfulResults.filter(r => r.is_cited).length;
-    const totalModels = successfulResults.length;
-    
-    const shareOfVoice = totalModels > 0 ? Math.round((visibleCount / totalModels) * 100) : 0;
-    
-    const rankedResults = successfulResults.filter(r => r.brand_rank);
-    const avgRank = rankedResults.length > 0
-      ? Math.round((rankedResults.reduce((sum, r) => sum + r.brand_rank!, 0) / rankedResults.length) * 10) / 10
-      : null;
-    
-    const visibilityScore = calculateVisibilityScore(results);
-    const trustIndex = calculateTrustIndex(results);
+// ============================================
+// SENTIMENT
+// ============================================
+// Parsing always classifies mentions with the lexicon (see _shared/sentiment.ts).
+// With an LLM backend, brand mentions of fresh audits are re-classified here;
+// reprocessing stays on the lexicon so it never spends credits.
+
+function getSentimentBackend(trackCost: (cost: number) => void): SentimentBackend {
+  const query = SENTIMENT_BACKEND === "chatgpt" ? queryChatGPT
+    : SENTIMENT_BACKEND === "claude" ? queryClaude
+    : null;
+  if (!query) return lexiconBackend;
+
+  return createLLMBackend(SENTIMENT_BACKEND, async (prompt) => {
+    const result = await query(prompt);
+    trackCost(result.cost);
+    if (!result.success) console.error(`[Sentiment] ${SENTIMENT_BACKEND} failed, using lexicon: ${result.error}`);
+    return result.success ? result.response : null;
+  });
+}
 
-    // Aggregate citations by domain
-    const citationMap = new Map<string, { count: number; citation: Citation }>();
-    const competitorAgg = new Map<string, { count: number; ranks: number[] }>();
-    
-    for (const result of successfulResults) {
-      for (const c of result.citations) {
-        if (citationMap.has(c.domain)) {
-          citationMap.get(c.domain)!.count++;
-        } else {
-          citationMap.set(c.domain, { count: 1, citation: c });
-        }
-      }
-      for (const comp of result.competitors_found) {
-        if (competitorAgg.has(comp.name)) {
-          competitorAgg.get(comp.name)!.count += comp.count;
-          if (comp.rank) competitorAgg.get(comp.name)!.ranks.push(comp.rank);
-        } else {
-          competitorAgg.set(comp.name, { count: comp.count, ranks: comp.rank ? [comp.rank] : [] });
-        }
-      }
-    }
+/**
+ * Re-classify the brand's mentions in every successful result with the configured backend
+ */
+async function refineBrandSentiment(
+  results: ModelResult[],
+  brandName: string,
+  brandTags: string[]
+): Promise<{ cost: number; usage: UsageEntry[] }> {
+  let cost = 0;
+  const backend = getSentimentBackend(c => { cost += c; });
+  if (backend === lexiconBackend) return { cost: 0, usage: [] };
+
+  const entity = parseEntity(brandName, brandTags);
+  await Promise.all(results.filter(r => r.success && r.brand_mentioned).map(async (result) => {
+    const matches = findEntityMatches(result.raw_response, entity);
+    if (matches.length === 0) return;
+    const mentions = await backend.classify(result.raw_response, entity.name, matches);
+    const { sentiment, stance } = summarizeMentionSentiments(mentions);
+    result.brand_mention_sentiments = mentions;
+    result.brand_sentiment = sentiment;
+    result.brand_stance = stance;
+  }));
 
-    const topSources = Array.from(citationMap.entries())
-      .sort((a, b) => b[1].count - a[1].count)
-      .slice(0, 10)
-      .map(([domain, data]) => ({
-        domain,
-        count: data.count,
-        url: data.citation.url,
-        title: data.citation.title
-      }));
+  const usage = cost > 0
+    ? [{ api_name: SENTIMENT_BACKEND === "chatgpt" ? "openai_sentiment" : "anthropic_sentiment", endpoint: "sentiment", cost, models_used: [SENTIMENT_BACKEND] }]
+    : [];
+  return { cost, usage };
+}
 
-    const topCompetitors = Array.from(competitorAgg.entries())
-      .sort((a, b) => b[1].count - a[1].count)
-      .slice(0, 5)
-      .map(([name, data]) => ({
-        name,
-        total_mentions: data.count,
-        avg_rank: data.ranks.length > 0
-          ? Math.round((data.ranks.reduce((a, b) => a + b, 0) / data.ranks.length) * 10) / 10
-          : null,
-      }));
+// ============================================
+// AUDIT PIPELINE
+// ============================================
 
-    // Save to database if requested
-    let saved_id: string | null = null;
-    console.log(`[DB] save_to_db=${save_to_db}, SUPABASE_URL=${SUPABASE_URL ? 'SET' : 'NOT SET'}, SUPABASE_KEY=${SUPABASE_KEY ? 'SET' : 'NOT SET'}`);
-    if (save_to_db && SUPABASE_URL && SUPABASE_KEY) {
-      try {
-        const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
-        console.log("[DB] Attempting to save audit result...");
-        const summaryData = {
-          share_of_voice: shareOfVoice,
-          visibility_score: visibilityScore,
-          trust_index: trustIndex,
-          average_rank: avgRank,
-          total_models_checked: totalModels,
-          visible_in: visibleCount,
-          cited_in: citedCount,
-          total_citations: successfulResults.reduce((sum, r) => sum + r.citation_count, 0),
-          total_cost: totalCost,
-        };
-        const { data: savedData, error: saveError } = await supabase
-          .from("audit_results")
-          .insert({
-            client_id,
-            prompt_id,
-            prompt_text,
-            prompt_category,
+/**
+ * Top 5 competitors across model results, by total mentions
+ */
+function aggregateTopCompetitors(results: ModelResult[]): Array<{ name: string; total_mentions: number; avg_rank: number | null }> {
+  const competitorAgg = new Map<string, { count: number; ranks: number[] }>();
+  
+  for (const result of results) {
+    for (const comp of result.competitors_found || []) {
+      if (competitorAgg.has(comp.name)) {
+        competitorAgg.get(comp.name)!.count += comp.count;
+        if (comp.rank) competitorAgg.get(comp.name)!.ranks.push(comp.rank);
+      } else {
+        competitorAgg.set(comp.name, { count: comp.count, ranks: comp.rank ? [comp.rank] : [] });
+      }
+    }
+  }
+
+  return Array.from(competitorAgg.entries())
+    .sort((a, b) => b[1].count - a[1].count)
+    .slice(0, 5)
+    .map(([name, data]) => ({
+      name,
+      total_mentions: data.count,
+      avg_rank: data.ranks.length > 0
+        ? Math.round((data.ranks.reduce((a, b) => a + b, 0) / data.ranks.length) * 10) / 10
+        : null,
+    }));
+}
+
+/**
+ * Aggregate metrics for one audit: SOV, scores, rank, top sources and competitors
+ * Shared by runAudit and reprocessing of stored results
+ */
+function summarizeAudit(results: ModelResult[], sampleCount: number, totalCost: number) {
+  const successfulResults = results.filter(r => r.success);
+  const visibleCount = successfulResults.filter(r => r.brand_mentioned).length;
+  const citedCount = successfulResults.filter(r => r.is_cited).length;
+  const totalModels = successfulResults.length;
+  
+  // Mean mention probability across models (equals visible/total with one sample)
+  const mentionProbabilities = successfulResults.map(r => r.sample_stats?.mention_probability ?? (r.brand_mentioned ? 1 : 0));
+  const shareOfVoice = totalModels > 0
+    ? Math.round((mentionProbabilities.reduce((sum, p) => sum + p, 0) / totalModels) * 100)
+    : 0;
+  const shareOfVoiceCI = sampleCount > 1
+    ? wilsonInterval(
+        successfulResults.reduce((sum, r) => sum + (r.sample_stats?.mentions ?? (r.brand_mentioned ? 1 : 0)), 0),
+        successfulResults.reduce((sum, r) => sum + (r.sample_stats?.samples ?? 1), 0)
+      )
+    : null;
+  
+  const rankedResults = successfulResults.filter(r => r.brand_rank);
+  const avgRank = rankedResults.length > 0
+    ? Math.round((rankedResults.reduce((sum, r) => sum + r.brand_rank!, 0) / rankedResults.length) * 10) / 10
+    : null;
+  
+  const visibilityScore = calculateVisibilityScore(results);
+  const trustIndex = calculateTrustIndex(results);
+
+  // Aggregate citations by domain
+  const citationMap = new Map<string, { count: number; citation: Citation }>();
+  
+  for (const result of successfulResults) {
+    for (const c of result.citations) {
+      if (citationMap.has(c.domain)) {
+        citationMap.get(c.domain)!.count++;
+      } else {
+        citationMap.set(c.domain, { count: 1, citation: c });
+      }
+    }
+  }
+
+  const topSources = Array.from(citationMap.entries())
+    .sort((a, b) => b[1].count - a[1].count)
+    .slice(0, 10)
+    .map(([domain, data]) => ({
+      domain,
+      count: data.count,
+      url: data.citation.url,
+      title: data.citation.title,
+      source_class: data.citation.source_class || "other",
+      authority: data.citation.authority ?? null,
+    }));
+
+  const topCompetitors = aggregateTopCompetitors(successfulResults);
+
+  return {
+    summary: {
+      share_of_voice: shareOfVoice,
+      visibility_score: visibilityScore,
+      trust_index: trustIndex,
+      average_rank: avgRank,
+      total_models_checked: totalModels,
+      models_failed: results.length - totalModels,
+      visible_in: visibleCount,
+      cited_in: citedCount,
+      total_citations: successfulResults.reduce((sum, r) => sum + r.citation_count, 0),
+      total_cost: totalCost,
+      samples: sampleCount,
+      share_of_voice_ci: shareOfVoiceCI,
+    },
+    top_sources: topSources,
+    top_competitors: topCompetitors,
+  };
+}
+
+/**
+ * Run a single prompt through every requested model
+ * Shared by the single-prompt request and batch jobs
+ */
+async function runAudit(body: AuditRequest) {
+  // Sanitize inputs
+  const {
+    client_id,
+    prompt_id,
+    prompt_text: rawPromptText,
+    prompt_category = "custom",
+    brand_name: rawBrandName,
+    brand_domain = "",
+    brand_tags = [],
+    competitors = [],
+    location_code = DEFAULT_LOCATION_CODE,
+    location_name: requestedLocationName,
+    language: requestedLanguage,
+    models: requestedModels = DEFAULT_MODELS,
+    save_to_db = false,
+    force_refresh = false,
+    budget_policy = "trim",
+    samples: requestedSamples = 1,
+    routing
+  } = body;
+
+  const prompt_text = sanitizeString(rawPromptText, 500);
+  const brand_name = sanitizeString(rawBrandName, 100);
+  const clientBrandTags = brand_tags.map(t => sanitizeString(t, 100)).filter(Boolean);
+  const clientCompetitors = competitors.map(c => sanitizeString(c, 100)).filter(Boolean);
+  const targetDomain = sanitizeString(brand_domain, 200);
+  const language = normalizeLanguage(requestedLanguage);
+  const location_name = sanitizeString(requestedLocationName || "", 200) || formatLocation(location_code);
+
+  const sampleCount = Math.max(1, Math.min(Math.floor(requestedSamples) || 1, MAX_SAMPLES));
+  const clientSettings = await loadClientSettings(client_id);
+  const routes = resolveModelRoutes(clientSettings.model_routing, routing);
+  const serpEngine = resolveSerpEngine(clientSettings.generic_serp_engine);
+
+  // Matching also uses the client's aliases for this language (stored results keep the plain lists)
+  const { brandTags: sanitizedBrandTags, competitors: sanitizedCompetitors } = withLanguageAliases(
+    clientBrandTags,
+    clientCompetitors,
+    clientSettings.language_aliases?.[language]
+  );
+
+  // Budget check before any provider call (may drop models)
+  const budgetCheck = await enforceAuditBudget(client_id, requestedModels, budget_policy, sampleCount, routes);
+  const models = budgetCheck.models;
+
+  console.log(`[GEO Audit] "${prompt_text.substring(0, 50)}..." | Brand: ${brand_name} | Category: ${prompt_category}`);
+  console.log(`[GEO Audit] Models: ${models.join(", ")} | Location: ${location_name} (${location_code}) | Language: ${language} | Samples: ${sampleCount} | Est. cost: $${budgetCheck.estimated_cost.toFixed(3)}`);
+
+  const results: ModelResult[] = [];
+  let totalCost = 0;
+  const promises: Promise<void>[] = [];
+  const usage: UsageEntry[] = []; // one entry per provider call (cache hits are free)
+
+  // Determine which APIs to call (LLMs routed away from DataForSEO are queried directly)
+  const requestedLLMs = models.filter(m => LLM_MODEL_IDS.includes(m) && routes[m].provider === "dataforseo");
+  const routedLLMs = models.filter(m => LLM_MODEL_IDS.includes(m) && routes[m].provider !== "dataforseo");
+  const requestedSearch = models.filter(m => SEARCH_MODELS[m]);
+
+  // Query LLM Mentions API if any LLM models requested
+  if (requestedLLMs.length > 0) {
+    promises.push((async () => {
+      // First try DataForSEO LLM Mentions API - this is the PRIMARY source
+      // (not for search-grounded variants, which always run live)
+      const mentionsLLMs = requestedLLMs.filter(m => !SEARCH_GROUNDED_MODELS[m]);
+      const llmResult = mentionsLLMs.length > 0
+        ? await getLLMMentions(
+          prompt_text,
+          targetDomain,
+          brand_name,
+          sanitizedBrandTags,
+          location_code,
+          force_refresh,
+          language
+        )
+        : { success: false, results: new Map(), cost: 0, from_cache: true };
+      
+      const costPerModel = llmResult.cost / Math.max(1, mentionsLLMs.length);
+      totalCost += llmResult.cost;
+      if (!llmResult.from_cache) {
+        usage.push({ api_name: "dataforseo_llm_mentions", endpoint: "/ai_optimization/llm_mentions/search/live", cost: llmResult.cost, models_used: mentionsLLMs });
+      }
+      
+      // Track which models got data from DataForSEO
+      const modelsWithData = new Set<string>();
+      
+      // Check if we got ANY data from DataForSEO (even if brand not mentioned)
+      const hasAnyDataForSEOData = llmResult.success && llmResult.results.size > 0;
+      
+      for (const modelId of mentionsLLMs) {
+        const modelData = llmResult.results.get(modelId);
+        
+        // Accept DataForSEO data even if short - show whatever we have
+        if (modelData && modelData.answer && modelData.answer.length > 10) {
+          // Got data from DataForSEO - use it regardless of brand visibility
+          modelsWithData.add(modelId);
+          results.push(createModelResult(
+            modelId,
+            true,
+            modelData.answer,
+            modelData.sources,
+            costPerModel,
             brand_name,
-            brand_tags: sanitizedBrandTags,
-            competitors: sanitizedCompetitors,
-            models_used: models,
-            share_of_voice: shareOfVoice,
-            visibility_score: visibilityScore,
-            trust_index: trustIndex,
-            average_rank: avgRank,
-            total_models_checked: totalModels,
-            visible_in: visibleCount,
-            cited_in: citedCount,
-            total_citations: summaryData.total_citations,
-            total_cost: totalCost,
-            model_results: results,
-            top_sources: topSources,
-            top_competitors: topCompetitors,
-            summary: summaryData, // Also save as JSONB for easier frontend access
-          })
-          .select("id")
-          .single();
+            sanitizedBrandTags,
+            targetDomain,
+            sanitizedCompetitors,
+            undefined,
+            {
+              brand_mentioned: modelData.brand_mentioned,
+              brand_mention_count: modelData.brand_mention_count,
+              is_cited: modelData.brand_cited,
+              ai_search_volume: modelData.ai_search_volume,
+              response_time_ms: llmResult.response_time_ms,
+              from_cache: llmResult.from_cache,
+              answer_source: "dataforseo_llm_mentions",
+            }
+          ));
+        }
+      }
+      
+      // For models without cached data, try LIVE LLM API (real-time inference)
+      const modelsNeedingDirectQuery = requestedLLMs.filter(m => !modelsWithData.has(m));
+      
+      if (modelsNeedingDirectQuery.length > 0) {
+        console.log(`[GEO Audit] No cached data for: ${modelsNeedingDirectQuery.join(", ")}. Trying LIVE LLM API...`);
+        
+        // Try LIVE LLM API first (real-time inference from DataForSEO)
+        const liveModels = modelsNeedingDirectQuery.filter(m => DATAFORSEO_LIVE_MODELS[m]);
         
-        if (!saveError && savedData) {
-          saved_id = savedData.id;
-          console.log(`[DB] Saved audit result: ${saved_id}`);
+        if (liveModels.length > 0) {
+          // Query LIVE LLM with validation
+          const liveResult = await getLiveLLMWithValidation(
+            prompt_text,
+            brand_name,
+            sanitizedBrandTags,
+            sanitizedCompetitors,
+            liveModels,
+            location_code,
+            force_refresh,
+            language
+          );
           
-          // Also save individual citations for fast queries
-          const citationRecords = [];
-          for (const result of successfulResults) {
-            for (const c of result.citations) {
-              citationRecords.push({
-                audit_result_id: saved_id,
-                client_id,
-                url: c.url,
-                title: c.title,
-                domain: c.domain,
-                position: c.position,
-                snippet: c.snippet,
-                model: result.model,
-                is_brand_source: c.is_brand_source || false,
-              });
-            }
-          }
+          totalCost += liveResult.totalCost;
           
-          if (citationRecords.length > 0) {
-            const { error: citationError } = await supabase.from("forzeo_citations").insert(citationRecords);
-            if (citationError) console.error("[DB] Citation save error:", citationError);
+          for (const modelId of liveModels) {
+            const modelData = liveResult.results.get(modelId);
+            if (modelData && !modelData.from_cache) {
+              usage.push({ api_name: "dataforseo_live_llm", endpoint: liveLLMEndpoint(modelId), cost: modelData.cost, models_used: [modelId] });
+            }
+            
+            if (modelData) {
+              // Use extracted citations from the response text
+              const citations = modelData.citations || [];
+              
+              // Check if brand domain is cited
+              const isCited = citations.some(c =>
+                [brand_name, targetDomain, ...sanitizedBrandTags].some(term =>
+                  term && (c.domain.toLowerCase().includes(term.toLowerCase()) ||
+                          c.url.toLowerCase().includes(term.toLowerCase()))
+                )
+              );
+              
+              results.push(createModelResult(
+                modelId,
+                true,
+                modelData.response,
+                citations, // Now includes extracted citations from response
+                modelData.cost,
+                brand_name,
+                sanitizedBrandTags,
+                targetDomain,
+                sanitizedCompetitors,
+                undefined,
+                {
+                  brand_mentioned: modelData.brand_mentioned,
+                  brand_mention_count: modelData.brand_mention_count,
+                  is_cited: isCited,
+                  response_time_ms: modelData.latency_ms,
+                  from_cache: modelData.from_cache,
+                  answer_source: "dataforseo_live",
+                }
+              ));
+            } else {
+              // LIVE LLM failed for this model - show clear error (no Groq fallback)
+              console.log(`[GEO Audit] LIVE LLM failed for ${modelId} - DataForSEO LIVE is the only source`);
+              
+              results.push(createModelResult(
+                modelId,
+                false,
+                `DataForSEO LIVE LLM failed for ${modelId}. No cached data available and LIVE inference did not return a response. Please try again.`,
+                [],
+                0,
+                brand_name,
+                sanitizedBrandTags,
+                targetDomain,
+                sanitizedCompetitors,
+                `DataForSEO LIVE LLM failed for ${modelId}`
+              ));
+            }
           }
-          
-          // Log API usage
-          const { error: usageError } = await supabase.from("forzeo_api_usage").insert({
-            organization_id: null, // Would need to look up from client_id
-            client_id,
-            api_name: "geo_audit",
-            endpoint: "/geo-audit",
-            request_count: 1,
-            cost: totalCost,
-            prompt_text,
-            models_used: models,
-          });
-          if (usageError) console.error("[DB] Usage save error:", usageError);
-        } else if (saveError) {
-          console.error("[DB] Audit result save error:", saveError.message, saveError.details, saveError.hint);
         }
-      } catch (dbErr) {
-        console.error("[DB] Save error:", dbErr);
-        // Don't fail the request if DB save fails
       }
-    }
+    })());
+  }
 
-    // Build response
-    const responseData = {
-      success: true,
-      data: {
-        id: saved_id,
-        client_id,
-        prompt_id,
-        prompt_text,
-        prompt_category,
+  // Query LLMs routed to first-party / OpenAI-compatible providers
+  for (const modelId of routedLLMs) {
+    promises.push((async () => {
+      const route = routes[modelId];
+      const adapter = PROVIDER_ADAPTERS[route.provider];
+      const providerResult = await queryProvider(modelId, prompt_text, route, location_code, force_refresh, language);
+      totalCost += providerResult.cost;
+      if (!providerResult.from_cache) {
+        usage.push({ api_name: adapter.apiName, endpoint: adapter.endpoint(modelId, route), cost: providerResult.cost, models_used: [modelId] });
+      }
+      
+      const brandData = parseBrandData(providerResult.response, brand_name, sanitizedBrandTags);
+      const isCited = providerResult.citations.some(c =>
+        [brand_name, targetDomain, ...sanitizedBrandTags].some(term =>
+          term && (c.domain.toLowerCase().includes(term.toLowerCase()) ||
+                  c.url.toLowerCase().includes(term.toLowerCase()))
+        )
+      );
+      
+      results.push(createModelResult(
+        modelId,
+        providerResult.success,
+        providerResult.success ? providerResult.response : `${describeRoute(route)} failed for ${modelId}: ${providerResult.error || "no response"}`,
+        providerResult.citations,
+        providerResult.cost,
+        brand_name,
+        sanitizedBrandTags,
+        targetDomain,
+        sanitizedCompetitors,
+        providerResult.error,
+        {
+          brand_mentioned: brandData.mentioned,
+          brand_mention_count: brandData.count,
+          is_cited: isCited,
+          response_time_ms: providerResult.latency_ms,
+          from_cache: providerResult.from_cache,
+          answer_source: describeRoute(route),
+        }
+      ));
+    })());
+  }
+
+  // Query search engines (Google, Bing, generic SERP)
+  for (const modelId of requestedSearch) {
+    promises.push((async () => {
+      const search = SEARCH_MODELS[modelId];
+      const serpResult = await search.fetch(prompt_text, location_code, force_refresh, serpEngine, language);
+      totalCost += serpResult.cost;
+      if (!serpResult.from_cache) {
+        usage.push({ api_name: search.apiName, endpoint: search.endpoint(serpEngine), cost: serpResult.cost, models_used: [modelId] });
+      }
+      
+      const brandData = parseBrandData(serpResult.response, brand_name, sanitizedBrandTags);
+      const isCited = serpResult.citations.some(c =>
+        [brand_name, targetDomain, ...sanitizedBrandTags].some(term =>
+          term && (c.domain.toLowerCase().includes(term.toLowerCase()) ||
+                  c.url.toLowerCase().includes(term.toLowerCase()))
+        )
+      );
+      
+      results.push(createModelResult(
+        modelId,
+        serpResult.success,
+        serpResult.response,
+        serpResult.citations,
+        serpResult.cost,
         brand_name,
-        brand_domain: targetDomain,
-        brand_tags: sanitizedBrandTags,
-        competitors: sanitizedCompetitors,
-        models_requested: models,
-        summary: {
+        sanitizedBrandTags,
+        targetDomain,
+        sanitizedCompetitors,
+        serpResult.error,
+        {
+          brand_mentioned: brandData.mentioned,
+          brand_mention_count: brandData.count,
+          is_cited: isCited,
+          response_time_ms: serpResult.response_time_ms,
+          from_cache: serpResult.from_cache,
+          answer_source: modelId === "generic_serp" ? `dataforseo_serp:${serpEngine}` : undefined,
+        }
+      ));
+    })());
+  }
+
+  // Wait for all API calls to complete
+  await Promise.all(promises);
+
+  // Extra samples per successful model (models run in parallel, samples in sequence)
+  if (sampleCount > 1) {
+    const sampled = await Promise.all(results.filter(r => r.success).map(r =>
+      applyExtraSamples(r, sampleCount - 1, prompt_text, location_code, brand_name, sanitizedBrandTags, targetDomain, sanitizedCompetitors, routes[r.model], serpEngine, language)
+    ));
+    for (const extra of sampled) {
+      totalCost += extra.cost;
+      usage.push(...extra.usage);
+    }
+  }
+
+  const sentimentRefinement = await refineBrandSentiment(results, brand_name, sanitizedBrandTags);
+  totalCost += sentimentRefinement.cost;
+  usage.push(...sentimentRefinement.usage);
+  await logApiUsage(client_id, budgetCheck.budget?.organization_id || null, prompt_text, usage);
+
+  classifyCitations(results, {
+    brandDomain: targetDomain,
+    brandName: brand_name,
+    brandTags: sanitizedBrandTags,
+    competitors: sanitizedCompetitors,
+    overrides: clientSettings.source_overrides || {},
+  });
+
+  // Calculate aggregate metrics
+  const successfulResults = results.filter(r => r.success);
+  const { summary, top_sources: topSources, top_competitors: topCompetitors } = summarizeAudit(results, sampleCount, totalCost);
+  const shareOfVoice = summary.share_of_voice;
+
+  // Save to database if requested
+  let saved_id: string | null = null;
+  console.log(`[DB] save_to_db=${save_to_db}, SUPABASE_URL=${SUPABASE_URL ? 'SET' : 'NOT SET'}, SUPABASE_KEY=${SUPABASE_KEY ? 'SET' : 'NOT SET'}`);
+  if (save_to_db && SUPABASE_URL && SUPABASE_KEY) {
+    try {
+      const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+      console.log("[DB] Attempting to save audit result...");
+      const { data: savedData, error: saveError } = await supabase
+        .from("audit_results")
+        .insert({
+          client_id,
+          prompt_id,
+          prompt_text,
+          prompt_category,
+          language,
+          location_code,
+          brand_name,
+          brand_tags: clientBrandTags,
+          competitors: clientCompetitors,
+          models_used: models,
           share_of_voice: shareOfVoice,
-          visibility_score: visibilityScore,
-          trust_index: trustIndex,
-          average_rank: avgRank,
-          total_models_checked: totalModels,
-          models_failed: results.length - totalModels,
-          visible_in: visibleCount,
-          cited_in: citedCount,
-          total_citations: successfulResults.reduce((sum, r) => sum + r.citation_count, 0),
+          visibility_score: summary.visibility_score,
+          trust_index: summary.trust_index,
+          average_rank: summary.average_rank,
+          total_models_checked: summary.total_models_checked,
+          visible_in: summary.visible_in,
+          cited_in: summary.cited_in,
+          total_citations: summary.total_citations,
           total_cost: totalCost,
-        },
-        model_results: results,
-        top_sources: topSources,
-        top_competitors: topCompetitors,
-        available_models: Object.entries(AI_MODELS).map(([id, m]) => ({ id, ...m })),
-        timestamp: new Date().toISOString(),
+          model_results: results,
+          top_sources: topSources,
+          top_competitors: topCompetitors,
+          parser_version: PARSER_VERSION,
+          summary, // Also save as JSONB for easier frontend access
+        })
+        .select("id")
+        .single();
+      
+      if (!saveError && savedData) {
+        saved_id = savedData.id;
+        console.log(`[DB] Saved audit result: ${saved_id}`);
+        
+        // Also save individual citations for fast queries
+        const citationRecords = [];
+        for (const result of successfulResults) {
+          for (const c of result.citations) {
+            citationRecords.push({
+              audit_result_id: saved_id,
+              client_id,
+              url: c.url,
+              title: c.title,
+              domain: c.domain,
+              position: c.position,
+              snippet: c.snippet,
+              model: result.model,
+              is_brand_source: c.is_brand_source || false,
+              source_class: c.source_class || "other",
+              authority: c.authority ?? null,
+            });
+          }
+        }
+        
+        if (citationRecords.length > 0) {
+          const { error: citationError } = await supabase.from("forzeo_citations").insert(citationRecords);
+          if (citationError) console.error("[DB] Citation save error:", citationError);
+        }
+        
+        // Evaluate alert rules against the previous run of this prompt
+        if (client_id) {
+          try {
+            await processAuditAlerts(supabase, {
+              id: saved_id,
+              client_id,
+              prompt_id: prompt_id || null,
+              prompt_text,
+              location_code,
+              brand_domain: targetDomain,
+              share_of_voice: shareOfVoice,
+              model_results: results,
+            });
+          } catch (alertErr) {
+            console.error("[Alerts] Evaluation error:", alertErr);
+          }
+        }
+      } else if (saveError) {
+        console.error("[DB] Audit result save error:", saveError.message, saveError.details, saveError.hint);
+      }
+    } catch (dbErr) {
+      console.error("[DB] Save error:", dbErr);
+      // Don't fail the request if DB save fails
+    }
+  }
+
+  // Build response
+  const responseData = {
+    success: true,
+    data: {
+      id: saved_id,
+      client_id,
+      prompt_id,
+      prompt_text,
+      prompt_category,
+      language,
+      location_code,
+      location_name,
+      brand_name,
+      brand_domain: targetDomain,
+      brand_tags: clientBrandTags,
+      competitors: clientCompetitors,
+      models_requested: models,
+      budget: {
+        estimated_cost: budgetCheck.estimated_cost,
+        trimmed_models: budgetCheck.trimmed_models,
+        remaining_usd: budgetCheck.budget?.remaining_usd ?? null,
       },
-    };
+      summary,
+      model_results: results,
+      top_sources: topSources,
+      top_competitors: topCompetitors,
+      available_models: Object.entries(AI_MODELS).map(([id, m]) => ({ id, ...m })),
+      timestamp: new Date().toISOString(),
+    },
+  };
 
-    console.log(`[GEO Audit] Done. SOV: ${shareOfVoice}%, Visibility: ${visibilityScore}, Trust: ${trustIndex}, Cost: $${totalCost.toFixed(4)}`);
+  console.log(`[GEO Audit] Done. SOV: ${shareOfVoice}%, Visibility: ${summary.visibility_score}, Trust: ${summary.trust_index}, Cost: $${totalCost.toFixed(4)}`);
 
-    return new Response(JSON.stringify(responseData), {
-      status: 200,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
+  return responseData;
+}
+
+// ============================================
+// BATCH JOBS
+// ============================================
+
+/**
+ * Validate a batch request
+ * Returns error message if invalid, null if valid
+ */
+function validateBatchRequest(body: BatchAuditRequest): string | null {
+  if (!body.client_id) {
+    return "client_id is required for batch mode";
+  }
+  if (body.prompt_ids && !Array.isArray(body.prompt_ids)) {
+    return "prompt_ids must be an array";
+  }
+  if (body.prompt_ids && body.prompt_ids.length > BATCH_MAX_PROMPTS) {
+    return `prompt_ids must contain at most ${BATCH_MAX_PROMPTS} prompts`;
+  }
+  if (body.models && !Array.isArray(body.models)) {
+    return "models must be an array";
+  }
+  if (body.location_code && !isValidLocationCode(body.location_code)) {
+    return "invalid location_code";
+  }
+  if (body.location_codes && !Array.isArray(body.location_codes)) {
+    return "location_codes must be an array";
+  }
+  if (body.location_codes && body.location_codes.length > BATCH_MAX_LOCATIONS) {
+    return `location_codes must contain at most ${BATCH_MAX_LOCATIONS} locations`;
+  }
+  if (body.location_codes?.some(code => !isValidLocationCode(code))) {
+    return "invalid location_codes";
+  }
+  if (body.language && !findLanguage(body.language)) {
+    return `unsupported language: ${body.language}`;
+  }
+  if (body.budget_policy && !["trim", "reject"].includes(body.budget_policy)) {
+    return "budget_policy must be \"trim\" or \"reject\"";
+  }
+  if (body.samples !== undefined && (!Number.isInteger(body.samples) || body.samples < 1 || body.samples > MAX_SAMPLES)) {
+    return `samples must be an integer from 1 to ${MAX_SAMPLES}`;
+  }
+  return null;
+}
+
+type BatchPrompt = { id: string; prompt_text: string; category: string; language?: string | null };
+
+// One runAudit call: a prompt at one location
+type BatchTask = { prompt: BatchPrompt; location_code: number };
+
+/**
+ * Locations a batch runs at: the request's list, else the client's audit locations,
+ * else the single location_code (request, then client)
+ */
+function resolveBatchLocations(body: BatchAuditRequest, client: Record<string, any>): number[] {
+  const configured = body.location_codes?.length
+    ? body.location_codes
+    : (client.settings?.audit_locations || []).filter(isValidLocationCode).slice(0, BATCH_MAX_LOCATIONS);
+  const codes = configured.length > 0
+    ? configured
+    : [body.location_code || client.location_code || DEFAULT_LOCATION_CODE];
+  return Array.from(new Set(codes.map(Number)));
+}
+
+/**
+ * Create an audit job for a client's prompts
+ * Loads the client and prompts server-side so the browser only sends IDs
+ */
+async function createBatchJob(
+  supabase: ReturnType<typeof createClient>,
+  body: BatchAuditRequest
+): Promise<{
+  job?: { id: string; prompts_total: number };
+  client?: Record<string, any>;
+  tasks?: BatchTask[];
+  location_codes?: number[];
+  prompts_skipped?: number;
+  error?: string;
+}> {
+  const { data: client, error: clientError } = await supabase
+    .from("clients").select("*").eq("id", body.client_id).single();
+  if (clientError || !client) {
+    return { error: "Client not found" };
+  }
+
+  let promptQuery = supabase
+    .from("forzeo_prompts")
+    .select("id, prompt_text, category, language")
+    .eq("client_id", client.id)
+    .order("created_at", { ascending: true });
+  promptQuery = body.prompt_ids?.length
+    ? promptQuery.in("id", body.prompt_ids)
+    : promptQuery.eq("is_active", true);
+
+  const { data: loadedPrompts, error: promptError } = await promptQuery.limit(BATCH_MAX_PROMPTS);
+  if (promptError) {
+    return { error: `Failed to load prompts: ${promptError.message}` };
+  }
+  if (!loadedPrompts || loadedPrompts.length === 0) {
+    return { error: "No prompts to run" };
+  }
+
+  // Every prompt runs once per location, prompt by prompt
+  const locationCodes = resolveBatchLocations(body, client);
+  const allTasks: BatchTask[] = loadedPrompts.flatMap(prompt =>
+    locationCodes.map(location_code => ({ prompt, location_code }))
+  );
+
+  // Pre-flight budget check: trim the run list (or reject) before anything is queued
+  const perPromptCost = estimatePromptCost(body.models || DEFAULT_MODELS, resolveModelRoutes(client.settings?.model_routing, body.routing)) * (body.samples || 1);
+  const budget = await getBudgetStatus(supabase, client.id);
+  const affordable = getAffordablePrompts(budget, perPromptCost);
+  let tasks = allTasks;
+  if (affordable !== null && affordable < allTasks.length) {
+    if (affordable === 0 || body.budget_policy === "reject") {
+      return { error: `Monthly budget exceeded: ${allTasks.length} prompt runs need ~$${(perPromptCost * allTasks.length).toFixed(2)}, budget covers ${affordable}` };
+    }
+    tasks = allTasks.slice(0, affordable);
+    console.log(`[Batch] Budget covers ${affordable}/${allTasks.length} prompt runs, skipping the rest`);
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from("audit_jobs")
+    .insert({
+      client_id: client.id,
+      status: "queued",
+      prompt_ids: Array.from(new Set(tasks.map(t => t.prompt.id))),
+      location_codes: locationCodes,
+      models: body.models || null,
+      prompts_total: tasks.length,
+    })
+    .select("id, prompts_total")
+    .single();
+  if (jobError || !job) {
+    return { error: `Failed to create job: ${jobError?.message || "unknown error"}` };
+  }
+
+  return { job, client, tasks, location_codes: locationCodes, prompts_skipped: allTasks.length - tasks.length };
+}
+
+/**
+ * Run every prompt/location pair of a job through runAudit with bounded concurrency
+ * Progress is written to audit_jobs after each run so the dashboard can poll it
+ * updated_at moves with every run; a job that stops moving lost its worker and is
+ * failed by run-scheduled-audits (the dashboard stops polling it sooner)
+ */
+async function processBatchJob(
+  supabase: ReturnType<typeof createClient>,
+  jobId: string,
+  client: Record<string, any>,
+  tasks: BatchTask[],
+  body: BatchAuditRequest
+): Promise<void> {
+  const concurrency = Math.min(
+    Math.max(1, body.concurrency || BATCH_DEFAULT_CONCURRENCY),
+    BATCH_MAX_CONCURRENCY
+  );
+  const progress = { completed: 0, failed: 0, total_cost: 0, audit_result_ids: [] as string[] };
+  let nextIndex = 0;
+
+  console.log(`[Batch ${jobId}] Running ${tasks.length} prompt runs, concurrency ${concurrency}`);
+  await supabase.from("audit_jobs")
+    .update({ status: "running", started_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq("id", jobId);
+
+  const worker = async () => {
+    while (nextIndex < tasks.length) {
+      const { prompt, location_code } = tasks[nextIndex++];
+      try {
+        const result = await runAudit({
+          client_id: client.id,
+          prompt_id: prompt.id,
+          prompt_text: prompt.prompt_text,
+          prompt_category: prompt.category || "custom",
+          brand_name: client.brand_name,
+          brand_domain: client.brand_domain || "",
+          brand_tags: client.brand_tags || [],
+          competitors: client.competitors || [],
+          location_code,
+          language: body.language || prompt.language || client.language,
+          models: body.models,
+          save_to_db: true,
+          force_refresh: body.force_refresh,
+          budget_policy: body.budget_policy,
+          samples: body.samples,
+          routing: body.routing,
+        });
+        progress.completed++;
+        progress.total_cost += result.data.summary.total_cost;
+        if (result.data.id) progress.audit_result_ids.push(result.data.id);
+      } catch (err) {
+        progress.failed++;
+        console.error(`[Batch ${jobId}] Prompt ${prompt.id} @ ${location_code} failed:`, err);
+      }
+
+      const { error } = await supabase.from("audit_jobs").update({
+        prompts_completed: progress.completed,
+        prompts_failed: progress.failed,
+        total_cost: progress.total_cost,
+        audit_result_ids: progress.audit_result_ids,
+        updated_at: new Date().toISOString(),
+      }).eq("id", jobId);
+      if (error) console.error(`[Batch ${jobId}] Progress update error:`, error.message);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, tasks.length) }, worker));
+  } finally {
+    const status = progress.failed === 0 ? "completed" : progress.completed === 0 ? "failed" : "partial";
+    await supabase.from("audit_jobs").update({
+      status,
+      finished_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }).eq("id", jobId);
+    console.log(`[Batch ${jobId}] ${status}: ${progress.completed}/${tasks.length} ok, ${progress.failed} failed, cost $${progress.total_cost.toFixed(4)}`);
+  }
+}
+
+/**
+ * Handle a batch request: create the job, respond immediately, keep working in the background
+ */
+async function handleBatchRequest(body: BatchAuditRequest): Promise<Response> {
+  const validationError = validateBatchRequest(body);
+  if (validationError) {
+    return new Response(
+      JSON.stringify({ success: false, error: validationError }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_KEY) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Batch mode requires database access" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+  const { job, client, tasks, location_codes, prompts_skipped, error } = await createBatchJob(supabase, body);
+  if (error || !job) {
+    return new Response(
+      JSON.stringify({ success: false, error }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const work = processBatchJob(supabase, job.id, client!, tasks!, body);
+  if (typeof EdgeRuntime !== "undefined" && EdgeRuntime.waitUntil) {
+    // Keep the worker alive after the response is sent (closing the tab no longer stops the run)
+    EdgeRuntime.waitUntil(work);
+  } else {
+    await work;
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, data: { job_id: job.id, prompts_total: job.prompts_total, prompts_skipped, location_codes, status: "queued" } }),
+    { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// ============================================
+// COMPETITOR BACKFILL
+// ============================================
+// Finds newly tracked competitors in stored responses - no provider calls, no cost
+
+// Stored audits are re-parsed in pages of this many rows (backfill and reprocess)
+const STORED_PAGE_SIZE = 200;
+
+/**
+ * Add competitors to one stored model result: competitors_found and winner_brand
+ */
+function backfillModelResult(
+  result: ModelResult,
+  newCompetitors: string[],
+  allCompetitors: string[],
+  brandName: string,
+  brandTags: string[]
+): ModelResult {
+  if (!result.success || !result.raw_response) return result;
+
+  const ranked = result.ranked_entities || parseRankedEntities(result.raw_response);
+  const found = parseCompetitors(result.raw_response, newCompetitors, ranked);
+  const foundKeys = new Set(found.map(c => normalizeEntityName(c.name)));
+  const kept = (result.competitors_found || []).filter(c => !foundKeys.has(normalizeEntityName(c.name)));
+
+  return {
+    ...result,
+    ranked_entities: ranked,
+    competitors_found: [...kept, ...found].sort((a, b) => b.count - a.count),
+    winner_brand: findWinnerBrand(result.raw_response, brandName, allCompetitors, brandTags, ranked),
+  };
+}
+
+/**
+ * Handle a backfill request: re-parse every stored audit of a client for new competitors
+ */
+async function handleBackfillRequest(body: BackfillRequest): Promise<Response> {
+  const newCompetitors = (Array.isArray(body.competitors) ? body.competitors : [])
+    .map(c => sanitizeString(c, 100))
+    .filter(Boolean)
+    .slice(0, 20);
+  if (!body.client_id || newCompetitors.length === 0) {
+    return new Response(
+      JSON.stringify({ success: false, error: "client_id and competitors are required for backfill" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const supabase = getServiceClient();
+  if (!supabase) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Backfill requires database access" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const languageAliases = (await loadClientSettings(body.client_id)).language_aliases || {};
+  let scanned = 0;
+  let updated = 0;
+  for (let from = 0; ; from += STORED_PAGE_SIZE) {
+    const { data: rows, error } = await supabase
+      .from("audit_results")
+      .select("id, language, brand_name, brand_tags, competitors, model_results")
+      .eq("client_id", body.client_id)
+      .order("created_at", { ascending: true })
+      .range(from, from + STORED_PAGE_SIZE - 1);
+    if (error) throw new Error(`Backfill failed: ${error.message}`);
+    if (!rows || rows.length === 0) break;
+
+    for (const row of rows) {
+      scanned++;
+      const existing: string[] = row.competitors || [];
+      const existingKeys = new Set(existing.map(c => normalizeEntityName(parseEntity(c).name)));
+      const allCompetitors = [
+        ...existing,
+        ...newCompetitors.filter(c => !existingKeys.has(normalizeEntityName(parseEntity(c).name))),
+      ];
+      // Match with the aliases of the audit's language
+      const aliases = languageAliases[normalizeLanguage(row.language)];
+      const matching = withLanguageAliases(row.brand_tags || [], allCompetitors, aliases);
+      const added = withLanguageAliases([], newCompetitors, aliases).competitors;
+      const modelResults = (row.model_results || []).map((mr: ModelResult) =>
+        backfillModelResult(mr, added, matching.competitors, row.brand_name || "", matching.brandTags)
+      );
+
+      const { error: updateError } = await supabase
+        .from("audit_results")
+        .update({
+          competitors: allCompetitors,
+          model_results: modelResults,
+          top_competitors: aggregateTopCompetitors(modelResults.filter((r: ModelResult) => r.success)),
+        })
+        .eq("id", row.id);
+      if (updateError) console.error(`[Backfill] Update failed for ${row.id}:`, updateError);
+      else updated++;
+    }
+    if (rows.length < STORED_PAGE_SIZE) break;
+  }
+
+  console.log(`[Backfill] ${newCompetitors.join(", ")}: ${updated}/${scanned} audits updated`);
+  return new Response(JSON.stringify({
+    success: true,
+    data: { competitors: newCompetitors, audits_scanned: scanned, audits_updated: updated },
+  }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+}
+
+// ============================================
+// REPROCESSING
+// ============================================
+// Re-runs createModelResult's parsing over stored responses with the client's
+// current brand tags and competitors - no provider calls, no cost
+
+/**
+ * Re-parse one stored model result; failed results are kept as they are
+ */
+function reprocessModelResult(
+  stored: ModelResult,
+  brandName: string,
+  brandTags: string[],
+  brandDomain: string,
+  competitors: string[]
+): ModelResult {
+  if (!stored.raw_response) return stored;
+
+  const citations = (stored.citations || []).map(({ is_brand_source: _flag, source_class: _class, authority: _authority, ...c }) => c);
+  const brandData = parseBrandData(stored.raw_response, brandName, brandTags);
+  const fresh = createModelResult(
+    stored.model, stored.success, stored.raw_response, citations, stored.api_cost,
+    brandName, brandTags, brandDomain, competitors, stored.error,
+    {
+      brand_mentioned: brandData.mentioned,
+      brand_mention_count: brandData.count,
+      ai_search_volume: stored.ai_search_volume,
+      response_time_ms: stored.response_time_ms,
+      from_cache: stored.from_cache,
+      answer_source: stored.answer_source,
+    }
+  );
+  const result: ModelResult = { ...stored, ...fresh };
+
+  // Multi-sample runs: re-parse every sample and redo the majority vote
+  if (stored.samples && stored.samples.length > 1) {
+    result.samples = stored.samples.map(sample => {
+      const data = parseBrandData(sample.response, brandName, brandTags);
+      return { ...sample, brand_mentioned: data.mentioned, brand_mention_count: data.count, brand_rank: data.rank };
+    });
+    result.sample_stats = summarizeSamples(result.samples);
+    result.brand_mentioned = result.sample_stats.mention_probability >= 0.5;
+    result.brand_rank = result.sample_stats.rank_median !== null ? Math.round(result.sample_stats.rank_median) : null;
+  }
+  return result;
+}
+
+/**
+ * Handle a reprocess request: refresh the metrics of a client's stored audits (optionally a date range)
+ */
+async function handleReprocessRequest(body: ReprocessRequest): Promise<Response> {
+  const fromDate = body.from ? new Date(body.from) : null;
+  const toDate = body.to ? new Date(body.to) : null;
+  if (!body.client_id || (fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return new Response(
+      JSON.stringify({ success: false, error: "client_id is required; from/to must be ISO dates" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const supabase = getServiceClient();
+  if (!supabase) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Reprocessing requires database access" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const { data: client, error: clientError } = await supabase
+    .from("clients")
+    .select("brand_name, brand_tags, brand_domain, competitors, settings")
+    .eq("id", body.client_id)
+    .single();
+  if (clientError || !client) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Client not found" }),
+      { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  const brandTags: string[] = client.brand_tags || [];
+  const competitors: string[] = client.competitors || [];
+  const brandDomain = client.brand_domain || "";
+  const sourceContext: SourceContext = {
+    brandDomain,
+    brandName: client.brand_name,
+    brandTags,
+    competitors,
+    overrides: client.settings?.source_overrides || {},
+  };
+
+  let scanned = 0;
+  let updated = 0;
+  for (let offset = 0; ; offset += STORED_PAGE_SIZE) {
+    let query = supabase
+      .from("audit_results")
+      .select("id, language, model_results, total_cost, summary")
+      .eq("client_id", body.client_id);
+    if (fromDate) query = query.gte("created_at", fromDate.toISOString());
+    if (toDate) {
+      // "to" is a whole day when given as a date
+      const end = /^\d{4}-\d{2}-\d{2}$/.test(body.to!) ? new Date(toDate.getTime() + 86400000) : toDate;
+      query = query.lt("created_at", end.toISOString());
+    }
+    const { data: rows, error } = await query
+      .order("created_at", { ascending: true })
+      .range(offset, offset + STORED_PAGE_SIZE - 1);
+    if (error) throw new Error(`Reprocess failed: ${error.message}`);
+    if (!rows || rows.length === 0) break;
+
+    for (const row of rows) {
+      scanned++;
+      const matching = withLanguageAliases(brandTags, competitors, client.settings?.language_aliases?.[normalizeLanguage(row.language)]);
+      const results: ModelResult[] = (row.model_results || []).map((mr: ModelResult) =>
+        reprocessModelResult(mr, client.brand_name, matching.brandTags, brandDomain, matching.competitors)
+      );
+      classifyCitations(results, sourceContext);
+      const { summary, top_sources, top_competitors } = summarizeAudit(
+        results, row.summary?.samples || 1, Number(row.total_cost) || 0
+      );
+
+      const { error: updateError } = await supabase
+        .from("audit_results")
+        .update({
+          brand_name: client.brand_name,
+          brand_tags: brandTags,
+          competitors,
+          share_of_voice: summary.share_of_voice,
+          visibility_score: summary.visibility_score,
+          trust_index: summary.trust_index,
+          average_rank: summary.average_rank,
+          total_models_checked: summary.total_models_checked,
+          visible_in: summary.visible_in,
+          cited_in: summary.cited_in,
+          total_citations: summary.total_citations,
+          model_results: results,
+          top_sources,
+          top_competitors,
+          summary,
+          parser_version: PARSER_VERSION,
+          reprocessed_at: new Date().toISOString(),
+        })
+        .eq("id", row.id);
+      if (updateError) console.error(`[Reprocess] Update failed for ${row.id}:`, updateError);
+      else updated++;
+    }
+    if (rows.length < STORED_PAGE_SIZE) break;
+  }
+
+  console.log(`[Reprocess] Client ${body.client_id}: ${updated}/${scanned} audits updated (parser v${PARSER_VERSION})`);
+  return new Response(JSON.stringify({
+    success: true,
+    data: { parser_version: PARSER_VERSION, audits_scanned: scanned, audits_updated: updated },
+  }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+}
+
+// ============================================
+// COST ESTIMATE
+// ============================================
+
+/**
+ * Handle an estimate request: what a run would cost and whether the budget covers it
+ * Nothing is called or written - the dashboard shows this before Run is pressed
+ */
+async function handleEstimateRequest(body: EstimateRequest): Promise<Response> {
+  const models = Array.isArray(body.models) && body.models.length > 0 ? body.models : DEFAULT_MODELS;
+  const prompts = Math.max(1, Math.min(Math.floor(Number(body.prompt_count) || 1), BATCH_MAX_PROMPTS));
+  const locations = Math.max(1, Math.min(Math.floor(Number(body.location_count) || 1), BATCH_MAX_LOCATIONS));
+  const runs = prompts * locations;
+  const samples = Math.max(1, Math.min(Math.floor(Number(body.samples) || 1), MAX_SAMPLES));
+  const routes = resolveModelRoutes((await loadClientSettings(body.client_id)).model_routing, body.routing);
+  const perPromptCost = estimatePromptCost(models, routes) * samples;
+
+  const supabase = getServiceClient();
+  const budget = supabase ? await getBudgetStatus(supabase, body.client_id) : null;
+  const affordable = budget ? getAffordablePrompts(budget, perPromptCost) : null;
+
+  return new Response(JSON.stringify({
+    success: true,
+    data: {
+      models,
+      prompts,
+      locations,
+      samples,
+      per_prompt_cost: perPromptCost,
+      estimated_cost: perPromptCost * runs,
+      budget,
+      affordable_prompts: affordable,
+      within_budget: affordable === null || affordable >= runs,
+    },
+  }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return new Response(
+      JSON.stringify({ success: false, error: "Method not allowed" }),
+      { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    // Parse and validate request
+    const body = await req.json() as AuditRequest | BatchAuditRequest | EstimateRequest | BackfillRequest | ReprocessRequest;
+
+    // Access control: the caller needs a role on the client that allows this mode
+    const mode = (body as { mode?: string }).mode;
+    const permission: Permission = mode === "estimate" ? "view"
+      : mode === "backfill" || mode === "reprocess" ? "edit_competitors"
+      : "run_audits";
+    const access = await authorize(req, getServiceClient(), SUPABASE_KEY, (body as { client_id?: string }).client_id, permission);
+    if (!access.allowed) {
+      return new Response(
+        JSON.stringify({ success: false, error: access.error }),
+        { status: access.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    
+    if ((body as EstimateRequest).mode === "estimate") {
+      return await handleEstimateRequest(body as EstimateRequest);
+    }
+
+    // Everything below may call providers: use the client's organization keys
+    // (batch jobs keep them after the response is sent)
+    const credentials = await loadCredentials(getServiceClient(), (body as { client_id?: string }).client_id);
+    return await withCredentials(credentials, async () => {
+      if ((body as BatchAuditRequest).mode === "batch") {
+        return await handleBatchRequest(body as BatchAuditRequest);
+      }
+      if ((body as BackfillRequest).mode === "backfill") {
+        return await handleBackfillRequest(body as BackfillRequest);
+      }
+      if ((body as ReprocessRequest).mode === "reprocess") {
+        return await handleReprocessRequest(body as ReprocessRequest);
+      }
+
+      const validationError = validateRequest(body);
+      if (validationError) {
+        return new Response(
+          JSON.stringify({ success: false, error: validationError }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const responseData = await runAudit(body);
+
+      return new Response(JSON.stringify(responseData), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
     });
 
   } catch (error) {
@@ -0,0 +1,197 @@
+// @ts-nocheck
+/**
+ * ============================================================================
+ * FORZEO CREDENTIALS MANAGER
+ * ============================================================================
+ *
+ * Lets owners and admins add, test, rotate and remove their organization's
+ * provider keys (_shared/credentialProviders.ts). Keys are encrypted by the
+ * database with CREDENTIALS_ENCRYPTION_KEY and never returned - responses
+ * only carry a hint (last characters) and the last test result.
+ *
+ * ============================================================================
+ * REQUEST
+ * ============================================================================
+ *
+ * POST /functions/v1/manage-credentials
+ * { "action": "list",   "organization_id": "uuid" }
+ * { "action": "save",   "organization_id": "uuid", "provider": "openai", "secret": "sk-..." }
+ *     -> add or rotate, then test the new key
+ * { "action": "test",   "organization_id": "uuid", "provider": "openai" }
+ *     -> test the stored key (or the env fallback when none is stored)
+ * { "action": "delete", "organization_id": "uuid", "provider": "openai" }
+ *
+ * Needs the manage_credentials permission (owner or admin).
+ *
+ * @version 1.0.0
+ * @author Forzeo Team
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authorizeOrganization } from "../_shared/auth.ts";
+import {
+  CREDENTIALS_KEY,
+  envCredentials,
+  getOrganizationCredentials,
+  saveCredential,
+  testCredential,
+} from "../_shared/credentials.ts";
+import {
+  CREDENTIAL_PROVIDER_IDS,
+  isCredentialProvider,
+  keyHint,
+  type CredentialProvider,
+} from "../_shared/credentialProviders.ts";
+
+// ============================================
+// CORS CONFIGURATION
+// ============================================
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "X-Content-Type-Options": "nosniff",
+  "X-Frame-Options": "DENY",
+};
+
+// ============================================
+// ENVIRONMENT CONFIGURATION
+// ============================================
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") || "";
+const SUPABASE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+const MAX_SECRET_LENGTH = 500;
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface CredentialsRequest {
+  action: "list" | "save" | "test" | "delete";
+  organization_id: string;
+  provider?: CredentialProvider;
+  secret?: string;
+}
+
+interface CredentialStatus {
+  provider: CredentialProvider;
+  configured: boolean;          // the organization stored a key
+  key_hint: string | null;
+  env_fallback: boolean;        // a project secret covers the provider when no key is stored
+  last_tested_at: string | null;
+  last_test_ok: boolean | null;
+  last_test_message: string | null;
+  updated_at: string | null;
+  rotated_at: string | null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status, headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function listCredentials(supabase, organizationId: string): Promise<CredentialStatus[]> {
+  const { data, error } = await supabase
+    .from("organization_credentials")
+    .select("provider, key_hint, last_tested_at, last_test_ok, last_test_message, updated_at, rotated_at")
+    .eq("organization_id", organizationId);
+  if (error) throw new Error(`Failed to load keys: ${error.message}`);
+
+  const env = envCredentials();
+  return CREDENTIAL_PROVIDER_IDS.map(provider => {
+    const row = (data || []).find(r => r.provider === provider);
+    return {
+      provider, configured: !!row, key_hint: row?.key_hint ?? null, env_fallback: !!env[provider],
+      last_tested_at: row?.last_tested_at ?? null, last_test_ok: row?.last_test_ok ?? null,
+      last_test_message: row?.last_test_message ?? null, updated_at: row?.updated_at ?? null, rotated_at: row?.rotated_at ?? null,
+    };
+  });
+}
+
+async function recordTest(supabase, organizationId: string, provider: CredentialProvider, ok: boolean, message: string) {
+  await supabase
+    .from("organization_credentials")
+    .update({ last_tested_at: new Date().toISOString(), last_test_ok: ok, last_test_message: message })
+    .eq("organization_id", organizationId)
+    .eq("provider", provider);
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return json({ success: false, error: "Method not allowed" }, 405);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_KEY) {
+    return json({ success: false, error: "Supabase service credentials not configured" }, 500);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({})) as CredentialsRequest;
+    const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+
+    const access = await authorizeOrganization(req, supabase, SUPABASE_KEY, body.organization_id, "manage_credentials");
+    if (!access.allowed) return json({ success: false, error: access.error }, access.status);
+
+    if (body.action === "list") {
+      return json({ success: true, data: { credentials: await listCredentials(supabase, body.organization_id), encryption: !!CREDENTIALS_KEY } });
+    }
+
+    if (!isCredentialProvider(body.provider)) {
+      return json({ success: false, error: `provider must be one of: ${CREDENTIAL_PROVIDER_IDS.join(", ")}` }, 400);
+    }
+    const provider = body.provider;
+
+    if (body.action === "save") {
+      const secret = typeof body.secret === "string" ? body.secret.trim() : "";
+      if (!secret || secret.length > MAX_SECRET_LENGTH || /\s/.test(secret)) {
+        return json({ success: false, error: "Key is empty, too long or contains spaces" }, 400);
+      }
+      await saveCredential(supabase, body.organization_id, provider, secret, keyHint(secret), access.caller.user_id);
+      const test = await testCredential(provider, secret);
+      await recordTest(supabase, body.organization_id, provider, test.ok, test.message);
+      console.log(`[Credentials] ${provider} key saved for ${body.organization_id} (test ${test.ok ? "ok" : "failed"})`);
+      return json({ success: true, data: { test, credentials: await listCredentials(supabase, body.organization_id) } });
+    }
+
+    if (body.action === "test") {
+      const stored = await getOrganizationCredentials(supabase, body.organization_id);
+      const secret = stored[provider] || envCredentials()[provider] || "";
+      const test = await testCredential(provider, secret);
+      if (stored[provider]) await recordTest(supabase, body.organization_id, provider, test.ok, test.message);
+      return json({ success: true, data: { test, source: stored[provider] ? "organization" : secret ? "environment" : null } });
+    }
+
+    if (body.action === "delete") {
+      const { error } = await supabase
+        .from("organization_credentials").delete()
+        .eq("organization_id", body.organization_id).eq("provider", provider);
+      if (error) throw new Error(`Failed to remove key: ${error.message}`);
+      console.log(`[Credentials] ${provider} key removed for ${body.organization_id}`);
+      return json({ success: true, data: { credentials: await listCredentials(supabase, body.organization_id) } });
+    }
+
+    return json({ success: false, error: "action must be list, save, test or delete" }, 400);
+  } catch (error) {
+    console.error("[Credentials] Error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return json({ success: false, error: errorMessage.replace(/[<>]/g, "").substring(0, 200) }, 500);
+  }
+});
@@ -0,0 +1,513 @@
+// @ts-nocheck
+/**
+ * ============================================================================
+ * FORZEO SCHEDULED AUDIT RUNNER
+ * ============================================================================
+ *
+ * Executes rows from the `scheduled_audits` table. Intended to be called every
+ * hour by pg_cron (see database/add_scheduled_audit_runs.sql).
+ *
+ * Each invocation first marks geo-audit batch jobs (scheduled or started from
+ * the dashboard) failed when their `updated_at` has not moved for JOB_STALE_MS:
+ * the worker was stopped before it could record a final status. Then it
+ * reconciles earlier runs: runs still marked `running` copy progress and final
+ * status from their geo-audit job, and runs older than RUN_TIMEOUT_MS that
+ * never finished are marked failed.
+ *
+ * For every due schedule it then:
+ * 1. Claims the row by advancing `next_run_at` (so overlapping cron calls
+ *    never run the same schedule twice)
+ * 2. Resolves prompts for the client through `prompt_filter`
+ * 3. Hands the prompt set to geo-audit `mode: "batch"`, which runs each prompt
+ *    once per audit location (clients.settings.audit_locations, else
+ *    clients.location_code) in the background - same pipeline as the
+ *    dashboard "Run" button, results saved to audit_results
+ * 4. Records the job id in `scheduled_audit_runs`; later invocations fill in
+ *    progress and final status from `audit_jobs`
+ *
+ * ============================================================================
+ * PROMPT FILTER
+ * ============================================================================
+ *
+ * | Key          | Type     | Description                               |
+ * |--------------|----------|-------------------------------------------|
+ * | categories   | string[] | Only prompts in these categories (empty = all) |
+ * | active_only  | boolean  | Skip inactive prompts (default true)      |
+ * | prompt_ids   | string[] | Explicit prompt IDs to run                |
+ * | limit        | number   | Max prompts per run                       |
+ *
+ * ============================================================================
+ * REQUEST
+ * ============================================================================
+ *
+ * POST /functions/v1/run-scheduled-audits
+ * {}                                 -> run every due schedule (service role key only)
+ * { "schedule_id": "uuid" }          -> run one schedule now (manual trigger, needs a
+ *                                       role that can run audits on its client)
+ *
+ * @version 1.0.0
+ * @author Forzeo Team
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AUTH_REQUIRED, authorize, resolveCaller } from "../_shared/auth.ts";
+
+// ============================================
+// CORS CONFIGURATION
+// ============================================
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "X-Content-Type-Options": "nosniff",
+  "X-Frame-Options": "DENY",
+};
+
+// ============================================
+// ENVIRONMENT CONFIGURATION
+// ============================================
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") || "";
+const SUPABASE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+// Runs still unfinished after this long are marked failed on the next invocation
+const RUN_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+// Batch jobs without progress for this long lost their worker (matches the dashboard)
+const JOB_STALE_MS = 15 * 60 * 1000;
+
+// Safety cap so a misconfigured filter can't burn the whole budget
+const MAX_PROMPTS_PER_RUN = 200;
+const MAX_LOCATIONS_PER_RUN = 10;
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface ScheduledAudit {
+  id: string;
+  client_id: string;
+  frequency: "daily" | "weekly" | "monthly";
+  day_of_week: number | null;
+  day_of_month: number | null;
+  hour_utc: number | null;
+  prompt_filter: PromptFilter | null;
+  models: string[] | null;
+  is_active: boolean;
+  last_run_at: string | null;
+  next_run_at: string | null;
+}
+
+interface PromptFilter {
+  categories?: string[];
+  active_only?: boolean;
+  prompt_ids?: string[];
+  limit?: number;
+}
+
+type RunStatus = "running" | "completed" | "partial" | "failed";
+
+interface RunSummary {
+  schedule_id: string;
+  run_id: string | null;
+  job_id: string | null;
+  client_id: string;
+  status: RunStatus;
+  prompts_total: number;
+  prompts_completed: number;
+  prompts_failed: number;
+  total_cost: number;
+  error?: string;
+}
+
+// ============================================
+// SCHEDULE HELPERS
+// ============================================
+
+/**
+ * Compute the next run time strictly after `from`
+ * daily   -> next hour_utc
+ * weekly  -> next day_of_week (default Monday) at hour_utc
+ * monthly -> next day_of_month (default 1st) at hour_utc
+ */
+function computeNextRunAt(schedule: ScheduledAudit, from: Date): Date {
+  const hour = schedule.hour_utc ?? 9;
+
+  if (schedule.frequency === "monthly") {
+    const day = schedule.day_of_month ?? 1;
+    let next = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), day, hour));
+    if (next <= from) {
+      next = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, day, hour));
+    }
+    return next;
+  }
+
+  const next = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate(), hour));
+
+  if (schedule.frequency === "weekly") {
+    const targetDay = schedule.day_of_week ?? 1;
+    next.setUTCDate(next.getUTCDate() + ((targetDay - next.getUTCDay() + 7) % 7));
+    if (next <= from) next.setUTCDate(next.getUTCDate() + 7);
+    return next;
+  }
+
+  // daily
+  if (next <= from) next.setUTCDate(next.getUTCDate() + 1);
+  return next;
+}
+
+/**
+ * Claim a schedule by moving next_run_at forward
+ * Returns false if another invocation already claimed it
+ */
+async function claimSchedule(
+  supabase: ReturnType<typeof createClient>,
+  schedule: ScheduledAudit,
+  now: Date
+): Promise<boolean> {
+  let query = supabase
+    .from("scheduled_audits")
+    .update({
+      next_run_at: computeNextRunAt(schedule, now).toISOString(),
+      last_run_at: now.toISOString(),
+      last_run_status: "running",
+    })
+    .eq("id", schedule.id);
+
+  query = schedule.next_run_at
+    ? query.eq("next_run_at", schedule.next_run_at)
+    : query.is("next_run_at", null);
+
+  const { data, error } = await query.select("id");
+  if (error) {
+    console.error(`[Scheduler] Claim error for ${schedule.id}:`, error.message);
+    return false;
+  }
+  return (data || []).length > 0;
+}
+
+/**
+ * Resolve the prompts a schedule should run
+ */
+async function resolvePrompts(
+  supabase: ReturnType<typeof createClient>,
+  clientId: string,
+  filter: PromptFilter | null
+): Promise<Array<{ id: string; prompt_text: string; category: string; language?: string | null }>> {
+  const f = filter || {};
+  let query = supabase
+    .from("forzeo_prompts")
+    .select("id, prompt_text, category, language")
+    .eq("client_id", clientId)
+    .order("created_at", { ascending: true });
+
+  if (f.active_only !== false) query = query.eq("is_active", true);
+  if (f.categories && f.categories.length > 0) query = query.in("category", f.categories);
+  if (f.prompt_ids && f.prompt_ids.length > 0) query = query.in("id", f.prompt_ids);
+
+  const limit = Math.min(f.limit && f.limit > 0 ? f.limit : MAX_PROMPTS_PER_RUN, MAX_PROMPTS_PER_RUN);
+  const { data, error } = await query.limit(limit);
+
+  if (error) throw new Error(`Failed to load prompts: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Locations each prompt runs at: the client's audit locations, else its location code
+ */
+function resolveLocations(client: Record<string, any>): number[] {
+  const configured = (client.settings?.audit_locations || [])
+    .map(Number)
+    .filter((code: number) => Number.isInteger(code) && code > 0)
+    .slice(0, MAX_LOCATIONS_PER_RUN);
+  return configured.length > 0 ? Array.from(new Set(configured)) : [client.location_code || 2840];
+}
+
+// ============================================
+// RUN EXECUTION
+// ============================================
+
+/**
+ * Execute one schedule: hand every resolved prompt to a geo-audit batch job
+ * The job keeps running after this invocation returns; reconcileRuns records how it ended
+ */
+async function executeSchedule(
+  supabase: ReturnType<typeof createClient>,
+  schedule: ScheduledAudit
+): Promise<RunSummary> {
+  const summary: RunSummary = {
+    schedule_id: schedule.id,
+    run_id: null,
+    job_id: null,
+    client_id: schedule.client_id,
+    status: "running",
+    prompts_total: 0,
+    prompts_completed: 0,
+    prompts_failed: 0,
+    total_cost: 0,
+  };
+
+  const { data: run, error: runError } = await supabase
+    .from("scheduled_audit_runs")
+    .insert({ scheduled_audit_id: schedule.id, client_id: schedule.client_id, status: "running" })
+    .select("id")
+    .single();
+  if (runError) console.error("[Scheduler] Run insert error:", runError.message);
+  summary.run_id = run?.id || null;
+
+  const updateRun = async (fields: Record<string, unknown>) => {
+    if (!summary.run_id) return;
+    const { error } = await supabase.from("scheduled_audit_runs").update(fields).eq("id", summary.run_id);
+    if (error) console.error("[Scheduler] Run update error:", error.message);
+  };
+
+  try {
+    const { data: client, error: clientError } = await supabase
+      .from("clients").select("*").eq("id", schedule.client_id).single();
+    if (clientError || !client) throw new Error(`Client ${schedule.client_id} not found`);
+
+    const prompts = await resolvePrompts(supabase, schedule.client_id, schedule.prompt_filter);
+    const locationCodes = resolveLocations(client);
+
+    console.log(`[Scheduler] ${client.name}: ${prompts.length} prompts x ${locationCodes.length} locations, models: ${(schedule.models || []).join(", ")}`);
+
+    if (prompts.length > 0) {
+      const { data, error: fnError } = await supabase.functions.invoke("geo-audit", {
+        body: {
+          mode: "batch",
+          client_id: client.id,
+          prompt_ids: prompts.map(prompt => prompt.id),
+          location_codes: locationCodes,
+          models: schedule.models && schedule.models.length > 0 ? schedule.models : undefined,
+        },
+      });
+      if (fnError || !data?.success) {
+        throw new Error(`Batch job not started: ${fnError?.message || data?.error || "unknown error"}`);
+      }
+
+      summary.job_id = data.data.job_id;
+      summary.prompts_total = data.data.prompts_total;
+      await updateRun({ audit_job_id: summary.job_id, prompts_total: summary.prompts_total });
+      console.log(`[Scheduler] Schedule ${schedule.id} started job ${summary.job_id} (${summary.prompts_total} prompt runs)`);
+    } else {
+      summary.status = "completed";
+    }
+  } catch (err) {
+    summary.status = "failed";
+    summary.error = (err instanceof Error ? err.message : String(err)).substring(0, 500);
+    console.error(`[Scheduler] Schedule ${schedule.id} failed: ${summary.error}`);
+  }
+
+  if (summary.status !== "running") {
+    await updateRun({ status: summary.status, error: summary.error || null, finished_at: new Date().toISOString() });
+    await setScheduleStatus(supabase, schedule.id, summary.status);
+  }
+
+  return summary;
+}
+
+/**
+ * Update the schedule's last_run_status
+ */
+async function setScheduleStatus(
+  supabase: ReturnType<typeof createClient>,
+  scheduleId: string,
+  status: RunStatus
+): Promise<void> {
+  const { error } = await supabase
+    .from("scheduled_audits")
+    .update({ last_run_status: status })
+    .eq("id", scheduleId);
+  if (error) console.error("[Scheduler] Schedule status update error:", error.message);
+}
+
+/**
+ * Mark queued/running audit jobs failed when their updated_at stopped advancing
+ * geo-audit bumps updated_at after every prompt run; a worker that hit the edge
+ * runtime's wall-clock limit or was evicted never writes its final status
+ * Returns the number of jobs marked failed
+ */
+async function failStaleJobs(supabase: ReturnType<typeof createClient>, now: Date): Promise<number> {
+  const { data: jobs, error } = await supabase
+    .from("audit_jobs")
+    .update({
+      status: "failed",
+      error: `Stopped: no progress for ${JOB_STALE_MS / 60000} minutes`,
+      finished_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .in("status", ["queued", "running"])
+    .lt("updated_at", new Date(now.getTime() - JOB_STALE_MS).toISOString())
+    .select("id");
+  if (error) {
+    console.error("[Scheduler] Failed to expire stale audit jobs:", error.message);
+    return 0;
+  }
+  if (jobs && jobs.length > 0) console.log(`[Scheduler] Marked ${jobs.length} stale audit jobs failed`);
+  return jobs?.length || 0;
+}
+
+/**
+ * Bring runs still marked `running` up to date
+ * Copies progress and final status from the run's audit job; runs older than
+ * RUN_TIMEOUT_MS that have not finished (or never got a job) are marked failed
+ * Returns the number of runs that reached a final status
+ */
+async function reconcileRuns(supabase: ReturnType<typeof createClient>, now: Date): Promise<number> {
+  const { data: runs, error } = await supabase
+    .from("scheduled_audit_runs")
+    .select("id, scheduled_audit_id, audit_job_id, started_at")
+    .eq("status", "running");
+  if (error) {
+    console.error("[Scheduler] Failed to load running runs:", error.message);
+    return 0;
+  }
+
+  const jobIds = (runs || []).map(run => run.audit_job_id).filter(Boolean);
+  const { data: jobs } = jobIds.length > 0
+    ? await supabase
+      .from("audit_jobs")
+      .select("id, status, prompts_total, prompts_completed, prompts_failed, audit_result_ids, total_cost, error, finished_at")
+      .in("id", jobIds)
+    : { data: [] };
+  const jobsById = new Map((jobs || []).map(job => [job.id, job]));
+
+  let finished = 0;
+  for (const run of runs || []) {
+    const job = run.audit_job_id ? jobsById.get(run.audit_job_id) : undefined;
+    const fields: Record<string, unknown> = job
+      ? {
+        prompts_total: job.prompts_total,
+        prompts_completed: job.prompts_completed,
+        prompts_failed: job.prompts_failed,
+        audit_result_ids: job.audit_result_ids,
+        total_cost: job.total_cost,
+      }
+      : {};
+
+    let status: RunStatus = "running";
+    if (job && ["completed", "partial", "failed"].includes(job.status)) {
+      status = job.status;
+      fields.error = job.error;
+      fields.finished_at = job.finished_at || now.toISOString();
+    } else if (now.getTime() - new Date(run.started_at).getTime() > RUN_TIMEOUT_MS) {
+      status = "failed";
+      fields.error = job ? `Timed out: audit job still ${job.status}` : "Timed out before an audit job was started";
+      fields.finished_at = now.toISOString();
+    }
+    fields.status = status;
+
+    const { error: updateError } = await supabase.from("scheduled_audit_runs").update(fields).eq("id", run.id);
+    if (updateError) {
+      console.error(`[Scheduler] Run ${run.id} reconcile error:`, updateError.message);
+      continue;
+    }
+    if (status !== "running") {
+      await setScheduleStatus(supabase, run.scheduled_audit_id, status);
+      finished++;
+    }
+  }
+
+  return finished;
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return new Response(
+      JSON.stringify({ success: false, error: "Method not allowed" }),
+      { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_KEY) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Supabase service credentials not configured" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const body = await req.json().catch(() => ({})) as { schedule_id?: string };
+    const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+    const now = new Date();
+
+    // Running every due schedule is the cron job's; users may trigger a schedule of a client they can audit
+    if (body.schedule_id) {
+      const { data: target } = await supabase
+        .from("scheduled_audits").select("client_id").eq("id", body.schedule_id).maybeSingle();
+      const access = await authorize(req, supabase, SUPABASE_KEY, target?.client_id, "run_audits");
+      if (!access.allowed) {
+        return new Response(
+          JSON.stringify({ success: false, error: access.error }),
+          { status: access.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    } else if (AUTH_REQUIRED && !(await resolveCaller(req, supabase, SUPABASE_KEY)).service) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Running all schedules requires the service role key" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Load candidate schedules
+    let query = supabase.from("scheduled_audits").select("*").eq("is_active", true);
+    if (body.schedule_id) {
+      query = query.eq("id", body.schedule_id);
+    } else {
+      query = query.or(`next_run_at.is.null,next_run_at.lte.${now.toISOString()}`);
+    }
+    const { data: schedules, error: loadError } = await query;
+    if (loadError) throw new Error(`Failed to load schedules: ${loadError.message}`);
+
+    const staleJobs = await failStaleJobs(supabase, now);
+    const reconciled = await reconcileRuns(supabase, now);
+    const runs: RunSummary[] = [];
+    let initialized = 0;
+
+    for (const schedule of (schedules || []) as ScheduledAudit[]) {
+      // New schedules only get their first slot; they run when it comes due
+      if (!schedule.next_run_at && !body.schedule_id) {
+        await supabase
+          .from("scheduled_audits")
+          .update({ next_run_at: computeNextRunAt(schedule, now).toISOString() })
+          .eq("id", schedule.id)
+          .is("next_run_at", null);
+        initialized++;
+        continue;
+      }
+
+      if (!(await claimSchedule(supabase, schedule, now))) {
+        console.log(`[Scheduler] Schedule ${schedule.id} already claimed, skipping`);
+        continue;
+      }
+
+      runs.push(await executeSchedule(supabase, schedule));
+    }
+
+    console.log(`[Scheduler] Done. ${runs.length} schedules started, ${initialized} initialized, ${reconciled} earlier runs finished, ${staleJobs} stale jobs failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, data: { runs, initialized, reconciled, stale_jobs: staleJobs, timestamp: now.toISOString() } }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[Scheduler] Error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage.replace(/[<>]/g, "").substring(0, 200) }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,161 @@
+// @ts-nocheck
+/**
+ * ============================================================================
+ * FORZEO GEO CONTENT SCORER
+ * ============================================================================
+ *
+ * Scores a Markdown draft (pasted or generated) on how likely AI answers are
+ * to cite it, before it is published. Deterministic - no LLM calls, no cost.
+ * The factors, rules and suggestions live in _shared/contentScore.ts.
+ *
+ * FEATURES:
+ * - 0-100 score over six GEO factors (entities, structure, tracked prompt
+ *   coverage, factual specificity, brand mentions, schema.org markup)
+ * - The writing rules of the content type (CONTENT_RULES, the same lines
+ *   generate-content puts in its system prompt) checked one by one
+ * - Line-level suggestions
+ * - JSON-LD suggestions (FAQPage, HowTo, ItemList, Article) built from the draft
+ * - Brand, brand tags, competitors and active prompts read from the client
+ *
+ * ============================================================================
+ * REQUEST
+ * ============================================================================
+ *
+ * POST /functions/v1/score-content
+ * {
+ *   "client_id": "uuid",
+ *   "content": "# Best dating apps in India\n...",
+ *   "type": "article",              // article | listicle | comparison | guide | faq
+ *   "prompts": ["best dating apps in India"]   // optional, default: the client's active prompts
+ * }
+ *
+ * -> { "success": true, "data": { "score": 72, "factors": [...], "rules": [...],
+ *      "suggestions": [{ "line": 14, "severity": "medium", "factor": "specificity", "message": "..." }],
+ *      "schema": [{ "type": "FAQPage", "reason": "...", "json_ld": "..." }], "stats": {...} } }
+ *
+ * Needs the view permission on the client.
+ *
+ * @version 1.0.0
+ * @author Forzeo Team
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authorize } from "../_shared/auth.ts";
+import {
+  MAX_SCORED_LENGTH,
+  SCORED_CONTENT_TYPES,
+  isScoredContentType,
+  scoreGeoContent,
+} from "../_shared/contentScore.ts";
+
+// ============================================
+// CORS CONFIGURATION
+// ============================================
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "X-Content-Type-Options": "nosniff",
+  "X-Frame-Options": "DENY",
+};
+
+// ============================================
+// ENVIRONMENT CONFIGURATION
+// ============================================
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") || "";
+const SUPABASE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+const MAX_PROMPT_LENGTH = 500;
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+interface ScoreRequest {
+  client_id: string;
+  content: string;
+  type?: string;
+  prompts?: string[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status, headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function activePrompts(supabase, clientId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("forzeo_prompts").select("prompt_text").eq("client_id", clientId).eq("is_active", true);
+  if (error) throw new Error(`Failed to load prompts: ${error.message}`);
+  return (data || []).map(p => p.prompt_text);
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return json({ success: false, error: "Method not allowed" }, 405);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_KEY) {
+    return json({ success: false, error: "Supabase service credentials not configured" }, 500);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({})) as ScoreRequest;
+    const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+
+    if (!body.client_id) return json({ success: false, error: "client_id is required" }, 400);
+    const content = typeof body.content === "string" ? body.content : "";
+    if (!content.trim()) return json({ success: false, error: "content is required" }, 400);
+    if (content.length > MAX_SCORED_LENGTH) {
+      return json({ success: false, error: `content is longer than ${MAX_SCORED_LENGTH} characters` }, 400);
+    }
+    const type = body.type ?? "article";
+    if (!isScoredContentType(type)) {
+      return json({ success: false, error: `type must be one of: ${SCORED_CONTENT_TYPES.join(", ")}` }, 400);
+    }
+
+    const access = await authorize(req, supabase, SUPABASE_KEY, body.client_id, "view");
+    if (!access.allowed) return json({ success: false, error: access.error }, access.status);
+
+    const { data: client } = await supabase
+      .from("clients").select("id, brand_name, brand_tags, competitors").eq("id", body.client_id).maybeSingle();
+    if (!client) return json({ success: false, error: "Client not found" }, 404);
+
+    const prompts = Array.isArray(body.prompts)
+      ? body.prompts.filter(p => typeof p === "string").map(p => p.slice(0, MAX_PROMPT_LENGTH))
+      : await activePrompts(supabase, client.id);
+
+    const score = scoreGeoContent(content, {
+      type,
+      brandName: client.brand_name,
+      brandTags: client.brand_tags || [],
+      competitors: client.competitors || [],
+      prompts,
+    });
+
+    console.log(`[Score] ${type} for ${client.id}: ${score.score}/100, ${score.suggestions.length} suggestions`);
+    return json({ success: true, data: score });
+  } catch (error) {
+    console.error("[Score] Error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return json({ success: false, error: errorMessage.replace(/[<>]/g, "").substring(0, 200) }, 500);
+  }
+});